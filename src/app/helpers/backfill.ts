@@ -0,0 +1,73 @@
+/** A range bound given either as a block height or as a point in time (unix seconds) */
+export type BackfillBound =
+  | { kind: "height"; height: number }
+  | { kind: "time"; unixSeconds: number };
+
+export type BackfillArgs = {
+  from: BackfillBound;
+  /** Inclusive upper bound; the current tip when omitted */
+  to?: BackfillBound;
+  concurrency?: number;
+  checkpointFile?: string;
+  /** Ignore (and overwrite) any stored progress for the range */
+  fresh: boolean;
+};
+
+// Same threshold nLockTime uses to tell heights from timestamps
+const HEIGHT_TIME_THRESHOLD = 500_000_000;
+
+/**
+ * Parse a bound: plain integers below 500000000 are heights, larger integers are unix seconds,
+ * anything else must be a date string understood by Date.parse (e.g. 2024-01-31T00:00:00Z).
+ */
+export function parseBackfillBound(raw: string): BackfillBound {
+  const value = raw.trim();
+  if ( /^\d+$/.test( value ) ) {
+    const n = Number( value );
+    return n < HEIGHT_TIME_THRESHOLD
+      ? { kind: "height", height: n }
+      : { kind: "time", unixSeconds: n };
+  }
+  const ms = Date.parse( value );
+  if ( Number.isNaN( ms ) ) {
+    throw new Error( `Invalid backfill bound "${ raw }": use a height, unix seconds or a date` );
+  }
+  return { kind: "time", unixSeconds: Math.floor( ms / 1000 ) };
+}
+
+/** Parse `--from X [--to Y] [--concurrency N] [--checkpoint FILE] [--fresh]` (also `--k=v`). */
+export function parseBackfillArgs(argv: string[]): BackfillArgs {
+  const values: Record<string, string> = {};
+  let fresh = false;
+  for ( let i = 0; i < argv.length; i++ ) {
+    const arg = argv[i];
+    if ( !arg.startsWith( "--" ) ) throw new Error( `Unexpected argument "${ arg }"` );
+    const eq = arg.indexOf( "=" );
+    const key = arg.slice( 2, eq >= 0 ? eq : undefined );
+    if ( key === "fresh" ) {
+      fresh = true;
+      continue;
+    }
+    if ( ![ "from", "to", "concurrency", "checkpoint" ].includes( key ) ) {
+      throw new Error( `Unknown option --${ key }` );
+    }
+    const value = eq >= 0 ? arg.slice( eq + 1 ) : argv[++i];
+    if ( value === undefined || value === "" ) throw new Error( `Missing value for --${ key }` );
+    values[key] = value;
+  }
+  if ( !values.from ) throw new Error( "Missing required option --from" );
+  let concurrency: number | undefined;
+  if ( values.concurrency !== undefined ) {
+    concurrency = Number( values.concurrency );
+    if ( !Number.isInteger( concurrency ) || concurrency < 1 ) {
+      throw new Error( "--concurrency must be a positive integer" );
+    }
+  }
+  return {
+    from: parseBackfillBound( values.from ),
+    to: values.to !== undefined ? parseBackfillBound( values.to ) : undefined,
+    concurrency,
+    checkpointFile: values.checkpoint,
+    fresh,
+  };
+}
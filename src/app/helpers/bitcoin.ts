@@ -1,7 +1,28 @@
+import { DESCRIPTOR, SATS_PER_BTC, XPUB_GAP_LIMIT_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import {
+  descriptorKeyPath,
+  descriptorOutput,
+  HD_PURPOSES,
+  parseDescriptor,
+  parseExtendedPublicKey
+} from "@/infrastructure/bitcoin/hd";
 import type { Network } from "@/infrastructure/bitcoin/raw/Address";
-import { validateAndNormalizeAddress } from "@/infrastructure/bitcoin/raw/Address";
+import {
+  addressToScriptPubKey,
+  validateAndNormalizeAddress
+} from "@/infrastructure/bitcoin/raw/Address";
 import { logger } from "@/infrastructure/logger";
-import type { AddressActivity, ParsedBlock } from "@/types/blockchain";
+import type {
+  AddressActivity,
+  AlertRules,
+  OpReturnOutput,
+  ParsedBlock,
+  ParsedTransaction,
+  WatchedAddress,
+  WatchedDescriptor,
+  WatchedKey,
+  WatchedXpub
+} from "@/types/blockchain";
 
 // OP_RETURN safe logging policy
 const OP_RETURN_MAX_LOG_BYTES = 80; // cap to 80 bytes (standard OP_RETURN max)
@@ -87,20 +108,25 @@ export function logActivities(block: ParsedBlock, activities: AddressActivity[])
       txid: activity.txid,
       address: activity.address,
       label: activity.label,
+      xpubLabel: activity.xpubLabel,
+      derivationPath: activity.derivationPath,
       direction: activity.direction,
       valueBtc: activity.valueBtc,
       valueUsd: activity.valueUsd,
+      feeSats: activity.feeSats,
+      feeRate: activity.feeRate,
       opReturnHex: safe.opReturnHex,
       opReturnUtf8: safe.opReturnUtf8,
       opReturnBytes: safe.opReturnBytes,
       opReturnRedacted: safe.opReturnRedacted,
+      opReturnCount: activity.opReturns?.length,
     } );
   }
 }
 
 export function logOpReturnData(block: ParsedBlock): void {
   for ( const tx of block.transactions ) {
-    for ( const output of tx.outputs ) {
+    tx.outputs.forEach( (output, vout) => {
       if ( output.scriptType === "nulldata" && (output.opReturnDataHex || output.opReturnUtf8) ) {
         const safe = sanitizeOpReturnForLog( output.opReturnDataHex, output.opReturnUtf8 );
         logger.debug( {
@@ -108,31 +134,241 @@ export function logOpReturnData(block: ParsedBlock): void {
           blockHeight: block.height,
           blockHash: block.hash,
           txid: tx.txid,
+          vout,
+          opReturnPushCount: output.opReturnPushes?.length,
           opReturnHex: safe.opReturnHex,
           opReturnUtf8: safe.opReturnUtf8,
           opReturnBytes: safe.opReturnBytes,
           opReturnRedacted: safe.opReturnRedacted,
         } );
       }
-    }
+    } );
   }
 }
 
 
+/**
+ * Validate and normalize watch list addresses. An `address` may also be an output descriptor
+ * (e.g. `sh(wsh(multi(2,...)))#checksum`): it expands to the address of each of its multipath
+ * branches, at every index of `range` (default: the first 20) when it is ranged.
+ */
 export function normalizeWatchedAddresses(
-  list: { address: string; label?: string }[],
+  list: {
+    address: string;
+    label?: string;
+    range?: number | [ number, number ];
+    rules?: AlertRules;
+  }[],
   network?: Network
-): { address: string; label?: string }[] {
-  const out: { address: string; label?: string }[] = [];
+): WatchedAddress[] {
+  const out: WatchedAddress[] = [];
   for ( const item of list ) {
     const addr = (item.address || "").trim();
     if ( !addr ) continue;
+    const rules = normalizeAlertRules( item.rules );
+    if ( isDescriptor( addr ) ) {
+      const expanded = expandDescriptor( addr, item.label, item.range, network ?? "mainnet" );
+      out.push( ...expanded.map( (w) => (rules ? { ...w, rules } : w) ) );
+      continue;
+    }
     const { normalized } = validateAndNormalizeAddress( addr, network );
-    out.push( { address: normalized, label: item.label } );
+    out.push( { address: normalized, label: item.label, ...(rules ? { rules } : {}) } );
   }
   return out;
 }
 
+/**
+ * Validate the alert rules of a watch list entry; throws on a negative or non-numeric bound, a
+ * minimum above its maximum or an unknown direction. Returns undefined for no rules.
+ */
+export function normalizeAlertRules(rules: unknown): AlertRules | undefined {
+  if ( rules === undefined || rules === null ) return undefined;
+  if ( typeof rules !== "object" || Array.isArray( rules ) ) {
+    throw new Error( `Invalid alert rules ${ JSON.stringify( rules ) }` );
+  }
+  const r = rules as Record<string, unknown>;
+  const amount = (name: string): number | undefined => {
+    const value = r[name];
+    if ( value === undefined ) return undefined;
+    if ( typeof value !== "number" || !Number.isFinite( value ) || value < 0 ) {
+      throw new Error( `Invalid alert rule ${ name } ${ JSON.stringify( value ) }` );
+    }
+    return value;
+  };
+  const out: AlertRules = {
+    minBtc: amount( "minBtc" ),
+    maxBtc: amount( "maxBtc" ),
+    minUsd: amount( "minUsd" ),
+    maxUsd: amount( "maxUsd" ),
+    cooldownSec: amount( "cooldownSec" ),
+  };
+  for ( const unit of [ "Btc", "Usd" ] as const ) {
+    const min = out[`min${ unit }`];
+    const max = out[`max${ unit }`];
+    if ( min !== undefined && max !== undefined && min > max ) {
+      throw new Error( `Alert rule min${ unit } ${ min } is above max${ unit } ${ max }` );
+    }
+  }
+  if ( r.direction !== undefined ) {
+    if ( r.direction !== "in" && r.direction !== "out" && r.direction !== "both" ) {
+      throw new Error( `Invalid alert rule direction ${ JSON.stringify( r.direction ) }` );
+    }
+    out.direction = r.direction;
+  }
+  if ( r.ignoreOpReturnLabelMatches !== undefined ) {
+    out.ignoreOpReturnLabelMatches = r.ignoreOpReturnLabelMatches === true;
+  }
+  // Drop unset rules, so entries compare and serialize as written
+  for ( const key of Object.keys( out ) as (keyof AlertRules)[] ) {
+    if ( out[key] === undefined ) delete out[key];
+  }
+  return Object.keys( out ).length > 0 ? out : undefined;
+}
+
+/** Descriptors are `fn(...)`, which no address encoding can produce */
+function isDescriptor(text: string): boolean {
+  return /^[a-z_]+\(/.test( text );
+}
+
+function expandDescriptor(
+  text: string,
+  label: string | undefined,
+  range: number | [ number, number ] | undefined,
+  network: Network
+): WatchedAddress[] {
+  const desc = parseDescriptor( text, network );
+  const descriptor = `${ desc.body }#${ desc.checksum }`;
+  const [ start, end ] = desc.ranged
+    ? normalizeRange( range ) ?? [ 0, XPUB_GAP_LIMIT_DEFAULT - 1 ]
+    : [ 0, 0 ];
+  const out: WatchedAddress[] = [];
+  for ( let branch = 0; branch < desc.branches; branch++ ) {
+    for ( let index = start; index <= end; index++ ) {
+      const output = descriptorOutput( desc, network, index, branch );
+      if ( !output ) continue;
+      const derivationPath = descriptorKeyPath( desc, index, branch );
+      out.push( { ...output, descriptor, xpubLabel: label, derivationPath } );
+    }
+  }
+  return out;
+}
+
+/** Bitcoin Core's `range`: an end index (start 0) or [start, end] */
+function normalizeRange(
+  range: number | [ number, number ] | undefined
+): [ number, number ] | undefined {
+  if ( range === undefined ) return undefined;
+  const [ start, end ] = typeof range === "number" ? [ 0, range ] : range;
+  const valid = Number.isInteger( start ) && Number.isInteger( end ) && start >= 0 && end >= start;
+  if ( !valid || end - start >= DESCRIPTOR.MAX_RANGE_SIZE ) {
+    throw new Error( `Invalid descriptor range ${ JSON.stringify( range ) }` );
+  }
+  return [ start, end ];
+}
+
+/** Watch file entries with an `xpub`; throws on a key that is invalid or for another network */
+export function normalizeWatchedXpubs(list: WatchedXpub[], network?: Network): WatchedXpub[] {
+  return list.map( (item) => {
+    const xpub = (item.xpub || "").trim();
+    parseExtendedPublicKey( xpub, network );
+    if ( item.type !== undefined && !(item.type in HD_PURPOSES) ) {
+      throw new Error( `Unknown xpub address type ${ item.type }` );
+    }
+    const gapLimit = item.gapLimit;
+    if ( gapLimit !== undefined && !(Number.isInteger( gapLimit ) && gapLimit > 0) ) {
+      throw new Error( `Invalid xpub gap limit ${ gapLimit }` );
+    }
+    return {
+      xpub,
+      label: item.label,
+      type: item.type,
+      gapLimit: item.gapLimit,
+      path: item.path?.trim() || undefined,
+      rules: normalizeAlertRules( item.rules ),
+    };
+  } );
+}
+
+/**
+ * Watch file entries with a ranged `desc`; the descriptor is stored with its checksum. Throws on
+ * a descriptor that is invalid, not ranged or for another network.
+ */
+export function normalizeWatchedDescriptors(
+  list: (Omit<WatchedDescriptor, "range"> & { range?: number | [ number, number ] })[],
+  network?: Network
+): WatchedDescriptor[] {
+  return list.map( (item) => {
+    const desc = parseDescriptor( (item.desc || "").trim(), network ?? "mainnet" );
+    if ( !desc.ranged ) throw new Error( `Descriptor ${ desc.body } is not ranged` );
+    const { nextIndex, gapLimit } = item;
+    if ( nextIndex !== undefined && !(Number.isInteger( nextIndex ) && nextIndex >= 0) ) {
+      throw new Error( `Invalid descriptor next index ${ nextIndex }` );
+    }
+    if ( gapLimit !== undefined && !(Number.isInteger( gapLimit ) && gapLimit > 0) ) {
+      throw new Error( `Invalid descriptor gap limit ${ gapLimit }` );
+    }
+    return {
+      desc: `${ desc.body }#${ desc.checksum }`,
+      label: item.label,
+      range: normalizeRange( item.range ),
+      nextIndex,
+      gapLimit,
+      rules: normalizeAlertRules( item.rules ),
+    };
+  } );
+}
+
+export type WatchFile = {
+  /** Plain addresses, and the expansion of descriptors given as an `address` or not ranged */
+  watch: WatchedAddress[];
+  /** Extended keys and ranged descriptors, derived and extended by the XpubWatcher */
+  keys: WatchedKey[];
+};
+
+/**
+ * Read a parsed watch file: an array of `{ address }`, `{ xpub }` and `{ desc }` entries, or
+ * Bitcoin Core `listdescriptors` output (on its own or as an array element), whose descriptors
+ * are labelled with the wallet name. Returns undefined for any other JSON.
+ */
+export function parseWatchFile(json: unknown, network?: Network): WatchFile | undefined {
+  const isCoreExport = (x: any) => Array.isArray( x?.descriptors );
+  if ( !Array.isArray( json ) && !isCoreExport( json ) ) return undefined;
+  const entries = (Array.isArray( json ) ? json : [ json ]).flatMap( (x: any) => isCoreExport( x )
+    ? x.descriptors.map( (d: any) => ({ label: x.wallet_name || undefined, ...d }) )
+    : [ x ] );
+  const descs = entries
+    .filter( (x: any) => typeof x?.desc === "string" )
+    .map( (x: any) => ({
+      desc: x.desc,
+      label: x.label,
+      range: x.range,
+      nextIndex: x.next_index ?? x.next ?? x.nextIndex,
+      gapLimit: x.gapLimit,
+      rules: x.rules,
+    }) );
+  const addresses = entries
+    .filter( (x: any) => typeof x?.address === "string" )
+    .map( (x: any) => ({ address: x.address, label: x.label, range: x.range, rules: x.rules }) );
+  // Descriptors without a range stand for fixed scripts: watch them like addresses
+  const fixed = descs
+    .filter( (d) => !parseDescriptor( d.desc.trim(), network ?? "mainnet" ).ranged );
+  const ranged = descs.filter( (d) => !fixed.includes( d ) );
+  const xpubs = entries.filter( (x: any) => typeof x?.xpub === "string" );
+  return {
+    watch: normalizeWatchedAddresses(
+      [
+        ...addresses,
+        ...fixed.map( (d) => ({ address: d.desc, label: d.label, rules: d.rules }) ),
+      ],
+      network
+    ),
+    keys: [
+      ...normalizeWatchedXpubs( xpubs, network ),
+      ...normalizeWatchedDescriptors( ranged, network ),
+    ],
+  };
+}
+
 // Lightweight Bloom filter for address membership checks
 // Uses double hashing with two 32-bit hashes and k functions: h_i(x) = h1 + i*h2 mod m
 export type AddressBloomFilter = {
@@ -141,6 +377,15 @@ export type AddressBloomFilter = {
   mightContain(value: string): boolean;
 };
 
+function fnv1a32Bytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5 >>> 0;
+  for ( const byte of bytes ) {
+    hash ^= byte;
+    hash = Math.imul( hash, 0x01000193 );
+  }
+  return hash >>> 0;
+}
+
 function fnv1a32(str: string): number {
   let hash = 0x811c9dc5 >>> 0;
   for ( let i = 0; i < str.length; i++ ) {
@@ -237,3 +482,242 @@ export function buildWatchIndexes(
   return { watchSet, labelIndex, addresses };
 }
 
+/** Watch structures for one watch list, reused across blocks while the list reference is kept */
+export type WatchIndexCache = {
+  sourceRef: WatchedAddress[] | undefined;
+  watchSet: Map<string, string | undefined>;
+  labelIndex: Map<string, { address: string; label?: string }[]>;
+  bloom?: AddressBloomFilter;
+  /** Key label and path of addresses derived from a watched extended public key or descriptor */
+  derivations?: Map<string, { xpubLabel?: string; derivationPath?: string }>;
+  /** Script matching mode: watched scriptPubKeys by hash, for outputs that carry their script */
+  scripts?: WatchScriptIndex;
+};
+
+/** FNV-1a hash of a scriptPubKey -> the watched scripts with that hash and their addresses */
+export type WatchScriptIndex = Map<number, { script: Uint8Array; address: string }[]>;
+
+export function buildWatchIndexCache(
+  watched: WatchedAddress[],
+  opts?: { scripts?: boolean }
+): WatchIndexCache {
+  const { watchSet, labelIndex, addresses } = buildWatchIndexes( watched );
+  const bloom = createAddressBloomFilter( addresses, 0.01 );
+  const derivations = new Map<string, { xpubLabel?: string; derivationPath?: string }>();
+  for ( const w of watched ) {
+    if ( !w.xpub && !w.descriptor ) continue;
+    derivations.set( w.address, { xpubLabel: w.xpubLabel, derivationPath: w.derivationPath } );
+  }
+  const scripts = opts?.scripts ? buildWatchScriptIndex( watched ) : undefined;
+  return { sourceRef: watched, watchSet, labelIndex, bloom, derivations, scripts };
+}
+
+/** Encode every watched entry to its scriptPubKey once; entries that do not encode are skipped */
+export function buildWatchScriptIndex(watched: WatchedAddress[]): WatchScriptIndex {
+  const index: WatchScriptIndex = new Map();
+  for ( const w of watched ) {
+    let script: Buffer;
+    try {
+      script = w.scriptPubKey
+        ? Buffer.from( w.scriptPubKey, "hex" )
+        : addressToScriptPubKey( w.address );
+    } catch {
+      continue;
+    }
+    const key = fnv1a32Bytes( script );
+    const bucket = index.get( key ) ?? [];
+    if ( !bucket.some( (e) => Buffer.compare( e.script, script ) === 0 ) ) {
+      bucket.push( { script, address: w.address } );
+    }
+    index.set( key, bucket );
+  }
+  return index;
+}
+
+/** Address of the watched entry paying to `script`: a hash lookup, then a byte comparison */
+function matchScript(index: WatchScriptIndex, script: Uint8Array): string | undefined {
+  const bucket = index.get( fnv1a32Bytes( script ) );
+  if ( !bucket ) return undefined;
+  for ( const entry of bucket ) {
+    if ( Buffer.compare( entry.script, script ) === 0 ) return entry.address;
+  }
+  return undefined;
+}
+
+/**
+ * Net per-address activity of every transaction in the block: outputs paying a watched address
+ * ("in"), resolved inputs spending from one ("out"), and OP_RETURN text mentioning a label.
+ */
+export function findAddressActivities(
+  block: ParsedBlock,
+  cache: WatchIndexCache
+): AddressActivity[] {
+  const { watchSet, labelIndex, bloom, scripts } = cache;
+  const derivations = cache.derivations;
+  const origin = (addr: string) => derivations?.get( addr ) ?? {};
+  const activities: AddressActivity[] = [];
+  // Reuse scratch structures across tx iterations to reduce per-tx allocations
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, number>();
+  const matchedAddressesThisTx = new Set<string>();
+
+  for ( const tx of block.transactions ) {
+    // echoed on outgoing activities only: the fee is paid by the spender
+    const fee = tx.feeSats !== undefined ? { feeSats: tx.feeSats, feeRate: tx.feeRate } : {};
+    // every OP_RETURN output of this tx, echoed on all of its activities
+    const opReturns = collectOpReturns( tx );
+    const opReturn = opReturns.length > 0
+      ? { opReturnHex: opReturns[0].dataHex, opReturnUtf8: opReturns[0].utf8, opReturns }
+      : {};
+    // Clear scratch structures for this tx
+    incoming.clear();
+    outgoing.clear();
+    matchedAddressesThisTx.clear();
+
+    for ( const out of tx.outputs ) {
+      // Script mode: outputs carrying their script match on its bytes, without an address
+      const addr = scripts && out.scriptPubKey
+        ? matchScript( scripts, out.scriptPubKey )
+        : out.address;
+      if ( !addr ) continue;
+      if ( bloom && !bloom.mightContain( addr ) ) continue;
+      if ( !watchSet.has( addr ) ) continue;
+      incoming.set( addr, (incoming.get( addr ) || 0) + out.valueBtc );
+    }
+    // Only available when resolveInputAddresses is true
+    for ( const input of tx.inputs ) {
+      const addr = scripts && input.scriptPubKey
+        ? matchScript( scripts, input.scriptPubKey )
+        : input.address;
+      if ( !addr || !input.valueBtc ) continue;
+      if ( bloom && !bloom.mightContain( addr ) ) continue;
+      if ( !watchSet.has( addr ) ) continue;
+      outgoing.set( addr, (outgoing.get( addr ) || 0) + input.valueBtc );
+    }
+
+    // Emit net activities without building a union Set
+    for ( const [ addr, inSum ] of incoming ) {
+      const outSum = outgoing.get( addr ) || 0;
+      if ( inSum > 0 && outSum > 0 ) {
+        const net = inSum - outSum;
+        if ( net !== 0 ) {
+          activities.push( {
+            address: addr,
+            label: watchSet.get( addr ),
+            ...origin( addr ),
+            txid: tx.txid,
+            direction: net >= 0 ? "in" : "out",
+            valueBtc: Math.abs( net ),
+            hasBothSides: true,
+            ...(net < 0 ? fee : {}),
+            ...opReturn,
+          } );
+          matchedAddressesThisTx.add( addr );
+        }
+      } else if ( inSum > 0 ) {
+        activities.push( {
+          address: addr,
+          label: watchSet.get( addr ),
+          ...origin( addr ),
+          txid: tx.txid,
+          direction: "in",
+          valueBtc: inSum,
+          ...opReturn,
+        } );
+        matchedAddressesThisTx.add( addr );
+      }
+    }
+    for ( const [ addr, outSum ] of outgoing ) {
+      if ( matchedAddressesThisTx.has( addr ) ) continue;
+      if ( outSum > 0 ) {
+        activities.push( {
+          address: addr,
+          label: watchSet.get( addr ),
+          ...origin( addr ),
+          txid: tx.txid,
+          direction: "out",
+          valueBtc: outSum,
+          ...fee,
+          ...opReturn,
+        } );
+        matchedAddressesThisTx.add( addr );
+      }
+    }
+
+    // Label-based matching via OP_RETURN text: if any OP_RETURN contains a watched label,
+    // emit a zero-value activity for the associated watched address (if not already matched).
+    const opTexts = opReturns.flatMap( (o) => (o.utf8 ? [ o.utf8.toLowerCase() ] : []) );
+    if ( opTexts.length > 0 && labelIndex.size > 0 ) {
+      for ( const [ labelKey, items ] of labelIndex ) {
+        if ( !labelKey ) continue;
+        if ( opTexts.some( (text) => text.includes( labelKey ) ) ) {
+          for ( const item of items ) {
+            if ( matchedAddressesThisTx.has( item.address ) ) continue;
+            if ( bloom && !bloom.mightContain( item.address ) ) continue;
+            if ( !watchSet.has( item.address ) ) continue;
+            activities.push( {
+              address: item.address,
+              label: item.label,
+              txid: tx.txid,
+              direction: "in",
+              valueBtc: 0,
+              ...opReturn,
+            } );
+            matchedAddressesThisTx.add( item.address );
+          }
+        }
+      }
+    }
+  }
+  return activities;
+}
+
+/** OP_RETURN outputs of a transaction in output order, with their pushes */
+function collectOpReturns(tx: ParsedTransaction): OpReturnOutput[] {
+  const opReturns: OpReturnOutput[] = [];
+  tx.outputs.forEach( (out, vout) => {
+    if ( out.scriptType !== "nulldata" ) return;
+    if ( !out.opReturnDataHex && !out.opReturnUtf8 && !out.opReturnPushes?.length ) return;
+    opReturns.push( {
+      vout,
+      dataHex: out.opReturnDataHex,
+      utf8: out.opReturnUtf8,
+      pushes: out.opReturnPushes ?? (out.opReturnDataHex ? [ out.opReturnDataHex ] : []),
+    } );
+  } );
+  return opReturns;
+}
+
+/** Best-effort text of an OP_RETURN payload; undefined when it has no printable characters */
+export function tryDecodeUtf8(hex: string): string | undefined {
+  try {
+    const buf = Buffer.from( hex, "hex" );
+    const text = new TextDecoder().decode( buf );
+    const printable = /[\x09\x0A\x0D\x20-\x7E]/.test( text );
+    return printable ? text : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Set feeSats and feeRate on a transaction, from the fee reported by the backend or else as
+ * inputs minus outputs, which needs every input value (so never for a coinbase).
+ */
+export function applyTransactionFee(tx: ParsedTransaction, reportedFeeSats?: number): void {
+  let feeSats = reportedFeeSats;
+  if ( feeSats === undefined ) {
+    if ( tx.inputs.length === 0 || tx.inputs.some( (i) => i.valueBtc === undefined ) ) return;
+    feeSats = sumSats( tx.inputs as { valueBtc: number }[] ) - sumSats( tx.outputs );
+  }
+  if ( !Number.isFinite( feeSats ) || feeSats < 0 ) return;
+  tx.feeSats = feeSats;
+  if ( tx.vsize ) tx.feeRate = Math.round( (feeSats / tx.vsize) * 100 ) / 100;
+}
+
+// Integer sats per entry so float BTC values do not leave a fee of 2299.9999
+function sumSats(items: { valueBtc: number }[]): number {
+  let total = 0;
+  for ( const item of items ) total += Math.round( item.valueBtc * SATS_PER_BTC );
+  return total;
+}
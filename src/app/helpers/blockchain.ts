@@ -0,0 +1,81 @@
+import { createRpcClient, getRpcHosts } from "@/app/helpers/rpc";
+import {
+  BitcoinService,
+  EsploraService,
+  type FeatureFlagsService,
+  UtxoIndex,
+  WorkersService,
+  XpubWatcher
+} from "@/app/services";
+import type { AppConfig } from "@/config";
+import { EsploraClient, Raw, type BitcoinRpcClient } from "@/infrastructure/bitcoin";
+import type { BlockchainService } from "@/types/blockchain";
+
+/**
+ * Chain backend selected by BTC_BACKEND. rpc is set for the Bitcoin Core backend only
+ * (pool lifecycle, ZMQ raw blocks). A UTXO index is attached to the Bitcoin Core backend only.
+ */
+export function createBlockchainService(
+  cfg: AppConfig,
+  flagsService?: FeatureFlagsService,
+  utxoIndex?: UtxoIndex
+): { btc: BlockchainService; rpc?: BitcoinRpcClient } {
+  const opts = {
+    pollIntervalMs: cfg.pollIntervalMs,
+    resolveInputAddresses: cfg.resolveInputAddresses,
+    deriveInputAddresses: cfg.deriveInputAddresses,
+    parseRawBlocks: cfg.parseRawBlocks,
+    network: cfg.network,
+    flagsService,
+    parserPool: cfg.rawParseWorkers > 0
+      ? new Raw.RawParserPool( { size: cfg.rawParseWorkers } )
+      : undefined,
+    tolerantParsing: cfg.rawParseTolerant,
+    matchScripts: cfg.matchMode === "script",
+  };
+  if ( cfg.backend === "esplora" ) {
+    const client = new EsploraClient( { baseUrl: cfg.esplora.url as string } );
+    return { btc: new EsploraService( client, { ...opts, concurrency: cfg.esplora.concurrency } ) };
+  }
+  const rpc = createRpcClient( cfg );
+  const btc = new BitcoinService( rpc, {
+    ...opts,
+    prevoutCacheSize: cfg.prevoutCacheSize,
+    verifyBlocks: cfg.verifyBlocks,
+    restBlocks: cfg.restBlocks,
+    utxoIndex,
+  } );
+  return { btc, rpc };
+}
+
+/**
+ * The configured UTXO index, for the live scanner and utxo-index:rebuild only: it must be fed
+ * blocks in height order, which a backfill of older ranges would break.
+ */
+export function createUtxoIndex(cfg: AppConfig): UtxoIndex | undefined {
+  if ( !cfg.utxoIndex.enabled || cfg.backend !== "rpc" ) return undefined;
+  return new UtxoIndex( { filePath: cfg.utxoIndex.filePath, mode: cfg.utxoIndex.mode } );
+}
+
+/**
+ * Watcher for the extended public keys and ranged descriptors of the watch file assigned to this
+ * worker. Created even without any so a watch file reload can add some.
+ */
+export function createXpubWatcher(cfg: AppConfig): XpubWatcher {
+  const workers = new WorkersService( cfg.worker.id, cfg.worker.members );
+  return new XpubWatcher( workers.filterKeys( cfg.watchKeys ?? [] ), {
+    network: cfg.network,
+    gapLimit: cfg.xpub.gapLimit,
+    stateFile: cfg.xpub.stateFile,
+  } );
+}
+
+/** Hostnames of the configured backend (for keep-alive pool sizing). */
+export function getBackendHosts(cfg: AppConfig): string[] {
+  if ( cfg.backend === "rpc" ) return getRpcHosts( cfg );
+  try {
+    return [ new URL( cfg.esplora.url as string ).hostname ];
+  } catch {
+    return [];
+  }
+}
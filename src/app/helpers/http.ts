@@ -207,3 +207,44 @@ export async function fetchJson<T = unknown>(url: string, opts: FetchJsonOptions
 }
 
 
+
+/**
+ * GET (or other method) returning the raw response body, for binary and plain-text endpoints.
+ * Shares the keep-alive pools and the error format of fetchJson.
+ */
+export async function fetchBuffer(url: string, opts: FetchJsonOptions = {}): Promise<Buffer> {
+  const method = opts.method || HTTP_METHOD.GET;
+  const timeoutMs = opts.timeoutMs ?? 5000;
+  const controller = new AbortController();
+  const timeoutId = setTimeout( () => controller.abort(), timeoutMs );
+  try {
+    httpLog.debug( { type: "http.request", url, method, timeoutMs, hasBody: false } );
+    const res = await undiciFetch( url, {
+      method,
+      headers: opts.headers,
+      signal: opts.signal || controller.signal,
+      // @ts-ignore - undici fetch supports dispatcher
+      dispatcher: getPoolForUrl( url ),
+    } as any );
+    if ( !res.ok ) {
+      const text = await res.text().catch( () => "" );
+      if ( res.status === 429 ) (globalThis as any).__last429AtMs = Date.now();
+      httpLog.warn( {
+        type: "http.response_error",
+        url,
+        method,
+        status: res.status,
+        statusText: res.statusText,
+      } );
+      throw new Error(
+        `${ method } ${ url } failed: ${ res.status } ${ res.statusText } ${ text }`.trim()
+      );
+    }
+    const body = Buffer.from( await res.arrayBuffer() );
+    const bytes = body.length;
+    httpLog.debug( { type: "http.response_ok", url, method, status: res.status, bytes } );
+    return body;
+  } finally {
+    clearTimeout( timeoutId );
+  }
+}
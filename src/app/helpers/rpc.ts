@@ -0,0 +1,25 @@
+import type { AppConfig } from "@/config";
+import { BitcoinRpcClient, BitcoinRpcPool } from "@/infrastructure/bitcoin";
+
+/** Plain client for a single endpoint; a failover pool when several endpoints are configured. */
+export function createRpcClient(cfg: AppConfig): BitcoinRpcClient {
+  if ( cfg.rpcEndpoints.length <= 1 ) {
+    return new BitcoinRpcClient( { url: cfg.bitcoinRpcUrl, ...cfg.rpcAuth } );
+  }
+  const [ primary, ...rest ] = cfg.rpcEndpoints;
+  const endpoints = [ { ...primary, ...cfg.rpcAuth }, ...rest ];
+  return new BitcoinRpcPool( { endpoints, ...cfg.rpcPool } );
+}
+
+/** Hostnames of every configured RPC endpoint (for keep-alive pool sizing). */
+export function getRpcHosts(cfg: AppConfig): string[] {
+  const hosts = new Set<string>();
+  for ( const e of cfg.rpcEndpoints ) {
+    try {
+      hosts.add( new URL( e.url ).hostname );
+    } catch {
+      // ignore unparsable URLs; the client reports them on first use
+    }
+  }
+  return Array.from( hosts );
+}
@@ -0,0 +1,81 @@
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { AddressActivityFoundEvent } from "@/types/events";
+
+export type ActivityJournalOptions = {
+  /** Path of the JSON state file; without it the journal lives in memory only */
+  filePath?: string;
+};
+
+type JournalState = {
+  version: 1;
+  blocks: { hash: string; activities: AddressActivityFoundEvent[] }[];
+};
+
+/**
+ * Bounded, insertion-ordered record of the activities published for recent blocks. With a file
+ * it is persisted atomically on every change, so a reorg found while resuming from the scan
+ * checkpoint can still retract what the previous run published.
+ */
+export class ActivityJournal {
+  private readonly maxBlocks: number;
+  private readonly filePath?: string;
+  private readonly log: AppLogger;
+  private readonly byBlock: Map<string, AddressActivityFoundEvent[]> = new Map();
+
+  constructor(maxBlocks: number, opts?: ActivityJournalOptions) {
+    this.maxBlocks = Math.max( 1, maxBlocks );
+    this.filePath = opts?.filePath;
+    this.log = logger( "activity_journal" );
+    this.read();
+  }
+
+  record(blockHash: string, activities: AddressActivityFoundEvent[]): void {
+    // Re-insert so a retried or re-parsed block counts as the newest entry
+    this.byBlock.delete( blockHash );
+    this.byBlock.set( blockHash, activities );
+    while ( this.byBlock.size > this.maxBlocks ) {
+      const oldest = this.byBlock.keys().next().value as string;
+      this.byBlock.delete( oldest );
+    }
+    this.write();
+  }
+
+  take(blockHash: string): AddressActivityFoundEvent[] {
+    const found = this.byBlock.get( blockHash ) || [];
+    if ( this.byBlock.delete( blockHash ) ) this.write();
+    return found;
+  }
+
+  private write(): void {
+    if ( !this.filePath ) return;
+    const state: JournalState = {
+      version: 1,
+      blocks: Array.from( this.byBlock, ([ hash, activities ]) => ({ hash, activities }) ),
+    };
+    try {
+      getFileStorage().writeFileAtomic( this.filePath, JSON.stringify( state ) );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.error( { type: "journal.write_failed", path: this.filePath, message } );
+    }
+  }
+
+  private read(): void {
+    if ( !this.filePath ) return;
+    const storage = getFileStorage();
+    try {
+      if ( !storage.fileExists( this.filePath ) ) return;
+      const json = JSON.parse( storage.readFile( this.filePath, "utf-8" ) );
+      const blocks: any[] = Array.isArray( json?.blocks ) ? json.blocks : [];
+      for ( const b of blocks.slice( -this.maxBlocks ) ) {
+        if ( typeof b?.hash !== "string" || !Array.isArray( b.activities ) ) continue;
+        this.byBlock.set( b.hash, b.activities );
+      }
+      this.log.info( { type: "journal.loaded", path: this.filePath, blocks: this.byBlock.size } );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "journal.read_failed", path: this.filePath, message } );
+    }
+  }
+}
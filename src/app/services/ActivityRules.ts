@@ -0,0 +1,134 @@
+import { MEMPOOL_BLOCK_HASH } from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import type { AddressActivity, AlertRules, ParsedBlock, WatchedAddress } from "@/types/blockchain";
+
+/** Why an activity was not published */
+export type SuppressReason =
+  | "direction"
+  | "below_min_btc"
+  | "above_max_btc"
+  | "below_min_usd"
+  | "above_max_usd"
+  | "op_return_label"
+  | "cooldown";
+
+export type SuppressedActivity = { activity: AddressActivity; reason: SuppressReason };
+
+export type ActivityRulesOptions = {
+  /** Clock for cooldowns of mempool activity, in milliseconds (default: Date.now) */
+  now?: () => number;
+};
+
+/**
+ * Applies the alert rules of watch list entries to found activities: value bounds, direction,
+ * OP_RETURN label matches and a per-address cooldown. Suppressed activities are counted per
+ * reason and logged. Cooldowns are kept in memory only, and measured in block time for mined
+ * activity, so a backfill replaying months of blocks keeps one activity per window of chain time.
+ */
+export class ActivityRules {
+  private readonly now: () => number;
+  private readonly log: AppLogger;
+  /**
+   * Per address: when it was last notified, and for which tx and direction. The same activity
+   * passes again: a retried or reorged block, or the mined tx after its mempool notification.
+   */
+  private readonly lastNotified = new Map<string, { atMs: number; key: string }>();
+  private readonly suppressed = new Map<SuppressReason, number>();
+
+  constructor(opts: ActivityRulesOptions = {}) {
+    this.now = opts.now ?? Date.now;
+    this.log = logger( "activity_rules" );
+  }
+
+  /**
+   * Split a block's activities into those to publish and those the rules of their watched entry
+   * suppress. Activities of entries without rules are always kept. Mempool activities come with
+   * the watcher's `mempool` pseudo-block.
+   */
+  apply(
+    block: ParsedBlock,
+    activities: AddressActivity[],
+    watched: WatchedAddress[]
+  ): { kept: AddressActivity[]; suppressed: SuppressedActivity[] } {
+    if ( activities.length === 0 ) return { kept: activities, suppressed: [] };
+    const rulesOf = new Map<string, AlertRules>();
+    for ( const w of watched ) {
+      if ( w.rules ) rulesOf.set( w.address, w.rules );
+    }
+    if ( rulesOf.size === 0 ) return { kept: activities, suppressed: [] };
+
+    const kept: AddressActivity[] = [];
+    const suppressed: SuppressedActivity[] = [];
+    for ( const activity of activities ) {
+      const rules = rulesOf.get( activity.address );
+      const reason = rules && this.check( block, activity, rules );
+      if ( reason ) {
+        suppressed.push( { activity, reason } );
+      } else {
+        kept.push( activity );
+      }
+    }
+    if ( suppressed.length > 0 ) this.report( block, suppressed );
+    return { kept, suppressed };
+  }
+
+  /** Activities suppressed since start, per reason */
+  getSuppressedCounts(): Partial<Record<SuppressReason, number>> {
+    return Object.fromEntries( this.suppressed );
+  }
+
+  private check(
+    block: ParsedBlock,
+    activity: AddressActivity,
+    rules: AlertRules
+  ): SuppressReason | undefined {
+    const direction = rules.direction ?? "both";
+    if ( direction !== "both" && activity.direction !== direction ) return "direction";
+    // Only OP_RETURN label matches carry no value
+    if ( rules.ignoreOpReturnLabelMatches && activity.valueBtc === 0 ) return "op_return_label";
+    if ( rules.minBtc !== undefined && activity.valueBtc < rules.minBtc ) return "below_min_btc";
+    if ( rules.maxBtc !== undefined && activity.valueBtc > rules.maxBtc ) return "above_max_btc";
+    const usd = activity.valueUsd;
+    if ( usd !== undefined && rules.minUsd !== undefined && usd < rules.minUsd ) {
+      return "below_min_usd";
+    }
+    if ( usd !== undefined && rules.maxUsd !== undefined && usd > rules.maxUsd ) {
+      return "above_max_usd";
+    }
+    if ( rules.cooldownSec ) {
+      const key = `${ activity.txid }:${ activity.direction }`;
+      const last = this.lastNotified.get( activity.address );
+      if ( last && last.key === key ) return undefined;
+      const now = block.hash === MEMPOOL_BLOCK_HASH ? this.now() : block.time * 1000;
+      if ( last && now - last.atMs < rules.cooldownSec * 1000 ) return "cooldown";
+      this.lastNotified.set( activity.address, { atMs: now, key } );
+    }
+    return undefined;
+  }
+
+  private report(block: ParsedBlock, suppressed: SuppressedActivity[]): void {
+    const reasons: Partial<Record<SuppressReason, number>> = {};
+    for ( const { activity, reason } of suppressed ) {
+      reasons[reason] = (reasons[reason] ?? 0) + 1;
+      this.suppressed.set( reason, (this.suppressed.get( reason ) ?? 0) + 1 );
+      this.log.debug( {
+        type: "activity.suppressed",
+        blockHeight: block.height,
+        address: activity.address,
+        txid: activity.txid,
+        direction: activity.direction,
+        valueBtc: activity.valueBtc,
+        valueUsd: activity.valueUsd,
+        reason,
+      } );
+    }
+    this.log.info( {
+      type: "block.activities_suppressed",
+      blockHeight: block.height,
+      blockHash: block.hash,
+      suppressed: suppressed.length,
+      reasons,
+      total: this.getSuppressedCounts(),
+    } );
+  }
+}
@@ -0,0 +1,274 @@
+import path from "path";
+
+import type { BackfillBound } from "@/app/helpers/backfill";
+import {
+  BACKFILL_CONCURRENCY_DEFAULT,
+  BACKFILL_PROGRESS_INTERVAL_MS_DEFAULT,
+  CATCHUP_BATCH_SIZE_DEFAULT
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import type { BlockchainService, BlockRef, ParsedBlock } from "@/types/blockchain";
+import type { BlockParsedEvent, DomainEventType } from "@/types/events";
+
+import type { EventService } from "./EventService";
+import { ScanCheckpointService } from "./ScanCheckpointService";
+
+export type BackfillRange = {
+  fromHeight: number;
+  toHeight: number;
+};
+
+export type BackfillOptions = {
+  /** Blocks fetched and parsed in parallel (default: 4) */
+  concurrency?: number;
+  /** Progress file (default: <cwd>/cache/backfill-<from>-<to>.json) */
+  checkpointFile?: string;
+  /** Start over even if progress for the range was stored */
+  fresh?: boolean;
+  /** Minimum interval between backfill.progress log lines (default: 5000) */
+  progressIntervalMs?: number;
+  /** Attempts per block fetch before the run fails (default: 3) */
+  maxFetchAttempts?: number;
+};
+
+export type BackfillSummary = BackfillRange & {
+  /** First height fetched by this run (after resuming) */
+  startHeight: number;
+  blocks: number;
+  activities: number;
+  /** False when some block never reported BlockProcessed (handler failures) */
+  complete: boolean;
+};
+
+// Event types the pipeline may still be working on after the last block was published
+const PIPELINE_EVENTS: DomainEventType[] = [
+  "BlockParsed",
+  "BlockParseWarning",
+  "AddressActivityFound",
+  "BlockProcessed",
+  "NotificationEmitted",
+];
+
+type FetchResult = { block: ParsedBlock } | { error: unknown };
+
+type ActiveRun = BackfillRange & {
+  checkpoint: ScanCheckpointService;
+  total: number;
+  blocks: number;
+  activities: number;
+  lastHeight?: number;
+  startedAt: number;
+  loggedAt: number;
+};
+
+/**
+ * Replays a historical height range through the regular event pipeline. Blocks are fetched
+ * with a sliding window of parallel parseBlockByHash calls but published as BlockParsed
+ * (marked source: "backfill") strictly in height order, so activities and the range
+ * checkpoint advance like in the live scanner and an interrupted run resumes where it stopped.
+ */
+export class BackfillService {
+  private readonly btc: BlockchainService;
+  private readonly events: EventService;
+  private readonly concurrency: number;
+  private readonly progressIntervalMs: number;
+  private readonly maxFetchAttempts: number;
+  private readonly opts: BackfillOptions;
+  private readonly log: AppLogger;
+  private active?: ActiveRun;
+
+  constructor(btc: BlockchainService, events: EventService, opts?: BackfillOptions) {
+    this.btc = btc;
+    this.events = events;
+    this.opts = opts || {};
+    this.concurrency = Math.max( 1, opts?.concurrency ?? BACKFILL_CONCURRENCY_DEFAULT );
+    this.progressIntervalMs = Math.max(
+      0,
+      opts?.progressIntervalMs ?? BACKFILL_PROGRESS_INTERVAL_MS_DEFAULT
+    );
+    this.maxFetchAttempts = Math.max( 1, opts?.maxFetchAttempts ?? 3 );
+    this.log = logger( "backfill" );
+    events.subscribe<"BlockProcessed">( {
+      event: "BlockProcessed",
+      name: "backfill-progress",
+      concurrency: 1,
+      handler: (ev) => {
+        if ( ev.source !== "backfill" ) return;
+        this.onProcessed( { height: ev.height, hash: ev.hash }, ev.activityCount );
+      },
+    } );
+  }
+
+  /** Resolve height/time bounds to an inclusive height range capped at the current tip. */
+  async resolveRange(from: BackfillBound, to?: BackfillBound): Promise<BackfillRange> {
+    const tip = await this.btc.getTipHeight();
+    const fromHeight = from.kind === "height"
+      ? from.height
+      : await this.btc.findHeightByTime( from.unixSeconds );
+    let toHeight = tip;
+    if ( to ) {
+      // Last block whose median time is not after the bound
+      toHeight = to.kind === "height"
+        ? to.height
+        : (await this.btc.findHeightByTime( to.unixSeconds + 1 )) - 1;
+    }
+    toHeight = Math.min( toHeight, tip );
+    if ( fromHeight > toHeight ) {
+      throw new Error(
+        `Empty backfill range: from ${ fromHeight } to ${ toHeight } (tip ${ tip })`
+      );
+    }
+    return { fromHeight, toHeight };
+  }
+
+  async run(range: BackfillRange): Promise<BackfillSummary> {
+    const { fromHeight, toHeight } = range;
+    const filePath = this.opts.checkpointFile
+      || path.join( process.cwd(), "cache", `backfill-${ fromHeight }-${ toHeight }.json` );
+    const checkpoint = new ScanCheckpointService( { filePath } );
+    let startHeight = fromHeight;
+    const stored = checkpoint.getCheckpoint();
+    if ( stored && !this.opts.fresh && stored.height >= fromHeight && stored.height <= toHeight ) {
+      const resume = await checkpoint.resolveResumePoint( this.btc );
+      if ( resume && resume.hash ) startHeight = Math.max( fromHeight, resume.height + 1 );
+    }
+    // Stored progress is unusable (fresh run, other range, deep reorg): start a new cursor
+    if ( startHeight === fromHeight ) checkpoint.reset();
+    const run: ActiveRun = {
+      fromHeight,
+      toHeight,
+      checkpoint,
+      total: toHeight - startHeight + 1,
+      blocks: 0,
+      activities: 0,
+      startedAt: Date.now(),
+      loggedAt: 0,
+    };
+    this.active = run;
+    this.log.info( {
+      type: "backfill.start",
+      fromHeight,
+      toHeight,
+      startHeight,
+      blocks: run.total,
+      concurrency: this.concurrency,
+      checkpoint: filePath,
+    } );
+
+    let from = startHeight;
+    // Resolve hashes in chunks; keep up to `concurrency` block fetches ahead of publishing
+    const hashChunk = Math.max( CATCHUP_BATCH_SIZE_DEFAULT, this.concurrency * 4 );
+    const window: Promise<FetchResult>[] = [];
+    while ( from <= toHeight ) {
+      const to = Math.min( toHeight, from + hashChunk - 1 );
+      const refs = await this.btc.getBlockHashRange( from, to );
+      for ( const ref of refs ) {
+        window.push( this.fetchBlock( ref ) );
+        if ( window.length >= this.concurrency ) await this.publishNext( window );
+      }
+      from = to + 1;
+    }
+    while ( window.length > 0 ) await this.publishNext( window );
+
+    await this.drain();
+    this.active = undefined;
+    const complete = run.total === 0 || run.lastHeight === toHeight;
+    const summary: BackfillSummary = {
+      fromHeight,
+      toHeight,
+      startHeight,
+      blocks: run.blocks,
+      activities: run.activities,
+      complete,
+    };
+    if ( complete ) {
+      const elapsedMs = Date.now() - run.startedAt;
+      this.log.info( { type: "backfill.complete", ...summary, elapsedMs } );
+    } else {
+      this.log.warn( { type: "backfill.incomplete", ...summary, lastHeight: run.lastHeight } );
+    }
+    return summary;
+  }
+
+  private async publishNext(window: Promise<FetchResult>[]): Promise<void> {
+    const res = await window.shift()!;
+    if ( "error" in res ) {
+      // Let in-flight fetches settle before giving up; progress is kept in the checkpoint
+      await Promise.allSettled( window );
+      throw res.error;
+    }
+    const block = res.block;
+    await this.events.waitForCapacity( "BlockParsed" );
+    const key = `BlockParsed:${ block.height }:${ block.hash }:backfill`;
+    const ev: BlockParsedEvent = {
+      type: "BlockParsed",
+      timestamp: new Date().toISOString(),
+      block,
+      source: "backfill",
+      dedupeKey: key,
+      eventId: key,
+    };
+    await this.events.publish( ev );
+  }
+
+  private async fetchBlock(ref: BlockRef): Promise<FetchResult> {
+    for ( let attempt = 1; ; attempt++ ) {
+      try {
+        return { block: await this.btc.parseBlockByHash( ref.hash ) };
+      } catch ( err ) {
+        const message = err instanceof Error ? err.message : String( err );
+        if ( attempt >= this.maxFetchAttempts ) {
+          this.log.error( {
+            type: "backfill.fetch_failed",
+            height: ref.height,
+            hash: ref.hash,
+            message,
+          } );
+          return { error: err };
+        }
+        this.log.warn( {
+          type: "backfill.fetch_retry",
+          height: ref.height,
+          hash: ref.hash,
+          attempt,
+          message,
+        } );
+        await new Promise( (r) => setTimeout( r, Math.min( 2000, 200 * attempt * attempt ) ) );
+      }
+    }
+  }
+
+  private onProcessed(ref: BlockRef, activityCount: number): void {
+    const run = this.active;
+    if ( !run || ref.height < run.fromHeight || ref.height > run.toHeight ) return;
+    run.checkpoint.commit( ref );
+    run.blocks += 1;
+    run.activities += activityCount;
+    run.lastHeight = ref.height;
+    const now = Date.now();
+    const last = run.blocks >= run.total;
+    if ( !last && now - run.loggedAt < this.progressIntervalMs ) return;
+    run.loggedAt = now;
+    const elapsedSec = Math.max( 0.001, (now - run.startedAt) / 1000 );
+    const blocksPerSec = run.blocks / elapsedSec;
+    this.log.info( {
+      type: "backfill.progress",
+      height: ref.height,
+      done: run.blocks,
+      total: run.total,
+      pct: Number( ((run.blocks / Math.max( 1, run.total )) * 100).toFixed( 1 ) ),
+      activities: run.activities,
+      blocksPerSec: Number( blocksPerSec.toFixed( 2 ) ),
+      etaSec: Math.round( (run.total - run.blocks) / Math.max( blocksPerSec, 0.001 ) ),
+    } );
+  }
+
+  /** Wait until the pipeline finished every published block (without stopping the bus). */
+  private async drain(): Promise<void> {
+    for ( ; ; ) {
+      const depth = PIPELINE_EVENTS.reduce( (n, t) => n + this.events.getBacklogDepth( t ), 0 );
+      if ( depth === 0 ) return;
+      await new Promise( (r) => setTimeout( r, 10 ) );
+    }
+  }
+}
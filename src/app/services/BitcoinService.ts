@@ -1,18 +1,30 @@
 import {
-  buildWatchIndexes,
-  createAddressBloomFilter,
-  type AddressBloomFilter
+  applyTransactionFee,
+  buildWatchIndexCache,
+  findAddressActivities,
+  tryDecodeUtf8,
+  type WatchIndexCache
 } from "@/app/helpers/bitcoin";
 import { BitcoinRpcClient, Raw } from "@/infrastructure/bitcoin";
 import {
   NULL_TXID_64,
   POLL_INTERVAL_MS_DEFAULT,
+  PREVOUT_CACHE_MAX_DEFAULT,
+  PREV_TX_BATCH_SIZE_DEFAULT,
   PREV_TX_CACHE_MAX_DEFAULT,
+  REORG_MAX_DEPTH_DEFAULT,
+  REST_RETRY_INTERVAL_MS_DEFAULT,
+  SATS_PER_BTC,
+  TX,
+  ZMQ_RAW_BLOCK_CACHE_MAX_DEFAULT,
 } from "@/infrastructure/bitcoin/constants";
+import type { ParsedRawBlock } from "@/infrastructure/bitcoin/raw/BlockParser";
 import { logger, type AppLogger } from "@/infrastructure/logger";
 import type {
   AddressActivity,
   BlockchainService,
+  BlockRef,
+  MempoolTransaction,
   ParsedBlock,
   ParsedTransaction,
   WatchedAddress,
@@ -20,41 +32,93 @@ import type {
 import type { HealthResult } from "@/types/healthcheck";
 
 import { FeatureFlagsService, type FeatureFlags } from "./FeatureFlagsService";
+import type { IndexedOutput, UtxoIndex } from "./UtxoIndex";
 
 export type BitcoinServiceOptions = {
   pollIntervalMs?: number;
   resolveInputAddresses?: boolean;
+  /** Raw path: rebuild input addresses from revealed public keys (P2PKH, P2WPKH, P2SH-P2WPKH) */
+  deriveInputAddresses?: boolean;
   parseRawBlocks?: boolean;
   network?: Raw.Network;
   flagsService?: FeatureFlagsService;
+  /** Outputs remembered for raw-path input resolution (default: 200000) */
+  prevoutCacheSize?: number;
+  /** On-disk UTXO index fed by the raw path; resolves spends of indexed outputs without RPC */
+  utxoIndex?: UtxoIndex;
+  /**
+   * Raw path: check hash, merkle root, proof of work and parent of every block; a block that
+   * fails is fetched from another pool endpoint, then fails with BlockVerificationError
+   */
+  verifyBlocks?: boolean;
+  /**
+   * Raw path: fetch blocks as bytes from the node's REST interface (bitcoind -rest), falling
+   * back to getblock <hash> 0 for a while when it fails
+   */
+  restBlocks?: boolean;
+  /** Raw path: parse blocks on these worker threads instead of the event loop */
+  parserPool?: Raw.RawParserPool;
+  /** Raw path: leave out transactions that fail to parse (ParsedBlock.parseWarnings) */
+  tolerantParsing?: boolean;
+  /**
+   * Match watched entries on scriptPubKey bytes instead of address strings. The raw path then
+   * skips address encoding, unless the UTXO index needs every output's address.
+   */
+  matchScripts?: boolean;
 };
 
+// Verbose scriptPubKey types decoded again from hex (see parseTransactions)
+const REDECODED_SCRIPT_TYPES = new Set( [ "pubkey", "multisig", "witness_unknown" ] );
+
 export class BitcoinService implements BlockchainService {
   private readonly pollIntervalMs: number;
   private readonly resolveInputAddresses: boolean;
+  private readonly deriveInputAddresses: boolean;
   private readonly parseRawBlocks: boolean;
   private readonly flagsService?: FeatureFlagsService;
   private readonly verbose: boolean = false;
   private readonly network: Raw.Network = "mainnet";
+  private readonly utxoIndex?: UtxoIndex;
+  private readonly verifyBlocks: boolean;
+  private readonly restBlocks: boolean;
+  private readonly parserPool?: Raw.RawParserPool;
+  private readonly tolerantParsing: boolean;
+  private readonly matchScripts: boolean;
   private rpc: BitcoinRpcClient;
   private log: AppLogger;
   // cache for watched address structures to avoid rebuilding per tx
-  private _watchedCache?: {
-    sourceRef: WatchedAddress[] | undefined;
-    watchSet: Map<string, string | undefined>;
-    labelIndex: Map<string, { address: string; label?: string }[]>;
-    bloom?: AddressBloomFilter;
-  };
+  private _watchedCache?: WatchIndexCache;
   // LRU-ish cache for previous transactions to minimize repeat RPCs
   private _prevTxCache: Map<string, any> = new Map();
   private _prevTxCacheMax: number = PREV_TX_CACHE_MAX_DEFAULT;
+  // Outputs of recently parsed raw blocks ("txid:vout"), dropped once spent or evicted
+  private _prevoutCache: Map<string, {
+    address?: string;
+    valueBtc: number;
+    scriptPubKey?: Uint8Array;
+  }> = new Map();
+  private _prevoutCacheMax: number = PREVOUT_CACHE_MAX_DEFAULT;
+  // Blocks pushed by the node (ZMQ rawblock), parsed once and consumed by parseBlockByHash
+  private _pushedRawBlocks: Map<string, Promise<ParsedRawBlock | undefined>> = new Map();
+  // Hashes of recently verified raw blocks by height, for the prevBlock linkage check
+  private _verifiedHashes: Map<number, string> = new Map();
+  // REST block fetches are skipped until then after a failure
+  private _restRetryAt = 0;
 
   constructor(rpc: BitcoinRpcClient, opts?: BitcoinServiceOptions) {
     this.rpc = rpc;
     this.pollIntervalMs = opts?.pollIntervalMs ?? POLL_INTERVAL_MS_DEFAULT;
     this.resolveInputAddresses = opts?.resolveInputAddresses ?? false;
+    this.deriveInputAddresses = opts?.deriveInputAddresses ?? false;
     this.parseRawBlocks = opts?.parseRawBlocks ?? false;
     this.flagsService = opts?.flagsService;
+    this._prevoutCacheMax = Math.max( 0, opts?.prevoutCacheSize ?? PREVOUT_CACHE_MAX_DEFAULT );
+    this.utxoIndex = opts?.utxoIndex;
+    this.verifyBlocks = opts?.verifyBlocks ?? false;
+    this.restBlocks = opts?.restBlocks ?? false;
+    this.parserPool = opts?.parserPool;
+    this.tolerantParsing = opts?.tolerantParsing ?? false;
+    this.matchScripts = opts?.matchScripts ?? false;
     this.verbose = false;
     this.log = logger( "bitcoin_service" );
     if ( opts?.network ) this.network = opts.network;
@@ -65,9 +129,80 @@ export class BitcoinService implements BlockchainService {
    * Supplying the same array ref later to checkTransactions enables cache reuse without rebuilds.
    */
   setWatchedAddresses(watched: WatchedAddress[]): void {
-    const { watchSet, labelIndex, addresses } = buildWatchIndexes( watched );
-    const bloom = createAddressBloomFilter( addresses, 0.01 );
-    this._watchedCache = { sourceRef: watched, watchSet, labelIndex, bloom };
+    this._watchedCache = buildWatchIndexCache( watched, { scripts: this.matchScripts } );
+  }
+
+  /**
+   * Parse a serialized block pushed by the node (ZMQ rawblock) and keep it for the next
+   * raw-path parseBlockByHash of the same hash, which then skips the getblock call.
+   */
+  acceptRawBlock(bytes: Buffer): string {
+    // The boundary pass rejects malformed payloads here; the parse itself may run on a worker
+    const hash = Raw.scanRawBlock( bytes ).header.hash;
+    const parsing = this.parseRaw( bytes ).catch( (err) => {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "raw.pushed_block_invalid", hash, message } );
+      return undefined;
+    } );
+    this._pushedRawBlocks.set( hash, parsing );
+    while ( this._pushedRawBlocks.size > ZMQ_RAW_BLOCK_CACHE_MAX_DEFAULT ) {
+      const oldest = this._pushedRawBlocks.keys().next().value as string;
+      this._pushedRawBlocks.delete( oldest );
+    }
+    return hash;
+  }
+
+  private async parseRaw(raw: string | Buffer): Promise<ParsedRawBlock> {
+    const opts = {
+      deriveInputAddresses: this.deriveInputAddresses,
+      tolerant: this.tolerantParsing,
+      scriptPubKeys: this.matchScripts && !this.utxoIndex,
+    };
+    if ( this.parserPool ) return this.parserPool.parse( raw, this.network, opts );
+    return Raw.parseRawBlock( raw, this.network, opts );
+  }
+
+  /** Fetch and parse (and verify when enabled) a raw block, over REST first when enabled. */
+  private async fetchRaw(
+    blockHash: string,
+    headerPromise: Promise<{ height: number }>
+  ): Promise<ParsedRawBlock> {
+    const check = async (raw: string | Buffer) => {
+      const block = await this.parseRaw( raw );
+      if ( this.verifyBlocks ) this.verifyRaw( block, blockHash, (await headerPromise).height );
+      return block;
+    };
+    if ( this.restBlocks && Date.now() >= this._restRetryAt ) {
+      try {
+        return await this.rpc.getBlockBytesChecked( blockHash, check );
+      } catch ( err ) {
+        // Bad data is not a transport problem: JSON-RPC would serve the same block
+        if ( err instanceof Raw.BlockVerificationError ) throw err;
+        this._restRetryAt = Date.now() + REST_RETRY_INTERVAL_MS_DEFAULT;
+        const message = err instanceof Error ? err.message : String( err );
+        this.log.warn( {
+          type: "raw.rest_unavailable",
+          hash: blockHash,
+          retryInMs: REST_RETRY_INTERVAL_MS_DEFAULT,
+          message,
+        } );
+      }
+    }
+    if ( this.verifyBlocks ) return this.rpc.getBlockRawChecked( blockHash, check );
+    return this.rpc.getBlockRawByHash( blockHash ).then( (hex) => this.parseRaw( hex ) );
+  }
+
+  /** Throws BlockVerificationError; the parent is checked once a block at height - 1 passed. */
+  private verifyRaw(block: ParsedRawBlock, blockHash: string, height: number): void {
+    Raw.verifyRawBlock( block, this.network, {
+      expectedHash: blockHash,
+      expectedPrevHash: this._verifiedHashes.get( height - 1 ),
+    } );
+    // a block at this height replaces a reorged branch above it
+    for ( const h of this._verifiedHashes.keys() ) {
+      if ( h >= height || h < height - REORG_MAX_DEPTH_DEFAULT ) this._verifiedHashes.delete( h );
+    }
+    this._verifiedHashes.set( height, block.hash );
   }
 
   private getFlags(): FeatureFlags {
@@ -121,6 +256,21 @@ export class BitcoinService implements BlockchainService {
   }
 
   async awaitNewBlock(sinceHeight?: number): Promise<ParsedBlock> {
+    const latest = await this.awaitNewHeight( sinceHeight );
+    const hash = await this.rpc.getBlockHash( latest );
+    return this.parseBlockByHash( hash );
+  }
+
+  /** Current best chain height as reported by the node. */
+  async getTipHeight(): Promise<number> {
+    return this.rpc.getBlockCount();
+  }
+
+  /**
+   * Poll until the node reports a height above sinceHeight (or above the tip at call time)
+   * and return that new tip height. Callers decide how to walk the gap.
+   */
+  async awaitNewHeight(sinceHeight?: number): Promise<number> {
     let current: number = sinceHeight ?? (await this.rpc.getBlockCount());
     const pollStartedAt = Date.now();
     const initialLatest = await this.rpc.getBlockCount();
@@ -133,6 +283,8 @@ export class BitcoinService implements BlockchainService {
         behindBlocks: delta,
       } );
     }
+    // Already behind: return immediately so callers can catch up without waiting a full interval
+    if ( initialLatest > current ) return initialLatest;
     for ( ; ; ) {
       await this.sleep( this.pollIntervalMs );
       const latest = await this.rpc.getBlockCount();
@@ -141,16 +293,33 @@ export class BitcoinService implements BlockchainService {
         this.log.info( { type: "poll.tick", heightChecked: latest, waitedMs } );
       }
       if ( latest > current ) {
-        const hash = await this.rpc.getBlockHash( latest );
         if ( this.isDevelopment() || (this.verbose && !this.isProduction()) ) {
           const waitedMs = Date.now() - pollStartedAt;
           this.log.info( { type: "poll.new_block", newHeight: latest, waitedMs } );
         }
-        return this.parseBlockByHash( hash );
+        return latest;
       }
     }
   }
 
+  /**
+   * Resolve block hashes for an inclusive height range using one batched getblockhash call.
+   * Falls back to sequential calls when the endpoint does not support JSON-RPC batches.
+   */
+  async getBlockHashRange(fromHeight: number, toHeight: number): Promise<BlockRef[]> {
+    if ( toHeight < fromHeight ) return [];
+    const heights: number[] = [];
+    for ( let h = fromHeight; h <= toHeight; h++ ) heights.push( h );
+    let hashes: string[];
+    try {
+      hashes = await this.rpc.getBlockHashBatch( heights );
+    } catch {
+      hashes = [];
+      for ( const h of heights ) hashes.push( await this.rpc.getBlockHash( h ) );
+    }
+    return heights.map( (height, i) => ({ height, hash: hashes[i] }) );
+  }
+
   async parseBlockByHash(blockHash: string): Promise<ParsedBlock> {
     const flags = this.getFlags();
     if ( !flags.parseRawBlocks ) {
@@ -169,12 +338,25 @@ export class BitcoinService implements BlockchainService {
         transactions: await this.parseTransactions( block.tx ),
       };
     }
-    // Raw path
-    const [ hex, header ] = await Promise.all( [
-      this.rpc.getBlockRawByHash( blockHash ),
-      this.rpc.getBlockHeader( blockHash ),
+    // Raw path; a block already pushed by the node only needs its header (for the height)
+    const pushing = this._pushedRawBlocks.get( blockHash );
+    this._pushedRawBlocks.delete( blockHash );
+    let pushed = pushing ? await pushing : undefined;
+    const headerPromise = this.rpc.getBlockHeader( blockHash );
+    if ( pushed && this.verifyBlocks ) {
+      const height = (await headerPromise).height;
+      try {
+        this.verifyRaw( pushed, blockHash, height );
+      } catch ( err ) {
+        const message = err instanceof Error ? err.message : String( err );
+        this.log.warn( { type: "raw.pushed_block_invalid", hash: blockHash, height, message } );
+        pushed = undefined;
+      }
+    }
+    const [ rawParsed, header ] = await Promise.all( [
+      pushed ?? this.fetchRaw( blockHash, headerPromise ),
+      headerPromise,
     ] );
-    const rawParsed = Raw.parseRawBlock( hex, this.network );
     const parsed: ParsedBlock = {
       hash: rawParsed.hash,
       prevHash: rawParsed.prevBlock,
@@ -182,20 +364,93 @@ export class BitcoinService implements BlockchainService {
       time: header.time,
       transactions: rawParsed.transactions.map( (t) => ({
         txid: t.txid,
-        inputs: [], // optionally resolved below
+        wtxid: t.wtxid,
+        version: t.version,
+        locktime: t.locktime,
+        weight: t.weight,
+        vsize: t.vsize,
+        replaceable: t.replaceable,
+        // resolved below when enabled; otherwise only derived addresses (no values)
+        inputs: this.deriveInputAddresses ? t.inputs.map( (i) => ({ address: i.address }) ) : [],
         outputs: t.outputs.map( (o) => ({
           address: o.address,
           valueBtc: o.valueBtc,
+          scriptPubKey: o.scriptPubKey,
           scriptType: o.scriptType,
+          pubkeys: o.pubkeys,
           opReturnDataHex: o.opReturnDataHex,
           opReturnUtf8: o.opReturnDataHex ? tryDecodeUtf8( o.opReturnDataHex ) : undefined,
+          opReturnPushes: o.opReturnPushes,
         }) ),
       }) ),
+      parseWarnings: rawParsed.warnings,
     };
-    // Do not resolve inputs in raw path to avoid additional RPCs; inputs remain empty.
+    // Fed on every raw block so it stays contiguous even while input resolution is off
+    const indexed = this.utxoIndex?.applyBlock(
+      { height: header.height, hash: rawParsed.hash, prevHash: rawParsed.prevBlock },
+      rawParsed.transactions,
+      (address) => this._watchedCache?.watchSet.has( address ) ?? false
+    );
+    if ( flags.resolveInputAddresses ) {
+      await this.resolveRawInputs( rawParsed.transactions, parsed.transactions, indexed );
+      for ( const tx of parsed.transactions ) applyTransactionFee( tx );
+    }
     return parsed;
   }
 
+  /**
+   * Lowest height whose median time past (BIP113) is at or after unixSeconds, or tip + 1 when
+   * none is. Binary search over headers; median time is monotonic, unlike the header time.
+   */
+  async findHeightByTime(unixSeconds: number): Promise<number> {
+    let lo = 0;
+    let hi = (await this.rpc.getBlockCount()) + 1;
+    while ( lo < hi ) {
+      const mid = Math.floor( (lo + hi) / 2 );
+      const header = await this.rpc.getBlockHeader( await this.rpc.getBlockHash( mid ) );
+      const t = header.mediantime ?? header.time;
+      if ( t >= unixSeconds ) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  async getMempoolTxids(): Promise<string[]> {
+    return this.rpc.getRawMempool();
+  }
+
+  /**
+   * Fetch and parse mempool transactions. Transactions that left the mempool in the meantime
+   * are skipped. Input addresses are resolved when the node returns inline prevouts.
+   */
+  async parseMempoolTransactions(txids: string[]): Promise<MempoolTransaction[]> {
+    if ( txids.length === 0 ) return [];
+    let raws: any[];
+    try {
+      raws = await this.rpc.getRawTransactionWithPrevoutBatch( txids );
+    } catch {
+      // A single failed entry fails the whole batch; fall back to individual lookups
+      raws = [];
+      for ( const id of txids ) {
+        try {
+          raws.push( await this.rpc.getRawTransactionVerbose( id ) );
+        } catch {
+          // evicted or mined since getrawmempool
+        }
+      }
+    }
+    const valid = raws.filter( (t) => t && Array.isArray( t.vin ) && Array.isArray( t.vout ) );
+    const parsed = await this.parseTransactions( valid );
+    return parsed.map( (tx, i) => {
+      const vin = valid[i].vin as any[];
+      return {
+        tx,
+        spends: vin.filter( (v) => v && v.txid ).map( (v) => `${ v.txid }:${ v.vout }` ),
+        replaceable: tx.replaceable === true,
+      };
+    } );
+  }
+
   /**
    * Lightweight parse: fetch the tip block header/hash and transactions via the chosen path once.
    * Useful for startup scanning without entering the await loop.
@@ -207,132 +462,12 @@ export class BitcoinService implements BlockchainService {
   }
 
   checkTransactions(block: ParsedBlock, watched: WatchedAddress[]): AddressActivity[] {
-    let watchSet: Map<string, string | undefined>;
-    let labelIndex: Map<string, { address: string; label?: string }[]>;
-    let bloom: AddressBloomFilter | undefined;
-    // Prefer prebuilt cache when available, and the same source list is used
-    if ( this._watchedCache && this._watchedCache.sourceRef === watched ) {
-      watchSet = this._watchedCache.watchSet;
-      labelIndex = this._watchedCache.labelIndex;
-      bloom = this._watchedCache.bloom;
-    } else if ( this._watchedCache && (!watched || watched.length === 0) ) {
-      // If the caller intentionally passes an empty list (or undefined in future), use prebuilt
-      watchSet = this._watchedCache.watchSet;
-      labelIndex = this._watchedCache.labelIndex;
-      bloom = this._watchedCache.bloom;
-    } else {
-      // Build a scoped cache for the provided watched list
-      const built = buildWatchIndexes( watched );
-      watchSet = built.watchSet;
-      labelIndex = built.labelIndex;
-      const addresses = built.addresses;
-      bloom = createAddressBloomFilter( addresses, 0.01 );
-      this._watchedCache = { sourceRef: watched, watchSet, labelIndex, bloom };
+    // Prefer the prebuilt cache when the same source list (or an empty one) is passed
+    const cached = this._watchedCache;
+    if ( !cached || (cached.sourceRef !== watched && watched && watched.length > 0) ) {
+      this._watchedCache = buildWatchIndexCache( watched, { scripts: this.matchScripts } );
     }
-
-    const activities: AddressActivity[] = [];
-    // Reuse scratch structures across tx iterations to reduce per-tx allocations
-    const incoming = new Map<string, number>();
-    const outgoing = new Map<string, number>();
-    const matchedAddressesThisTx = new Set<string>();
-
-    for ( const tx of block.transactions ) {
-      // collect OP_RETURN data if present in this tx (first seen wins)
-      let opReturnHex: string | undefined;
-      let opReturnUtf8: string | undefined;
-      for ( const out of tx.outputs ) {
-        if ( out.scriptType === "nulldata" && (out.opReturnDataHex || out.opReturnUtf8) ) {
-          opReturnHex = opReturnHex || out.opReturnDataHex;
-          opReturnUtf8 = opReturnUtf8 || (out as any).opReturnUtf8;
-        }
-      }
-      // Clear scratch structures for this tx
-      incoming.clear();
-      outgoing.clear();
-      matchedAddressesThisTx.clear();
-
-      for ( const out of tx.outputs ) {
-        const addr = out.address;
-        if ( !addr ) continue;
-        if ( bloom && !bloom.mightContain( addr ) ) continue;
-        if ( !watchSet.has( addr ) ) continue;
-        incoming.set( addr, (incoming.get( addr ) || 0) + out.valueBtc );
-      }
-      // Only available when resolveInputAddresses is true
-      for ( const input of tx.inputs ) {
-        const addr = input.address;
-        if ( !addr || !input.valueBtc ) continue;
-        if ( bloom && !bloom.mightContain( addr ) ) continue;
-        if ( !watchSet.has( addr ) ) continue;
-        outgoing.set( addr, (outgoing.get( addr ) || 0) + input.valueBtc );
-      }
-
-      // Emit net activities without building a union Set
-      for ( const [ addr, inSum ] of incoming ) {
-        const outSum = outgoing.get( addr ) || 0;
-        if ( inSum > 0 && outSum > 0 ) {
-          const net = inSum - outSum;
-          if ( net !== 0 ) {
-            activities.push( {
-              address: addr,
-              label: watchSet.get( addr ),
-              txid: tx.txid,
-              direction: net >= 0 ? "in" : "out",
-              valueBtc: Math.abs( net ),
-              hasBothSides: true,
-            } );
-            matchedAddressesThisTx.add( addr );
-          }
-        } else if ( inSum > 0 ) {
-          activities.push( {
-            address: addr,
-            label: watchSet.get( addr ),
-            txid: tx.txid,
-            direction: "in",
-            valueBtc: inSum,
-          } );
-          matchedAddressesThisTx.add( addr );
-        }
-      }
-      for ( const [ addr, outSum ] of outgoing ) {
-        if ( matchedAddressesThisTx.has( addr ) ) continue;
-        if ( outSum > 0 ) {
-          activities.push( {
-            address: addr,
-            label: watchSet.get( addr ),
-            txid: tx.txid,
-            direction: "out",
-            valueBtc: outSum,
-          } );
-          matchedAddressesThisTx.add( addr );
-        }
-      }
-
-      // Label-based matching via OP_RETURN text: if OP_RETURN contains a watched label,
-      // emit a zero-value activity for the associated watched address (if not already matched).
-      if ( opReturnUtf8 && labelIndex.size > 0 ) {
-        const opLower = opReturnUtf8.toLowerCase();
-        for ( const [ labelKey, items ] of labelIndex ) {
-          if ( !labelKey ) continue;
-          if ( opLower.includes( labelKey ) ) {
-            for ( const item of items ) {
-              if ( matchedAddressesThisTx.has( item.address ) ) continue;
-              if ( bloom && !bloom.mightContain( item.address ) ) continue;
-              if ( !watchSet.has( item.address ) ) continue;
-              activities.push( {
-                address: item.address,
-                label: item.label,
-                txid: tx.txid,
-                direction: "in",
-                valueBtc: 0,
-              } );
-              matchedAddressesThisTx.add( item.address );
-            }
-          }
-        }
-      }
-    }
-    return activities;
+    return findAddressActivities( block, this._watchedCache as WatchIndexCache );
   }
 
   private async parseTransactions(rawTxs: any[]): Promise<ParsedTransaction[]> {
@@ -348,13 +483,29 @@ export class BitcoinService implements BlockchainService {
       const outputs = (tx.vout as any[]).map( (vout) => {
         const spk = vout.scriptPubKey || {};
         const addresses: string[] | undefined = spk.addresses;
-        const addr: string | undefined = Array.isArray( addresses ) ? addresses[0] : spk.address;
-        const scriptType: string | undefined = typeof spk.type === "string" ? spk.type : undefined;
-        // Extract OP_RETURN data when present via an asm pattern
+        let addr: string | undefined = Array.isArray( addresses ) ? addresses[0] : spk.address;
+        let scriptType: string | undefined = typeof spk.type === "string" ? spk.type : undefined;
+        let pubkeys: string[] | undefined;
+        // Re-decode types whose node output varies by version (older nodes list P2PKH addresses
+        // for P2PK/multisig keys and report P2A as witness_unknown) to match the raw path
+        const redecode = scriptType !== undefined && REDECODED_SCRIPT_TYPES.has( scriptType );
+        if ( redecode && typeof spk.hex === "string" ) {
+          const decoded = Raw.decodeScriptPubKey( Buffer.from( spk.hex, "hex" ), this.network );
+          addr = decoded.address;
+          scriptType = decoded.type;
+          pubkeys = decoded.pubkeys;
+        }
+        // Extract OP_RETURN data from the script bytes, or else via an asm pattern
         let opReturnDataHex: string | undefined;
         let opReturnUtf8: string | undefined;
+        let opReturnPushes: string[] | undefined;
         const asm: string | undefined = typeof spk.asm === "string" ? spk.asm : undefined;
-        if ( scriptType === "nulldata" && asm ) {
+        if ( scriptType === "nulldata" && typeof spk.hex === "string" ) {
+          const decoded = Raw.decodeOpReturn( Buffer.from( spk.hex, "hex" ) );
+          opReturnDataHex = decoded.dataHex;
+          opReturnUtf8 = decoded.dataHex ? tryDecodeUtf8( decoded.dataHex ) : undefined;
+          opReturnPushes = decoded.pushes;
+        } else if ( scriptType === "nulldata" && asm ) {
           const parts = asm.split( /\s+/ );
           const dataHex = parts.length >= 2 && parts[0] === "OP_RETURN" ? parts[1] : undefined;
           if ( dataHex && /^[0-9a-fA-F]+$/.test( dataHex ) ) {
@@ -372,13 +523,16 @@ export class BitcoinService implements BlockchainService {
         return {
           address: addr,
           valueBtc: Number( vout.value ),
+          scriptPubKey: this.scriptOf( spk ),
           scriptType,
+          pubkeys,
           opReturnDataHex,
           opReturnUtf8,
+          opReturnPushes,
         };
       } );
 
-      const inputs: { address?: string; valueBtc?: number }[] = [];
+      const inputs: ParsedTransaction["inputs"] = [];
       if ( flags.resolveInputAddresses ) {
         for ( const vin of tx.vin as any[] ) {
           if ( vin.coinbase ) {
@@ -391,7 +545,11 @@ export class BitcoinService implements BlockchainService {
             const spk = prevOutInline.scriptPubKey || {};
             const addresses: string[] | undefined = spk.addresses;
             const addr: string | undefined = Array.isArray( addresses ) ? addresses[0] : spk.address;
-            inputs.push( { address: addr, valueBtc: Number( prevOutInline.value ) } );
+            inputs.push( {
+              address: addr,
+              valueBtc: Number( prevOutInline.value ),
+              scriptPubKey: this.scriptOf( spk ),
+            } );
             continue;
           }
           // No prevout available; skip input resolution to avoid extra RPCs
@@ -399,15 +557,108 @@ export class BitcoinService implements BlockchainService {
         }
       }
 
-      parsed.push( {
+      const vin = tx.vin as any[];
+      const next: ParsedTransaction = {
         txid: tx.txid,
         inputs,
         outputs,
-      } );
+        wtxid: typeof tx.hash === "string" ? tx.hash : undefined,
+        version: tx.version,
+        locktime: tx.locktime,
+        weight: tx.weight,
+        vsize: tx.vsize,
+        replaceable: vin.some(
+          (v) => !v?.coinbase && typeof v?.sequence === "number"
+            && v.sequence < TX.RBF_SEQUENCE_THRESHOLD
+        ),
+      };
+      // "fee" (BTC) is reported when the node has the block's undo data or the mempool entry
+      applyTransactionFee(
+        next,
+        typeof tx.fee === "number" ? Math.round( tx.fee * SATS_PER_BTC ) : undefined
+      );
+      parsed.push( next );
     }
     return parsed;
   }
 
+  /**
+   * Fill inputs of a raw-parsed block from the prevout cache (outputs of earlier blocks and of
+   * this one), then from the UTXO index when it applied the block. Without the index, misses are
+   * fetched with batched getrawtransaction, which needs -txindex for outputs that are not in the
+   * node's mempool. Unresolvable inputs stay empty.
+   */
+  private async resolveRawInputs(
+    rawTxs: ParsedRawBlock["transactions"],
+    parsed: ParsedTransaction[],
+    indexed?: Map<string, IndexedOutput>
+  ): Promise<void> {
+    for ( const tx of rawTxs ) {
+      tx.outputs.forEach( (o, vout) => {
+        // OP_RETURN outputs are unspendable
+        if ( o.scriptType === "nulldata" ) return;
+        // Copied: a view would keep the whole block in memory while the output is unspent
+        const scriptPubKey = o.scriptPubKey && Buffer.from( o.scriptPubKey );
+        const entry = { address: o.address, valueBtc: o.valueBtc, scriptPubKey };
+        this._prevoutCache.set( `${ tx.txid }:${ vout }`, entry );
+      } );
+    }
+    const missing = new Set<string>();
+    for ( const tx of rawTxs ) {
+      for ( const input of tx.inputs ) {
+        if ( input.prevTxId === NULL_TXID_64 || indexed ) continue;
+        // A derived address already tells whether the spent value is worth fetching
+        if ( input.address && !this._watchedCache?.watchSet.has( input.address ) ) continue;
+        if ( !this._prevoutCache.has( `${ input.prevTxId }:${ input.prevVout }` ) ) {
+          missing.add( input.prevTxId );
+        }
+      }
+    }
+    const fetched = missing.size > 0
+      ? await this.getPrevTransactions( Array.from( missing ) )
+      : new Map<string, any>();
+    let cacheHits = 0;
+    rawTxs.forEach( (tx, i) => {
+      parsed[i].inputs = tx.inputs.map( (input) => {
+        if ( input.prevTxId === NULL_TXID_64 ) return {};
+        const key = `${ input.prevTxId }:${ input.prevVout }`;
+        const cached = this._prevoutCache.get( key );
+        if ( cached ) {
+          // An output is spent once; free the slot for unspent ones
+          this._prevoutCache.delete( key );
+          cacheHits += 1;
+          return {
+            address: cached.address,
+            valueBtc: cached.valueBtc,
+            scriptPubKey: cached.scriptPubKey,
+          };
+        }
+        const fromIndex = indexed?.get( key );
+        if ( fromIndex ) return { ...fromIndex };
+        const vout = fetched.get( input.prevTxId )?.vout?.[input.prevVout];
+        if ( !vout ) return input.address ? { address: input.address } : {};
+        const spk = vout.scriptPubKey || {};
+        const address = Array.isArray( spk.addresses ) ? spk.addresses[0] : spk.address;
+        return { address, valueBtc: Number( vout.value ), scriptPubKey: this.scriptOf( spk ) };
+      } );
+    } );
+    while ( this._prevoutCache.size > this._prevoutCacheMax ) {
+      this._prevoutCache.delete( this._prevoutCache.keys().next().value as string );
+    }
+    this.log.debug( {
+      type: "raw.inputs_resolved",
+      cacheHits,
+      fetchedTxs: missing.size,
+      cacheSize: this._prevoutCache.size,
+    } );
+  }
+
+  /** Script bytes of a verbose scriptPubKey object, in script matching mode only */
+  private scriptOf(spk: { hex?: unknown }): Buffer | undefined {
+    if ( !this.matchScripts || typeof spk.hex !== "string" ) return undefined;
+    return Buffer.from( spk.hex, "hex" );
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise( (resolve) => setTimeout( resolve, ms ) );
   }
@@ -423,11 +674,12 @@ export class BitcoinService implements BlockchainService {
         missing.push( id );
       }
     }
-    if ( missing.length > 0 ) {
+    for ( let start = 0; start < missing.length; start += PREV_TX_BATCH_SIZE_DEFAULT ) {
+      const chunk = missing.slice( start, start + PREV_TX_BATCH_SIZE_DEFAULT );
       try {
-        const fetched = (await (this.rpc as any).getRawTransactionVerboseBatch( missing )) as any[];
-        for ( let i = 0; i < missing.length; i++ ) {
-          const id = missing[i];
+        const fetched = (await (this.rpc as any).getRawTransactionVerboseBatch( chunk )) as any[];
+        for ( let i = 0; i < chunk.length; i++ ) {
+          const id = chunk[i];
           const val = fetched[i];
           if ( !val ) continue;
           result.set( id, val );
@@ -439,7 +691,7 @@ export class BitcoinService implements BlockchainService {
         }
       } catch {
         // Fallback to individual calls if the batch is unsupported
-        for ( const id of missing ) {
+        for ( const id of chunk ) {
           try {
             const val = (await this.rpc.getRawTransactionVerbose( id )) as any;
             result.set( id, val );
@@ -457,15 +709,3 @@ export class BitcoinService implements BlockchainService {
     return result;
   }
 }
-
-function tryDecodeUtf8(hex: string): string | undefined {
-  try {
-    const buf = Buffer.from( hex, "hex" );
-    const text = new TextDecoder().decode( buf );
-    const printable = /[\x09\x0A\x0D\x20-\x7E]/.test( text );
-    return printable ? text : undefined;
-  } catch {
-    return undefined;
-  }
-}
-
@@ -0,0 +1,203 @@
+import {
+  CATCHUP_BATCH_SIZE_DEFAULT,
+  ZMQ_TIP_CHECK_INTERVAL_MS_DEFAULT
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import type { BlockchainService, BlockRef } from "@/types/blockchain";
+import type { BlockDetectedEvent, BlockReorgEvent } from "@/types/events";
+
+import { ChainTracker } from "./ChainTracker";
+import type { EventService } from "./EventService";
+
+export type BlockProducerOptions = {
+  /** Max heights resolved per batched getblockhash call while catching up (default: 50) */
+  catchUpBatchSize?: number;
+  /** Published blocks remembered to find the fork point of a reorg (default: 100) */
+  reorgMaxDepth?: number;
+  /** Push source of new-block notifications; getblockcount polling is used while it is down */
+  notifier?: BlockNotifier;
+  /** Tip re-check interval while waiting on the notifier (default: 60000) */
+  tipCheckIntervalMs?: number;
+};
+
+export type BlockNotifier = {
+  isConnected(): boolean;
+  /** Resolves true on a new-block notification, false on timeout or when the connection drops */
+  waitForBlock(timeoutMs: number): Promise<boolean>;
+};
+
+/**
+ * Head of the event pipeline: publishes BlockDetected for every height after the last
+ * published block, in order. When several blocks arrive between polls (or the process
+ * falls behind), the gap is walked with batched hash lookups instead of jumping to the tip,
+ * and the producer waits for BlockDetected backlog capacity before each batch.
+ * When a published block is replaced, it walks back to the common ancestor, emits BlockReorg
+ * for every orphaned block (newest first) and re-publishes the new branch from there.
+ */
+export class BlockProducer {
+  private readonly btc: BlockchainService;
+  private readonly events: EventService;
+  private readonly catchUpBatchSize: number;
+  private readonly log: AppLogger;
+  private readonly chain: ChainTracker;
+  private readonly notifier?: BlockNotifier;
+  private readonly tipCheckIntervalMs: number;
+  private mode?: "push" | "polling";
+  private lastHeight?: number;
+  private lastHash?: string;
+
+  constructor(btc: BlockchainService, events: EventService, opts?: BlockProducerOptions) {
+    this.btc = btc;
+    this.events = events;
+    this.catchUpBatchSize = Math.max( 1, opts?.catchUpBatchSize ?? CATCHUP_BATCH_SIZE_DEFAULT );
+    this.log = logger( "block_producer" );
+    this.chain = new ChainTracker( { maxDepth: opts?.reorgMaxDepth } );
+    this.notifier = opts?.notifier;
+    this.tipCheckIntervalMs = Math.max(
+      1,
+      opts?.tipCheckIntervalMs ?? ZMQ_TIP_CHECK_INTERVAL_MS_DEFAULT
+    );
+  }
+
+  /** Last block published as BlockDetected (undefined until the first block) */
+  getLastBlock(): BlockRef | undefined {
+    if ( typeof this.lastHeight !== "number" || !this.lastHash ) return undefined;
+    return { height: this.lastHeight, hash: this.lastHash };
+  }
+
+  /** Continue after a previously processed block (e.g. a persisted checkpoint). */
+  resumeFrom(ref: { height: number; hash?: string }): void {
+    this.lastHeight = ref.height;
+    this.lastHash = ref.hash;
+    if ( ref.hash ) this.chain.record( { height: ref.height, hash: ref.hash } );
+  }
+
+  /** Backpressure-aware loop: waits for new heights and publishes every block in between. */
+  async run(): Promise<void> {
+    // Without a cursor, start from the tip at startup and emit blocks mined afterwards
+    if ( typeof this.lastHeight !== "number" ) {
+      this.lastHeight = await this.btc.getTipHeight();
+    }
+    for ( ; ; ) {
+      // If the queue is congested, allow consumers to catch up before awaiting the next block
+      await this.events.waitForCapacity( "BlockDetected" );
+      const tip = await this.nextTip( this.lastHeight );
+      await this.catchUp( tip );
+    }
+  }
+
+  /**
+   * Wait for a tip above sinceHeight: on notifier pushes while it is connected (with a periodic
+   * tip check in case a notification was lost), otherwise by polling getblockcount.
+   */
+  private async nextTip(sinceHeight: number): Promise<number> {
+    while ( this.notifier?.isConnected() ) {
+      this.setMode( "push" );
+      await this.notifier.waitForBlock( this.tipCheckIntervalMs );
+      const tip = await this.btc.getTipHeight();
+      if ( tip > sinceHeight ) return tip;
+    }
+    if ( this.notifier ) this.setMode( "polling" );
+    return this.btc.awaitNewHeight( sinceHeight );
+  }
+
+  private setMode(mode: "push" | "polling"): void {
+    if ( this.mode === mode ) return;
+    this.mode = mode;
+    this.log.info( { type: "producer.block_source", mode } );
+  }
+
+  /** Publish BlockDetected for every height from lastHeight + 1 up to tipHeight, in order. */
+  async catchUp(tipHeight: number): Promise<void> {
+    let from = typeof this.lastHeight === "number" ? this.lastHeight + 1 : tipHeight;
+    const behindBlocks = tipHeight - from + 1;
+    if ( behindBlocks > 1 ) {
+      this.log.info( {
+        type: "producer.catch_up",
+        fromHeight: from,
+        toHeight: tipHeight,
+        behindBlocks,
+      } );
+    }
+    while ( from <= tipHeight ) {
+      await this.events.waitForCapacity( "BlockDetected" );
+      const to = Math.min( tipHeight, from + this.catchUpBatchSize - 1 );
+      // Re-resolve the last published height in the same batch to notice a replaced block
+      const anchored = !!this.lastHash && this.lastHeight === from - 1;
+      const refs = await this.btc.getBlockHashRange( anchored ? from - 1 : from, to );
+      if ( anchored ) {
+        const head = refs.shift();
+        if ( head && head.hash !== this.lastHash ) {
+          await this.handleReorg();
+          from = (this.lastHeight as number) + 1;
+          continue;
+        }
+      }
+      for ( const ref of refs ) {
+        await this.publishDetected( ref );
+      }
+      from = to + 1;
+    }
+  }
+
+  private async publishDetected(ref: BlockRef): Promise<void> {
+    const ev: BlockDetectedEvent = {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: ref.height,
+      hash: ref.hash,
+      dedupeKey: `BlockDetected:${ ref.height }:${ ref.hash }`,
+      eventId: `BlockDetected:${ ref.height }:${ ref.hash }`,
+    };
+    await this.events.publish( ev );
+    this.lastHeight = ref.height;
+    this.lastHash = ref.hash;
+    this.chain.record( ref );
+  }
+
+  /**
+   * The last published block left the best chain: find the common ancestor, emit BlockReorg
+   * for each orphaned block and move the cursor back so the new branch is published next.
+   */
+  private async handleReorg(): Promise<void> {
+    const last = this.getLastBlock() as BlockRef;
+    this.chain.record( last );
+    // Let the old branch finish parsing so every activity it produced can be retracted
+    await this.events.waitForCapacity( "BlockDetected", 0 );
+    await this.events.waitForCapacity( "BlockParsed", 0 );
+    const { ancestor, orphaned } = await this.chain.findForkPoint( this.btc );
+    const oldest = this.chain.getRecent()[0];
+    const forkHeight = ancestor ? ancestor.height : oldest.height - 1;
+    this.log.warn( {
+      type: "producer.reorg",
+      forkHeight,
+      forkHash: ancestor?.hash,
+      depth: orphaned.length,
+      previousTip: last,
+      beyondHistory: !ancestor,
+    } );
+    // Disconnect newest first, like the node does
+    for ( const o of orphaned.slice().reverse() ) {
+      if ( o.newHash ) await this.publishReorg( o.height, o.oldHash, o.newHash );
+    }
+    // Retractions go out before any block of the new branch
+    await this.events.waitForCapacity( "BlockReorg", 0 );
+    await this.events.waitForCapacity( "AddressActivityRetracted", 0 );
+    this.chain.truncateAbove( forkHeight );
+    this.lastHeight = forkHeight;
+    this.lastHash = ancestor?.hash;
+  }
+
+  async publishReorg(height: number, oldHash: string, newHash: string): Promise<void> {
+    const ev: BlockReorgEvent = {
+      type: "BlockReorg",
+      timestamp: new Date().toISOString(),
+      height,
+      oldHash,
+      newHash,
+      eventId: `BlockReorg:${ height }:${ oldHash }->${ newHash }`,
+      dedupeKey: `BlockReorg:${ height }:${ oldHash }:${ newHash }`,
+    };
+    await this.events.publish( ev );
+  }
+}
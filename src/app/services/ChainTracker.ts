@@ -0,0 +1,83 @@
+import { REORG_MAX_DEPTH_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import type { BlockchainService, BlockRef } from "@/types/blockchain";
+
+export type OrphanedBlock = {
+  height: number;
+  oldHash: string;
+  /** Block now at this height on the best chain (undefined above the current tip) */
+  newHash?: string;
+};
+
+export type ForkPoint = {
+  /** Highest remembered block still on the best chain; undefined when the fork is deeper */
+  ancestor?: BlockRef;
+  /** Remembered blocks above the ancestor that left the best chain, ascending by height */
+  orphaned: OrphanedBlock[];
+};
+
+/**
+ * Compare remembered blocks (ascending by height) with the best chain and walk back to the
+ * common ancestor. One batched hash lookup covers the whole remembered window.
+ */
+export async function findForkPoint(
+  recent: BlockRef[],
+  btc: Pick<BlockchainService, "getTipHeight" | "getBlockHashRange">
+): Promise<ForkPoint> {
+  if ( recent.length === 0 ) return { orphaned: [] };
+  const lowest = recent[0].height;
+  const highest = recent[recent.length - 1].height;
+  const tip = await btc.getTipHeight();
+  const onChain = new Map<number, string>();
+  if ( tip >= lowest ) {
+    const refs = await btc.getBlockHashRange( lowest, Math.min( tip, highest ) );
+    for ( const r of refs ) onChain.set( r.height, r.hash );
+  }
+  const orphaned: OrphanedBlock[] = [];
+  for ( let i = recent.length - 1; i >= 0; i-- ) {
+    const stored = recent[i];
+    const best = onChain.get( stored.height );
+    if ( best === stored.hash ) {
+      const ancestor = { height: stored.height, hash: stored.hash };
+      return { ancestor, orphaned: orphaned.reverse() };
+    }
+    orphaned.push( { height: stored.height, oldHash: stored.hash, newHash: best } );
+  }
+  return { orphaned: orphaned.reverse() };
+}
+
+/**
+ * Bounded window of the most recently published blocks (the header chain the producer
+ * followed), used to locate the common ancestor when the best chain switches branches.
+ */
+export class ChainTracker {
+  private readonly maxDepth: number;
+  private blocks: BlockRef[] = [];
+
+  constructor(opts?: { maxDepth?: number }) {
+    this.maxDepth = Math.max( 1, opts?.maxDepth ?? REORG_MAX_DEPTH_DEFAULT );
+  }
+
+  /** Append a block; anything at or above its height (a replaced branch) is dropped first. */
+  record(ref: BlockRef): void {
+    this.truncateAbove( ref.height - 1 );
+    this.blocks.push( { height: ref.height, hash: ref.hash } );
+    if ( this.blocks.length > this.maxDepth ) this.blocks.shift();
+  }
+
+  /** Drop every remembered block above the given height. */
+  truncateAbove(height: number): void {
+    while ( this.blocks.length > 0 && this.blocks[this.blocks.length - 1].height > height ) {
+      this.blocks.pop();
+    }
+  }
+
+  getRecent(): BlockRef[] {
+    return this.blocks.slice();
+  }
+
+  findForkPoint(
+    btc: Pick<BlockchainService, "getTipHeight" | "getBlockHashRange">
+  ): Promise<ForkPoint> {
+    return findForkPoint( this.blocks, btc );
+  }
+}
@@ -0,0 +1,209 @@
+import path from "path";
+
+import { CONFIRMATION_THRESHOLDS_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { AddressActivity } from "@/types/blockchain";
+import type {
+  ActivityConfirmedEvent,
+  AddressActivityFoundEvent,
+  EventSource
+} from "@/types/events";
+
+import type { EventService } from "./EventService";
+
+export type PendingActivity = {
+  /** eventId of the AddressActivityFound being tracked */
+  key: string;
+  block: { hash: string; height: number; time: number };
+  activity: AddressActivity;
+  source?: EventSource;
+  /** Thresholds already published for this activity */
+  reached: number[];
+};
+
+export type ConfirmationTrackerOptions = {
+  /** Confirmation depths that trigger ActivityConfirmed (default: 1,3,6) */
+  thresholds?: number[];
+  /** Path of the JSON state file (default: <cwd>/cache/confirmations.json) */
+  filePath?: string;
+};
+
+type TrackerState = {
+  version: 1;
+  tipHeight?: number;
+  pending: PendingActivity[];
+};
+
+/**
+ * Follows AddressActivityFound events until they are buried deep enough. Each time the chain
+ * passes a configured depth it publishes ActivityConfirmed; activities from blocks that were
+ * reorged out are dropped. Pending activities and the last seen tip are persisted atomically,
+ * so a restart continues counting instead of forgetting open activities.
+ */
+export class ConfirmationTracker {
+  private readonly events: EventService;
+  private readonly thresholds: number[];
+  private readonly filePath: string;
+  private readonly log: AppLogger;
+  private readonly pending: Map<string, PendingActivity> = new Map();
+  private tipHeight?: number;
+
+  constructor(events: EventService, opts?: ConfirmationTrackerOptions) {
+    this.events = events;
+    const thresholds = opts?.thresholds ?? CONFIRMATION_THRESHOLDS_DEFAULT;
+    this.thresholds = Array.from( new Set( thresholds ) )
+      .filter( (n) => Number.isInteger( n ) && n > 0 )
+      .sort( (a, b) => a - b );
+    this.filePath = opts?.filePath || path.join( process.cwd(), "cache", "confirmations.json" );
+    this.log = logger( "confirmation_tracker" );
+    this.read();
+
+    events.subscribe<"AddressActivityFound">( {
+      event: "AddressActivityFound",
+      name: "confirmation-track",
+      concurrency: 1,
+      handler: async (ev) => {
+        this.track( ev );
+        await this.evaluate();
+      },
+    } );
+    events.subscribe<"BlockDetected">( {
+      event: "BlockDetected",
+      name: "confirmation-tip",
+      concurrency: 1,
+      handler: async (ev) => {
+        this.tipHeight = Math.max( this.tipHeight ?? ev.height, ev.height );
+        await this.evaluate();
+      },
+    } );
+    events.subscribe<"BlockReorg">( {
+      event: "BlockReorg",
+      name: "confirmation-reorg",
+      concurrency: 1,
+      handler: (ev) => {
+        this.dropBlock( ev.height, ev.oldHash );
+      },
+    } );
+  }
+
+  getPending(): PendingActivity[] {
+    return Array.from( this.pending.values() )
+      .map( (p) => ({ ...p, reached: p.reached.slice() }) );
+  }
+
+  getTipHeight(): number | undefined {
+    return this.tipHeight;
+  }
+
+  private track(ev: AddressActivityFoundEvent): void {
+    if ( this.thresholds.length === 0 ) return;
+    const a = ev.activity;
+    const key = ev.eventId
+      || `AddressActivity:${ ev.block.height }:${ ev.block.hash }:${ a.address }:${ a.txid }:${ a.direction }`;
+    if ( this.pending.has( key ) ) return;
+    this.pending.set( key, {
+      key,
+      block: ev.block,
+      activity: a,
+      source: ev.source,
+      reached: [],
+    } );
+    // The activity block is on the chain, so the tip is at least its height
+    this.tipHeight = Math.max( this.tipHeight ?? ev.block.height, ev.block.height );
+  }
+
+  /** Publish every threshold passed since the last evaluation; forget fully confirmed ones. */
+  private async evaluate(): Promise<void> {
+    const tip = this.tipHeight;
+    if ( typeof tip !== "number" ) return;
+    const due: ActivityConfirmedEvent[] = [];
+    for ( const p of this.pending.values() ) {
+      const confirmations = tip - p.block.height + 1;
+      for ( const threshold of this.thresholds ) {
+        if ( threshold > confirmations || p.reached.includes( threshold ) ) continue;
+        p.reached.push( threshold );
+        const a = p.activity;
+        const id = `ActivityConfirmed:${ threshold }:${ p.block.height }:${ p.block.hash }:${ a.address }:${ a.txid }:${ a.direction }`;
+        due.push( {
+          type: "ActivityConfirmed",
+          timestamp: new Date().toISOString(),
+          block: p.block,
+          activity: a,
+          confirmations: threshold,
+          tipHeight: tip,
+          source: p.source,
+          dedupeKey: id,
+          eventId: id,
+        } );
+      }
+      if ( p.reached.length >= this.thresholds.length ) this.pending.delete( p.key );
+    }
+    for ( const ev of due ) {
+      await this.events.publish( ev );
+    }
+    // Persist after publishing: a crash in between repeats an event (same dedupeKey) rather
+    // than losing it
+    this.write();
+  }
+
+  private dropBlock(height: number, blockHash: string): void {
+    let dropped = 0;
+    for ( const [ key, p ] of this.pending ) {
+      if ( p.block.hash !== blockHash ) continue;
+      this.pending.delete( key );
+      dropped += 1;
+    }
+    // The replacement branch is re-detected from this height
+    if ( typeof this.tipHeight === "number" ) {
+      this.tipHeight = Math.min( this.tipHeight, height - 1 );
+    }
+    if ( dropped > 0 ) {
+      this.log.info( { type: "confirmations.dropped", height, hash: blockHash, dropped } );
+    }
+    this.write();
+  }
+
+  private write(): void {
+    const state: TrackerState = {
+      version: 1,
+      tipHeight: this.tipHeight,
+      pending: Array.from( this.pending.values() ),
+    };
+    try {
+      getFileStorage().writeFileAtomic( this.filePath, JSON.stringify( state ) );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.error( { type: "confirmations.write_failed", path: this.filePath, message } );
+    }
+  }
+
+  private read(): void {
+    const storage = getFileStorage();
+    try {
+      if ( !storage.fileExists( this.filePath ) ) return;
+      const json = JSON.parse( storage.readFile( this.filePath, "utf-8" ) );
+      if ( typeof json?.tipHeight === "number" ) this.tipHeight = json.tipHeight;
+      const items: any[] = Array.isArray( json?.pending ) ? json.pending : [];
+      for ( const p of items ) {
+        if ( typeof p?.key !== "string" || typeof p?.block?.height !== "number" ) continue;
+        this.pending.set( p.key, {
+          key: p.key,
+          block: p.block,
+          activity: p.activity,
+          source: p.source,
+          reached: Array.isArray( p.reached ) ? p.reached.filter( Number.isInteger ) : [],
+        } );
+      }
+      this.log.info( {
+        type: "confirmations.loaded",
+        path: this.filePath,
+        pending: this.pending.size,
+        tipHeight: this.tipHeight,
+      } );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "confirmations.read_failed", path: this.filePath, message } );
+    }
+  }
+}
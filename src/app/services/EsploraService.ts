@@ -0,0 +1,347 @@
+import {
+  applyTransactionFee,
+  buildWatchIndexCache,
+  findAddressActivities,
+  tryDecodeUtf8,
+  type WatchIndexCache
+} from "@/app/helpers/bitcoin";
+import { Raw, type EsploraClient, type EsploraTx } from "@/infrastructure/bitcoin";
+import {
+  ESPLORA_FETCH_CONCURRENCY_DEFAULT,
+  ESPLORA_TXS_PAGE_SIZE,
+  POLL_INTERVAL_MS_DEFAULT,
+  TX,
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import type {
+  AddressActivity,
+  BlockchainService,
+  BlockRef,
+  MempoolTransaction,
+  ParsedBlock,
+  ParsedTransaction,
+  ParsedTxOutput,
+  WatchedAddress,
+} from "@/types/blockchain";
+import type { HealthResult } from "@/types/healthcheck";
+
+import type { FeatureFlags, FeatureFlagsService } from "./FeatureFlagsService";
+
+export type EsploraServiceOptions = {
+  pollIntervalMs?: number;
+  resolveInputAddresses?: boolean;
+  /** Raw path: rebuild input addresses from revealed public keys (P2PKH, P2WPKH, P2SH-P2WPKH) */
+  deriveInputAddresses?: boolean;
+  parseRawBlocks?: boolean;
+  network?: Raw.Network;
+  flagsService?: FeatureFlagsService;
+  /** Parallel REST requests per block, hash range or mempool poll (default: 4) */
+  concurrency?: number;
+  /** Raw path: parse blocks on these worker threads instead of the event loop */
+  parserPool?: Raw.RawParserPool;
+  /** Raw path: leave out transactions that fail to parse (ParsedBlock.parseWarnings) */
+  tolerantParsing?: boolean;
+  /** Match watched entries on scriptPubKey bytes instead of address strings */
+  matchScripts?: boolean;
+};
+
+/**
+ * BlockchainService over an Esplora/electrs REST API, for deployments without a full node.
+ * Esplora returns every input's prevout, so input addresses resolve without extra requests.
+ * Scripts are decoded by the raw parser, keeping addresses and script types identical to the
+ * RPC backend.
+ */
+export class EsploraService implements BlockchainService {
+  private readonly client: EsploraClient;
+  private readonly pollIntervalMs: number;
+  private readonly resolveInputAddresses: boolean;
+  private readonly deriveInputAddresses: boolean;
+  private readonly parseRawBlocks: boolean;
+  private readonly flagsService?: FeatureFlagsService;
+  private readonly network: Raw.Network = "mainnet";
+  private readonly concurrency: number;
+  private readonly parserPool?: Raw.RawParserPool;
+  private readonly tolerantParsing: boolean;
+  private readonly matchScripts: boolean;
+  private readonly log: AppLogger;
+  private _watchedCache?: WatchIndexCache;
+
+  constructor(client: EsploraClient, opts?: EsploraServiceOptions) {
+    this.client = client;
+    this.pollIntervalMs = opts?.pollIntervalMs ?? POLL_INTERVAL_MS_DEFAULT;
+    this.resolveInputAddresses = opts?.resolveInputAddresses ?? false;
+    this.deriveInputAddresses = opts?.deriveInputAddresses ?? false;
+    this.parseRawBlocks = opts?.parseRawBlocks ?? false;
+    this.flagsService = opts?.flagsService;
+    this.concurrency = Math.max( 1, opts?.concurrency ?? ESPLORA_FETCH_CONCURRENCY_DEFAULT );
+    this.parserPool = opts?.parserPool;
+    this.tolerantParsing = opts?.tolerantParsing ?? false;
+    this.matchScripts = opts?.matchScripts ?? false;
+    this.log = logger( "esplora_service" );
+    if ( opts?.network ) this.network = opts.network;
+  }
+
+  setWatchedAddresses(watched: WatchedAddress[]): void {
+    this._watchedCache = buildWatchIndexCache( watched, { scripts: this.matchScripts } );
+  }
+
+  async connect(): Promise<void> {
+    await this.client.getTipHeight();
+  }
+
+  async ping(): Promise<HealthResult> {
+    const started = Date.now();
+    try {
+      const blocks = await this.client.getTipHeight();
+      return {
+        provider: "esplora",
+        ok: true,
+        status: "ok",
+        latencyMs: Date.now() - started,
+        checkedAt: new Date().toISOString(),
+        details: { blocks },
+      };
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      return {
+        provider: "esplora",
+        ok: false,
+        status: "error",
+        latencyMs: Date.now() - started,
+        checkedAt: new Date().toISOString(),
+        details: { error: message },
+      };
+    }
+  }
+
+  async getTipHeight(): Promise<number> {
+    return this.client.getTipHeight();
+  }
+
+  async awaitNewHeight(sinceHeight?: number): Promise<number> {
+    const current = sinceHeight ?? (await this.client.getTipHeight());
+    for ( ; ; ) {
+      const latest = await this.client.getTipHeight();
+      if ( latest > current ) return latest;
+      await this.sleep( this.pollIntervalMs );
+    }
+  }
+
+  async awaitNewBlock(sinceHeight?: number): Promise<ParsedBlock> {
+    const latest = await this.awaitNewHeight( sinceHeight );
+    return this.parseBlockByHash( await this.client.getBlockHash( latest ) );
+  }
+
+  async getBlockHashRange(fromHeight: number, toHeight: number): Promise<BlockRef[]> {
+    if ( toHeight < fromHeight ) return [];
+    const heights: number[] = [];
+    for ( let h = fromHeight; h <= toHeight; h++ ) heights.push( h );
+    const hashes = await mapLimited(
+      heights,
+      this.concurrency,
+      (h) => this.client.getBlockHash( h )
+    );
+    return heights.map( (height, i) => ({ height, hash: hashes[i] }) );
+  }
+
+  /** Same contract as BitcoinService.findHeightByTime: binary search over median time past. */
+  async findHeightByTime(unixSeconds: number): Promise<number> {
+    let lo = 0;
+    let hi = (await this.client.getTipHeight()) + 1;
+    while ( lo < hi ) {
+      const mid = Math.floor( (lo + hi) / 2 );
+      const block = await this.client.getBlock( await this.client.getBlockHash( mid ) );
+      const t = block.mediantime ?? block.timestamp;
+      if ( t >= unixSeconds ) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  async parseBlockByHash(blockHash: string): Promise<ParsedBlock> {
+    const flags = this.getFlags();
+    const block = await this.client.getBlock( blockHash );
+    const base = {
+      hash: block.id,
+      prevHash: block.previousblockhash ?? undefined,
+      height: block.height,
+      time: block.timestamp,
+    };
+    if ( flags.parseRawBlocks && !flags.resolveInputAddresses ) {
+      // One request for the whole block instead of one per 25 transactions
+      const raw = await this.client.getBlockRaw( blockHash );
+      const parseOpts = {
+        deriveInputAddresses: this.deriveInputAddresses,
+        tolerant: this.tolerantParsing,
+        scriptPubKeys: this.matchScripts,
+      };
+      const parsed = this.parserPool
+        ? await this.parserPool.parse( raw, this.network, parseOpts )
+        : Raw.parseRawBlock( raw, this.network, parseOpts );
+      return {
+        ...base,
+        transactions: parsed.transactions.map( (t) => ({
+          txid: t.txid,
+          wtxid: t.wtxid,
+          version: t.version,
+          locktime: t.locktime,
+          weight: t.weight,
+          vsize: t.vsize,
+          replaceable: t.replaceable,
+          inputs: this.deriveInputAddresses ? t.inputs.map( (i) => ({ address: i.address }) ) : [],
+          outputs: t.outputs.map( (o) => ({
+            address: o.address,
+            valueBtc: o.valueBtc,
+            scriptPubKey: o.scriptPubKey,
+            scriptType: o.scriptType,
+            pubkeys: o.pubkeys,
+            opReturnDataHex: o.opReturnDataHex,
+            opReturnUtf8: o.opReturnDataHex ? tryDecodeUtf8( o.opReturnDataHex ) : undefined,
+            opReturnPushes: o.opReturnPushes,
+          }) ),
+        }) ),
+        parseWarnings: parsed.warnings,
+      };
+    }
+    const starts: number[] = [];
+    for ( let i = 0; i < block.tx_count; i += ESPLORA_TXS_PAGE_SIZE ) starts.push( i );
+    const pages = await mapLimited(
+      starts,
+      this.concurrency,
+      (start) => this.client.getBlockTxs( blockHash, start )
+    );
+    const txs = pages.flat();
+    if ( txs.length !== block.tx_count ) {
+      this.log.warn( {
+        type: "esplora.tx_count_mismatch",
+        hash: blockHash,
+        expected: block.tx_count,
+        received: txs.length,
+      } );
+    }
+    return {
+      ...base,
+      transactions: txs.map( (t) => this.toParsedTransaction( t, flags.resolveInputAddresses ) ),
+    };
+  }
+
+  async parseLatestBlockOnce(): Promise<ParsedBlock> {
+    const height = await this.client.getTipHeight();
+    return this.parseBlockByHash( await this.client.getBlockHash( height ) );
+  }
+
+  async getMempoolTxids(): Promise<string[]> {
+    return this.client.getMempoolTxids();
+  }
+
+  async parseMempoolTransactions(txids: string[]): Promise<MempoolTransaction[]> {
+    const flags = this.getFlags();
+    const fetched = await mapLimited( txids, this.concurrency, async (txid) => {
+      try {
+        return await this.client.getTx( txid );
+      } catch {
+        // evicted or mined since /mempool/txids
+        return undefined;
+      }
+    } );
+    const out: MempoolTransaction[] = [];
+    for ( const tx of fetched ) {
+      if ( !tx || !Array.isArray( tx.vin ) || !Array.isArray( tx.vout ) ) continue;
+      const parsedTx = this.toParsedTransaction( tx, flags.resolveInputAddresses );
+      out.push( {
+        tx: parsedTx,
+        spends: tx.vin.filter( (v) => !v.is_coinbase ).map( (v) => `${ v.txid }:${ v.vout }` ),
+        replaceable: parsedTx.replaceable === true,
+      } );
+    }
+    return out;
+  }
+
+  checkTransactions(block: ParsedBlock, watched: WatchedAddress[]): AddressActivity[] {
+    const cached = this._watchedCache;
+    if ( !cached || (cached.sourceRef !== watched && watched && watched.length > 0) ) {
+      this._watchedCache = buildWatchIndexCache( watched, { scripts: this.matchScripts } );
+    }
+    return findAddressActivities( block, this._watchedCache as WatchIndexCache );
+  }
+
+  private getFlags(): FeatureFlags {
+    if ( this.flagsService ) return this.flagsService.getFlags();
+    return {
+      parseRawBlocks: this.parseRawBlocks,
+      resolveInputAddresses: this.resolveInputAddresses,
+    };
+  }
+
+  private toParsedTransaction(tx: EsploraTx, resolveInputs: boolean): ParsedTransaction {
+    const outputs: ParsedTxOutput[] = tx.vout.map( (o) => {
+      const script = Buffer.from( o.scriptpubkey, "hex" );
+      const decoded = Raw.decodeScriptPubKey( script, this.network, !this.matchScripts );
+      const opReturnDataHex = decoded.opReturnDataHex;
+      return {
+        address: decoded.address ?? o.scriptpubkey_address,
+        valueBtc: Raw.btcFromSats( BigInt( o.value ) ),
+        scriptPubKey: this.matchScripts ? script : undefined,
+        scriptType: decoded.type,
+        pubkeys: decoded.pubkeys,
+        opReturnDataHex,
+        opReturnUtf8: opReturnDataHex ? tryDecodeUtf8( opReturnDataHex ) : undefined,
+        opReturnPushes: decoded.opReturnPushes,
+      };
+    } );
+    const inputs: ParsedTransaction["inputs"] = [];
+    if ( resolveInputs ) {
+      for ( const vin of tx.vin ) {
+        if ( vin.is_coinbase || !vin.prevout ) {
+          inputs.push( {} );
+          continue;
+        }
+        inputs.push( {
+          address: vin.prevout.scriptpubkey_address,
+          valueBtc: Raw.btcFromSats( BigInt( vin.prevout.value ) ),
+          scriptPubKey: this.matchScripts
+            ? Buffer.from( vin.prevout.scriptpubkey, "hex" )
+            : undefined,
+        } );
+      }
+    }
+    const parsed: ParsedTransaction = {
+      txid: tx.txid,
+      inputs,
+      outputs,
+      // Esplora JSON has no wtxid
+      version: tx.version,
+      locktime: tx.locktime,
+      weight: tx.weight,
+      vsize: tx.weight !== undefined
+        ? Math.ceil( tx.weight / TX.WITNESS_SCALE_FACTOR )
+        : undefined,
+      replaceable: tx.vin.some( (v) => !v.is_coinbase && v.sequence < TX.RBF_SEQUENCE_THRESHOLD ),
+    };
+    // Esplora reports the fee in sats from the prevouts it already has
+    applyTransactionFee( parsed, tx.fee );
+    return parsed;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise( (resolve) => setTimeout( resolve, ms ) );
+  }
+}
+
+/** items.map(fn) with at most `limit` calls in flight; results keep the input order. */
+async function mapLimited<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>( items.length );
+  let next = 0;
+  const worker = async () => {
+    while ( next < items.length ) {
+      const i = next++;
+      results[i] = await fn( items[i] );
+    }
+  };
+  await Promise.all( Array.from( { length: Math.min( limit, items.length ) }, worker ) );
+  return results;
+}
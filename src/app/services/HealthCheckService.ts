@@ -1,12 +1,12 @@
 import { logHealthResult } from "@/app/helpers/healthcheck";
+import type { BlockchainService } from "@/types/blockchain";
 import type { HealthResult } from "@/types/healthcheck";
 
-import { BitcoinService } from "./BitcoinService";
 import { CurrencyService } from "./CurrencyService";
 
 export class HealthCheckService {
   async runStartupChecks(
-    bitcoin: BitcoinService,
+    bitcoin: BlockchainService,
     currency: CurrencyService,
   ): Promise<HealthResult[]> {
     await bitcoin.connect();
@@ -0,0 +1,242 @@
+import {
+  MEMPOOL_BLOCK_HASH,
+  MEMPOOL_MAX_TX_PER_POLL_DEFAULT,
+  MEMPOOL_POLL_INTERVAL_MS_DEFAULT
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import type {
+  AddressActivity,
+  BlockchainService,
+  MempoolTransaction,
+  WatchedAddress
+} from "@/types/blockchain";
+import type {
+  UnconfirmedActivityDroppedEvent,
+  UnconfirmedActivityFoundEvent
+} from "@/types/events";
+
+import { ActivityRules } from "./ActivityRules";
+import type { EventService } from "./EventService";
+
+export type MempoolWatcherOptions = {
+  /** Interval between getrawmempool polls (default: 2000) */
+  pollIntervalMs?: number;
+  /** New transactions fetched per poll; the rest wait for the next poll (default: 2000) */
+  maxTxPerPoll?: number;
+  /** Alert rules of the watched entries, shared with the block pipeline for its cooldowns */
+  rules?: ActivityRules;
+};
+
+type TrackedTx = {
+  events: UnconfirmedActivityFoundEvent[];
+  spends: string[];
+  /** Set once the tx was seen in a processed block */
+  confirmed: boolean;
+  /** Tip height when the tx was first missing from the mempool */
+  goneAtHeight?: number;
+};
+
+function activityKey(a: AddressActivity): string {
+  return `${ a.txid }:${ a.address }:${ a.direction }`;
+}
+
+/**
+ * Polls the node mempool and reports watched-address activity before it is mined. New
+ * transactions go through the same checkTransactions matching as blocks and produce
+ * UnconfirmedActivityFound. Tracked transactions are linked to their AddressActivityFound once
+ * mined (see linkConfirmed), or reported as UnconfirmedActivityDropped when a conflicting
+ * transaction replaces them (RBF) or they leave the mempool without being mined.
+ */
+export class MempoolWatcher {
+  private readonly btc: BlockchainService;
+  private readonly events: EventService;
+  private readonly watched: WatchedAddress[];
+  private readonly pollIntervalMs: number;
+  private readonly maxTxPerPoll: number;
+  private readonly rules: ActivityRules;
+  private readonly log: AppLogger;
+  /** Mempool txids already fetched */
+  private known: Set<string> = new Set();
+  /** New txids waiting to be fetched */
+  private backlog: string[] = [];
+  private readonly tracked: Map<string, TrackedTx> = new Map();
+  /** Outpoint -> tracked txid spending it */
+  private readonly spentBy: Map<string, string> = new Map();
+  /** Highest block the pipeline reported as processed */
+  private processedHeight?: number;
+  private stopped: boolean = false;
+
+  constructor(
+    btc: BlockchainService,
+    events: EventService,
+    watched: WatchedAddress[],
+    opts?: MempoolWatcherOptions
+  ) {
+    this.btc = btc;
+    this.events = events;
+    // Live reference: hot reloads of the watch list apply to the next poll
+    this.watched = watched;
+    this.pollIntervalMs = Math.max( 1, opts?.pollIntervalMs ?? MEMPOOL_POLL_INTERVAL_MS_DEFAULT );
+    this.maxTxPerPoll = Math.max( 1, opts?.maxTxPerPoll ?? MEMPOOL_MAX_TX_PER_POLL_DEFAULT );
+    this.rules = opts?.rules ?? new ActivityRules();
+    this.log = logger( "mempool_watcher" );
+    events.subscribe<"BlockProcessed">( {
+      event: "BlockProcessed",
+      name: "mempool-settle",
+      concurrency: 1,
+      handler: async (ev) => {
+        if ( ev.source === "backfill" ) return;
+        this.processedHeight = Math.max( this.processedHeight ?? ev.height, ev.height );
+        await this.settle( this.processedHeight );
+      },
+    } );
+  }
+
+  /** Poll until stop() is called; errors are logged and retried on the next interval. */
+  async run(): Promise<void> {
+    while ( !this.stopped ) {
+      try {
+        await this.pollOnce();
+      } catch ( err ) {
+        const message = err instanceof Error ? err.message : String( err );
+        this.log.warn( { type: "mempool.poll_failed", message } );
+      }
+      await new Promise( (r) => setTimeout( r, this.pollIntervalMs ) );
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  async pollOnce(): Promise<void> {
+    // Read the tip after the mempool: a block that removed a tx is then at or below the tip
+    const txids = await this.btc.getMempoolTxids();
+    const tip = await this.btc.getTipHeight();
+    const current = new Set( txids );
+    // Tracked transactions that left the mempool: mined, or evicted if no block claims them
+    for ( const [ txid, t ] of this.tracked ) {
+      if ( !current.has( txid ) && !t.confirmed && t.goneAtHeight === undefined ) {
+        t.goneAtHeight = tip;
+      }
+    }
+    if ( this.processedHeight !== undefined ) await this.settle( this.processedHeight );
+    const queued = new Set( this.backlog );
+    for ( const txid of txids ) {
+      if ( !this.known.has( txid ) && !queued.has( txid ) ) this.backlog.push( txid );
+    }
+    this.backlog = this.backlog.filter( (txid) => current.has( txid ) );
+    const batch = this.backlog.splice( 0, this.maxTxPerPoll );
+    const parsed = await this.btc.parseMempoolTransactions( batch );
+    for ( const mtx of parsed ) {
+      await this.handleTransaction( mtx );
+    }
+    // Forget txids that left the mempool; keep the ones fetched in this poll
+    const nextKnown = new Set<string>();
+    for ( const txid of this.known ) if ( current.has( txid ) ) nextKnown.add( txid );
+    for ( const txid of batch ) nextKnown.add( txid );
+    this.known = nextKnown;
+    if ( parsed.length > 0 ) {
+      this.log.debug( {
+        type: "mempool.poll",
+        size: txids.length,
+        fetched: parsed.length,
+        pending: this.backlog.length,
+        tracked: this.tracked.size,
+      } );
+    }
+  }
+
+  /**
+   * Called for activities found in a block: returns the eventId of the matching
+   * UnconfirmedActivityFound (if the tx was seen unconfirmed) and marks the tx as mined.
+   */
+  linkConfirmed(activity: AddressActivity): string | undefined {
+    const t = this.tracked.get( activity.txid );
+    if ( !t ) return undefined;
+    t.confirmed = true;
+    const key = activityKey( activity );
+    return t.events.find( (e) => activityKey( e.activity ) === key )?.eventId;
+  }
+
+  private async handleTransaction(mtx: MempoolTransaction): Promise<void> {
+    // A conflicting spend of a tracked transaction's input replaces it (RBF)
+    const replaced = new Set<string>();
+    for ( const outpoint of mtx.spends ) {
+      const owner = this.spentBy.get( outpoint );
+      if ( owner && owner !== mtx.tx.txid ) replaced.add( owner );
+    }
+    for ( const txid of replaced ) {
+      await this.drop( txid, "replaced", mtx.tx.txid );
+    }
+
+    const time = Math.floor( Date.now() / 1000 );
+    const block = { hash: MEMPOOL_BLOCK_HASH, height: -1, time, transactions: [ mtx.tx ] };
+    const found = this.btc.checkTransactions( block, this.watched );
+    if ( found.length === 0 || this.tracked.has( mtx.tx.txid ) ) return;
+    // Suppressed activities are not reported, nor tracked for a later drop
+    const { kept: activities } = this.rules.apply( block, found, this.watched );
+    if ( activities.length === 0 ) return;
+    const evs: UnconfirmedActivityFoundEvent[] = activities.map( (activity) => {
+      const id = `UnconfirmedActivity:${ activityKey( activity ) }`;
+      return {
+        type: "UnconfirmedActivityFound",
+        timestamp: new Date().toISOString(),
+        activity,
+        replaceable: mtx.replaceable,
+        dedupeKey: id,
+        eventId: id,
+      };
+    } );
+    this.tracked.set( mtx.tx.txid, { events: evs, spends: mtx.spends, confirmed: false } );
+    for ( const outpoint of mtx.spends ) this.spentBy.set( outpoint, mtx.tx.txid );
+    for ( const ev of evs ) {
+      await this.events.publish( ev );
+    }
+  }
+
+  /** After a block is processed: forget mined txs, report ones that vanished without a block. */
+  private async settle(processedHeight: number): Promise<void> {
+    for ( const [ txid, t ] of Array.from( this.tracked ) ) {
+      if ( t.confirmed ) {
+        this.untrack( txid );
+      } else if ( t.goneAtHeight !== undefined && processedHeight >= t.goneAtHeight ) {
+        await this.drop( txid, "evicted" );
+      }
+    }
+  }
+
+  private async drop(
+    txid: string,
+    reason: UnconfirmedActivityDroppedEvent["reason"],
+    replacedBy?: string
+  ): Promise<void> {
+    const t = this.tracked.get( txid );
+    if ( !t || t.confirmed ) return;
+    this.untrack( txid );
+    this.log.info( { type: "mempool.dropped", txid, reason, replacedBy } );
+    for ( const found of t.events ) {
+      const id = `UnconfirmedActivityDropped:${ activityKey( found.activity ) }`;
+      const ev: UnconfirmedActivityDroppedEvent = {
+        type: "UnconfirmedActivityDropped",
+        timestamp: new Date().toISOString(),
+        activity: found.activity,
+        reason,
+        replacedBy,
+        unconfirmedEventId: found.eventId,
+        dedupeKey: id,
+        eventId: id,
+      };
+      await this.events.publish( ev );
+    }
+  }
+
+  private untrack(txid: string): void {
+    const t = this.tracked.get( txid );
+    if ( !t ) return;
+    this.tracked.delete( txid );
+    for ( const outpoint of t.spends ) {
+      if ( this.spentBy.get( outpoint ) === txid ) this.spentBy.delete( outpoint );
+    }
+  }
+}
@@ -1,24 +1,48 @@
 import { logActivities, logBlockSummary, logOpReturnData } from "@/app/helpers/bitcoin";
 import { getUsdRate, mapActivitiesWithUsd } from "@/app/helpers/currency";
 import type { AppConfig } from "@/config";
+import { REORG_MAX_DEPTH_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import { logger } from "@/infrastructure/logger";
 import { FileSink, KafkaSink, NatsSink, StdoutSink, WebhookSink } from "@/infrastructure/sinks";
 import type { NotificationSink } from "@/infrastructure/sinks";
-import type { AddressActivity, ParsedBlock, WatchedAddress } from "@/types/blockchain";
-import type { AddressActivityFoundEvent, NotificationEmittedEvent } from "@/types/events";
+import type {
+  BlockchainService,
+  ParsedBlock,
+  WatchedAddress
+} from "@/types/blockchain";
+import type {
+  AddressActivityFoundEvent,
+  AddressActivityRetractedEvent,
+  BlockParseWarningEvent,
+  BlockProcessedEvent,
+  EventSource,
+  NotificationEmittedEvent
+} from "@/types/events";
 
-import type { BitcoinService, CurrencyService, EventService } from ".";
+import type { CurrencyService, EventService } from ".";
 import { WorkersService } from ".";
+import { ActivityJournal } from "./ActivityJournal";
+import { ActivityRules } from "./ActivityRules";
+import type { MempoolWatcher } from "./MempoolWatcher";
+import type { XpubWatcher } from "./XpubWatcher";
 
 export function registerEventPipeline(
   events: EventService,
-  services: { btc: BitcoinService; currency: CurrencyService },
+  services: {
+    btc: BlockchainService;
+    currency: CurrencyService;
+    mempool?: Pick<MempoolWatcher, "linkConfirmed">;
+    xpubs?: Pick<XpubWatcher, "addresses" | "recordActivity">;
+    rules?: ActivityRules;
+  },
   cfg: AppConfig,
 ): WatchedAddress[] {
-  const { btc, currency } = services;
+  const { btc, currency, mempool, xpubs } = services;
+  const rules = services.rules ?? new ActivityRules();
   const workers = new WorkersService( cfg.worker.id, cfg.worker.members );
 
   // Precompute and set immutable watch indexes for the addresses this worker is responsible for
-  const filteredWatch = workers.filterWatched( cfg.watch );
+  const filteredWatch = workers.filterWatched( [ ...cfg.watch, ...(xpubs?.addresses() ?? []) ] );
   // Optional: available on real BitcoinService; tests may pass a fake without it
   (btc as any).setWatchedAddresses?.( filteredWatch );
 
@@ -47,6 +71,28 @@ export function registerEventPipeline(
     }
   }
 
+  // Report a block as processed only after every activity in it was fanned out to sinks
+  const fanout = new BlockFanoutTracker( async (block, activityCount) => {
+    const key = `BlockProcessed:${ block.height }:${ block.hash }`;
+    const pev: BlockProcessedEvent = {
+      type: "BlockProcessed",
+      timestamp: new Date().toISOString(),
+      height: block.height,
+      hash: block.hash,
+      activityCount,
+      source: block.source,
+      dedupeKey: key,
+      eventId: key,
+    };
+    await events.publish( pev );
+  } );
+
+  // Activities reported per recent block, kept so a reorg can retract them. Persisted with the
+  // scan checkpoint: a resumed run may find that blocks of the previous one were orphaned
+  const journal = new ActivityJournal( REORG_MAX_DEPTH_DEFAULT, {
+    filePath: cfg.checkpoint?.enabled ? cfg.checkpoint.journalFilePath : undefined,
+  } );
+
   events.subscribe<"BlockDetected">( {
     event: "BlockDetected",
     name: "parse-block",
@@ -67,6 +113,7 @@ export function registerEventPipeline(
         type: "BlockParsed",
         timestamp: new Date().toISOString(),
         block,
+        source: ev.source,
         dedupeKey,
         eventId: dedupeKey
       } );
@@ -79,6 +126,20 @@ export function registerEventPipeline(
     concurrency: 1,
     retry: { maxRetries: 2, backoffMs: (n) => 100 * n },
     handler: async (ev) => {
+      // Transactions the tolerant raw parser left out; activities below cover the rest
+      for ( const issue of ev.block.parseWarnings ?? [] ) {
+        const key = `BlockParseWarning:${ ev.block.height }:${ ev.block.hash }:${ issue.offset }`;
+        const wev: BlockParseWarningEvent = {
+          type: "BlockParseWarning",
+          timestamp: new Date().toISOString(),
+          block: { hash: ev.block.hash, height: ev.block.height },
+          issue,
+          source: ev.source,
+          dedupeKey: key,
+          eventId: key,
+        };
+        await events.publish( wev );
+      }
       // Delay non-critical external work (USD rate fetch) when there is a backlog, but do not skip
       const backlogHigh =
         events.getBacklogDepth( "BlockDetected" ) > Math.floor( cfg.maxEventQueueSize / 2 );
@@ -86,30 +147,65 @@ export function registerEventPipeline(
         await events.waitForCapacity( "BlockDetected" );
       }
       const rate = await getUsdRate( currency );
-      const activities: AddressActivity[] = mapActivitiesWithUsd(
-        btc.checkTransactions( ev.block, filteredWatch ),
-        rate,
-      );
+      let found = btc.checkTransactions( ev.block, filteredWatch );
+      // Activity on an xpub address moves its gap window; rescan the block for the new addresses
+      for ( let added = xpubs?.recordActivity( found ) ?? []; added.length > 0; ) {
+        filteredWatch.push( ...added );
+        btc.setWatchedAddresses( filteredWatch );
+        found = btc.checkTransactions( ev.block, filteredWatch );
+        added = xpubs?.recordActivity( found ) ?? [];
+      }
+      const priced = mapActivitiesWithUsd( found, rate );
+      // Link every mined activity, suppressed ones too: its mempool entry is then not dropped
+      const linked = new Map( priced.map( (a) => [ a, mempool?.linkConfirmed( a ) ] ) );
+      // Alert rules of the watched entries: suppressed activities are counted and logged only
+      const { kept: activities } = rules.apply( ev.block, priced, filteredWatch );
       logBlockSummary( ev.block, activities.length );
       // OP_RETURN logging is non-critical; delay under pressure, do not skip
       if ( backlogHigh ) {
         await events.waitForCapacity( "BlockDetected" );
       }
       logOpReturnData( ev.block );
-      for ( const activity of activities ) {
-        const aev: AddressActivityFoundEvent = {
-          type: "AddressActivityFound",
-          timestamp: new Date().toISOString(),
-          block: { hash: ev.block.hash, height: ev.block.height, time: ev.block.time },
-          activity,
-          dedupeKey: `AddressActivity:${ ev.block.height }:${ ev.block.hash }:${ activity.address }:${ activity.txid }:${ activity.direction }`,
-          eventId: `AddressActivity:${ ev.block.height }:${ ev.block.hash }:${ activity.address }:${ activity.txid }:${ activity.direction }`,
-        };
+      const aevs: AddressActivityFoundEvent[] = activities.map( (activity) => ({
+        type: "AddressActivityFound",
+        timestamp: new Date().toISOString(),
+        block: { hash: ev.block.hash, height: ev.block.height, time: ev.block.time },
+        activity,
+        source: ev.source,
+        // Links the activity to the UnconfirmedActivityFound reported while it was in the mempool
+        unconfirmedEventId: linked.get( activity ),
+        dedupeKey: `AddressActivity:${ ev.block.height }:${ ev.block.hash }:${ activity.address }:${ activity.txid }:${ activity.direction }`,
+        eventId: `AddressActivity:${ ev.block.height }:${ ev.block.hash }:${ activity.address }:${ activity.txid }:${ activity.direction }`,
+      }) );
+      // Backfill replays historical blocks, possibly beside a live scanner sharing the journal
+      // file: they would push the live scanner's recent blocks out of the window
+      if ( ev.source !== "backfill" ) journal.record( ev.block.hash, aevs );
+      // Open the block before publishing so fast sinks cannot settle it early
+      fanout.begin(
+        { height: ev.block.height, hash: ev.block.hash, source: ev.source },
+        aevs.map( (a) => a.dedupeKey as string )
+      );
+      for ( const aev of aevs ) {
         await events.publish( aev );
       }
     },
   } );
 
+  events.subscribe<"BlockParseWarning">( {
+    event: "BlockParseWarning",
+    name: "log-parse-warning",
+    concurrency: 1,
+    handler: (ev) => {
+      logger.warn( {
+        type: "block.parse_warning",
+        height: ev.block.height,
+        hash: ev.block.hash,
+        ...ev.issue,
+        source: ev.source,
+      } );
+    },
+  } );
+
   events.subscribe<"AddressActivityFound">( {
     event: "AddressActivityFound",
     name: "log-activity",
@@ -127,6 +223,7 @@ export function registerEventPipeline(
       }
       // Fan out to sinks concurrently with simple error handling
       await Promise.allSettled( sinks.map( (s) => s.send( ev ) ) );
+      fanout.settle( ev.block.hash, ev.dedupeKey as string );
       const nev: NotificationEmittedEvent = {
         type: "NotificationEmitted",
         timestamp: new Date().toISOString(),
@@ -139,8 +236,185 @@ export function registerEventPipeline(
       await events.publish( nev );
     },
   } );
+  events.subscribe<"BlockReorg">( {
+    event: "BlockReorg",
+    name: "retract-activities",
+    concurrency: 1,
+    handler: async (ev) => {
+      const found = journal.take( ev.oldHash );
+      if ( found.length > 0 ) {
+        logger.warn( {
+          type: "reorg.retract",
+          height: ev.height,
+          oldHash: ev.oldHash,
+          newHash: ev.newHash,
+          activities: found.length,
+        } );
+      }
+      for ( const aev of found ) {
+        const a = aev.activity;
+        const key = `AddressActivityRetracted:${ aev.block.height }:${ aev.block.hash }:${ a.address }:${ a.txid }:${ a.direction }`;
+        const rev: AddressActivityRetractedEvent = {
+          type: "AddressActivityRetracted",
+          timestamp: new Date().toISOString(),
+          block: aev.block,
+          activity: a,
+          replacedBy: ev.newHash,
+          retractsEventId: aev.eventId,
+          source: aev.source,
+          dedupeKey: key,
+          eventId: key,
+        };
+        await events.publish( rev );
+      }
+    },
+  } );
+
+  events.subscribe<"AddressActivityRetracted">( {
+    event: "AddressActivityRetracted",
+    name: "deliver-retraction",
+    concurrency: 4,
+    retry: { maxRetries: 1, backoffMs: () => 0 },
+    handler: async (ev) => {
+      if ( sinks.length === 0 ) {
+        logger.warn( {
+          type: "transaction.retracted",
+          address: ev.activity.address,
+          txid: ev.activity.txid,
+          direction: ev.activity.direction,
+          valueBtc: ev.activity.valueBtc,
+          block: ev.block,
+          replacedBy: ev.replacedBy,
+        } );
+      }
+      await Promise.allSettled( sinks.map( (s) => s.send( ev ) ) );
+    },
+  } );
+
+  // Confirmation milestones (published by ConfirmationTracker when enabled)
+  events.subscribe<"ActivityConfirmed">( {
+    event: "ActivityConfirmed",
+    name: "deliver-confirmation",
+    concurrency: 4,
+    retry: { maxRetries: 1, backoffMs: () => 0 },
+    handler: async (ev) => {
+      if ( sinks.length === 0 ) {
+        logger.info( {
+          type: "transaction.confirmed",
+          address: ev.activity.address,
+          txid: ev.activity.txid,
+          direction: ev.activity.direction,
+          confirmations: ev.confirmations,
+          block: ev.block,
+        } );
+      }
+      await Promise.allSettled( sinks.map( (s) => s.send( ev ) ) );
+    },
+  } );
+
+  // Mempool activity (published by MempoolWatcher when enabled)
+  events.subscribe<"UnconfirmedActivityFound">( {
+    event: "UnconfirmedActivityFound",
+    name: "deliver-unconfirmed",
+    concurrency: 4,
+    retry: { maxRetries: 1, backoffMs: () => 0 },
+    handler: async (ev) => {
+      if ( sinks.length === 0 ) {
+        logger.info( {
+          type: "transaction.unconfirmed",
+          address: ev.activity.address,
+          txid: ev.activity.txid,
+          direction: ev.activity.direction,
+          valueBtc: ev.activity.valueBtc,
+          replaceable: ev.replaceable,
+        } );
+      }
+      await Promise.allSettled( sinks.map( (s) => s.send( ev ) ) );
+    },
+  } );
+
+  events.subscribe<"UnconfirmedActivityDropped">( {
+    event: "UnconfirmedActivityDropped",
+    name: "deliver-unconfirmed-dropped",
+    concurrency: 4,
+    retry: { maxRetries: 1, backoffMs: () => 0 },
+    handler: async (ev) => {
+      if ( sinks.length === 0 ) {
+        logger.warn( {
+          type: "transaction.unconfirmed_dropped",
+          address: ev.activity.address,
+          txid: ev.activity.txid,
+          direction: ev.activity.direction,
+          reason: ev.reason,
+          replacedBy: ev.replacedBy,
+        } );
+      }
+      await Promise.allSettled( sinks.map( (s) => s.send( ev ) ) );
+    },
+  } );
+
   // Expose the live reference so callers can mutate it in-place for hot reloads
   return filteredWatch;
 }
 
+type FanoutBlock = { height: number; hash: string; source?: EventSource };
+
+type OpenBlock = {
+  height: number;
+  hash: string;
+  source?: EventSource;
+  activityCount: number;
+  pending: Set<string>;
+};
+
+/**
+ * Tracks AddressActivityFound fan-out per block. Blocks are reported strictly in the order
+ * they were opened, so a block with quick sinks never overtakes an earlier, slower one.
+ */
+class BlockFanoutTracker {
+  private readonly open: OpenBlock[] = [];
+  private readonly onProcessed: (block: FanoutBlock, activityCount: number) => Promise<void>;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(onProcessed: (block: FanoutBlock, activityCount: number) => Promise<void>) {
+    this.onProcessed = onProcessed;
+  }
 
+  begin(block: FanoutBlock, activityKeys: string[]): void {
+    // Retried compute handlers re-open the same block; reset it in place to keep its order
+    const existing = this.open.find( (b) => b.hash === block.hash );
+    if ( existing ) {
+      existing.activityCount = activityKeys.length;
+      existing.pending = new Set( activityKeys );
+    } else {
+      this.open.push( {
+        height: block.height,
+        hash: block.hash,
+        source: block.source,
+        activityCount: activityKeys.length,
+        pending: new Set( activityKeys ),
+      } );
+    }
+    this.flush();
+  }
+
+  settle(blockHash: string, activityKey: string): void {
+    const entry = this.open.find( (b) => b.hash === blockHash );
+    if ( !entry ) return;
+    entry.pending.delete( activityKey );
+    this.flush();
+  }
+
+  private flush(): void {
+    while ( this.open.length > 0 && this.open[0].pending.size === 0 ) {
+      const done = this.open.shift() as OpenBlock;
+      // Serialize notifications to keep block order even when publishing waits on backpressure
+      this.chain = this.chain
+        .then( () => this.onProcessed(
+          { height: done.height, hash: done.hash, source: done.source },
+          done.activityCount
+        ) )
+        .catch( () => undefined );
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import path from "path";
+
+import { CHECKPOINT_HISTORY_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { BlockchainService, BlockRef } from "@/types/blockchain";
+
+import { findForkPoint } from "./ChainTracker";
+
+export type ScanCheckpoint = {
+  version: 1;
+  /** Last fully processed block (all activities delivered to sinks) */
+  height: number;
+  hash: string;
+  updatedAt: string;
+  /** Recently processed blocks, ascending by height, used to find a fork point on restart */
+  recent: BlockRef[];
+};
+
+export type ResumePoint = {
+  /** Height/hash to continue after; hash is undefined when the fork is deeper than history */
+  height: number;
+  hash?: string;
+  /** Stored blocks that are no longer on the best chain, with their replacements when known */
+  orphaned: { height: number; oldHash: string; newHash?: string }[];
+};
+
+export type ScanCheckpointServiceOptions = {
+  /** Path of the JSON checkpoint file (default: <cwd>/cache/scan-checkpoint.json) */
+  filePath?: string;
+  /** How many recent blocks to remember for fork detection (default: 12) */
+  historySize?: number;
+};
+
+/**
+ * Durable scan cursor. Records the last block whose AddressActivityFound fan-out finished,
+ * written atomically via FileStorageService so a crash never leaves a torn file.
+ */
+export class ScanCheckpointService {
+  private readonly filePath: string;
+  private readonly historySize: number;
+  private readonly log: AppLogger;
+  private current?: ScanCheckpoint;
+
+  constructor(opts?: ScanCheckpointServiceOptions) {
+    this.filePath = opts?.filePath || path.join( process.cwd(), "cache", "scan-checkpoint.json" );
+    this.historySize = Math.max( 1, opts?.historySize ?? CHECKPOINT_HISTORY_DEFAULT );
+    this.log = logger( "scan_checkpoint" );
+    this.current = this.read();
+  }
+
+  getCheckpoint(): ScanCheckpoint | undefined {
+    return this.current ? { ...this.current, recent: this.current.recent.slice() } : undefined;
+  }
+
+  /**
+   * Advance the cursor to a processed block. Only the next height is accepted so that an
+   * out-of-band block (e.g. the startup tip scan) can never make the cursor skip a gap.
+   */
+  commit(ref: BlockRef): boolean {
+    const cur = this.current;
+    if ( cur ) {
+      if ( ref.height <= cur.height ) return false;
+      if ( ref.height !== cur.height + 1 ) {
+        this.log.warn( {
+          type: "checkpoint.gap_skipped",
+          checkpointHeight: cur.height,
+          height: ref.height,
+          hash: ref.hash,
+        } );
+        return false;
+      }
+    }
+    const recent = [ ...(cur?.recent || []), { height: ref.height, hash: ref.hash } ]
+      .slice( -this.historySize );
+    const next: ScanCheckpoint = {
+      version: 1,
+      height: ref.height,
+      hash: ref.hash,
+      updatedAt: new Date().toISOString(),
+      recent,
+    };
+    try {
+      getFileStorage().writeFileAtomic( this.filePath, JSON.stringify( next, null, 2 ) );
+      this.current = next;
+      return true;
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.error( { type: "checkpoint.write_failed", path: this.filePath, message } );
+      return false;
+    }
+  }
+
+  /** Forget the stored cursor; the next commit starts a new one at any height. */
+  reset(): void {
+    this.current = undefined;
+  }
+
+  /**
+   * Compare remembered blocks with the best chain and return where scanning should continue.
+   * Returns undefined when no checkpoint exists yet.
+   */
+  async resolveResumePoint(
+    btc: Pick<BlockchainService, "getTipHeight" | "getBlockHashRange">
+  ): Promise<ResumePoint | undefined> {
+    const cp = this.current;
+    if ( !cp ) return undefined;
+    const recent = cp.recent.length > 0 ? cp.recent : [ { height: cp.height, hash: cp.hash } ];
+    const { ancestor, orphaned } = await findForkPoint( recent, btc );
+    if ( ancestor ) {
+      if ( orphaned.length > 0 ) {
+        this.log.warn( {
+          type: "checkpoint.reorged",
+          checkpointHeight: cp.height,
+          forkHeight: ancestor.height,
+          orphaned: orphaned.length,
+        } );
+        this.rollback( ancestor.height );
+      }
+      return { height: ancestor.height, hash: ancestor.hash, orphaned };
+    }
+    // The fork is deeper than the remembered history: rescan from below the oldest entry
+    const lowest = recent[0].height;
+    this.log.warn( {
+      type: "checkpoint.fork_beyond_history",
+      checkpointHeight: cp.height,
+      resumeHeight: lowest - 1,
+    } );
+    this.rollback( lowest - 1 );
+    return { height: lowest - 1, orphaned };
+  }
+
+  /**
+   * Move the cursor back to the highest remembered block at or below height (e.g. the fork
+   * point of a reorg) so the replacement blocks are accepted by the next commits.
+   */
+  rollback(height: number): void {
+    const cur = this.current;
+    if ( !cur || cur.height <= height ) return;
+    const recent = cur.recent.filter( (r) => r.height <= height );
+    const last = recent[recent.length - 1];
+    if ( !last ) {
+      // No known-good block left; the next processed block starts a fresh cursor
+      this.current = undefined;
+      return;
+    }
+    const next: ScanCheckpoint = {
+      version: 1,
+      height: last.height,
+      hash: last.hash,
+      updatedAt: new Date().toISOString(),
+      recent,
+    };
+    try {
+      getFileStorage().writeFileAtomic( this.filePath, JSON.stringify( next, null, 2 ) );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.error( { type: "checkpoint.write_failed", path: this.filePath, message } );
+    }
+    this.current = next;
+  }
+
+  private read(): ScanCheckpoint | undefined {
+    const storage = getFileStorage();
+    try {
+      if ( !storage.fileExists( this.filePath ) ) return undefined;
+      const json = JSON.parse( storage.readFile( this.filePath, "utf-8" ) );
+      if ( !json || typeof json.height !== "number" || typeof json.hash !== "string" ) {
+        return undefined;
+      }
+      const recent: BlockRef[] = Array.isArray( json.recent )
+        ? json.recent.filter( (r: any) => typeof r?.height === "number" && typeof r?.hash === "string" )
+        : [];
+      return {
+        version: 1,
+        height: json.height,
+        hash: json.hash,
+        updatedAt: String( json.updatedAt || "" ),
+        recent,
+      };
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "checkpoint.read_failed", path: this.filePath, message } );
+      return undefined;
+    }
+  }
+}
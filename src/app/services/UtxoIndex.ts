@@ -0,0 +1,247 @@
+import { Database, type Statement } from "bun:sqlite";
+import path from "path";
+
+import { Raw } from "@/infrastructure/bitcoin";
+import { NULL_TXID_64, REORG_MAX_DEPTH_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import type { ParsedTx } from "@/infrastructure/bitcoin/raw/TxParser";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { BlockRef } from "@/types/blockchain";
+
+/** watched: only outputs paying watched addresses; all: every output with an address */
+export type UtxoIndexMode = "watched" | "all";
+
+export type UtxoIndexOptions = {
+  /** SQLite database file (default: <cwd>/cache/utxo-index.sqlite) */
+  filePath?: string;
+  mode?: UtxoIndexMode;
+  /** Blocks whose spent outputs are kept to undo a reorg (default: 100) */
+  undoDepth?: number;
+};
+
+export type IndexedOutput = { address: string; valueBtc: number };
+
+type UtxoRow = { address: string; sats: number; height: number };
+
+// Only the outpoints and outputs of a transaction matter to the index
+type BlockTx = Pick<ParsedTx, "txid" | "inputs" | "outputs">;
+
+/**
+ * Outpoint key: the 32 txid bytes followed by the output index as a LEB128 varint, so almost
+ * every key is 33 bytes.
+ */
+export function outpointKey(txid: string, vout: number): Buffer {
+  const bytes: number[] = [];
+  let n = vout >>> 0;
+  do {
+    const low = n & 0x7f;
+    n >>>= 7;
+    bytes.push( n > 0 ? low | 0x80 : low );
+  } while ( n > 0 );
+  return Buffer.concat( [ Buffer.from( txid, "hex" ), Buffer.from( bytes ) ] );
+}
+
+/** Inverse of outpointKey, as "txid:vout". */
+export function outpointFromKey(key: Uint8Array): string {
+  const buf = Buffer.from( key );
+  let vout = 0;
+  for ( let i = 32, shift = 0; i < buf.length; i++, shift += 7 ) {
+    vout += (buf[i] & 0x7f) * 2 ** shift;
+  }
+  return `${ buf.subarray( 0, 32 ).toString( "hex" ) }:${ vout }`;
+}
+
+/**
+ * On-disk UTXO set fed by the raw parser, so spends of indexed outputs resolve to their address
+ * and value without getrawtransaction (and without -txindex). Blocks are applied strictly in
+ * height order; every applied block keeps the outputs it spent as undo data, which lets a block
+ * replaced by a reorg be disconnected before its replacement is applied.
+ */
+export class UtxoIndex {
+  private readonly db: Database;
+  private readonly filePath: string;
+  private readonly mode: UtxoIndexMode;
+  private readonly undoDepth: number;
+  private readonly log: AppLogger;
+  private readonly stmt: Record<
+    | "getUtxo" | "putUtxo" | "delUtxo" | "delCreated" | "putUndo" | "getUndo" | "delUndo"
+    | "pruneUndo" | "getBlock" | "putBlock" | "delBlock" | "pruneBlocks" | "tip",
+    Statement
+  >;
+
+  constructor(opts?: UtxoIndexOptions) {
+    this.filePath = opts?.filePath || path.join( process.cwd(), "cache", "utxo-index.sqlite" );
+    this.mode = opts?.mode ?? "watched";
+    this.undoDepth = Math.max( 1, opts?.undoDepth ?? REORG_MAX_DEPTH_DEFAULT );
+    this.log = logger( "utxo_index" );
+    getFileStorage().ensureDir( path.dirname( this.filePath ) );
+    this.db = new Database( this.filePath, { create: true } );
+    this.db.exec( "PRAGMA journal_mode = WAL" );
+    this.db.exec( "PRAGMA synchronous = NORMAL" );
+    this.db.exec( `
+      CREATE TABLE IF NOT EXISTS utxo (
+        k BLOB PRIMARY KEY, address TEXT NOT NULL, sats INTEGER NOT NULL, height INTEGER NOT NULL
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS utxo_height ON utxo (height);
+      CREATE TABLE IF NOT EXISTS undo (
+        height INTEGER NOT NULL, k BLOB NOT NULL, address TEXT NOT NULL, sats INTEGER NOT NULL,
+        created INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS undo_height ON undo (height);
+      CREATE TABLE IF NOT EXISTS blocks (height INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+    ` );
+    this.stmt = {
+      getUtxo: this.db.query( "SELECT address, sats, height FROM utxo WHERE k = ?" ),
+      putUtxo: this.db.query(
+        "INSERT OR REPLACE INTO utxo (k, address, sats, height) VALUES (?, ?, ?, ?)"
+      ),
+      delUtxo: this.db.query( "DELETE FROM utxo WHERE k = ?" ),
+      delCreated: this.db.query( "DELETE FROM utxo WHERE height = ?" ),
+      putUndo: this.db.query(
+        "INSERT INTO undo (height, k, address, sats, created) VALUES (?, ?, ?, ?, ?)"
+      ),
+      getUndo: this.db.query(
+        "SELECT k, address, sats, created AS height FROM undo WHERE height = ?"
+      ),
+      delUndo: this.db.query( "DELETE FROM undo WHERE height = ?" ),
+      pruneUndo: this.db.query( "DELETE FROM undo WHERE height <= ?" ),
+      getBlock: this.db.query( "SELECT hash FROM blocks WHERE height = ?" ),
+      putBlock: this.db.query( "INSERT OR REPLACE INTO blocks (height, hash) VALUES (?, ?)" ),
+      delBlock: this.db.query( "DELETE FROM blocks WHERE height = ?" ),
+      pruneBlocks: this.db.query( "DELETE FROM blocks WHERE height <= ?" ),
+      tip: this.db.query( "SELECT height, hash FROM blocks ORDER BY height DESC LIMIT 1" ),
+    };
+    const stored = this.db.query( "SELECT value FROM meta WHERE key = 'mode'" )
+      .get() as { value: string } | null;
+    if ( !stored ) {
+      this.db.query( "INSERT INTO meta (key, value) VALUES ('mode', ?)" ).run( this.mode );
+    } else if ( stored.value !== this.mode ) {
+      this.log.warn( {
+        type: "utxo_index.mode_mismatch",
+        path: this.filePath,
+        stored: stored.value,
+        configured: this.mode,
+        msg: "UTXO index was built in another mode; run utxo-index:rebuild",
+      } );
+    }
+  }
+
+  /** Last applied block, or undefined for an empty index. */
+  getTip(): BlockRef | undefined {
+    const row = this.stmt.tip.get() as BlockRef | null;
+    return row ? { height: row.height, hash: row.hash } : undefined;
+  }
+
+  /**
+   * Apply a block and return the indexed outputs its inputs spend, keyed "txid:vout". A block
+   * already applied returns the same outputs from its undo data. A different block at an applied
+   * height is a reorg: applied blocks from that height up are disconnected first. Returns
+   * undefined when the block cannot be applied in order (a gap above the tip, a parent that is
+   * not the tip, or a height below the undo window); such blocks are left to utxo-index:rebuild.
+   */
+  applyBlock(
+    ref: BlockRef & { prevHash?: string },
+    txs: BlockTx[],
+    isWatched: (address: string) => boolean
+  ): Map<string, IndexedOutput> | undefined {
+    const tip = this.getTip();
+    let disconnectFrom: number | undefined;
+    if ( tip && ref.height <= tip.height ) {
+      const stored = this.stmt.getBlock.get( ref.height ) as { hash: string } | null;
+      if ( !stored ) return undefined;
+      if ( stored.hash === ref.hash ) return this.readUndo( ref.height );
+      const parent = this.stmt.getBlock.get( ref.height - 1 ) as { hash: string } | null;
+      if ( parent && ref.prevHash && parent.hash !== ref.prevHash ) return undefined;
+      this.log.warn( {
+        type: "utxo_index.reorg",
+        height: ref.height,
+        oldHash: stored.hash,
+        newHash: ref.hash,
+        disconnected: tip.height - ref.height + 1,
+      } );
+      disconnectFrom = tip.height;
+    } else if ( tip ) {
+      if ( ref.height !== tip.height + 1 || (ref.prevHash && ref.prevHash !== tip.hash) ) {
+        this.log.warn( {
+          type: "utxo_index.out_of_order",
+          tipHeight: tip.height,
+          tipHash: tip.hash,
+          height: ref.height,
+          hash: ref.hash,
+        } );
+        return undefined;
+      }
+    }
+    return this.db.transaction( () => {
+      // reorg: undo the replaced branch, newest first, in the same transaction
+      for ( let h = disconnectFrom ?? -1; h >= ref.height; h-- ) this.disconnect( h );
+      return this.connect( ref, txs, isWatched );
+    } )();
+  }
+
+  /** Drop every output and block (before a rebuild). */
+  reset(): void {
+    this.db.exec( "DELETE FROM utxo; DELETE FROM undo; DELETE FROM blocks;" );
+    this.db.query( "INSERT OR REPLACE INTO meta (key, value) VALUES ('mode', ?)" ).run( this.mode );
+  }
+
+  /** Number of unspent outputs held. */
+  size(): number {
+    return (this.db.query( "SELECT COUNT(*) AS n FROM utxo" ).get() as { n: number }).n;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private connect(
+    ref: BlockRef,
+    txs: BlockTx[],
+    isWatched: (address: string) => boolean
+  ): Map<string, IndexedOutput> {
+    const spent = new Map<string, IndexedOutput>();
+    for ( const tx of txs ) {
+      for ( const input of tx.inputs ) {
+        if ( input.prevTxId === NULL_TXID_64 ) continue;
+        const k = outpointKey( input.prevTxId, input.prevVout );
+        const row = this.stmt.getUtxo.get( k ) as UtxoRow | null;
+        if ( !row ) continue;
+        this.stmt.delUtxo.run( k );
+        this.stmt.putUndo.run( ref.height, k, row.address, row.sats, row.height );
+        spent.set( `${ input.prevTxId }:${ input.prevVout }`, toOutput( row ) );
+      }
+      tx.outputs.forEach( (o, vout) => {
+        if ( !o.address || o.scriptType === "nulldata" ) return;
+        if ( this.mode === "watched" && !isWatched( o.address ) ) return;
+        const sats = Math.round( o.valueBtc * 1e8 );
+        this.stmt.putUtxo.run( outpointKey( tx.txid, vout ), o.address, sats, ref.height );
+      } );
+    }
+    this.stmt.putBlock.run( ref.height, ref.hash );
+    this.stmt.pruneUndo.run( ref.height - this.undoDepth );
+    this.stmt.pruneBlocks.run( ref.height - this.undoDepth );
+    return spent;
+  }
+
+  /** Undo one block: restore the outputs it spent, then drop the ones it created. */
+  private disconnect(height: number): void {
+    const undo = this.stmt.getUndo.all( height ) as (UtxoRow & { k: Uint8Array })[];
+    for ( const u of undo ) this.stmt.putUtxo.run( u.k, u.address, u.sats, u.height );
+    // also removes outputs created and spent within this block, restored just above
+    this.stmt.delCreated.run( height );
+    this.stmt.delUndo.run( height );
+    this.stmt.delBlock.run( height );
+  }
+
+  private readUndo(height: number): Map<string, IndexedOutput> {
+    const spent = new Map<string, IndexedOutput>();
+    const undo = this.stmt.getUndo.all( height ) as (UtxoRow & { k: Uint8Array })[];
+    for ( const u of undo ) spent.set( outpointFromKey( u.k ), toOutput( u ) );
+    return spent;
+  }
+}
+
+function toOutput(row: { address: string; sats: number }): IndexedOutput {
+  return { address: row.address, valueBtc: Raw.btcFromSats( BigInt( row.sats ) ) };
+}
@@ -0,0 +1,288 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+import { normalizeAlertRules, parseWatchFile, type WatchFile } from "@/app/helpers/bitcoin";
+import {
+  WATCH_API_HOST_DEFAULT,
+  WATCH_API_MAX_BODY_BYTES
+} from "@/infrastructure/bitcoin/constants";
+import {
+  type Network,
+  validateAndNormalizeAddress
+} from "@/infrastructure/bitcoin/raw/Address";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { AlertRules } from "@/types/blockchain";
+
+export type WatchListApiOptions = {
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Bearer token every request must carry */
+  token: string;
+  /** Watch file the changes are written to */
+  filePath: string;
+  network: Network;
+  /** Applies the saved watch file to the running scanner, as a reload of the file does */
+  onChange: (file: WatchFile) => void;
+};
+
+/** Address entry of the watch file, as listed and written by the API */
+type AddressEntry = { address: string; label?: string; rules?: AlertRules };
+
+type HttpFailure = Error & { status: number };
+
+/**
+ * Authenticated HTTP API over the `address` entries of the watch file:
+ *
+ * - `GET /watch` lists them, `GET /watch/:address` returns one
+ * - `POST /watch` adds `{ address, label?, rules? }`
+ * - `PATCH /watch/:address` sets its `label` and/or `rules` (`null` removes them)
+ * - `DELETE /watch/:address` removes it
+ *
+ * Every change is written to the file atomically, then applied through `onChange`. `xpub`,
+ * `desc` and Bitcoin Core export entries are kept as they are.
+ */
+export class WatchListApi {
+  private readonly opts: WatchListApiOptions;
+  private readonly tokenHash: Buffer;
+  private readonly log: AppLogger;
+  private server?: ReturnType<typeof Bun.serve>;
+
+  constructor(opts: WatchListApiOptions) {
+    if ( !opts.token ) throw new Error( "Watch list API needs a token" );
+    this.opts = opts;
+    this.tokenHash = sha256( opts.token );
+    this.log = logger( "watch_api" );
+  }
+
+  start(): void {
+    if ( this.server ) return;
+    this.server = Bun.serve( {
+      hostname: this.opts.host ?? WATCH_API_HOST_DEFAULT,
+      port: this.opts.port,
+      // Refused by the server before the body is buffered
+      maxRequestBodySize: WATCH_API_MAX_BODY_BYTES,
+      fetch: (req) => this.handle( req ),
+    } );
+    this.log.info( { type: "watch_api.listening", url: this.server.url.toString() } );
+  }
+
+  stop(): void {
+    this.server?.stop( true );
+    this.server = undefined;
+  }
+
+  /** Port listened on, once started */
+  getPort(): number | undefined {
+    return this.server?.port;
+  }
+
+  async handle(req: Request): Promise<Response> {
+    if ( !this.authorized( req ) ) {
+      return Response.json(
+        { error: "Unauthorized" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      );
+    }
+    const url = new URL( req.url );
+    const route = /^\/watch(?:\/([^/]+))?\/?$/.exec( url.pathname );
+    if ( !route ) return Response.json( { error: "Not found" }, { status: 404 } );
+    try {
+      const target = route[1] ? decodeURIComponent( route[1] ) : undefined;
+      if ( target === undefined ) {
+        if ( req.method === "GET" ) return Response.json( { addresses: this.list() } );
+        if ( req.method === "POST" ) {
+          return Response.json( this.add( await readBody( req ) ), { status: 201 } );
+        }
+      } else {
+        if ( req.method === "GET" ) return Response.json( this.get( target ) );
+        if ( req.method === "PATCH" ) {
+          return Response.json( this.update( target, await readBody( req ) ) );
+        }
+        if ( req.method === "DELETE" ) {
+          this.remove( target );
+          return new Response( null, { status: 204 } );
+        }
+      }
+      return Response.json( { error: "Method not allowed" }, { status: 405 } );
+    } catch ( err ) {
+      const status = (err as Partial<HttpFailure>).status ?? 500;
+      const message = err instanceof Error ? err.message : String( err );
+      if ( status >= 500 ) {
+        const path = url.pathname;
+        this.log.error( { type: "watch_api.failed", method: req.method, path, message } );
+      }
+      return Response.json( { error: message }, { status } );
+    }
+  }
+
+  private authorized(req: Request): boolean {
+    const header = req.headers.get( "authorization" ) ?? "";
+    const token = /^Bearer\s+(.+)$/i.exec( header )?.[1];
+    // Compare digests: equal lengths, and no early exit revealing a matching prefix
+    return token !== undefined && timingSafeEqual( sha256( token.trim() ), this.tokenHash );
+  }
+
+  private list(): AddressEntry[] {
+    return this.readEntries().filter( isAddressEntry ).map( toAddressEntry );
+  }
+
+  private get(target: string): AddressEntry {
+    const entries = this.readEntries();
+    return toAddressEntry( entries[this.indexOf( entries, target )] as AddressEntry );
+  }
+
+  private add(body: Record<string, unknown>): AddressEntry {
+    if ( typeof body.address !== "string" ) throw failure( 400, "address is required" );
+    const entry: AddressEntry = {
+      address: this.normalize( body.address ),
+      ...labelAndRules( body ),
+    };
+    const entries = this.readEntries();
+    if ( entries.some( (e) => isAddressEntry( e ) && this.same( e.address, entry.address ) ) ) {
+      throw failure( 409, `${ entry.address } is already watched` );
+    }
+    this.save( [ ...entries, entry ], "add", entry.address );
+    return toAddressEntry( entry );
+  }
+
+  private update(target: string, body: Record<string, unknown>): AddressEntry {
+    const entries = this.readEntries();
+    const index = this.indexOf( entries, target );
+    const { label, rules } = labelAndRules( body );
+    const entry = { ...(entries[index] as AddressEntry) };
+    // A field that is absent stays as it is; null removes it
+    if ( "label" in body ) {
+      if ( label === undefined ) delete entry.label;
+      else entry.label = label;
+    }
+    if ( "rules" in body ) {
+      if ( rules === undefined ) delete entry.rules;
+      else entry.rules = rules;
+    }
+    const next = [ ...entries ];
+    next[index] = entry;
+    this.save( next, "update", entry.address );
+    return toAddressEntry( entry );
+  }
+
+  private remove(target: string): void {
+    const entries = this.readEntries();
+    const index = this.indexOf( entries, target );
+    const { address } = entries[index] as AddressEntry;
+    this.save( entries.filter( (_, i) => i !== index ), "remove", address );
+  }
+
+  /** Position of the address entry for `target`; 404 when it is not in the file */
+  private indexOf(entries: unknown[], target: string): number {
+    const address = this.normalize( target );
+    const index = entries
+      .findIndex( (e) => isAddressEntry( e ) && this.same( e.address, address ) );
+    if ( index < 0 ) throw failure( 404, `${ address } is not watched` );
+    return index;
+  }
+
+  private normalize(address: string): string {
+    try {
+      return validateAndNormalizeAddress( address.trim(), this.opts.network ).normalized;
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      throw failure( 400, `Invalid address ${ address }: ${ message }` );
+    }
+  }
+
+  /** Whether a file entry (as written by hand, e.g. in upper case) is `address` */
+  private same(written: string, address: string): boolean {
+    if ( written === address ) return true;
+    try {
+      const { normalized } = validateAndNormalizeAddress( written.trim(), this.opts.network );
+      return normalized === address;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Entries of the watch file; a missing file is an empty list */
+  private readEntries(): unknown[] {
+    const storage = getFileStorage();
+    if ( !storage.fileExists( this.opts.filePath ) ) return [];
+    const json = JSON.parse( storage.readFile( this.opts.filePath, "utf-8" ) );
+    if ( Array.isArray( json ) ) return json;
+    // A Bitcoin Core export on its own becomes the first element of a list
+    if ( parseWatchFile( json, this.opts.network ) ) return [ json ];
+    throw failure( 500, `${ this.opts.filePath } is not a watch list` );
+  }
+
+  /**
+   * Validate the whole list as the scanner will read it, write it atomically and apply it. Runs
+   * synchronously from read to apply, so concurrent requests cannot interleave their changes.
+   */
+  private save(entries: unknown[], op: "add" | "update" | "remove", address: string): void {
+    const file = parseWatchFile( entries, this.opts.network );
+    if ( !file ) throw failure( 500, "Watch list did not parse" );
+    const content = `${ JSON.stringify( entries, null, 2 ) }\n`;
+    getFileStorage().writeFileAtomic( this.opts.filePath, content );
+    this.opts.onChange( file );
+    this.log.info( { type: "watch_api.change", op, address, path: this.opts.filePath } );
+  }
+}
+
+function sha256(text: string): Buffer {
+  return createHash( "sha256" ).update( text ).digest();
+}
+
+function failure(status: number, message: string): HttpFailure {
+  return Object.assign( new Error( message ), { status } );
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown>> {
+  // Announced size first, so an oversized body is not read at all
+  if ( Number( req.headers.get( "content-length" ) ?? 0 ) > WATCH_API_MAX_BODY_BYTES ) {
+    throw failure( 413, "Request body too large" );
+  }
+  const text = await req.text();
+  if ( Buffer.byteLength( text ) > WATCH_API_MAX_BODY_BYTES ) {
+    throw failure( 413, "Request body too large" );
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse( text );
+  } catch {
+    throw failure( 400, "Request body must be JSON" );
+  }
+  if ( !body || typeof body !== "object" || Array.isArray( body ) ) {
+    throw failure( 400, "Request body must be a JSON object" );
+  }
+  return body as Record<string, unknown>;
+}
+
+/** `label` and `rules` of a request body, validated; null or "" clears them */
+function labelAndRules(body: Record<string, unknown>): { label?: string; rules?: AlertRules } {
+  const { label } = body;
+  if ( label !== undefined && label !== null && typeof label !== "string" ) {
+    throw failure( 400, "label must be a string" );
+  }
+  let rules: AlertRules | undefined;
+  try {
+    rules = normalizeAlertRules( body.rules );
+  } catch ( err ) {
+    throw failure( 400, err instanceof Error ? err.message : String( err ) );
+  }
+  return {
+    ...(label?.trim() ? { label: label.trim() } : {}),
+    ...(rules ? { rules } : {}),
+  };
+}
+
+function isAddressEntry(entry: unknown): entry is AddressEntry {
+  return typeof (entry as Partial<AddressEntry> | null)?.address === "string";
+}
+
+function toAddressEntry(entry: AddressEntry): AddressEntry {
+  return {
+    address: entry.address,
+    ...(entry.label ? { label: entry.label } : {}),
+    ...(entry.rules ? { rules: entry.rules } : {}),
+  };
+}
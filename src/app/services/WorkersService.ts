@@ -1,4 +1,4 @@
-import type { WatchedAddress } from "@/types/blockchain";
+import type { WatchedAddress, WatchedKey } from "@/types/blockchain";
 
 function hashToBigInt(input: string): bigint {
   // Simple FNV-1a 64-bit hash implementation for deterministic scoring
@@ -45,8 +45,17 @@ export class WorkersService {
     return this.assign( address ) === this.selfId;
   }
 
+  /**
+   * Addresses derived from an extended key or descriptor go with it, so one worker owns its gap
+   * limit
+   */
   filterWatched(watch: WatchedAddress[]): WatchedAddress[] {
-    return watch.filter( (w) => this.isResponsibleForAddress( w.address ) );
+    return watch
+      .filter( (w) => this.isResponsibleForAddress( w.xpub ?? w.descriptor ?? w.address ) );
+  }
+
+  filterKeys(keys: WatchedKey[]): WatchedKey[] {
+    return keys.filter( (k) => this.isResponsibleForAddress( "xpub" in k ? k.xpub : k.desc ) );
   }
 }
 
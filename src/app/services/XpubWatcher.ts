@@ -0,0 +1,250 @@
+import { EXTENDED_KEY, XPUB_GAP_LIMIT_DEFAULT } from "@/infrastructure/bitcoin/constants";
+import {
+  defaultScriptType,
+  deriveChild,
+  descriptorKeyPath,
+  descriptorOutput,
+  hdAddress,
+  HD_PURPOSES,
+  parseDescriptor,
+  parseExtendedPublicKey,
+  type ExtendedPublicKey,
+  type HdScriptType
+} from "@/infrastructure/bitcoin/hd";
+import type { Network } from "@/infrastructure/bitcoin/raw/Address";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type {
+  AddressActivity,
+  WatchedAddress,
+  WatchedDescriptor,
+  WatchedKey,
+  WatchedXpub
+} from "@/types/blockchain";
+
+export type XpubWatcherOptions = {
+  network: Network;
+  /** Default for entries without their own gapLimit (default: 20) */
+  gapLimit?: number;
+  /** JSON file remembering the highest used index per chain, so restarts keep extended ranges */
+  stateFile?: string;
+};
+
+/** Highest used index per chain (receive and change, or per descriptor branch), -1 when unused */
+type XpubState = { version: 1; accounts: Record<string, number[]> };
+
+type Derived = { address: string; scriptPubKey?: string; path?: string };
+
+type Chain = {
+  /** Address (and script) and derivation path at an index; undefined for an index BIP32 skips */
+  derive: (index: number) => Derived | undefined;
+  /** Next index to derive */
+  next: number;
+  /** Indexes below this are always derived (a descriptor's `range` end + 1) */
+  floor: number;
+  /** Highest index seen with activity, -1 for none */
+  used: number;
+  /** Addresses derived so far, in index order */
+  addresses: { index: number; watched: WatchedAddress }[];
+};
+
+type Account = {
+  id: string;
+  entry: WatchedKey;
+  gapLimit: number;
+  chains: Chain[];
+};
+
+// BIP44 chains: external (receive) and internal (change)
+const CHAINS = [ 0, 1 ] as const;
+
+/**
+ * Derives the addresses of watched extended public keys (receive and change chains, BIP32
+ * CKDpub) and ranged output descriptors (one chain per multipath branch), and keeps `gapLimit`
+ * unused addresses derived past the last used one on each chain. Activity on a derived address
+ * moves that chain's window forward; the new addresses are handed back to be added to the watch
+ * list.
+ */
+export class XpubWatcher {
+  private readonly network: Network;
+  private readonly gapLimit: number;
+  private readonly stateFile?: string;
+  private readonly log: AppLogger;
+  private accounts = new Map<string, Account>();
+  private readonly derived = new Map<string, { account: Account; chain: Chain; index: number }>();
+
+  constructor(entries: WatchedKey[], opts: XpubWatcherOptions) {
+    this.network = opts.network;
+    this.gapLimit = Math.max( 1, opts.gapLimit ?? XPUB_GAP_LIMIT_DEFAULT );
+    this.stateFile = opts.stateFile;
+    this.log = logger( "xpub_watcher" );
+    this.setEntries( entries );
+  }
+
+  /** Every address derived so far: per entry, its chains (receive, then change) in index order */
+  addresses(): WatchedAddress[] {
+    return [ ...this.accounts.values() ]
+      .flatMap( (a) => a.chains.flatMap( (c) => c.addresses.map( (d) => d.watched ) ) );
+  }
+
+  /**
+   * Replace the watched keys and descriptors (e.g. on a watch file reload). Entries that stay
+   * keep their derived range; the highest used indexes come from the state file for new ones.
+   */
+  setEntries(entries: WatchedKey[]): void {
+    const saved = this.readState();
+    const next = new Map<string, Account>();
+    for ( const entry of entries ) {
+      const account = "xpub" in entry
+        ? this.xpubAccount( entry, saved )
+        : this.descriptorAccount( entry, saved );
+      const kept = this.accounts.get( account.id ) ?? next.get( account.id );
+      next.set( account.id, kept ? { ...kept, entry } : account );
+    }
+    this.accounts = next;
+    this.derived.clear();
+    for ( const account of this.accounts.values() ) {
+      // Re-list what kept accounts already derived, then top every chain up to its window
+      for ( const chain of account.chains ) {
+        for ( const d of chain.addresses ) {
+          d.watched = { ...d.watched, xpubLabel: account.entry.label, rules: account.entry.rules };
+          this.derived.set( d.watched.address, { account, chain, index: d.index } );
+        }
+        this.extend( account, chain );
+      }
+    }
+  }
+
+  /**
+   * Mark derived addresses with activity as used and derive past them. Returns the addresses
+   * derived as a result (empty when every window still holds enough unused addresses).
+   */
+  recordActivity(activities: AddressActivity[]): WatchedAddress[] {
+    const added: WatchedAddress[] = [];
+    let changed = false;
+    for ( const activity of activities ) {
+      const hit = this.derived.get( activity.address );
+      if ( !hit || hit.index <= hit.chain.used ) continue;
+      hit.chain.used = hit.index;
+      changed = true;
+      const from = hit.chain.addresses.length;
+      this.extend( hit.account, hit.chain );
+      added.push( ...hit.chain.addresses.slice( from ).map( (d) => d.watched ) );
+    }
+    if ( changed ) this.writeState();
+    if ( added.length > 0 ) {
+      this.log.info( { type: "xpub.gap_extended", added: added.length, total: this.derived.size } );
+    }
+    return added;
+  }
+
+  private xpubAccount(entry: WatchedXpub, saved: Record<string, number[]>): Account {
+    const key = parseExtendedPublicKey( entry.xpub, this.network );
+    const type = entry.type ?? defaultScriptType( key.prefix );
+    const id = `${ entry.xpub.trim() }:${ type }`;
+    const origin = entry.path?.trim().replace( /\/+$/, "" )
+      ?? inferOrigin( key, type, this.network );
+    const chains = CHAINS.map( (c): Chain => {
+      const chainKey = deriveChild( key, c );
+      if ( !chainKey ) throw new Error( `Extended key cannot derive chain ${ c }` );
+      const derive = (index: number) => {
+        const child = deriveChild( chainKey, index );
+        if ( !child ) return undefined;
+        const relative = `${ c }/${ index }`;
+        return {
+          address: hdAddress( child.publicKey, type, this.network ),
+          path: origin ? `${ origin }/${ relative }` : relative,
+        };
+      };
+      return { derive, next: 0, floor: 0, used: saved[id]?.[c] ?? -1, addresses: [] };
+    } );
+    return { id, entry, gapLimit: this.entryGapLimit( entry ), chains };
+  }
+
+  private descriptorAccount(entry: WatchedDescriptor, saved: Record<string, number[]>): Account {
+    const desc = parseDescriptor( entry.desc, this.network );
+    if ( !desc.ranged ) throw new Error( `Descriptor ${ desc.body } is not ranged` );
+    const id = `${ desc.body }#${ desc.checksum }`;
+    const [ start, end ] = entry.range ?? [ 0, -1 ];
+    const chains = Array.from( { length: desc.branches }, (_, branch): Chain => {
+      const derive = (index: number) => {
+        const output = descriptorOutput( desc, this.network, index, branch );
+        return output && { ...output, path: descriptorKeyPath( desc, index, branch ) };
+      };
+      const used = Math.max( saved[id]?.[branch] ?? -1, (entry.nextIndex ?? 0) - 1 );
+      return { derive, next: start, floor: end + 1, used, addresses: [] };
+    } );
+    return { id, entry, gapLimit: this.entryGapLimit( entry ), chains };
+  }
+
+  private entryGapLimit(entry: WatchedKey): number {
+    return Math.max( 1, entry.gapLimit ?? this.gapLimit );
+  }
+
+  private extend(account: Account, chain: Chain): void {
+    const upTo = Math.max( chain.floor, chain.used + 1 + account.gapLimit );
+    for ( ; chain.next < upTo; chain.next++ ) {
+      // BIP32: an index whose key is invalid is skipped
+      const at = chain.derive( chain.next );
+      if ( !at ) continue;
+      const source = "xpub" in account.entry
+        ? { xpub: account.entry.xpub }
+        : { descriptor: account.id };
+      const watched: WatchedAddress = {
+        address: at.address,
+        ...(at.scriptPubKey ? { scriptPubKey: at.scriptPubKey } : {}),
+        ...source,
+        xpubLabel: account.entry.label,
+        derivationPath: at.path,
+        ...(account.entry.rules ? { rules: account.entry.rules } : {}),
+      };
+      chain.addresses.push( { index: chain.next, watched } );
+      this.derived.set( watched.address, { account, chain, index: chain.next } );
+    }
+  }
+
+  private readState(): Record<string, number[]> {
+    const storage = getFileStorage();
+    if ( !this.stateFile ) return {};
+    try {
+      if ( !storage.fileExists( this.stateFile ) ) return {};
+      const json = JSON.parse( storage.readFile( this.stateFile, "utf-8" ) ) as Partial<XpubState>;
+      return json && typeof json.accounts === "object" ? json.accounts : {};
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "xpub.state_read_failed", path: this.stateFile, message } );
+      return {};
+    }
+  }
+
+  private writeState(): void {
+    if ( !this.stateFile ) return;
+    // Keep entries of keys not loaded right now (e.g. temporarily removed from the file), and
+    // never move an index back that another process (e.g. a backfill) has recorded meanwhile
+    const accounts = this.readState();
+    for ( const account of this.accounts.values() ) {
+      const saved = accounts[account.id] ?? [];
+      accounts[account.id] = account.chains.map( (c, i) => Math.max( saved[i] ?? -1, c.used ) );
+    }
+    const state: XpubState = { version: 1, accounts };
+    try {
+      getFileStorage().writeFileAtomic( this.stateFile, JSON.stringify( state, null, 2 ) );
+    } catch ( err ) {
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.error( { type: "xpub.state_write_failed", path: this.stateFile, message } );
+    }
+  }
+}
+
+/**
+ * Path of a key from its position: the master key is "m", and a key three hardened steps deep
+ * is taken to be a BIP44-style account (m/purpose'/coin'/account'). Other keys have no known path.
+ */
+function inferOrigin(key: ExtendedPublicKey, type: HdScriptType, network: Network): string {
+  if ( key.depth === 0 ) return "m";
+  const hardened = key.childNumber >= EXTENDED_KEY.HARDENED_OFFSET;
+  if ( key.depth !== 3 || !hardened ) return "";
+  const coin = network === "mainnet" ? 0 : 1;
+  const account = key.childNumber - EXTENDED_KEY.HARDENED_OFFSET;
+  return `m/${ HD_PURPOSES[type] }'/${ coin }'/${ account }'`;
+}
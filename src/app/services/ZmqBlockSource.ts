@@ -0,0 +1,108 @@
+import { type ZmqMessage, ZmqSubscriber } from "@/infrastructure/bitcoin";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+
+import type { BitcoinService } from "./BitcoinService";
+import type { BlockNotifier } from "./BlockProducer";
+
+export type ZmqBlockTopic = "hashblock" | "rawblock";
+
+export type ZmqBlockSourceOptions = {
+  /** Endpoint of the node's -zmqpubhashblock / -zmqpubrawblock publisher */
+  url: string;
+  /** rawblock also hands the block payload to the raw parser (default: hashblock) */
+  topic?: ZmqBlockTopic;
+  reconnectDelayMs?: number;
+};
+
+/**
+ * Block notifications pushed by Bitcoin Core over ZMQ. The producer waits on it instead of
+ * polling getblockcount while it is connected; rawblock payloads are parsed on arrival so the
+ * pipeline does not fetch the block again.
+ */
+export class ZmqBlockSource implements BlockNotifier {
+  private readonly btc: Pick<BitcoinService, "acceptRawBlock">;
+  private readonly topic: ZmqBlockTopic;
+  private readonly subscriber: ZmqSubscriber;
+  private readonly log: AppLogger;
+  private notified: boolean = false;
+  private waiter?: (notified: boolean) => void;
+  private lastSequence?: number;
+
+  constructor(btc: Pick<BitcoinService, "acceptRawBlock">, opts: ZmqBlockSourceOptions) {
+    this.btc = btc;
+    this.topic = opts.topic ?? "hashblock";
+    this.log = logger( "zmq_block_source" );
+    this.subscriber = new ZmqSubscriber( {
+      url: opts.url,
+      topics: [ this.topic ],
+      reconnectDelayMs: opts.reconnectDelayMs,
+      onMessage: (msg) => this.onMessage( msg ),
+      onStatus: (connected) => {
+        // Let a waiting producer switch to polling right away
+        if ( !connected ) this.wake( false );
+      },
+    } );
+  }
+
+  start(): void {
+    this.subscriber.connect();
+  }
+
+  stop(): void {
+    this.subscriber.close();
+    this.wake( false );
+  }
+
+  isConnected(): boolean {
+    return this.subscriber.isConnected();
+  }
+
+  waitForBlock(timeoutMs: number): Promise<boolean> {
+    if ( this.notified ) {
+      this.notified = false;
+      return Promise.resolve( true );
+    }
+    if ( !this.isConnected() ) return Promise.resolve( false );
+    return new Promise( (resolve) => {
+      const timer = setTimeout( () => this.wake( false ), timeoutMs );
+      this.waiter = (notified) => {
+        clearTimeout( timer );
+        resolve( notified );
+      };
+    } );
+  }
+
+  private onMessage(msg: ZmqMessage): void {
+    if ( msg.topic !== this.topic ) return;
+    if ( typeof msg.sequence === "number" ) {
+      const expected = typeof this.lastSequence === "number" ? this.lastSequence + 1 : undefined;
+      if ( expected !== undefined && msg.sequence !== expected ) {
+        // Dropped notifications are harmless: the producer walks every height up to the tip
+        this.log.warn( { type: "zmq.sequence_gap", expected, received: msg.sequence } );
+      }
+      this.lastSequence = msg.sequence;
+    }
+    let hash: string | undefined;
+    if ( msg.topic === "rawblock" ) {
+      try {
+        hash = this.btc.acceptRawBlock( msg.body );
+      } catch ( err ) {
+        const message = err instanceof Error ? err.message : String( err );
+        this.log.warn( { type: "zmq.raw_block_invalid", bytes: msg.body.length, message } );
+      }
+    } else {
+      hash = msg.body.toString( "hex" );
+    }
+    this.log.debug( { type: "zmq.block", topic: msg.topic, hash, sequence: msg.sequence } );
+    this.notified = true;
+    this.wake( true );
+  }
+
+  private wake(notified: boolean): void {
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    if ( !waiter ) return;
+    if ( notified ) this.notified = false;
+    waiter( notified );
+  }
+}
@@ -1,10 +1,32 @@
+export { ActivityRules } from "./ActivityRules";
+export type { ActivityRulesOptions, SuppressedActivity, SuppressReason } from "./ActivityRules";
+export { BackfillService } from "./BackfillService";
+export type { BackfillOptions, BackfillRange, BackfillSummary } from "./BackfillService";
 export { BitcoinService } from "./BitcoinService";
+export { BlockProducer } from "./BlockProducer";
+export type { BlockNotifier, BlockProducerOptions } from "./BlockProducer";
+export { ChainTracker, findForkPoint } from "./ChainTracker";
+export type { ForkPoint, OrphanedBlock } from "./ChainTracker";
+export { ConfirmationTracker } from "./ConfirmationTracker";
+export type { ConfirmationTrackerOptions, PendingActivity } from "./ConfirmationTracker";
 export { CurrencyService } from "./CurrencyService";
 export { HealthCheckService } from "./HealthCheckService";
+export { EsploraService } from "./EsploraService";
+export type { EsploraServiceOptions } from "./EsploraService";
 export { EventService } from "./EventService";
 export type { EventServiceOptions, RetryPolicy } from "./EventService";
+export { MempoolWatcher } from "./MempoolWatcher";
+export type { MempoolWatcherOptions } from "./MempoolWatcher";
+export { WatchListApi } from "./WatchListApi";
+export type { WatchListApiOptions } from "./WatchListApi";
 export { WorkersService } from "./WorkersService";
 export { FeatureFlagsService } from "./FeatureFlagsService";
 export type { FeatureFlags } from "./FeatureFlagsService";
-
-
+export { ScanCheckpointService } from "./ScanCheckpointService";
+export type { ResumePoint, ScanCheckpoint } from "./ScanCheckpointService";
+export { UtxoIndex, outpointFromKey, outpointKey } from "./UtxoIndex";
+export type { IndexedOutput, UtxoIndexMode, UtxoIndexOptions } from "./UtxoIndex";
+export { XpubWatcher } from "./XpubWatcher";
+export type { XpubWatcherOptions } from "./XpubWatcher";
+export { ZmqBlockSource } from "./ZmqBlockSource";
+export type { ZmqBlockSourceOptions, ZmqBlockTopic } from "./ZmqBlockSource";
@@ -0,0 +1,77 @@
+import { parseBackfillArgs } from "@/app/helpers/backfill";
+import {
+  createBlockchainService,
+  createXpubWatcher,
+  getBackendHosts
+} from "@/app/helpers/blockchain";
+import { closeAllHttpPools, configureHttpKeepAlive } from "@/app/helpers/http";
+import {
+  BackfillService,
+  CurrencyService,
+  EventService,
+  HealthCheckService
+} from "@/app/services";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import { loadConfig } from "@/config";
+import { BitcoinRpcPool } from "@/infrastructure/bitcoin";
+import { CoinMarketCapClient } from "@/infrastructure/currency/CoinMarketCapClient";
+import { logger } from "@/infrastructure/logger";
+import { BTC, USD } from "@/shared/constants";
+
+// Usage: bun run backfill --from <height|unix|date> [--to <height|unix|date>]
+//        [--concurrency N] [--checkpoint FILE] [--fresh]
+async function main() {
+  const args = parseBackfillArgs( process.argv.slice( 2 ) );
+  const cfg = loadConfig();
+  const { btc, rpc } = createBlockchainService( cfg );
+  const events = new EventService( { maxQueueSize: cfg.maxEventQueueSize } );
+  const cmcClient = new CoinMarketCapClient( {
+    apiKey: cfg.coinMarketCapApiKey,
+  } );
+  const currency = new CurrencyService( cmcClient, {
+    defaultBase: BTC,
+    defaultQuote: USD,
+  } );
+  const concurrency = args.concurrency ?? cfg.backfill.concurrency;
+
+  try {
+    const perHostConnections: Record<string, number> = {};
+    for ( const host of getBackendHosts( cfg ) ) {
+      perHostConnections[host] = Math.max( 8, concurrency * 2 );
+    }
+    perHostConnections["pro-api.coinmarketcap.com"] = 4;
+    configureHttpKeepAlive( {
+      defaultConnections: 6,
+      perHostConnections,
+      keepAliveTimeoutMs: 30000,
+      keepAliveMaxTimeoutMs: 60000,
+      pipelining: 1,
+    } );
+  } catch {
+    // ignore URL parsing errors; use defaults
+  }
+
+  if ( rpc instanceof BitcoinRpcPool ) rpc.start();
+  const health = new HealthCheckService();
+  await health.runStartupChecks( btc, currency );
+
+  // Same handlers and sinks as the live scanner; events carry source: "backfill"
+  registerEventPipeline( events, { btc, currency, xpubs: createXpubWatcher( cfg ) }, cfg );
+  const backfill = new BackfillService( btc, events, {
+    concurrency,
+    checkpointFile: args.checkpointFile,
+    fresh: args.fresh,
+  } );
+  const range = await backfill.resolveRange( args.from, args.to );
+  const summary = await backfill.run( range );
+  await events.waitUntilIdle();
+  if ( rpc instanceof BitcoinRpcPool ) rpc.stop();
+  await closeAllHttpPools();
+  process.exit( summary.complete ? 0 : 1 );
+}
+
+main().catch( (err) => {
+  const message = err instanceof Error ? err.message : String( err );
+  logger.error( { err, msg: `Backfill failed: ${ message }` } );
+  process.exit( 1 );
+} );
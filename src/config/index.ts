@@ -1,26 +1,79 @@
 import path from "path";
 import { z } from "zod";
 
-import { normalizeWatchedAddresses } from "@/app/helpers/bitcoin";
+import { normalizeWatchedAddresses, parseWatchFile } from "@/app/helpers/bitcoin";
+import {
+  WATCH_API_HOST_DEFAULT,
+  XPUB_GAP_LIMIT_DEFAULT
+} from "@/infrastructure/bitcoin/constants";
 import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
+import type { WatchedAddress, WatchedKey } from "@/types/blockchain";
 
 import { loadEnvFiles } from "./env";
 
 export type AppConfig = {
+  // chain data source: Bitcoin Core JSON-RPC or an Esplora/electrs REST API
+  backend: "rpc" | "esplora";
+  esplora: { url?: string; concurrency: number };
   bitcoinRpcUrl: string;
+  // every RPC endpoint, the primary (bitcoinRpcUrl) first; more than one enables the pool
+  rpcEndpoints: { url: string; weight: number; priority: number }[];
+  // credentials of the primary endpoint; extra endpoints embed theirs in the URL
+  rpcAuth: { username?: string; password?: string; cookieFile?: string };
+  rpcPool: {
+    healthCheckIntervalMs: number;
+    maxLagBlocks: number;
+    failureThreshold: number;
+    circuitOpenMs: number;
+  };
   pollIntervalMs: number;
+  // max heights resolved per batch when catching up to the tip
+  catchUpBatchSize: number;
   resolveInputAddresses: boolean;
+  // raw path: input addresses from revealed public keys
+  deriveInputAddresses: boolean;
+  // outputs remembered for raw-path input resolution
+  prevoutCacheSize: number;
+  // raw path: check hash, merkle root, proof of work and parent of every fetched block
+  verifyBlocks: boolean;
+  // raw path: blocks as bytes from the node's REST interface instead of hex over JSON-RPC
+  restBlocks: boolean;
+  // raw path: worker threads parsing blocks off the event loop (0 = main thread)
+  rawParseWorkers: number;
+  // raw path: leave out transactions that fail to parse instead of failing the block
+  rawParseTolerant: boolean;
   parseRawBlocks: boolean;
+  // match watched entries on scriptPubKey bytes (script) or address strings (address)
+  matchMode: "address" | "script";
   // required network selection
   network: "mainnet" | "testnet" | "signet" | "regtest";
   maxEventQueueSize: number;
   // horizontal workers
   worker: { id: string; members: string[] };
-  watch: { address: string; label?: string }[];
+  watch: WatchedAddress[];
   // path to a watchlist file (if available)
   watchAddressesFile?: string;
+  // extended public keys and ranged descriptors from the watchlist file; their addresses are
+  // derived at runtime
+  watchKeys: WatchedKey[];
+  // xpub watching: unused addresses kept per chain, and the file remembering used indexes
+  xpub: { gapLimit: number; stateFile: string };
   // startup behavior
   startupScanTip: boolean;
+  // persistent scan cursor, and the activities of recent blocks for retractions after a restart
+  checkpoint: { enabled: boolean; filePath: string; journalFilePath: string };
+  // on-disk UTXO index for raw-path input resolution
+  utxoIndex: { enabled: boolean; filePath: string; mode: "watched" | "all" };
+  // confirmation-depth tracking (ActivityConfirmed)
+  confirmations: { enabled: boolean; thresholds: number[]; filePath: string };
+  // historical backfill (bun run backfill)
+  backfill: { concurrency: number };
+  // unconfirmed activity (UnconfirmedActivityFound)
+  mempool: { enabled: boolean; pollIntervalMs: number; maxTxPerPoll: number };
+  // ZMQ block notifications (polling is used when unset or disconnected)
+  zmq: { blockUrl?: string; topic: "hashblock" | "rawblock"; tipCheckIntervalMs: number };
+  // watch-list HTTP API (off while port is unset); requests need the bearer token
+  watchApi: { port?: number; host: string; token?: string };
   // logger
   environment: string;
   serviceName: string;
@@ -51,6 +104,25 @@ function parseWatchAddresses(raw: string | undefined): { address: string; label?
     } );
 }
 
+function parseRpcEndpoints(
+  primary: string,
+  raw: string | undefined
+): { url: string; weight: number; priority: number }[] {
+  const endpoints = [ { url: primary, weight: 1, priority: 0 } ];
+  if ( !raw ) return endpoints;
+  // CSV format: url[|weight[|priority]],url[|weight[|priority]]
+  for ( const item of raw.split( "," ).map( (s) => s.trim() ).filter( Boolean ) ) {
+    const [ url, weight, priority ] = item.split( "|" );
+    if ( url === primary ) continue;
+    endpoints.push( {
+      url,
+      weight: weight ? Number( weight ) : 1,
+      priority: priority ? Number( priority ) : 0,
+    } );
+  }
+  return endpoints;
+}
+
 export function loadConfig(): AppConfig {
   const smoke = (() => {
     const raw = (process.env.SMOKE_TEST || "").toString().trim().toLowerCase();
@@ -59,16 +131,51 @@ export function loadConfig(): AppConfig {
   if ( smoke ) {
     const cwd = process.cwd();
     return {
+      backend: "rpc",
+      esplora: { concurrency: 4 },
       bitcoinRpcUrl: "http://localhost:8332",
+      rpcEndpoints: [ { url: "http://localhost:8332", weight: 1, priority: 0 } ],
+      rpcAuth: {},
+      rpcPool: {
+        healthCheckIntervalMs: 10000,
+        maxLagBlocks: 2,
+        failureThreshold: 3,
+        circuitOpenMs: 30000,
+      },
       pollIntervalMs: 1000,
+      catchUpBatchSize: 50,
       resolveInputAddresses: false,
+      deriveInputAddresses: false,
+      prevoutCacheSize: 200000,
+      verifyBlocks: false,
+      restBlocks: false,
+      rawParseWorkers: 0,
+      rawParseTolerant: false,
       parseRawBlocks: false,
+      matchMode: "address",
       startupScanTip: false,
+      checkpoint: {
+        enabled: false,
+        filePath: `${ cwd }/cache/scan-checkpoint.json`,
+        journalFilePath: `${ cwd }/cache/activity-journal.json`,
+      },
+      utxoIndex: { enabled: false, filePath: `${ cwd }/cache/utxo-index.sqlite`, mode: "watched" },
+      confirmations: {
+        enabled: false,
+        thresholds: [ 1, 3, 6 ],
+        filePath: `${ cwd }/cache/confirmations.json`,
+      },
+      backfill: { concurrency: 4 },
+      mempool: { enabled: false, pollIntervalMs: 2000, maxTxPerPoll: 2000 },
+      zmq: { topic: "hashblock", tipCheckIntervalMs: 60000 },
+      watchApi: { host: WATCH_API_HOST_DEFAULT },
       network: ((process.env.BTC_NETWORK || "regtest") as any),
       maxEventQueueSize: 100,
       worker: { id: "worker-1", members: [ "worker-1" ] },
       watch: [],
       watchAddressesFile: `${ cwd }/addresses.json`,
+      watchKeys: [],
+      xpub: { gapLimit: XPUB_GAP_LIMIT_DEFAULT, stateFile: `${ cwd }/cache/xpub-state.json` },
       environment: (process.env.APP_ENV || process.env.NODE_ENV || "production")
         .toString().trim(),
       serviceName: (
@@ -88,17 +195,70 @@ export function loadConfig(): AppConfig {
   // Zod schema for process.env
   const envSchema = z.object( {
     API_KEY_COINMARKETCAP: z.string().optional(),
+    BTC_BACKEND: z.enum( [ "rpc", "esplora" ] ).optional().default( "rpc" ),
     BTC_RPC_API_URL: z.string()
       .url( { message: "must be a valid URL" } )
-      .regex( /^https?:\/\//, { message: "must start with http:// or https://" } ),
+      .regex( /^https?:\/\//, { message: "must start with http:// or https://" } )
+      .optional(),
+    ESPLORA_API_URL: z.string()
+      .url( { message: "must be a valid URL" } )
+      .regex( /^https?:\/\//, { message: "must start with http:// or https://" } )
+      .optional(),
+    ESPLORA_CONCURRENCY: z.coerce.number().int().min( 1 ).default( 4 ),
+    BTC_RPC_ENDPOINTS: z.string()
+      .regex(
+        /^\s*https?:\/\/[^,|\s]+(\|\d+(\|\d+)?)?(\s*,\s*https?:\/\/[^,|\s]+(\|\d+(\|\d+)?)?)*\s*$/,
+        { message: "must be a CSV of url[|weight[|priority]]" }
+      )
+      .optional(),
+    BITCOIN_RPC_USER: z.string().optional(),
+    BITCOIN_RPC_PASSWORD: z.string().optional(),
+    BITCOIN_RPC_COOKIE_FILE: z.string().optional(),
+    BTC_RPC_HEALTH_CHECK_MS: z.coerce.number().int().min( 1 ).default( 10000 ),
+    BTC_RPC_MAX_LAG_BLOCKS: z.coerce.number().int().min( 0 ).default( 2 ),
+    BTC_RPC_CB_FAILURE_THRESHOLD: z.coerce.number().int().min( 1 ).default( 3 ),
+    BTC_RPC_CB_OPEN_MS: z.coerce.number().int().min( 0 ).default( 30000 ),
     MAX_EVENT_QUEUE_SIZE: z.coerce.number().int().min( 1 ).default( 2000 ),
     BTC_POLL_INTERVAL_MS: z.coerce.number().int().min( 1 ).default( 1000 ),
+    BTC_CATCHUP_BATCH_SIZE: z.coerce.number().int().min( 1 ).default( 50 ),
     COINMARKETCAP_BASE_URL: z.string().optional(),
     RESOLVE_INPUT_ADDRESSES: z.coerce.boolean().optional().default( false ),
+    DERIVE_INPUT_ADDRESSES: z.coerce.boolean().optional().default( false ),
+    PREVOUT_CACHE_SIZE: z.coerce.number().int().min( 0 ).default( 200000 ),
+    VERIFY_BLOCKS: z.coerce.boolean().optional().default( false ),
+    BTC_RPC_REST_BLOCKS: z.coerce.boolean().optional().default( false ),
     PARSE_RAW_BLOCKS: z.coerce.boolean().optional().default( false ),
+    RAW_PARSE_WORKERS: z.coerce.number().int().min( 0 ).default( 0 ),
+    RAW_PARSE_TOLERANT: z.coerce.boolean().optional().default( false ),
+    MATCH_MODE: z.enum( [ "address", "script" ] ).optional().default( "address" ),
     STARTUP_SCAN_TIP: z.coerce.boolean().optional().default( false ),
+    SCAN_CHECKPOINT_ENABLED: z.union( [ z.string(), z.boolean() ] ).optional(),
+    SCAN_CHECKPOINT_FILE: z.string().optional(),
+    UTXO_INDEX_ENABLED: z.union( [ z.string(), z.boolean() ] ).optional(),
+    UTXO_INDEX_FILE: z.string().optional(),
+    UTXO_INDEX_MODE: z.enum( [ "watched", "all" ] ).optional().default( "watched" ),
+    CONFIRMATIONS_ENABLED: z.union( [ z.string(), z.boolean() ] ).optional(),
+    CONFIRMATION_THRESHOLDS: z.string()
+      .regex( /^\s*\d+(\s*,\s*\d+)*\s*$/, { message: "must be a CSV of positive integers" } )
+      .optional()
+      .default( "1,3,6" ),
+    CONFIRMATIONS_FILE: z.string().optional(),
+    BACKFILL_CONCURRENCY: z.coerce.number().int().min( 1 ).default( 4 ),
+    MEMPOOL_ENABLED: z.union( [ z.string(), z.boolean() ] ).optional(),
+    MEMPOOL_POLL_INTERVAL_MS: z.coerce.number().int().min( 1 ).default( 2000 ),
+    MEMPOOL_MAX_TX_PER_POLL: z.coerce.number().int().min( 1 ).default( 2000 ),
+    ZMQ_BLOCK_URL: z.string()
+      .regex( /^tcp:\/\/.+:\d+\/?$/, { message: "must look like tcp://host:port" } )
+      .optional(),
+    ZMQ_BLOCK_TOPIC: z.enum( [ "hashblock", "rawblock" ] ).optional().default( "hashblock" ),
+    ZMQ_TIP_CHECK_INTERVAL_MS: z.coerce.number().int().min( 1 ).default( 60000 ),
+    WATCH_API_PORT: z.coerce.number().int().min( 0 ).max( 65535 ).optional(),
+    WATCH_API_HOST: z.string().optional(),
+    WATCH_API_TOKEN: z.string().optional(),
     WATCH_ADDRESSES_FILE: z.string().optional(),
     WATCH_ADDRESSES: z.string().optional(),
+    XPUB_GAP_LIMIT: z.coerce.number().int().min( 1 ).default( XPUB_GAP_LIMIT_DEFAULT ),
+    XPUB_STATE_FILE: z.string().optional(),
     // Workers
     WORKER_ID: z.string().optional().default( "worker-1" ),
     WORKER_MEMBERS: z.string().optional(),
@@ -119,16 +279,66 @@ export function loadConfig(): AppConfig {
     SINK_NATS_URL: z.string().optional(),
     SINK_NATS_SUBJECT: z.string().optional(),
     BTC_NETWORK: z.enum( [ "mainnet", "testnet", "signet", "regtest" ] ),
+  } ).superRefine( (env, ctx) => {
+    if ( env.BTC_BACKEND === "rpc" && !env.BTC_RPC_API_URL ) {
+      ctx.addIssue( { code: "custom", path: [ "BTC_RPC_API_URL" ], message: "is required" } );
+    }
+    if ( env.BTC_BACKEND === "esplora" && !env.ESPLORA_API_URL ) {
+      const message = "is required when BTC_BACKEND=esplora";
+      ctx.addIssue( { code: "custom", path: [ "ESPLORA_API_URL" ], message } );
+    }
+    if ( !env.BITCOIN_RPC_USER !== !env.BITCOIN_RPC_PASSWORD ) {
+      const key = env.BITCOIN_RPC_USER ? "BITCOIN_RPC_PASSWORD" : "BITCOIN_RPC_USER";
+      ctx.addIssue( { code: "custom", path: [ key ], message: "must be set together" } );
+    }
+    if ( env.WATCH_API_PORT !== undefined && !env.WATCH_API_TOKEN?.trim() ) {
+      const message = "is required when WATCH_API_PORT is set";
+      ctx.addIssue( { code: "custom", path: [ "WATCH_API_TOKEN" ], message } );
+    }
   } );
 
   const result = envSchema.safeParse( process.env );
   if ( !result.success ) {
     const tips: Record<string, string> = {
+      BTC_BACKEND: "Use rpc (Bitcoin Core) or esplora (Esplora/electrs REST); defaults to rpc",
+      ESPLORA_API_URL: "Set to the API root, e.g. https://blockstream.info/api",
+      ESPLORA_CONCURRENCY: "Use a positive integer; defaults to 4 if unset",
       BTC_RPC_API_URL: "Set BTC_RPC_API_URL to http(s)://host:port, e.g. http://localhost:8332",
+      BTC_RPC_ENDPOINTS: "CSV of extra endpoints, e.g. https://a.example|2,https://b.example|1|1",
+      BITCOIN_RPC_USER: "Set both BITCOIN_RPC_USER and BITCOIN_RPC_PASSWORD (rpcuser/rpcpassword)",
+      BITCOIN_RPC_PASSWORD: "Set both, or use BITCOIN_RPC_COOKIE_FILE for cookie auth instead",
+      BITCOIN_RPC_COOKIE_FILE: "Path to the node's .cookie, e.g. /home/bitcoin/.bitcoin/.cookie",
+      BTC_RPC_HEALTH_CHECK_MS: "Use a positive integer in milliseconds; defaults to 10000",
+      BTC_RPC_MAX_LAG_BLOCKS: "Use a non-negative integer; defaults to 2 if unset",
+      BTC_RPC_CB_FAILURE_THRESHOLD: "Use a positive integer; defaults to 3 if unset",
+      BTC_RPC_CB_OPEN_MS: "Use a non-negative integer in milliseconds; defaults to 30000",
       BTC_POLL_INTERVAL_MS: "Use a positive integer; defaults to 1000 if unset",
+      BTC_CATCHUP_BATCH_SIZE: "Use a positive integer; defaults to 50 if unset",
       MAX_EVENT_QUEUE_SIZE: "Use a positive integer; defaults to 2000 if unset",
       RESOLVE_INPUT_ADDRESSES: "Use true or false",
+      DERIVE_INPUT_ADDRESSES: "Use true or false",
+      PREVOUT_CACHE_SIZE: "Use a non-negative integer; defaults to 200000 if unset",
+      VERIFY_BLOCKS: "Use true or false",
+      BTC_RPC_REST_BLOCKS: "Use true or false; the node needs -rest",
       PARSE_RAW_BLOCKS: "Use true or false",
+      RAW_PARSE_WORKERS: "Use a non-negative integer; 0 (default) parses on the main thread",
+      RAW_PARSE_TOLERANT: "Use true or false",
+      MATCH_MODE: "Use address (default) or script",
+      SCAN_CHECKPOINT_ENABLED: "Use true or false (defaults to true)",
+      UTXO_INDEX_ENABLED: "Use true or false (defaults to false)",
+      UTXO_INDEX_MODE: "Use watched (outputs paying watched addresses) or all",
+      CONFIRMATIONS_ENABLED: "Use true or false (defaults to false)",
+      CONFIRMATION_THRESHOLDS: "CSV of confirmation depths, e.g. 1,3,6",
+      BACKFILL_CONCURRENCY: "Use a positive integer; defaults to 4 if unset",
+      MEMPOOL_ENABLED: "Use true or false (defaults to false)",
+      MEMPOOL_POLL_INTERVAL_MS: "Use a positive integer in milliseconds; defaults to 2000",
+      MEMPOOL_MAX_TX_PER_POLL: "Use a positive integer; defaults to 2000 if unset",
+      ZMQ_BLOCK_URL: "Set to the node's -zmqpubhashblock/-zmqpubrawblock endpoint",
+      ZMQ_BLOCK_TOPIC: "Use hashblock or rawblock (defaults to hashblock)",
+      ZMQ_TIP_CHECK_INTERVAL_MS: "Use a positive integer in milliseconds; defaults to 60000",
+      WATCH_API_PORT: "Use a port number (0-65535) to enable the watch-list API",
+      WATCH_API_TOKEN: "Set a long random secret, e.g. openssl rand -hex 32",
+      XPUB_GAP_LIMIT: "Use a positive integer; defaults to 20 if unset",
       BTC_NETWORK: "Set to mainnet, testnet, signet, or regtest",
       LOG_PRETTY: "Use true or false (defaults to true in development)",
       SINKS_ENABLED: "CSV list of enabled sinks, e.g. stdout,file,webhook",
@@ -147,12 +357,38 @@ export function loadConfig(): AppConfig {
   const addressesFile = (
     env.WATCH_ADDRESSES_FILE || path.join( cwd, "addresses.json" )
   ).trim();
-  const bitcoinRpcUrl = env.BTC_RPC_API_URL.trim();
+  const backend = env.BTC_BACKEND;
+  const esplora = {
+    url: env.ESPLORA_API_URL?.trim() || undefined,
+    concurrency: Number( env.ESPLORA_CONCURRENCY ),
+  };
+  const bitcoinRpcUrl = (env.BTC_RPC_API_URL ?? "").trim();
+  const rpcEndpoints = backend === "rpc"
+    ? parseRpcEndpoints( bitcoinRpcUrl, env.BTC_RPC_ENDPOINTS )
+    : [];
+  const rpcAuth = {
+    username: env.BITCOIN_RPC_USER || undefined,
+    password: env.BITCOIN_RPC_PASSWORD || undefined,
+    cookieFile: env.BITCOIN_RPC_COOKIE_FILE?.trim() || undefined,
+  };
+  const rpcPool = {
+    healthCheckIntervalMs: Number( env.BTC_RPC_HEALTH_CHECK_MS ),
+    maxLagBlocks: Number( env.BTC_RPC_MAX_LAG_BLOCKS ),
+    failureThreshold: Number( env.BTC_RPC_CB_FAILURE_THRESHOLD ),
+    circuitOpenMs: Number( env.BTC_RPC_CB_OPEN_MS ),
+  };
   const pollIntervalMs = Number( env.BTC_POLL_INTERVAL_MS );
+  const catchUpBatchSize = Number( env.BTC_CATCHUP_BATCH_SIZE );
   const network = env.BTC_NETWORK;
   const maxEventQueueSize = Number( env.MAX_EVENT_QUEUE_SIZE );
   const resolveInputAddresses = Boolean( env.RESOLVE_INPUT_ADDRESSES );
+  const deriveInputAddresses = Boolean( env.DERIVE_INPUT_ADDRESSES );
+  const prevoutCacheSize = Number( env.PREVOUT_CACHE_SIZE );
+  const verifyBlocks = Boolean( env.VERIFY_BLOCKS );
+  const restBlocks = Boolean( env.BTC_RPC_REST_BLOCKS );
   const parseRawBlocks = Boolean( env.PARSE_RAW_BLOCKS );
+  const rawParseWorkers = Number( env.RAW_PARSE_WORKERS );
+  const rawParseTolerant = Boolean( env.RAW_PARSE_TOLERANT );
   const startupScanTip = Boolean( env.STARTUP_SCAN_TIP );
   const environment = (
     env.APP_ENV || env.NODE_ENV || "development"
@@ -210,32 +446,107 @@ export function loadConfig(): AppConfig {
   const workerId = (env.WORKER_ID || "worker-1").toString().trim();
   const workersCsv = (env.WORKER_MEMBERS || workerId).toString().trim();
   const workerMembers = workersCsv.split( "," ).map( (x) => x.trim() ).filter( Boolean );
-  let watch: { address: string; label?: string }[] = [];
+  // Each worker keeps its own cursor since it fans out a different slice of the watch list
+  const checkpointFile = (
+    env.SCAN_CHECKPOINT_FILE || path.join( cwd, "cache", `scan-checkpoint-${ workerId }.json` )
+  ).trim();
+  const checkpoint = {
+    enabled: (env.SCAN_CHECKPOINT_ENABLED ?? "true").toString().toLowerCase().trim() !== "false",
+    filePath: checkpointFile,
+    // Next to the checkpoint: both describe the blocks this worker already processed
+    journalFilePath: path.join(
+      path.dirname( checkpointFile ),
+      `activity-journal-${ workerId }.json`
+    ),
+  };
+  // Per worker as well: in watched mode it holds only this worker's slice of the watch list
+  const utxoIndex = {
+    enabled: (env.UTXO_INDEX_ENABLED ?? "false").toString().toLowerCase().trim() === "true",
+    filePath: (
+      env.UTXO_INDEX_FILE || path.join( cwd, "cache", `utxo-index-${ workerId }.sqlite` )
+    ).trim(),
+    mode: env.UTXO_INDEX_MODE,
+  };
+  const confirmations = {
+    enabled: (env.CONFIRMATIONS_ENABLED ?? "false").toString().toLowerCase().trim() === "true",
+    thresholds: env.CONFIRMATION_THRESHOLDS
+      .split( "," )
+      .map( (x) => Number( x.trim() ) )
+      .filter( (n) => n > 0 ),
+    filePath: (
+      env.CONFIRMATIONS_FILE || path.join( cwd, "cache", `confirmations-${ workerId }.json` )
+    ).trim(),
+  };
+  const backfill = { concurrency: Number( env.BACKFILL_CONCURRENCY ) };
+  const mempool = {
+    enabled: (env.MEMPOOL_ENABLED ?? "false").toString().toLowerCase().trim() === "true",
+    pollIntervalMs: Number( env.MEMPOOL_POLL_INTERVAL_MS ),
+    maxTxPerPoll: Number( env.MEMPOOL_MAX_TX_PER_POLL ),
+  };
+  const zmq = {
+    blockUrl: env.ZMQ_BLOCK_URL?.trim() || undefined,
+    topic: env.ZMQ_BLOCK_TOPIC,
+    tipCheckIntervalMs: Number( env.ZMQ_TIP_CHECK_INTERVAL_MS ),
+  };
+  const watchApi = {
+    port: env.WATCH_API_PORT,
+    host: env.WATCH_API_HOST?.trim() || WATCH_API_HOST_DEFAULT,
+    token: env.WATCH_API_TOKEN?.trim() || undefined,
+  };
+  // Per worker: each worker derives and extends only the keys assigned to it
+  const xpub = {
+    gapLimit: Number( env.XPUB_GAP_LIMIT ),
+    stateFile: (
+      env.XPUB_STATE_FILE || path.join( cwd, "cache", `xpub-state-${ workerId }.json` )
+    ).trim(),
+  };
+  let watch: WatchedAddress[] = [];
+  let watchKeys: WatchedKey[] = [];
   try {
     const storage = getFileStorage();
     const fileContent = storage.readFile( addressesFile, "utf-8" );
     const json = JSON.parse( fileContent );
-    if ( Array.isArray( json ) ) {
-      const items = json.filter( (x) => typeof x?.address === "string" ).map( (x) => ({
-        address: x.address,
-        label: x.label
-      }) );
-      watch = normalizeWatchedAddresses( items, network as any );
+    const file = parseWatchFile( json, network );
+    if ( file ) {
+      watch = file.watch;
+      watchKeys = file.keys;
     }
   } catch {
     watch = normalizeWatchedAddresses( parseWatchAddresses( env.WATCH_ADDRESSES ), network as any );
   }
   return {
+    backend,
+    esplora,
     bitcoinRpcUrl,
+    rpcEndpoints,
+    rpcAuth,
+    rpcPool,
     pollIntervalMs,
+    catchUpBatchSize,
     resolveInputAddresses,
+    deriveInputAddresses,
+    prevoutCacheSize,
+    verifyBlocks,
+    restBlocks,
+    rawParseWorkers,
+    rawParseTolerant,
     parseRawBlocks,
+    matchMode: env.MATCH_MODE,
     network,
     maxEventQueueSize,
     worker: { id: workerId, members: workerMembers },
     watch,
     watchAddressesFile: addressesFile,
+    watchKeys,
+    xpub,
     startupScanTip,
+    checkpoint,
+    utxoIndex,
+    confirmations,
+    backfill,
+    mempool,
+    zmq,
+    watchApi,
     environment,
     serviceName,
     logLevel,
@@ -1,16 +1,30 @@
-import { normalizeWatchedAddresses } from "@/app/helpers/bitcoin";
+import { parseWatchFile, type WatchFile } from "@/app/helpers/bitcoin";
+import {
+  createBlockchainService,
+  createUtxoIndex,
+  createXpubWatcher,
+  getBackendHosts
+} from "@/app/helpers/blockchain";
 import { closeAllHttpPools, configureHttpKeepAlive } from "@/app/helpers/http";
 import {
+  ActivityRules,
   BitcoinService,
+  BlockProducer,
+  ConfirmationTracker,
   CurrencyService,
   EventService,
   FeatureFlagsService,
   HealthCheckService,
-  WorkersService
+  MempoolWatcher,
+  ScanCheckpointService,
+  WatchListApi,
+  WorkersService,
+  ZmqBlockSource
 } from "@/app/services";
 import { registerEventPipeline } from "@/app/services/Pipeline";
 import { loadConfig } from "@/config";
-import { BitcoinRpcClient } from "@/infrastructure/bitcoin";
+import { BitcoinRpcPool } from "@/infrastructure/bitcoin";
+import { WATCH_FILE_POLL_INTERVAL_MS_DEFAULT } from "@/infrastructure/bitcoin/constants";
 import { CoinMarketCapClient } from "@/infrastructure/currency/CoinMarketCapClient";
 import { logger } from "@/infrastructure/logger";
 import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
@@ -18,7 +32,6 @@ import { BTC, USD } from "@/shared/constants";
 
 async function main() {
   const cfg = loadConfig();
-  const rpc = new BitcoinRpcClient( { url: cfg.bitcoinRpcUrl } );
   const flags = new FeatureFlagsService(
     {
       parseRawBlocks: cfg.parseRawBlocks,
@@ -31,13 +44,8 @@ async function main() {
         : undefined,
     }
   );
-  const btc = new BitcoinService( rpc, {
-    pollIntervalMs: cfg.pollIntervalMs,
-    resolveInputAddresses: cfg.resolveInputAddresses,
-    parseRawBlocks: cfg.parseRawBlocks,
-    network: cfg.network as any,
-    flagsService: flags,
-  } );
+  const utxoIndex = createUtxoIndex( cfg );
+  const { btc, rpc } = createBlockchainService( cfg, flags, utxoIndex );
   const events = new EventService( { maxQueueSize: cfg.maxEventQueueSize } );
   const cmcClient = new CoinMarketCapClient( {
     apiKey: cfg.coinMarketCapApiKey,
@@ -49,9 +57,8 @@ async function main() {
 
   // Configure HTTP keep-alive pools for known hosts
   try {
-    const rpcHost = new URL( cfg.bitcoinRpcUrl ).hostname;
     const perHostConnections: Record<string, number> = {};
-    perHostConnections[rpcHost] = 8;
+    for ( const host of getBackendHosts( cfg ) ) perHostConnections[host] = 8;
     perHostConnections["pro-api.coinmarketcap.com"] = 4;
     configureHttpKeepAlive( {
       defaultConnections: 6,
@@ -64,12 +71,47 @@ async function main() {
     // ignore URL parsing errors; use defaults
   }
 
+  // Multiple endpoints: probe them in the background to keep failed or lagging ones out
+  if ( rpc instanceof BitcoinRpcPool ) {
+    rpc.start();
+    logger.info( { type: "rpc.pool_init", endpoints: rpc.getStatus().map( (s) => s.url ) } );
+  }
+
+  // Fed by the raw parser only; with PARSE_RAW_BLOCKS off it stays idle
+  if ( utxoIndex ) {
+    const tip = utxoIndex.getTip();
+    logger.info( {
+      type: "utxo_index.init",
+      path: cfg.utxoIndex.filePath,
+      mode: cfg.utxoIndex.mode,
+      tipHeight: tip?.height,
+      outputs: utxoIndex.size(),
+    } );
+    if ( !cfg.parseRawBlocks ) {
+      logger.warn( { type: "utxo_index.idle", msg: "UTXO index needs PARSE_RAW_BLOCKS=true" } );
+    }
+  }
+
   // Health checks during startup
   const health = new HealthCheckService();
   await health.runStartupChecks( btc, currency );
 
+  // Set once the watch list exists (below); mined activity is linked to its mempool sighting
+  let mempool: MempoolWatcher | undefined;
+
   // Register event pipeline (subscriptions & handlers)
-  const liveWatchRef = registerEventPipeline( events, { btc, currency }, cfg );
+  // Addresses derived from watched xpubs and descriptors join the watch list and grow with their
+  // gap limit
+  const xpubs = createXpubWatcher( cfg );
+  // One set of alert rules for mined and mempool activity, so both share the cooldowns
+  const rules = new ActivityRules();
+  const liveWatchRef = registerEventPipeline( events, {
+    btc,
+    currency,
+    mempool: { linkConfirmed: (activity) => mempool?.linkConfirmed( activity ) },
+    xpubs,
+    rules,
+  }, cfg );
   // Optional: perform one-time tip scan at startup in background (non-blocking)
   if ( cfg.startupScanTip ) {
     void (async () => {
@@ -89,32 +131,34 @@ async function main() {
     })();
   }
 
+  // Apply a new watch file to this worker's share of the watch list
+  const workers = new WorkersService( cfg.worker.id, cfg.worker.members );
+  const applyWatchFile = (file: WatchFile) => {
+    xpubs.setEntries( workers.filterKeys( file.keys ) );
+    const filtered = [ ...workers.filterWatched( file.watch ), ...xpubs.addresses() ];
+    // Atomic in-place swap: mutate the existing array reference
+    liveWatchRef.splice( 0, liveWatchRef.length, ...filtered );
+    // Rebuild precomputed indices in service
+    btc.setWatchedAddresses( liveWatchRef );
+  };
+
   // Hot-reload watch list with debounce and atomic in-memory swap
-  // Works when a watch file path is provided and exists
+  // Works when a watch file path is provided, also for a file that does not exist yet
   if ( cfg.watchAddressesFile ) {
     const storage = getFileStorage();
     const path = cfg.watchAddressesFile;
     const debounceMs = 500;
     let timer: ReturnType<typeof setTimeout> | undefined = undefined;
     let lastMtimeMs: number | undefined = undefined;
-    const workers = new WorkersService( cfg.worker.id, cfg.worker.members );
 
     const reload = () => {
       try {
         // Double-read pattern to avoid partial writes: read into temp, then parse
         const raw = storage.readFile( path, "utf-8" );
         const json = JSON.parse( raw );
-        if ( !Array.isArray( json ) ) return;
-        const net: any = cfg.network as any;
-        const items = json
-          .filter( (x: any) => typeof x?.address === "string" )
-          .map( (x: any) => ({ address: x.address, label: x.label }) );
-        const normalized = normalizeWatchedAddresses( items, net );
-        const filtered = workers.filterWatched( normalized );
-        // Atomic in-place swap: mutate the existing array reference
-        liveWatchRef.splice( 0, liveWatchRef.length, ...filtered );
-        // Rebuild precomputed indices in service
-        (btc as any).setWatchedAddresses?.( liveWatchRef );
+        const file = parseWatchFile( json, cfg.network );
+        if ( !file ) return;
+        applyWatchFile( file );
         logger.info( { type: "watch.reload", count: liveWatchRef.length, path } );
       } catch ( err ) {
         const message = err instanceof Error ? err.message : String( err );
@@ -129,66 +173,127 @@ async function main() {
 
     try {
       const fs = await import("fs");
+      const onChange = () => {
+        try {
+          const stat = fs.statSync( path );
+          if ( lastMtimeMs && stat.mtimeMs === lastMtimeMs ) return;
+          lastMtimeMs = stat.mtimeMs;
+        } catch {
+          // file may be temporarily unavailable; still schedule reload
+        }
+        schedule();
+      };
       if ( storage.fileExists( path ) ) {
         try {
           const stat = fs.statSync( path );
           lastMtimeMs = stat.mtimeMs;
         } catch {
         }
-        fs.watch( path, { persistent: false }, () => {
-          try {
-            const stat = fs.statSync( path );
-            if ( lastMtimeMs && stat.mtimeMs === lastMtimeMs ) return;
-            lastMtimeMs = stat.mtimeMs;
-          } catch {
-            // file may be temporarily unavailable; still schedule reload
-          }
-          schedule();
-        } );
-        logger.info( { type: "watch.init", path } );
+        fs.watch( path, { persistent: false }, onChange );
       }
+      // Poll as well: fs.watch misses changes made from other containers on a shared volume,
+      // and stops at the first atomic replace (rename) of the file, e.g. by the watch API.
+      // Polling also picks up a file created later, e.g. by the watch API of another worker
+      const interval = WATCH_FILE_POLL_INTERVAL_MS_DEFAULT;
+      fs.watchFile( path, { persistent: false, interval }, onChange );
+      logger.info( { type: "watch.init", path } );
     } catch {
       logger.warn( { type: "watch.init_failed", path } );
     }
   }
 
-  let lastHeight: number | undefined = undefined;
-  let lastHash: string | undefined = undefined;
-
-  // Backpressure-aware producer: waits when event backlog is high
-  async function produceBlocks(): Promise<void> {
-    for ( ;; ) {
-      // If the queue is congested, allow consumers to catch up before awaiting the next block
-      // We check "BlockDetected" backlog since that's the head of the pipeline
-      await events.waitForCapacity( "BlockDetected" );
-      const block = await btc.awaitNewBlock( lastHeight );
-      // Detect reorg: if the prev block hash doesn't match our lastHash while height advanced by 1
-      if (
-        typeof lastHeight === "number"
-        && block.height === lastHeight + 1
-        && lastHash && block.prevHash
-        && block.prevHash !== lastHash
-      ) {
-        const reorgEv = {
-          type: "BlockReorg" as const,
-          timestamp: new Date().toISOString(),
-          height: block.height - 1,
-          oldHash: lastHash,
-          newHash: block.prevHash,
-          eventId: `BlockReorg:${ block.height - 1 }:${ lastHash }->${ block.prevHash }`,
-          dedupeKey: `BlockReorg:${ block.height - 1 }:${ lastHash }:${ block.prevHash }`,
-        };
-        await events.publish( reorgEv as any );
+  // Watch-list changes over HTTP: written to the watch file and applied like a reload
+  let watchApi: WatchListApi | undefined;
+  if ( cfg.watchApi.port !== undefined && !cfg.watchAddressesFile ) {
+    logger.warn( { type: "watch_api.disabled", msg: "Watch list API needs WATCH_ADDRESSES_FILE" } );
+  } else if ( cfg.watchApi.port !== undefined && cfg.watchApi.token && cfg.watchAddressesFile ) {
+    watchApi = new WatchListApi( {
+      host: cfg.watchApi.host,
+      port: cfg.watchApi.port,
+      token: cfg.watchApi.token,
+      filePath: cfg.watchAddressesFile,
+      network: cfg.network,
+      onChange: (file) => {
+        applyWatchFile( file );
+        logger.info( { type: "watch.api_applied", count: liveWatchRef.length } );
+      },
+    } );
+    watchApi.start();
+  }
+
+  // Publish ActivityConfirmed as found activities pass the configured confirmation depths
+  if ( cfg.confirmations.enabled && cfg.confirmations.thresholds.length > 0 ) {
+    const tracker = new ConfirmationTracker( events, {
+      thresholds: cfg.confirmations.thresholds,
+      filePath: cfg.confirmations.filePath,
+    } );
+    logger.info( {
+      type: "confirmations.init",
+      thresholds: cfg.confirmations.thresholds,
+      pending: tracker.getPending().length,
+      path: cfg.confirmations.filePath,
+    } );
+  }
+
+  // Report watched-address activity while it is still unconfirmed
+  if ( cfg.mempool.enabled ) {
+    mempool = new MempoolWatcher( btc, events, liveWatchRef, {
+      pollIntervalMs: cfg.mempool.pollIntervalMs,
+      maxTxPerPoll: cfg.mempool.maxTxPerPoll,
+      rules,
+    } );
+    void mempool.run();
+    logger.info( { type: "mempool.init", pollIntervalMs: cfg.mempool.pollIntervalMs } );
+  }
+
+  // Optional ZMQ push notifications; the producer polls while they are unavailable
+  let zmq: ZmqBlockSource | undefined;
+  if ( cfg.zmq.blockUrl && btc instanceof BitcoinService ) {
+    zmq = new ZmqBlockSource( btc, { url: cfg.zmq.blockUrl, topic: cfg.zmq.topic } );
+    zmq.start();
+  } else if ( cfg.zmq.blockUrl ) {
+    logger.warn( { type: "zmq.unsupported_backend", backend: cfg.backend } );
+  }
+
+  // Backpressure-aware producer: publishes every block from the last seen height to the tip
+  const producer = new BlockProducer( btc, events, {
+    catchUpBatchSize: cfg.catchUpBatchSize,
+    notifier: zmq,
+    tipCheckIntervalMs: cfg.zmq.tipCheckIntervalMs,
+  } );
+
+  // Durable scan cursor: resume after the last fully processed block instead of the tip
+  if ( cfg.checkpoint.enabled ) {
+    const checkpoint = new ScanCheckpointService( { filePath: cfg.checkpoint.filePath } );
+    events.subscribe<"BlockProcessed">( {
+      event: "BlockProcessed",
+      name: "scan-checkpoint",
+      concurrency: 1,
+      handler: (ev) => {
+        checkpoint.commit( { height: ev.height, hash: ev.hash } );
+      },
+    } );
+    // Orphaned blocks are re-processed on the new branch; move the cursor below them
+    events.subscribe<"BlockReorg">( {
+      event: "BlockReorg",
+      name: "scan-checkpoint-reorg",
+      concurrency: 1,
+      handler: (ev) => {
+        checkpoint.rollback( ev.height - 1 );
+      },
+    } );
+    const resume = await checkpoint.resolveResumePoint( btc );
+    if ( resume ) {
+      producer.resumeFrom( resume );
+      for ( const o of resume.orphaned ) {
+        if ( o.newHash ) await producer.publishReorg( o.height, o.oldHash, o.newHash );
       }
-      lastHeight = block.height;
-      lastHash = block.hash;
-      await events.publish( {
-        type: "BlockDetected",
-        timestamp: new Date().toISOString(),
-        height: block.height,
-        hash: block.hash,
-        dedupeKey: `BlockDetected:${ block.height }:${ block.hash }`,
-        eventId: `BlockDetected:${ block.height }:${ block.hash }`,
+      logger.info( {
+        type: "checkpoint.resume",
+        height: resume.height,
+        hash: resume.hash,
+        orphaned: resume.orphaned.length,
+        path: cfg.checkpoint.filePath,
       } );
     }
   }
@@ -200,9 +305,14 @@ async function main() {
     shuttingDown = true;
     try {
       logger.info( { type: "shutdown.start", signal } );
+      mempool?.stop();
+      zmq?.stop();
+      watchApi?.stop();
+      if ( rpc instanceof BitcoinRpcPool ) rpc.stop();
       // Stop producing new events by preventing further publishing and waiting for a drain
       await events.waitUntilIdle( 5 );
       await closeAllHttpPools();
+      utxoIndex?.close();
       logger.info( { type: "shutdown.complete" } );
     } catch ( err ) {
       const message = err instanceof Error ? err.message : String( err );
@@ -214,7 +324,7 @@ async function main() {
   process.once( "SIGINT", () => void shutdown( "SIGINT" ) );
   process.once( "SIGTERM", () => void shutdown( "SIGTERM" ) );
 
-  await produceBlocks();
+  await producer.run();
 }
 
 main().catch( (err) => {
@@ -0,0 +1,350 @@
+import {
+  IDEMPOTENT_RPC_METHODS,
+  RPC_CB_FAILURE_THRESHOLD_DEFAULT,
+  RPC_CB_OPEN_MS_DEFAULT,
+  RPC_HEALTH_CHECK_INTERVAL_MS_DEFAULT,
+  RPC_LAG_ERROR_CODES,
+  RPC_MAX_ATTEMPTS_DEFAULT,
+  RPC_MAX_LAG_BLOCKS_DEFAULT,
+  RPC_REST_METHOD
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+
+import { BitcoinRpcClient, getHttpStatus, getRpcErrorCode } from "./BitcoinRpcClient";
+
+export type RpcEndpointOptions = {
+  url: string;
+  username?: string;
+  password?: string;
+  cookieFile?: string;
+  /** Relative share of requests within its priority tier (default: 1) */
+  weight?: number;
+  /** Lower is preferred; higher tiers serve only while lower ones are unavailable (default: 0) */
+  priority?: number;
+};
+
+export type BitcoinRpcPoolOptions = {
+  endpoints: RpcEndpointOptions[];
+  timeoutMs?: number;
+  /** Interval of the background getblockcount probe started by start() (default: 10000) */
+  healthCheckIntervalMs?: number;
+  /** Blocks an endpoint may trail the best known tip before it leaves rotation (default: 2) */
+  maxLagBlocks?: number;
+  /** Consecutive failures that open an endpoint's circuit (default: 3) */
+  failureThreshold?: number;
+  /** How long an open circuit keeps the endpoint out of rotation (default: 30000) */
+  circuitOpenMs?: number;
+  /** Endpoints tried for one idempotent call (default: 3, capped at the endpoint count) */
+  maxAttempts?: number;
+  /** Random source for weighted selection (tests) */
+  random?: () => number;
+};
+
+export type RpcEndpointStatus = {
+  url: string;
+  weight: number;
+  priority: number;
+  circuit: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  height?: number;
+  lagging: boolean;
+  latencyMs?: number;
+  lastError?: string;
+};
+
+type Endpoint = {
+  /** URL without credentials, safe to log */
+  url: string;
+  client: BitcoinRpcClient;
+  weight: number;
+  priority: number;
+  failures: number;
+  openUntilMs: number;
+  halfOpen: boolean;
+  height?: number;
+  lagging: boolean;
+  latencyMs?: number;
+  lastError?: string;
+};
+
+function redactUrl(url: string): string {
+  try {
+    const u = new URL( url );
+    u.username = "";
+    u.password = "";
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * BitcoinRpcClient over several endpoints. Requests go to the preferred priority tier, spread
+ * by weight; endpoints whose circuit is open (repeated transport failures) or that trail the
+ * best known tip are skipped. Idempotent calls that fail on one endpoint are retried on another.
+ */
+export class BitcoinRpcPool extends BitcoinRpcClient {
+  private readonly endpoints: Endpoint[];
+  private readonly healthCheckIntervalMs: number;
+  private readonly maxLagBlocks: number;
+  private readonly failureThreshold: number;
+  private readonly circuitOpenMs: number;
+  private readonly maxAttempts: number;
+  private readonly random: () => number;
+  private readonly log: AppLogger;
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(opts: BitcoinRpcPoolOptions) {
+    if ( opts.endpoints.length === 0 ) throw new Error( "RPC pool needs at least one endpoint" );
+    super( { url: opts.endpoints[0].url, timeoutMs: opts.timeoutMs } );
+    this.endpoints = opts.endpoints.map( (e) => ({
+      url: redactUrl( e.url ),
+      client: new BitcoinRpcClient( {
+        url: e.url,
+        username: e.username,
+        password: e.password,
+        cookieFile: e.cookieFile,
+        timeoutMs: opts.timeoutMs,
+      } ),
+      weight: Math.max( 0, e.weight ?? 1 ),
+      priority: e.priority ?? 0,
+      failures: 0,
+      openUntilMs: 0,
+      halfOpen: false,
+      lagging: false,
+    }) );
+    this.healthCheckIntervalMs = Math.max(
+      1,
+      opts.healthCheckIntervalMs ?? RPC_HEALTH_CHECK_INTERVAL_MS_DEFAULT
+    );
+    this.maxLagBlocks = Math.max( 0, opts.maxLagBlocks ?? RPC_MAX_LAG_BLOCKS_DEFAULT );
+    this.failureThreshold = Math.max(
+      1,
+      opts.failureThreshold ?? RPC_CB_FAILURE_THRESHOLD_DEFAULT
+    );
+    this.circuitOpenMs = Math.max( 0, opts.circuitOpenMs ?? RPC_CB_OPEN_MS_DEFAULT );
+    this.maxAttempts = Math.max(
+      1,
+      Math.min( this.endpoints.length, opts.maxAttempts ?? RPC_MAX_ATTEMPTS_DEFAULT )
+    );
+    this.random = opts.random ?? Math.random;
+    this.log = logger( "bitcoin_rpc_pool" );
+  }
+
+  /** Probe every endpoint now and then on the configured interval. */
+  start(): void {
+    if ( this.healthTimer ) return;
+    void this.checkHealth();
+    this.healthTimer = setInterval( () => void this.checkHealth(), this.healthCheckIntervalMs );
+  }
+
+  stop(): void {
+    if ( this.healthTimer ) clearInterval( this.healthTimer );
+    this.healthTimer = undefined;
+  }
+
+  /** getblockcount on every endpoint: updates circuits, heights and the lagging set. */
+  async checkHealth(): Promise<void> {
+    await Promise.all( this.endpoints.map( async (ep) => {
+      const started = Date.now();
+      try {
+        const height = await ep.client.getBlockCount();
+        this.onSuccess( ep, Date.now() - started );
+        ep.height = height;
+      } catch ( err ) {
+        this.onFailure( ep, err );
+      }
+    } ) );
+    this.updateLagging();
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    const circuitOf = (ep: Endpoint): RpcEndpointStatus["circuit"] => {
+      if ( ep.openUntilMs > now ) return "open";
+      return ep.halfOpen || ep.openUntilMs > 0 ? "half-open" : "closed";
+    };
+    return this.endpoints.map( (ep) => ({
+      url: ep.url,
+      weight: ep.weight,
+      priority: ep.priority,
+      circuit: circuitOf( ep ),
+      consecutiveFailures: ep.failures,
+      height: ep.height,
+      lagging: ep.lagging,
+      latencyMs: ep.latencyMs,
+      lastError: ep.lastError,
+    }) );
+  }
+
+  async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    return this.dispatch( [ method ], async (ep) => {
+      const result = await ep.client.call<T>( method, params );
+      if ( method === "getblockcount" && typeof result === "number" ) {
+        ep.height = result;
+        this.updateLagging();
+      }
+      return result;
+    } );
+  }
+
+  async callChecked<T, R>(
+    method: string,
+    params: unknown[],
+    check: (result: T) => R | Promise<R>
+  ): Promise<R> {
+    return this.dispatch( [ method ], async (ep) => {
+      return this.check( ep, method, await ep.client.call<T>( method, params ), check );
+    } );
+  }
+
+  async restChecked<R>(path: string, check: (body: Buffer) => R | Promise<R>): Promise<R> {
+    return this.dispatch( [ RPC_REST_METHOD ], async (ep) => {
+      const body = await ep.client.restChecked( path, (b) => b );
+      return this.check( ep, path, body, check );
+    } );
+  }
+
+  async callBatch(requests: { method: string; params?: unknown[] }[]): Promise<any[]> {
+    if ( requests.length === 0 ) return [];
+    return this.dispatch(
+      requests.map( (r) => r.method ),
+      (ep) => ep.client.callBatch( requests )
+    );
+  }
+
+  private async check<T, R>(
+    ep: Endpoint,
+    method: string,
+    result: T,
+    check: (result: T) => R | Promise<R>
+  ): Promise<R> {
+    try {
+      return await check( result );
+    } catch ( err ) {
+      // e.g. a block that fails verification: the endpoint answered with bad data
+      const message = err instanceof Error ? err.message : String( err );
+      this.log.warn( { type: "rpc.check_failed", method, url: ep.url, message } );
+      throw err;
+    }
+  }
+
+  private async dispatch<T>(methods: string[], run: (ep: Endpoint) => Promise<T>): Promise<T> {
+    const idempotent = methods.every( (m) => IDEMPOTENT_RPC_METHODS.has( m ) );
+    const attempts = idempotent ? this.maxAttempts : 1;
+    const tried = new Set<Endpoint>();
+    let lastError: unknown;
+    for ( let attempt = 1; attempt <= attempts; attempt++ ) {
+      const ep = this.pick( tried );
+      if ( !ep ) break;
+      tried.add( ep );
+      const started = Date.now();
+      try {
+        const result = await run( ep );
+        this.onSuccess( ep, Date.now() - started );
+        return result;
+      } catch ( err ) {
+        lastError = err;
+        const rpcCode = getRpcErrorCode( err );
+        const restStatus = methods[0] === RPC_REST_METHOD ? getHttpStatus( err ) : undefined;
+        if ( restStatus !== undefined && restStatus < 500 ) {
+          // REST answered: 404 is a node without -rest or one that lacks the block yet
+          if ( restStatus !== 404 ) throw err;
+        } else if ( rpcCode === undefined ) {
+          this.onFailure( ep, err );
+        } else if ( !RPC_LAG_ERROR_CODES.has( rpcCode ) ) {
+          // The node answered; the request itself is at fault and would fail anywhere
+          throw err;
+        }
+        if ( attempt < attempts ) {
+          const message = err instanceof Error ? err.message : String( err );
+          const method = methods[0];
+          this.log.debug( { type: "rpc.retry", method, url: ep.url, attempt, message } );
+        }
+      }
+    }
+    throw lastError ?? new Error( "No RPC endpoint available" );
+  }
+
+  /**
+   * Endpoint for the next attempt: closed (or half-open) circuits first, preferring endpoints
+   * that are not lagging, then the lowest priority value, then a weighted random choice.
+   * When every circuit is open, the one closest to reopening is probed.
+   */
+  private pick(exclude: Set<Endpoint>): Endpoint | undefined {
+    const now = Date.now();
+    const remaining = this.endpoints.filter( (ep) => !exclude.has( ep ) );
+    if ( remaining.length === 0 ) return undefined;
+    for ( const ep of remaining ) {
+      if ( ep.openUntilMs > 0 && ep.openUntilMs <= now ) {
+        ep.openUntilMs = 0;
+        ep.halfOpen = true;
+      }
+    }
+    const available = remaining.filter( (ep) => ep.openUntilMs === 0 );
+    if ( available.length === 0 ) {
+      return remaining.reduce( (a, b) => (b.openUntilMs < a.openUntilMs ? b : a) );
+    }
+    const current = available.filter( (ep) => !ep.lagging );
+    const pool = current.length > 0 ? current : available;
+    const best = Math.min( ...pool.map( (ep) => ep.priority ) );
+    const tier = pool.filter( (ep) => ep.priority === best );
+    const total = tier.reduce( (sum, ep) => sum + ep.weight, 0 );
+    if ( total <= 0 ) return tier[0];
+    let roll = this.random() * total;
+    for ( const ep of tier ) {
+      roll -= ep.weight;
+      if ( roll < 0 ) return ep;
+    }
+    return tier[tier.length - 1];
+  }
+
+  private onSuccess(ep: Endpoint, latencyMs: number): void {
+    ep.latencyMs = latencyMs;
+    ep.failures = 0;
+    ep.lastError = undefined;
+    if ( ep.halfOpen || ep.openUntilMs > 0 ) {
+      this.log.info( { type: "rpc.circuit_closed", url: ep.url } );
+    }
+    ep.halfOpen = false;
+    ep.openUntilMs = 0;
+  }
+
+  private onFailure(ep: Endpoint, err: unknown): void {
+    ep.lastError = err instanceof Error ? err.message : String( err );
+    ep.failures += 1;
+    const alreadyOpen = ep.openUntilMs > Date.now();
+    if ( ep.halfOpen || alreadyOpen || ep.failures >= this.failureThreshold ) {
+      if ( !alreadyOpen ) {
+        this.log.warn( {
+          type: "rpc.circuit_open",
+          url: ep.url,
+          failures: ep.failures,
+          openMs: this.circuitOpenMs,
+          message: ep.lastError,
+        } );
+      }
+      ep.openUntilMs = Date.now() + this.circuitOpenMs;
+      ep.halfOpen = false;
+      ep.failures = 0;
+    }
+  }
+
+  private updateLagging(): void {
+    const heights = this.endpoints
+      .map( (ep) => ep.height )
+      .filter( (h): h is number => typeof h === "number" );
+    if ( heights.length === 0 ) return;
+    const best = Math.max( ...heights );
+    for ( const ep of this.endpoints ) {
+      const lagging = typeof ep.height === "number" && best - ep.height > this.maxLagBlocks;
+      if ( lagging === ep.lagging ) continue;
+      ep.lagging = lagging;
+      if ( lagging ) {
+        this.log.warn( { type: "rpc.endpoint_lagging", url: ep.url, height: ep.height, best } );
+      } else {
+        this.log.info( { type: "rpc.endpoint_caught_up", url: ep.url, height: ep.height } );
+      }
+    }
+  }
+}
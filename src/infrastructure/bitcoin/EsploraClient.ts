@@ -0,0 +1,102 @@
+import { fetchBuffer, fetchJson, HTTP_METHOD } from "@/app/helpers/http";
+
+/** Output (or spent prevout) as returned by Esplora; value is in satoshis */
+export type EsploraTxOut = {
+  scriptpubkey: string;
+  scriptpubkey_asm?: string;
+  scriptpubkey_type?: string;
+  scriptpubkey_address?: string;
+  value: number;
+};
+
+export type EsploraTx = {
+  txid: string;
+  version?: number;
+  locktime?: number;
+  weight?: number;
+  /** Sats; Esplora computes it from the prevouts */
+  fee?: number;
+  vin: {
+    txid: string;
+    vout: number;
+    is_coinbase: boolean;
+    sequence: number;
+    prevout: EsploraTxOut | null;
+  }[];
+  vout: EsploraTxOut[];
+  status?: { confirmed: boolean; block_height?: number; block_hash?: string };
+};
+
+export type EsploraBlock = {
+  id: string;
+  height: number;
+  timestamp: number;
+  mediantime?: number;
+  previousblockhash?: string | null;
+  tx_count: number;
+};
+
+export type EsploraClientOptions = {
+  /** API root, e.g. https://blockstream.info/api or http://localhost:3000 */
+  baseUrl: string;
+  timeoutMs?: number;
+};
+
+/** Esplora / electrs REST API (https://github.com/Blockstream/esplora/blob/master/API.md). */
+export class EsploraClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(opts: EsploraClientOptions) {
+    this.baseUrl = opts.baseUrl.replace( /\/+$/, "" );
+    this.timeoutMs = opts.timeoutMs ?? 10000;
+  }
+
+  async getTipHeight(): Promise<number> {
+    return Number( await this.getText( "/blocks/tip/height" ) );
+  }
+
+  getBlockHash(height: number): Promise<string> {
+    return this.getText( `/block-height/${ height }` );
+  }
+
+  getBlock(hash: string): Promise<EsploraBlock> {
+    return this.getJson( `/block/${ hash }` );
+  }
+
+  /** Serialized block */
+  getBlockRaw(hash: string): Promise<Buffer> {
+    return fetchBuffer( `${ this.baseUrl }/block/${ hash }/raw`, {
+      method: HTTP_METHOD.GET,
+      timeoutMs: this.timeoutMs,
+    } );
+  }
+
+  /** One page of the block's transactions, with prevouts, starting at startIndex */
+  getBlockTxs(hash: string, startIndex: number = 0): Promise<EsploraTx[]> {
+    return this.getJson( `/block/${ hash }/txs/${ startIndex }` );
+  }
+
+  getMempoolTxids(): Promise<string[]> {
+    return this.getJson( "/mempool/txids" );
+  }
+
+  getTx(txid: string): Promise<EsploraTx> {
+    return this.getJson( `/tx/${ txid }` );
+  }
+
+  private getJson<T>(path: string): Promise<T> {
+    return fetchJson<T>( `${ this.baseUrl }${ path }`, {
+      method: HTTP_METHOD.GET,
+      timeoutMs: this.timeoutMs,
+    } );
+  }
+
+  private async getText(path: string): Promise<string> {
+    const body = await fetchBuffer( `${ this.baseUrl }${ path }`, {
+      method: HTTP_METHOD.GET,
+      timeoutMs: this.timeoutMs,
+    } );
+    return body.toString( "utf8" ).trim();
+  }
+}
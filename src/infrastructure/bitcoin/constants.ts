@@ -28,15 +28,20 @@ export const VARINT_MARKER = {
 export const OP = {
   OP_0: 0x00,
   OP_1: 0x51,
+  OP_16: 0x60,
   DUP: 0x76,
   HASH160: 0xa9,
   EQUAL: 0x87,
   EQUALVERIFY: 0x88,
   CHECKSIG: 0xac,
+  CHECKMULTISIG: 0xae,
   RETURN: 0x6a,
   PUSHDATA1: 0x4c,
   PUSHDATA2: 0x4d,
   PUSHDATA4: 0x4e,
+  OP_1NEGATE: 0x4f,
+  NUMEQUAL: 0x9c,
+  CHECKSIGADD: 0xba,
 } as const;
 
 export const PUSH = {
@@ -50,6 +55,19 @@ export const SCRIPT_LENGTHS = {
   TAPROOT: 34,
   P2WPKH_REDEEM: 22,
   P2WSH_REDEEM: 34,
+  // OP_1 PUSH2 0x4e73
+  P2A: 4,
+} as const;
+
+// Public keys and signatures as they appear in scriptSig/witness pushes
+export const PUBKEY = {
+  COMPRESSED_LENGTH: 33,
+  UNCOMPRESSED_LENGTH: 65,
+  PREFIX_EVEN: 0x02,
+  PREFIX_ODD: 0x03,
+  PREFIX_UNCOMPRESSED: 0x04,
+  // DER-encoded ECDSA signatures start with a SEQUENCE tag
+  DER_SEQUENCE: 0x30,
 } as const;
 
 // SegWit markers/versions
@@ -58,6 +76,19 @@ export const SEGWIT = {
   FLAG: 0x01,
   V0: 0,
   V1: 1,
+  // BIP141 witness program size bounds
+  PROGRAM_MIN: 2,
+  PROGRAM_MAX: 40,
+  // Pay-to-anchor (BIP-less, Bitcoin Core 28): witness v1 program 0x4e73
+  ANCHOR_PROGRAM: "4e73",
+} as const;
+
+// Transaction weight and signalling
+export const TX = {
+  // BIP141: weight = base size * (scale - 1) + total size; vsize = ceil(weight / scale)
+  WITNESS_SCALE_FACTOR: 4,
+  // BIP125: an input with a lower nSequence opts the transaction in to replace-by-fee
+  RBF_SEQUENCE_THRESHOLD: 0xfffffffe,
 } as const;
 
 // Bech32/Bech32m
@@ -82,6 +113,60 @@ export const NETWORKS: Record<Network, { p2pkh: number; p2sh: number; hrp: strin
   regtest: { p2pkh: 0x6f, p2sh: 0xc4, hrp: "bcrt" },
 };
 
+// Highest proof-of-work target a header may claim (chainparams powLimit)
+export const POW_LIMIT: Record<Network, bigint> = {
+  mainnet: 0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffffn,
+  testnet: 0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffffn,
+  signet: 0x00000377ae000000000000000000000000000000000000000000000000000000n,
+  regtest: 0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffn,
+};
+
+// secp256k1 domain parameters (SEC 2)
+export const SECP256K1 = {
+  P: 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn,
+  N: 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n,
+  GX: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  GY: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+  B: 7n,
+} as const;
+
+// BIP32 extended public keys: 4-byte version per SLIP-132 prefix, and the serialized size
+export const EXTENDED_KEY = {
+  LENGTH: 78,
+  HARDENED_OFFSET: 0x80000000,
+  VERSIONS: {
+    xpub: 0x0488b21e,
+    ypub: 0x049d7cb2,
+    zpub: 0x04b24746,
+    tpub: 0x043587cf,
+    upub: 0x044a5262,
+    vpub: 0x045f1cf6,
+  },
+} as const;
+
+// BIP380 output descriptors: checksum alphabets and polymod generators
+export const DESCRIPTOR = {
+  // Three groups of 32: the checksum covers the position in a group and the group separately
+  INPUT_CHARSET: "0123456789()[],'/*abcdefgh@:$%{}"
+    + "IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~"
+    + "ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ",
+  CHECKSUM_CHARSET: "qpzry9x8gf2tvdw0s3jn54khce6mua7l",
+  CHECKSUM_LENGTH: 8,
+  GENERATORS: [ 0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn ],
+  // Keys per multi()/sortedmulti() (CHECKMULTISIG limit) and per multi_a() (BIP387)
+  MULTI_MAX_KEYS: 20,
+  MULTI_A_MAX_KEYS: 999,
+  // WIF version bytes: a private key where a public one is expected
+  WIF_VERSIONS: [ 0x80, 0xef ],
+  // Most indexes a ranged descriptor's `range` may span
+  MAX_RANGE_SIZE: 100_000,
+} as const;
+
+// BIP341/342: leaf version of tapscript leaves
+export const TAPROOT = {
+  LEAF_VERSION_TAPSCRIPT: 0xc0,
+} as const;
+
 // Common string constants
 export const NULL_TXID_64 = "0".repeat( 64 );
 
@@ -89,5 +174,78 @@ export const NULL_TXID_64 = "0".repeat( 64 );
 export const PREV_TX_CACHE_MAX_DEFAULT = 1000;
 export const POLL_INTERVAL_MS_DEFAULT = 1000;
 export const PREV_TX_LOOKUPS_PER_BLOCK_CAP_DEFAULT = 10;
-
-
+// Transactions per getrawtransaction batch when resolving raw-path inputs
+export const PREV_TX_BATCH_SIZE_DEFAULT = 250;
+// Unspent outputs of recent blocks kept for raw-path input resolution (~200 bytes each)
+export const PREVOUT_CACHE_MAX_DEFAULT = 200_000;
+// Blocks with fewer transactions are parsed on the calling thread even with parse workers
+export const PARSE_WORKERS_MIN_TXS_DEFAULT = 200;
+export const CATCHUP_BATCH_SIZE_DEFAULT = 50;
+
+export const CHECKPOINT_HISTORY_DEFAULT = 12;
+
+export const BACKFILL_CONCURRENCY_DEFAULT = 4;
+export const BACKFILL_PROGRESS_INTERVAL_MS_DEFAULT = 5000;
+
+// Blocks remembered for fork detection and activity retraction on reorgs
+export const REORG_MAX_DEPTH_DEFAULT = 100;
+
+export const CONFIRMATION_THRESHOLDS_DEFAULT = [ 1, 3, 6 ];
+
+export const MEMPOOL_POLL_INTERVAL_MS_DEFAULT = 2000;
+export const MEMPOOL_MAX_TX_PER_POLL_DEFAULT = 2000;
+// Hash of the pseudo-block mempool transactions are matched and rule-checked in
+export const MEMPOOL_BLOCK_HASH = "mempool";
+
+// ZMQ block notifications
+export const ZMQ_RECONNECT_DELAY_MS_DEFAULT = 1000;
+export const ZMQ_RECONNECT_DELAY_MS_MAX = 30000;
+// Largest ZMTP frame accepted: a 4 MB (max weight) rawblock plus a margin. A corrupted size
+// above it drops the connection instead of buffering without limit
+export const ZMQ_MAX_FRAME_BYTES = 5 * 1024 * 1024;
+// Tip re-check while push notifications are active (ZMQ may drop messages under load)
+export const ZMQ_TIP_CHECK_INTERVAL_MS_DEFAULT = 60000;
+// Raw block payloads kept until the pipeline parses them
+export const ZMQ_RAW_BLOCK_CACHE_MAX_DEFAULT = 8;
+
+// Extended public key watching: unused addresses kept derived past the last used one (BIP44)
+export const XPUB_GAP_LIMIT_DEFAULT = 20;
+
+// Watch-list HTTP API: loopback only unless configured, and a cap on request bodies
+export const WATCH_API_HOST_DEFAULT = "127.0.0.1";
+export const WATCH_API_MAX_BODY_BYTES = 64 * 1024;
+// Stat polling of the watch file, next to fs.watch
+export const WATCH_FILE_POLL_INTERVAL_MS_DEFAULT = 2000;
+
+// Multi-endpoint RPC pool
+export const RPC_HEALTH_CHECK_INTERVAL_MS_DEFAULT = 10000;
+export const RPC_MAX_LAG_BLOCKS_DEFAULT = 2;
+export const RPC_CB_FAILURE_THRESHOLD_DEFAULT = 3;
+export const RPC_CB_OPEN_MS_DEFAULT = 30000;
+export const RPC_MAX_ATTEMPTS_DEFAULT = 3;
+// Pool label of GETs on the node's REST interface (/rest/...), which are all reads
+export const RPC_REST_METHOD = "rest";
+// Read-only methods that may be repeated on another endpoint after a failure
+export const IDEMPOTENT_RPC_METHODS: ReadonlySet<string> = new Set( [
+  RPC_REST_METHOD,
+  "getbestblockhash",
+  "getblock",
+  "getblockchaininfo",
+  "getblockcount",
+  "getblockhash",
+  "getblockheader",
+  "getmempoolentry",
+  "getrawmempool",
+  "getrawtransaction",
+] );
+// RPC_INVALID_ADDRESS_OR_KEY (-5, e.g. unknown block) and RPC_INVALID_PARAMETER (-8, e.g. height
+// out of range) may only mean that endpoint is behind; such calls are retried elsewhere
+export const RPC_LAG_ERROR_CODES: ReadonlySet<number> = new Set( [ -5, -8 ] );
+// Raw blocks over REST: after a failed request, use JSON-RPC for this long before trying again
+export const REST_RETRY_INTERVAL_MS_DEFAULT = 60000;
+
+// Esplora REST backend
+// Page size of /block/:hash/txs/:start_index (fixed by Esplora)
+export const ESPLORA_TXS_PAGE_SIZE = 25;
+// Parallel REST requests per block, hash range or mempool poll
+export const ESPLORA_FETCH_CONCURRENCY_DEFAULT = 4;
@@ -0,0 +1,551 @@
+import { createHash } from "crypto";
+
+import { DESCRIPTOR, EXTENDED_KEY, OP, PUBKEY, TAPROOT } from "../constants";
+import {
+  addressToScriptPubKey,
+  base58checkDecodeBytes,
+  hash160,
+  type Network
+} from "../raw/Address";
+import { decodeScriptPubKey } from "../raw/Script";
+import {
+  deriveChild,
+  parseExtendedPublicKey,
+  taggedHash,
+  taprootOutputKey,
+  type ExtendedPublicKey
+} from "./ExtendedKey";
+import { bytesToBigInt, decompressPoint, liftX } from "./Secp256k1";
+
+/** A derivation step after an extended key: an index, `*` (the range index) or <a;b> (multipath) */
+type Step = number | "*" | number[];
+
+type KeyExpr = {
+  /** Path from the [fingerprint/path] origin, e.g. ["84'", "0'", "0'"] */
+  originPath?: string[];
+  /** Fixed key: 33 or 65 bytes, or 32 (x-only) inside tr() */
+  pubkey?: Buffer;
+  xpub?: ExtendedPublicKey;
+  steps: Step[];
+  /** Used inside tr(): keys are serialized as 32-byte x-only keys */
+  xOnly: boolean;
+  /** The extended key derived through every step before `*`, per multipath branch */
+  derived: Map<number, ExtendedPublicKey | undefined>;
+};
+
+type ScriptExpr =
+  | { fn: "pk" | "pkh" | "wpkh" | "rawtr"; key: KeyExpr }
+  | {
+    fn: "multi" | "sortedmulti" | "multi_a" | "sortedmulti_a";
+    threshold: number;
+    keys: KeyExpr[];
+  }
+  | { fn: "sh" | "wsh"; inner: ScriptExpr }
+  | { fn: "tr"; key: KeyExpr; tree?: TapTree }
+  | { fn: "addr" | "raw"; script: Buffer };
+
+type TapTree = ScriptExpr | [ TapTree, TapTree ];
+
+/** Where a script expression appears; decides which functions and key forms are allowed */
+type Context = "top" | "sh" | "wsh" | "tap";
+
+/** A parsed output descriptor (BIP380-386) */
+export type Descriptor = {
+  /** Descriptor text without the checksum */
+  body: string;
+  checksum: string;
+  /** Has a `*` step: one scriptPubKey per index */
+  ranged: boolean;
+  /** Number of multipath (<a;b>) alternatives, 1 without multipath */
+  branches: number;
+  script: ScriptExpr;
+};
+
+/** BIP380 checksum of a descriptor body (the text before `#`) */
+export function descriptorChecksum(body: string): string {
+  let c = 1n;
+  let cls = 0;
+  let clsCount = 0;
+  for ( const ch of body ) {
+    const pos = DESCRIPTOR.INPUT_CHARSET.indexOf( ch );
+    if ( pos < 0 ) throw new Error( `Invalid descriptor character ${ JSON.stringify( ch ) }` );
+    c = polymod( c, pos & 31 );
+    cls = cls * 3 + (pos >> 5);
+    if ( ++clsCount === 3 ) {
+      c = polymod( c, cls );
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+  if ( clsCount > 0 ) c = polymod( c, cls );
+  for ( let i = 0; i < DESCRIPTOR.CHECKSUM_LENGTH; i++ ) c = polymod( c, 0 );
+  c ^= 1n;
+  let out = "";
+  for ( let j = 0; j < DESCRIPTOR.CHECKSUM_LENGTH; j++ ) {
+    out += DESCRIPTOR.CHECKSUM_CHARSET[Number( (c >> BigInt( 5 * (7 - j) )) & 31n )];
+  }
+  return out;
+}
+
+/**
+ * Parse an output descriptor, checking its `#checksum` when present. Supports sh, wsh, pk, pkh,
+ * wpkh, multi, sortedmulti, tr (with multi_a/sortedmulti_a/pk/pkh leaves), rawtr, addr and raw,
+ * with hex or extended public keys. Throws on private keys, hardened steps after a public key,
+ * keys for another network and malformed input.
+ */
+export function parseDescriptor(text: string, network: Network): Descriptor {
+  const trimmed = text.trim();
+  const hash = trimmed.indexOf( "#" );
+  const body = hash >= 0 ? trimmed.slice( 0, hash ) : trimmed;
+  const checksum = descriptorChecksum( body );
+  if ( hash >= 0 && trimmed.slice( hash + 1 ) !== checksum ) {
+    throw new Error( `Descriptor checksum mismatch: expected #${ checksum }` );
+  }
+  const script = parseScript( body, "top", network );
+  const keys = collectKeys( script );
+  const branchCounts = new Set(
+    keys.flatMap( (k) => k.steps.filter( Array.isArray ).map( (s) => s.length ) )
+  );
+  if ( branchCounts.size > 1 ) throw new Error( "Multipath steps must have the same length" );
+  return {
+    body,
+    checksum,
+    ranged: keys.some( (k) => k.steps.includes( "*" ) ),
+    branches: [ ...branchCounts ][0] ?? 1,
+    script,
+  };
+}
+
+/**
+ * scriptPubKey at `index` (ignored when not ranged) of a multipath `branch`; undefined for the
+ * rare index at which some key cannot be derived.
+ */
+export function descriptorScriptPubKey(
+  desc: Descriptor,
+  index: number = 0,
+  branch: number = 0
+): Buffer | undefined {
+  return buildScript( desc.script, index, branch );
+}
+
+/** Address paying the descriptor's scriptPubKey; throws for scripts without one (pk, multi, ...) */
+export function descriptorAddress(
+  desc: Descriptor,
+  network: Network,
+  index: number = 0,
+  branch: number = 0
+): string | undefined {
+  const script = descriptorScriptPubKey( desc, index, branch );
+  if ( !script ) return undefined;
+  const address = decodeScriptPubKey( script, network ).address;
+  if ( !address ) throw new Error( `Descriptor ${ desc.body } has no address` );
+  return address;
+}
+
+/**
+ * A watch list entry for the output at `index`: its address, or for scripts without one (P2PK,
+ * bare multisig, nonstandard) `raw(<hex>)` and the script, which only matches by script bytes.
+ */
+export function descriptorOutput(
+  desc: Descriptor,
+  network: Network,
+  index: number = 0,
+  branch: number = 0
+): { address: string; scriptPubKey?: string } | undefined {
+  const script = descriptorScriptPubKey( desc, index, branch );
+  if ( !script ) return undefined;
+  const address = decodeScriptPubKey( script, network ).address;
+  if ( address ) return { address };
+  const scriptPubKey = script.toString( "hex" );
+  return { address: `raw(${ scriptPubKey })`, scriptPubKey };
+}
+
+/**
+ * Derivation path of the first key with one: its origin path and steps, e.g. m/84'/0'/0'/0/5,
+ * or the steps alone (0/5) when the key has no origin.
+ */
+export function descriptorKeyPath(
+  desc: Descriptor,
+  index: number = 0,
+  branch: number = 0
+): string | undefined {
+  const key = collectKeys( desc.script ).find( (k) => k.originPath || k.steps.length > 0 );
+  if ( !key ) return undefined;
+  const steps = key.steps
+    .map( (s) => String( s === "*" ? index : Array.isArray( s ) ? s[branch] : s ) );
+  return key.originPath ? [ "m", ...key.originPath, ...steps ].join( "/" ) : steps.join( "/" );
+}
+
+function polymod(c: bigint, value: number): bigint {
+  const top = c >> 35n;
+  let out = ((c & 0x7ffffffffn) << 5n) ^ BigInt( value );
+  DESCRIPTOR.GENERATORS.forEach( (g, i) => {
+    if ( (top >> BigInt( i )) & 1n ) out ^= g;
+  } );
+  return out;
+}
+
+function parseScript(text: string, ctx: Context, network: Network): ScriptExpr {
+  const { fn, args } = parseCall( text );
+  const one = () => {
+    if ( args.length !== 1 ) throw new Error( `${ fn }() takes one argument` );
+    return args[0];
+  };
+  const only = (...allowed: Context[]) => {
+    if ( !allowed.includes( ctx ) ) {
+      throw new Error( `${ fn }() is not allowed ${ describeContext( ctx ) }` );
+    }
+  };
+  switch ( fn ) {
+    case "sh":
+      only( "top" );
+      return { fn, inner: parseScript( one(), "sh", network ) };
+    case "wsh":
+      only( "top", "sh" );
+      return { fn, inner: parseScript( one(), "wsh", network ) };
+    case "pk":
+    case "pkh":
+      return { fn, key: parseKey( one(), ctx, network ) };
+    case "wpkh":
+      only( "top", "sh" );
+      return { fn, key: parseKey( one(), "wsh", network ) };
+    case "multi":
+    case "sortedmulti":
+      only( "top", "sh", "wsh" );
+      return parseMulti( fn, args, ctx, network, DESCRIPTOR.MULTI_MAX_KEYS );
+    case "multi_a":
+    case "sortedmulti_a":
+      only( "tap" );
+      return parseMulti( fn, args, ctx, network, DESCRIPTOR.MULTI_A_MAX_KEYS );
+    case "tr": {
+      only( "top" );
+      if ( args.length < 1 || args.length > 2 ) {
+        throw new Error( "tr() takes a key and an optional tree" );
+      }
+      const key = parseKey( args[0], "tap", network );
+      return args.length === 2 ? { fn, key, tree: parseTree( args[1], network ) } : { fn, key };
+    }
+    case "rawtr":
+      only( "top" );
+      return { fn, key: parseKey( one(), "tap", network ) };
+    case "addr": {
+      only( "top" );
+      return { fn, script: addressToScriptPubKey( one(), network ) };
+    }
+    case "raw": {
+      only( "top" );
+      const hex = one();
+      if ( !/^([0-9a-fA-F]{2})*$/.test( hex ) ) throw new Error( "raw() takes hex" );
+      return { fn, script: Buffer.from( hex, "hex" ) };
+    }
+    default:
+      throw new Error( `Unsupported descriptor function ${ fn }()` );
+  }
+}
+
+function parseMulti(
+  fn: "multi" | "sortedmulti" | "multi_a" | "sortedmulti_a",
+  args: string[],
+  ctx: Context,
+  network: Network,
+  maxKeys: number
+): ScriptExpr {
+  const threshold = Number( args[0] );
+  const keys = args.slice( 1 ).map( (k) => parseKey( k, ctx, network ) );
+  if ( !/^\d+$/.test( args[0] ?? "" ) || threshold < 1 || threshold > keys.length ) {
+    throw new Error( `${ fn }() threshold must be between 1 and the number of keys` );
+  }
+  if ( keys.length > maxKeys ) throw new Error( `${ fn }() takes at most ${ maxKeys } keys` );
+  return { fn, threshold, keys };
+}
+
+function parseTree(text: string, network: Network): TapTree {
+  if ( !text.startsWith( "{" ) ) return parseScript( text, "tap", network );
+  if ( !text.endsWith( "}" ) ) throw new Error( "Unbalanced braces in tr() tree" );
+  const parts = splitArgs( text.slice( 1, -1 ) );
+  if ( parts.length !== 2 ) throw new Error( "A tr() tree branch has exactly two children" );
+  return [ parseTree( parts[0], network ), parseTree( parts[1], network ) ];
+}
+
+function parseKey(text: string, ctx: Context, network: Network): KeyExpr {
+  let rest = text;
+  let originPath: string[] | undefined;
+  if ( rest.startsWith( "[" ) ) {
+    const close = rest.indexOf( "]" );
+    if ( close < 0 ) throw new Error( "Unterminated key origin" );
+    const [ fingerprint, ...path ] = rest.slice( 1, close ).split( "/" );
+    if ( !/^[0-9a-fA-F]{8}$/.test( fingerprint ) ) {
+      throw new Error( "Key origin fingerprint must be 8 hex digits" );
+    }
+    originPath = path.map( (p) => {
+      const m = /^(\d+)(['h]?)$/.exec( p );
+      if ( !m || Number( m[1] ) >= EXTENDED_KEY.HARDENED_OFFSET ) {
+        throw new Error( `Invalid origin step ${ p }` );
+      }
+      return `${ m[1] }${ m[2] ? "'" : "" }`;
+    } );
+    rest = rest.slice( close + 1 );
+  }
+  const [ material, ...stepTexts ] = rest.split( "/" );
+  const key: KeyExpr = { originPath, steps: [], xOnly: ctx === "tap", derived: new Map() };
+  if ( /^[0-9a-fA-F]+$/.test( material ) ) {
+    if ( stepTexts.length > 0 ) throw new Error( "Only extended keys take derivation steps" );
+    key.pubkey = parseHexKey( Buffer.from( material, "hex" ), ctx );
+    return key;
+  }
+  const decoded = base58checkDecodeBytes( material );
+  const wif = decoded && (decoded.length === 33 || decoded.length === 34)
+    && (DESCRIPTOR.WIF_VERSIONS as readonly number[]).includes( decoded[0] );
+  if ( wif ) {
+    throw new Error( "Private keys are not accepted" );
+  }
+  key.xpub = parseExtendedPublicKey( material, network );
+  key.steps = stepTexts.map( (s, i) => {
+    if ( s === "*" ) {
+      if ( i !== stepTexts.length - 1 ) throw new Error( "* must be the last derivation step" );
+      return "*";
+    }
+    const multi = /^<([^>]+)>$/.exec( s );
+    if ( multi ) {
+      const values = multi[1].split( ";" ).map( (v) => parseStep( v ) );
+      if ( values.length < 2 ) throw new Error( `Multipath step ${ s } needs two or more indexes` );
+      return values;
+    }
+    return parseStep( s );
+  } );
+  if ( key.steps.filter( Array.isArray ).length > 1 ) {
+    throw new Error( "A key takes one multipath step" );
+  }
+  return key;
+}
+
+function parseStep(text: string): number {
+  if ( /^(\d+|\*)['h]$/.test( text ) ) {
+    throw new Error( `Hardened step ${ text } needs a private key` );
+  }
+  if ( !/^\d+$/.test( text ) || Number( text ) >= EXTENDED_KEY.HARDENED_OFFSET ) {
+    throw new Error( `Invalid derivation step ${ text }` );
+  }
+  return Number( text );
+}
+
+function parseHexKey(bytes: Buffer, ctx: Context): Buffer {
+  if ( ctx === "tap" ) {
+    // x-only keys; a compressed key is accepted and its parity dropped
+    const x = bytes.length === PUBKEY.COMPRESSED_LENGTH ? bytes.subarray( 1 ) : bytes;
+    const validCompressed = bytes.length !== PUBKEY.COMPRESSED_LENGTH || decompressPoint( bytes );
+    if ( x.length !== 32 || !validCompressed || !liftX( bytesToBigInt( x ), false ) ) {
+      throw new Error( "Invalid x-only public key" );
+    }
+    return Buffer.from( x );
+  }
+  if ( bytes.length === PUBKEY.UNCOMPRESSED_LENGTH && bytes[0] === PUBKEY.PREFIX_UNCOMPRESSED ) {
+    if ( ctx === "wsh" ) throw new Error( "Uncompressed keys are not allowed in segwit scripts" );
+    const point = liftX( bytesToBigInt( bytes.subarray( 1, 33 ) ), (bytes[64] & 1) === 1 );
+    if ( !point || bytesToBigInt( bytes.subarray( 33 ) ) !== point.y ) {
+      throw new Error( "Invalid public key" );
+    }
+    return bytes;
+  }
+  if ( !decompressPoint( bytes ) ) throw new Error( "Invalid public key" );
+  return bytes;
+}
+
+/** Split `fn(a,b,...)` into its name and top-level arguments */
+function parseCall(text: string): { fn: string; args: string[] } {
+  const open = text.indexOf( "(" );
+  if ( open <= 0 || !text.endsWith( ")" ) ) {
+    throw new Error( `Expected a script expression: ${ text }` );
+  }
+  return { fn: text.slice( 0, open ), args: splitArgs( text.slice( open + 1, -1 ) ) };
+}
+
+function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for ( let i = 0; i < text.length; i++ ) {
+    const ch = text[i];
+    if ( ch === "(" || ch === "{" || ch === "[" || ch === "<" ) depth++;
+    else if ( ch === ")" || ch === "}" || ch === "]" || ch === ">" ) depth--;
+    else if ( ch === "," && depth === 0 ) {
+      args.push( text.slice( start, i ) );
+      start = i + 1;
+    }
+    if ( depth < 0 ) throw new Error( "Unbalanced brackets in descriptor" );
+  }
+  if ( depth !== 0 ) throw new Error( "Unbalanced brackets in descriptor" );
+  args.push( text.slice( start ) );
+  return args;
+}
+
+function describeContext(ctx: Context): string {
+  return ctx === "top" ? "at the top level" : `inside ${ ctx === "tap" ? "tr" : ctx }()`;
+}
+
+function collectKeys(expr: ScriptExpr | TapTree): KeyExpr[] {
+  if ( Array.isArray( expr ) ) return [ ...collectKeys( expr[0] ), ...collectKeys( expr[1] ) ];
+  switch ( expr.fn ) {
+    case "sh":
+    case "wsh":
+      return collectKeys( expr.inner );
+    case "tr":
+      return [ expr.key, ...(expr.tree ? collectKeys( expr.tree ) : []) ];
+    case "multi":
+    case "sortedmulti":
+    case "multi_a":
+    case "sortedmulti_a":
+      return expr.keys;
+    case "addr":
+    case "raw":
+      return [];
+    default:
+      return [ expr.key ];
+  }
+}
+
+function keyAt(key: KeyExpr, index: number, branch: number): Buffer | undefined {
+  if ( key.pubkey ) return key.pubkey;
+  if ( !key.derived.has( branch ) ) {
+    let node: ExtendedPublicKey | undefined = key.xpub as ExtendedPublicKey;
+    for ( const step of key.steps ) {
+      if ( step === "*" || !node ) break;
+      node = deriveChild( node, Array.isArray( step ) ? step[branch] : step );
+    }
+    key.derived.set( branch, node );
+  }
+  let node = key.derived.get( branch );
+  if ( node && key.steps[key.steps.length - 1] === "*" ) node = deriveChild( node, index );
+  if ( !node ) return undefined;
+  return key.xOnly ? node.publicKey.subarray( 1 ) : node.publicKey;
+}
+
+function buildScript(expr: ScriptExpr, index: number, branch: number): Buffer | undefined {
+  switch ( expr.fn ) {
+    case "pk": {
+      const key = keyAt( expr.key, index, branch );
+      return key && Buffer.concat( [ push( key ), Buffer.from( [ OP.CHECKSIG ] ) ] );
+    }
+    case "pkh": {
+      const key = keyAt( expr.key, index, branch );
+      return key && p2pkh( hash160( key ) );
+    }
+    case "wpkh": {
+      const key = keyAt( expr.key, index, branch );
+      return key && Buffer.concat( [ Buffer.from( [ OP.OP_0 ] ), push( hash160( key ) ) ] );
+    }
+    case "multi":
+    case "sortedmulti": {
+      const keys = keysAt( expr.keys, index, branch, expr.fn === "sortedmulti" );
+      return keys && Buffer.concat( [
+        pushNumber( expr.threshold ),
+        ...keys.map( push ),
+        pushNumber( keys.length ),
+        Buffer.from( [ OP.CHECKMULTISIG ] ),
+      ] );
+    }
+    case "multi_a":
+    case "sortedmulti_a": {
+      // <k1> CHECKSIG <k2> CHECKSIGADD ... <kn> CHECKSIGADD <threshold> NUMEQUAL
+      const keys = keysAt( expr.keys, index, branch, expr.fn === "sortedmulti_a" );
+      return keys && Buffer.concat( [
+        ...keys.flatMap( (k, i) => [
+          push( k ),
+          Buffer.from( [ i === 0 ? OP.CHECKSIG : OP.CHECKSIGADD ] ),
+        ] ),
+        pushNumber( expr.threshold ),
+        Buffer.from( [ OP.NUMEQUAL ] ),
+      ] );
+    }
+    case "sh": {
+      const inner = buildScript( expr.inner, index, branch );
+      return inner && Buffer.concat( [
+        Buffer.from( [ OP.HASH160 ] ),
+        push( hash160( inner ) ),
+        Buffer.from( [ OP.EQUAL ] ),
+      ] );
+    }
+    case "wsh": {
+      const inner = buildScript( expr.inner, index, branch );
+      const hash = inner && createHash( "sha256" ).update( inner ).digest();
+      return hash && Buffer.concat( [ Buffer.from( [ OP.OP_0 ] ), push( hash ) ] );
+    }
+    case "tr": {
+      const key = keyAt( expr.key, index, branch );
+      const root = expr.tree ? treeHash( expr.tree, index, branch ) : undefined;
+      if ( !key || (expr.tree && !root) ) return undefined;
+      return Buffer.concat( [ Buffer.from( [ OP.OP_1 ] ), push( taprootOutputKey( key, root ) ) ] );
+    }
+    case "rawtr": {
+      const key = keyAt( expr.key, index, branch );
+      return key && Buffer.concat( [ Buffer.from( [ OP.OP_1 ] ), push( key ) ] );
+    }
+    case "addr":
+    case "raw":
+      return expr.script;
+  }
+}
+
+function keysAt(
+  keys: KeyExpr[],
+  index: number,
+  branch: number,
+  sorted: boolean
+): Buffer[] | undefined {
+  const out: Buffer[] = [];
+  for ( const k of keys ) {
+    const key = keyAt( k, index, branch );
+    if ( !key ) return undefined;
+    out.push( key );
+  }
+  return sorted ? out.sort( Buffer.compare ) : out;
+}
+
+/** BIP341 merkle root of a script tree: TapLeaf hashes combined pairwise in sorted order */
+function treeHash(tree: TapTree, index: number, branch: number): Buffer | undefined {
+  if ( Array.isArray( tree ) ) {
+    const a = treeHash( tree[0], index, branch );
+    const b = treeHash( tree[1], index, branch );
+    if ( !a || !b ) return undefined;
+    const pair = Buffer.compare( a, b ) <= 0 ? [ a, b ] : [ b, a ];
+    return taggedHash( "TapBranch", Buffer.concat( pair ) );
+  }
+  const script = buildScript( tree, index, branch );
+  if ( !script ) return undefined;
+  const leaf = Buffer.concat( [
+    Buffer.from( [ TAPROOT.LEAF_VERSION_TAPSCRIPT ] ),
+    compactSize( script.length ),
+    script,
+  ] );
+  return taggedHash( "TapLeaf", leaf );
+}
+
+function p2pkh(keyHash: Buffer): Buffer {
+  return Buffer.concat( [
+    Buffer.from( [ OP.DUP, OP.HASH160 ] ),
+    push( keyHash ),
+    Buffer.from( [ OP.EQUALVERIFY, OP.CHECKSIG ] ),
+  ] );
+}
+
+// Keys, hashes and witness programs are at most 65 bytes: always a direct push
+function push(data: Buffer): Buffer {
+  return Buffer.concat( [ Buffer.from( [ data.length ] ), data ] );
+}
+
+/** Minimal push of a small non-negative number (OP_1..OP_16, else a little-endian script number) */
+function pushNumber(n: number): Buffer {
+  if ( n >= 1 && n <= 16 ) return Buffer.from( [ OP.OP_1 + n - 1 ] );
+  const bytes: number[] = [];
+  for ( let v = n; v > 0; v >>= 8 ) bytes.push( v & 0xff );
+  if ( bytes[bytes.length - 1] & 0x80 ) bytes.push( 0 );
+  return push( Buffer.from( bytes ) );
+}
+
+function compactSize(n: number): Buffer {
+  if ( n < 0xfd ) return Buffer.from( [ n ] );
+  const out = Buffer.alloc( 3 );
+  out[0] = 0xfd;
+  out.writeUInt16LE( n, 1 );
+  return out;
+}
@@ -0,0 +1,181 @@
+import { createHash, createHmac } from "crypto";
+
+import { EXTENDED_KEY, SECP256K1, SEGWIT } from "../constants";
+import {
+  base58checkDecodeBytes,
+  base58checkEncode,
+  encodeWitnessAddress,
+  getAddressVersionsForNetwork,
+  hash160,
+  type Network
+} from "../raw/Address";
+import {
+  addPoints,
+  bigIntToBytes,
+  bytesToBigInt,
+  compressPoint,
+  decompressPoint,
+  liftX,
+  multiplyG
+} from "./Secp256k1";
+
+export type ExtendedKeyPrefix = keyof typeof EXTENDED_KEY.VERSIONS;
+
+/**
+ * Address type derived from a key, named after the BIP defining its wallet layout:
+ * P2PKH (44), P2SH-P2WPKH (49), P2WPKH (84) and key-path-only P2TR (86).
+ */
+export type HdScriptType = "bip44" | "bip49" | "bip84" | "bip86";
+
+export type ExtendedPublicKey = {
+  prefix: ExtendedKeyPrefix;
+  depth: number;
+  parentFingerprint: number;
+  /** Index this key was derived at; >= 2^31 for hardened derivation */
+  childNumber: number;
+  chainCode: Buffer;
+  /** SEC1 compressed public key */
+  publicKey: Buffer;
+};
+
+const MAINNET_PREFIXES: ReadonlySet<ExtendedKeyPrefix> = new Set( [ "xpub", "ypub", "zpub" ] );
+
+// SLIP-132: the prefix tells which address type the wallet uses; BIP86 has none of its own
+const PREFIX_SCRIPT_TYPES: Record<ExtendedKeyPrefix, HdScriptType> = {
+  xpub: "bip44",
+  tpub: "bip44",
+  ypub: "bip49",
+  upub: "bip49",
+  zpub: "bip84",
+  vpub: "bip84",
+};
+
+/** Purpose level (first path element) of each address type's BIP layout */
+export const HD_PURPOSES: Record<HdScriptType, number> = {
+  bip44: 44,
+  bip49: 49,
+  bip84: 84,
+  bip86: 86,
+};
+
+/**
+ * Decode an xpub/ypub/zpub (mainnet) or tpub/upub/vpub (test networks). Throws on private keys,
+ * bad checksums, unknown versions, a network mismatch or a public key that is not on the curve.
+ */
+export function parseExtendedPublicKey(encoded: string, network?: Network): ExtendedPublicKey {
+  const data = base58checkDecodeBytes( encoded.trim() );
+  if ( !data ) throw new Error( "Invalid extended key encoding or checksum" );
+  if ( data.length !== EXTENDED_KEY.LENGTH ) throw new Error( "Invalid extended key length" );
+  const version = data.readUInt32BE( 0 );
+  const prefix = (Object.keys( EXTENDED_KEY.VERSIONS ) as ExtendedKeyPrefix[])
+    .find( (p) => EXTENDED_KEY.VERSIONS[p] === version );
+  if ( !prefix ) {
+    // Private keys (xprv...) start their key data with 0x00; never accept them for watching
+    if ( data[45] === 0x00 ) throw new Error( "Extended private keys are not accepted" );
+    throw new Error( "Unknown extended public key version" );
+  }
+  if ( network && MAINNET_PREFIXES.has( prefix ) !== (network === "mainnet") ) {
+    throw new Error( `Extended key ${ prefix } does not match network ${ network }` );
+  }
+  const depth = data[4];
+  const parentFingerprint = data.readUInt32BE( 5 );
+  const childNumber = data.readUInt32BE( 9 );
+  if ( depth === 0 && (parentFingerprint !== 0 || childNumber !== 0) ) {
+    throw new Error( "Invalid extended key: master key with a parent" );
+  }
+  const publicKey = Buffer.from( data.subarray( 45, 78 ) );
+  if ( !decompressPoint( publicKey ) ) throw new Error( "Invalid extended key: bad public key" );
+  return {
+    prefix,
+    depth,
+    parentFingerprint,
+    childNumber,
+    chainCode: Buffer.from( data.subarray( 13, 45 ) ),
+    publicKey,
+  };
+}
+
+/**
+ * BIP32 CKDpub: the non-hardened child at `index`. Undefined for the (astronomically rare)
+ * invalid indexes, which wallets skip.
+ */
+export function deriveChild(
+  parent: ExtendedPublicKey,
+  index: number
+): ExtendedPublicKey | undefined {
+  if ( !Number.isInteger( index ) || index < 0 || index >= EXTENDED_KEY.HARDENED_OFFSET ) {
+    throw new Error( `Cannot derive hardened or invalid index ${ index } from a public key` );
+  }
+  const data = Buffer.alloc( 37 );
+  parent.publicKey.copy( data, 0 );
+  data.writeUInt32BE( index, 33 );
+  const I = createHmac( "sha512", parent.chainCode ).update( data ).digest();
+  const il = bytesToBigInt( I.subarray( 0, 32 ) );
+  if ( il >= SECP256K1.N ) return undefined;
+  const tweak = multiplyG( il );
+  const point = decompressPoint( parent.publicKey );
+  if ( !tweak || !point ) return undefined;
+  const child = addPoints( tweak, point );
+  if ( !child ) return undefined;
+  return {
+    prefix: parent.prefix,
+    depth: parent.depth + 1,
+    parentFingerprint: fingerprint( parent.publicKey ),
+    childNumber: index,
+    chainCode: Buffer.from( I.subarray( 32 ) ),
+    publicKey: compressPoint( child ),
+  };
+}
+
+/** First 4 bytes of hash160(publicKey), as used in BIP32 parent fingerprints */
+export function fingerprint(publicKey: Buffer): number {
+  return hash160( publicKey ).readUInt32BE( 0 );
+}
+
+export function defaultScriptType(prefix: ExtendedKeyPrefix): HdScriptType {
+  return PREFIX_SCRIPT_TYPES[prefix];
+}
+
+/** Address paying a derived public key with the given address type */
+export function hdAddress(publicKey: Buffer, type: HdScriptType, network: Network): string {
+  const versions = getAddressVersionsForNetwork( network );
+  const keyHash = hash160( publicKey );
+  switch ( type ) {
+    case "bip44":
+      return base58checkEncode( versions.p2pkh, keyHash );
+    case "bip49": {
+      // P2SH wrapping the P2WPKH program 0 <keyHash>
+      const redeem = Buffer.concat( [ Buffer.from( [ 0x00, 0x14 ] ), keyHash ] );
+      return base58checkEncode( versions.p2sh, hash160( redeem ) );
+    }
+    case "bip84":
+      return encodeWitnessAddress( versions.hrp, SEGWIT.V0, keyHash );
+    case "bip86":
+      return encodeWitnessAddress( versions.hrp, SEGWIT.V1, taprootOutputKey( publicKey ) );
+  }
+}
+
+/**
+ * BIP341 output key: x(P + H_TapTweak(x(P) || merkleRoot)·G), where P is the internal key
+ * (33-byte compressed or 32-byte x-only) with even y. Without a script tree (BIP86) the tweak
+ * commits to x(P) only.
+ */
+export function taprootOutputKey(publicKey: Buffer, merkleRoot?: Buffer): Buffer {
+  const x = publicKey.length === 33 ? publicKey.subarray( 1 ) : publicKey;
+  const internal = liftX( bytesToBigInt( x ), false );
+  if ( !internal ) throw new Error( "Invalid taproot internal key" );
+  const xOnly = bigIntToBytes( internal.x );
+  const msg = merkleRoot ? Buffer.concat( [ xOnly, merkleRoot ] ) : xOnly;
+  const t = bytesToBigInt( taggedHash( "TapTweak", msg ) );
+  if ( t >= SECP256K1.N ) throw new Error( "Invalid taproot tweak" );
+  const tweak = multiplyG( t );
+  const output = tweak ? addPoints( internal, tweak ) : internal;
+  if ( !output ) throw new Error( "Invalid taproot output key" );
+  return bigIntToBytes( output.x );
+}
+
+/** BIP340 tagged hash: sha256(sha256(tag) || sha256(tag) || msg) */
+export function taggedHash(tag: string, msg: Buffer): Buffer {
+  const tagHash = createHash( "sha256" ).update( tag ).digest();
+  return createHash( "sha256" ).update( tagHash ).update( tagHash ).update( msg ).digest();
+}
@@ -0,0 +1,140 @@
+import { SECP256K1 } from "../constants";
+
+const { P, N, GX, GY, B } = SECP256K1;
+
+/** Affine curve point; the point at infinity is represented by undefined */
+export type Point = { x: bigint; y: bigint };
+
+type Jacobian = { x: bigint; y: bigint; z: bigint };
+
+const G: Point = { x: GX, y: GY };
+const INFINITY: Jacobian = { x: 0n, y: 1n, z: 0n };
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function modPow(base: bigint, exp: bigint, m: bigint = P): bigint {
+  let result = 1n;
+  let b = mod( base, m );
+  let e = exp;
+  while ( e > 0n ) {
+    if ( e & 1n ) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+// P is prime, so a^(P-2) is the inverse (Fermat)
+function invert(a: bigint): bigint {
+  return modPow( a, P - 2n );
+}
+
+function double(p: Jacobian): Jacobian {
+  if ( p.z === 0n || p.y === 0n ) return INFINITY;
+  const ysq = (p.y * p.y) % P;
+  const s = (4n * p.x * ysq) % P;
+  const m = (3n * p.x * p.x) % P;
+  const x = mod( m * m - 2n * s );
+  const y = mod( m * (s - x) - 8n * ysq * ysq );
+  const z = (2n * p.y * p.z) % P;
+  return { x, y, z };
+}
+
+function add(p: Jacobian, q: Jacobian): Jacobian {
+  if ( p.z === 0n ) return q;
+  if ( q.z === 0n ) return p;
+  const pz2 = (p.z * p.z) % P;
+  const qz2 = (q.z * q.z) % P;
+  const u1 = (p.x * qz2) % P;
+  const u2 = (q.x * pz2) % P;
+  const s1 = (p.y * qz2 * q.z) % P;
+  const s2 = (q.y * pz2 * p.z) % P;
+  if ( u1 === u2 ) return s1 === s2 ? double( p ) : INFINITY;
+  const h = mod( u2 - u1 );
+  const r = mod( s2 - s1 );
+  const h2 = (h * h) % P;
+  const h3 = (h2 * h) % P;
+  const u1h2 = (u1 * h2) % P;
+  const x = mod( r * r - h3 - 2n * u1h2 );
+  const y = mod( r * (u1h2 - x) - s1 * h3 );
+  const z = (h * p.z * q.z) % P;
+  return { x, y, z };
+}
+
+function toJacobian(p: Point): Jacobian {
+  return { x: p.x, y: p.y, z: 1n };
+}
+
+function toAffine(p: Jacobian): Point | undefined {
+  if ( p.z === 0n ) return undefined;
+  const zi = invert( p.z );
+  const zi2 = (zi * zi) % P;
+  return { x: (p.x * zi2) % P, y: (((p.y * zi2) % P) * zi) % P };
+}
+
+// G * 2^i for every bit of a scalar, built on first use so k*G needs additions only
+let gPowers: Jacobian[] | undefined;
+
+function generatorPowers(): Jacobian[] {
+  if ( gPowers ) return gPowers;
+  const table: Jacobian[] = [];
+  let cur = toJacobian( G );
+  for ( let i = 0; i < 256; i++ ) {
+    table.push( cur );
+    cur = double( cur );
+  }
+  gPowers = table;
+  return table;
+}
+
+/** k*G; undefined when k is 0 mod N */
+export function multiplyG(k: bigint): Point | undefined {
+  const table = generatorPowers();
+  let e = mod( k, N );
+  let acc = INFINITY;
+  for ( let i = 0; e > 0n; i++, e >>= 1n ) {
+    if ( e & 1n ) acc = add( acc, table[i] );
+  }
+  return toAffine( acc );
+}
+
+/** p + q; undefined for the point at infinity */
+export function addPoints(p: Point, q: Point): Point | undefined {
+  return toAffine( add( toJacobian( p ), toJacobian( q ) ) );
+}
+
+/** Point with the given x and y parity, or undefined when x is not on the curve */
+export function liftX(x: bigint, odd: boolean): Point | undefined {
+  if ( x >= P ) return undefined;
+  const ysq = mod( x * x * x + B );
+  // P = 3 mod 4, so a square root is ysq^((P+1)/4)
+  let y = modPow( ysq, (P + 1n) / 4n );
+  if ( (y * y) % P !== ysq ) return undefined;
+  if ( ((y & 1n) === 1n) !== odd ) y = P - y;
+  return { x, y };
+}
+
+/** Parse a 33-byte SEC1 compressed public key */
+export function decompressPoint(key: Buffer): Point | undefined {
+  if ( key.length !== 33 || (key[0] !== 0x02 && key[0] !== 0x03) ) return undefined;
+  return liftX( bytesToBigInt( key.subarray( 1 ) ), key[0] === 0x03 );
+}
+
+export function compressPoint(p: Point): Buffer {
+  const out = Buffer.alloc( 33 );
+  out[0] = (p.y & 1n) === 1n ? 0x03 : 0x02;
+  bigIntToBytes( p.x ).copy( out, 1 );
+  return out;
+}
+
+export function bytesToBigInt(bytes: Buffer): bigint {
+  return bytes.length === 0 ? 0n : BigInt( `0x${ bytes.toString( "hex" ) }` );
+}
+
+/** 32-byte big-endian encoding */
+export function bigIntToBytes(n: bigint): Buffer {
+  return Buffer.from( n.toString( 16 ).padStart( 64, "0" ), "hex" );
+}
@@ -0,0 +1,30 @@
+export {
+  descriptorAddress,
+  descriptorChecksum,
+  descriptorKeyPath,
+  descriptorOutput,
+  descriptorScriptPubKey,
+  parseDescriptor,
+  type Descriptor
+} from "./Descriptor";
+export {
+  defaultScriptType,
+  deriveChild,
+  fingerprint,
+  HD_PURPOSES,
+  hdAddress,
+  parseExtendedPublicKey,
+  taggedHash,
+  taprootOutputKey,
+  type ExtendedKeyPrefix,
+  type ExtendedPublicKey,
+  type HdScriptType
+} from "./ExtendedKey";
+export {
+  addPoints,
+  compressPoint,
+  decompressPoint,
+  liftX,
+  multiplyG,
+  type Point
+} from "./Secp256k1";
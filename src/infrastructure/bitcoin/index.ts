@@ -1,5 +1,21 @@
 export { BitcoinRpcClient } from "./BitcoinRpcClient";
 export type { BitcoinRpcClientOptions } from "./BitcoinRpcClient";
+export { BitcoinRpcPool } from "./BitcoinRpcPool";
+export type {
+  BitcoinRpcPoolOptions,
+  RpcEndpointOptions,
+  RpcEndpointStatus
+} from "./BitcoinRpcPool";
+export { EsploraClient } from "./EsploraClient";
+export type {
+  EsploraBlock,
+  EsploraClientOptions,
+  EsploraTx,
+  EsploraTxOut
+} from "./EsploraClient";
+export * as Hd from "./hd/index.js";
 export * as Raw from "./raw/index.js";
+export { ZmqSubscriber } from "./zmq";
+export type { ZmqMessage, ZmqSubscriberOptions } from "./zmq";
 
 
@@ -1,6 +1,14 @@
 import { createHash } from "crypto";
 
-import { BASE58_ALPHABET, BECH32, NETWORKS, type Network as NetFromConsts } from "../constants";
+import {
+  BASE58_ALPHABET,
+  BECH32,
+  NETWORKS,
+  OP,
+  PUSH,
+  SEGWIT,
+  type Network as NetFromConsts
+} from "../constants";
 
 export type Network = NetFromConsts;
 
@@ -38,6 +46,12 @@ export function sha256d(buf: Buffer): Buffer {
   return createHash( "sha256" ).update( h1 ).digest();
 }
 
+/** RIPEMD160(SHA256(buf)), the hash behind P2PKH, P2SH and P2WPKH addresses */
+export function hash160(buf: Buffer): Buffer {
+  const h1 = createHash( "sha256" ).update( buf ).digest();
+  return createHash( "ripemd160" ).update( h1 ).digest();
+}
+
 // bech32/bech32m encoding (BIP-0173/0350) minimal implementation
 
 function bech32Polymod(values: number[]): number {
@@ -235,7 +249,39 @@ export function validateAndNormalizeAddress(address: string, network?: Network):
   return { normalized, decoded };
 }
 
+/**
+ * scriptPubKey an address pays to: P2PKH, P2SH or a witness program. The inverse of
+ * decodeScriptPubKey for every type with an address. Throws on an invalid address, or one for
+ * another network when `network` is given.
+ */
+export function addressToScriptPubKey(address: string, network?: Network): Buffer {
+  const { decoded } = validateAndNormalizeAddress( address, network );
+  if ( decoded.kind === "segwit" ) {
+    const version = decoded.version === SEGWIT.V0 ? OP.OP_0 : OP.OP_1 + decoded.version - 1;
+    return Buffer.concat( [ Buffer.from( [ version, decoded.program.length ] ), decoded.program ] );
+  }
+  if ( decoded.kind === "p2sh" ) {
+    return Buffer.concat( [
+      Buffer.from( [ OP.HASH160, PUSH.BYTES_20 ] ),
+      decoded.hash160,
+      Buffer.from( [ OP.EQUAL ] ),
+    ] );
+  }
+  return Buffer.concat( [
+    Buffer.from( [ OP.DUP, OP.HASH160, PUSH.BYTES_20 ] ),
+    decoded.hash160,
+    Buffer.from( [ OP.EQUALVERIFY, OP.CHECKSIG ] ),
+  ] );
+}
+
 function base58checkDecode(s: string): { version: number; payload: Buffer } | undefined {
+  const buf = base58checkDecodeBytes( s );
+  if ( !buf || buf.length < 1 ) return undefined;
+  return { version: buf[0], payload: buf.subarray( 1 ) };
+}
+
+/** Base58Check data without the checksum (version bytes included); undefined when invalid */
+export function base58checkDecodeBytes(s: string): Buffer | undefined {
   // Decode Base58
   let x = 0n;
   const base = 58n;
@@ -255,12 +301,9 @@ function base58checkDecode(s: string): { version: number; payload: Buffer } | un
   for ( let i = 0; i < s.length && s[i] === '1'; i++ ) tmp.unshift( 0 );
   const buf = Buffer.from( tmp );
   if ( buf.length < 5 ) return undefined;
-  const version = buf[0];
-  const payload = buf.subarray( 1, buf.length - 4 );
+  const data = buf.subarray( 0, buf.length - 4 );
   const checksum = buf.subarray( buf.length - 4 );
-  const sum = sha256d( buf.subarray( 0, buf.length - 4 ) ).subarray( 0, 4 );
+  const sum = sha256d( data ).subarray( 0, 4 );
   if ( !checksum.equals( sum ) ) return undefined;
-  return { version, payload };
+  return data;
 }
-
-
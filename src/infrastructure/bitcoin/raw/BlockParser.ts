@@ -1,6 +1,12 @@
 import type { Network } from "./Address";
 import { ByteReader, sha256d, toHexLE } from "./ByteReader";
-import { ParsedTx, parseTransaction } from "./TxParser";
+import { RawParseError, type RawParseWarning } from "./RawParseError";
+import {
+  ParsedTx,
+  parseTransaction,
+  skipTransaction,
+  type ParseTxOptions
+} from "./TxParser";
 
 export type ParsedRawBlock = {
   hash: string;
@@ -12,13 +18,102 @@ export type ParsedRawBlock = {
   nonce: number;
   height?: number;
   transactions: ParsedTx[];
+  /** Tolerant mode only: transactions left out of `transactions`, in block order */
+  warnings?: RawParseWarning[];
 };
 
-export function parseRawBlock(hex: string, network: Network): ParsedRawBlock {
-  const buffer = Buffer.from( hex, "hex" );
+export type ParseBlockOptions = ParseTxOptions & {
+  /** Leave out transactions that fail to parse, reporting them in warnings, instead of throwing */
+  tolerant?: boolean;
+};
+
+/** Header fields of a block and the byte offsets of its transactions. */
+export type RawBlockLayout = {
+  header: Omit<ParsedRawBlock, "transactions" | "warnings">;
+  buffer: Buffer;
+  /** Start of every transaction, followed by the end of the last one */
+  txOffsets: number[];
+};
+
+/**
+ * Parse a serialized block, as hex (getblock <hash> 0) or as bytes (REST, ZMQ rawblock).
+ * Throws RawParseError only; in tolerant mode only for the header and transaction count.
+ */
+export function parseRawBlock(
+  raw: string | Buffer,
+  network: Network,
+  opts?: ParseBlockOptions
+): ParsedRawBlock {
+  const buffer = typeof raw === "string" ? Buffer.from( raw, "hex" ) : raw;
+  const reader = new ByteReader( buffer );
+  const header = readHeader( reader, buffer );
+
+  reader.field = "tx.count";
+  const txCount = reader.readVarInt();
+  const { transactions, warnings } = parseTransactions( reader, txCount, 0, network, opts );
+
+  if ( warnings.length > 0 ) return { ...header, transactions, warnings };
+  return { ...header, transactions };
+}
+
+/**
+ * Parse `count` consecutive transactions, the first being number `firstIndex` in its block. In
+ * tolerant mode a transaction that fails is skipped when its end can still be found; otherwise
+ * the rest are dropped. Either case is reported in warnings.
+ */
+export function parseTransactions(
+  reader: ByteReader,
+  count: number,
+  firstIndex: number,
+  network: Network,
+  opts?: ParseBlockOptions
+): { transactions: ParsedTx[]; warnings: RawParseWarning[] } {
+  const transactions: ParsedTx[] = [];
+  const warnings: RawParseWarning[] = [];
+  for ( let i = 0; i < count; i++ ) {
+    const start = reader.position;
+    reader.txIndex = firstIndex + i;
+    try {
+      transactions.push( parseTransaction( reader, network, opts ) );
+    } catch ( err ) {
+      if ( !opts?.tolerant || !(err instanceof RawParseError) ) throw err;
+      reader.rewind( reader.position - start );
+      let skippedTransactions = 1;
+      try {
+        skipTransaction( reader );
+      } catch {
+        skippedTransactions = count - i;
+      }
+      warnings.push( { ...err.toDetail(), skippedTransactions } );
+      if ( skippedTransactions > 1 ) break;
+    }
+  }
+  reader.txIndex = undefined;
+  return { transactions, warnings };
+}
+
+/**
+ * Header and transaction boundaries of a serialized block, found without decoding scripts or
+ * computing txids (see RawParserPool).
+ */
+export function scanRawBlock(raw: string | Buffer): RawBlockLayout {
+  const buffer = typeof raw === "string" ? Buffer.from( raw, "hex" ) : raw;
   const reader = new ByteReader( buffer );
+  const header = readHeader( reader, buffer );
+  reader.field = "tx.count";
+  const txCount = reader.readVarInt();
+  const txOffsets: number[] = [ reader.position ];
+  for ( let i = 0; i < txCount; i++ ) {
+    reader.txIndex = i;
+    skipTransaction( reader );
+    txOffsets.push( reader.position );
+  }
+  return { header, buffer, txOffsets };
+}
 
+function readHeader(reader: ByteReader, buffer: Buffer): RawBlockLayout["header"] {
   const headerStart = reader.position;
+  reader.field = "header";
   const version = reader.readUInt32LE();
   const prev = reader.readSlice( 32 );
   const merkle = reader.readSlice( 32 );
@@ -28,13 +123,6 @@ export function parseRawBlock(hex: string, network: Network): ParsedRawBlock {
   const headerEnd = reader.position;
   const header = buffer.subarray( headerStart, headerEnd );
   const hash = toHexLE( sha256d( header ) );
-
-  const txCount = reader.readVarInt();
-  const txs: ParsedTx[] = [];
-  for ( let i = 0; i < txCount; i++ ) {
-    txs.push( parseTransaction( reader, network ) );
-  }
-
   return {
     hash,
     version,
@@ -43,8 +131,5 @@ export function parseRawBlock(hex: string, network: Network): ParsedRawBlock {
     time,
     bits,
     nonce,
-    transactions: txs,
   };
 }
-
-
@@ -0,0 +1,96 @@
+import { POW_LIMIT } from "../constants";
+import type { Network } from "./Address";
+import type { ParsedRawBlock } from "./BlockParser";
+import { sha256dMany, toHexLE } from "./ByteReader";
+
+export type BlockCheck = "hash" | "merkle_root" | "proof_of_work" | "prev_block";
+
+/**
+ * A fetched block that is not internally consistent (hash, merkle root, proof of work) or does
+ * not extend the block already known at the previous height. Counts against the endpoint that
+ * served it, so a pool retries the fetch on another one.
+ */
+export class BlockVerificationError extends Error {
+  readonly check: BlockCheck;
+  readonly blockHash: string;
+
+  constructor(check: BlockCheck, blockHash: string, detail: string) {
+    super( `Block ${ blockHash } failed ${ check } check: ${ detail }` );
+    this.name = "BlockVerificationError";
+    this.check = check;
+    this.blockHash = blockHash;
+  }
+}
+
+export type VerifyBlockOptions = {
+  /** Hash the block was requested by */
+  expectedHash?: string;
+  /** Hash already known at the previous height; linkage is not checked without it */
+  expectedPrevHash?: string;
+};
+
+/**
+ * Merkle root (display order) over txids (display order), duplicating the last hash of odd
+ * levels. mutated reports equal sibling hashes (CVE-2012-2459): a different transaction list
+ * with the same root.
+ */
+export function computeMerkleRoot(txids: string[]): { root: string; mutated: boolean } {
+  let level: Buffer[] = txids.map( (id) => Buffer.from( id, "hex" ).reverse() );
+  let mutated = false;
+  if ( level.length === 0 ) return { root: "0".repeat( 64 ), mutated };
+  while ( level.length > 1 ) {
+    const next: Buffer[] = [];
+    for ( let i = 0; i < level.length; i += 2 ) {
+      const right = level[i + 1] ?? level[i];
+      if ( i + 1 < level.length && level[i].equals( right ) ) mutated = true;
+      next.push( sha256dMany( [ level[i], right ] ) );
+    }
+    level = next;
+  }
+  return { root: toHexLE( level[0] ), mutated };
+}
+
+/** Target encoded by compact nBits, or undefined when negative, zero or overflowing 256 bits. */
+export function bitsToTarget(bits: number): bigint | undefined {
+  const exponent = bits >>> 24;
+  const mantissa = bits & 0x007fffff;
+  if ( mantissa === 0 || (bits & 0x00800000) !== 0 ) return undefined;
+  const target = exponent <= 3
+    ? BigInt( mantissa >>> (8 * (3 - exponent)) )
+    : BigInt( mantissa ) << BigInt( 8 * (exponent - 3) );
+  if ( target === 0n || target >> 256n !== 0n ) return undefined;
+  return target;
+}
+
+/**
+ * Check that a parsed block is what its header claims: the requested hash, a merkle root that
+ * matches its transactions, a hash meeting the target of its bits (within the network limit) and,
+ * when the parent is known, a prevBlock pointing at it. Throws BlockVerificationError.
+ */
+export function verifyRawBlock(
+  block: ParsedRawBlock,
+  network: Network,
+  opts?: VerifyBlockOptions
+): void {
+  if ( opts?.expectedHash && block.hash !== opts.expectedHash ) {
+    const detail = `header hashes to ${ block.hash }`;
+    throw new BlockVerificationError( "hash", opts.expectedHash, detail );
+  }
+  const { root, mutated } = computeMerkleRoot( block.transactions.map( (t) => t.txid ) );
+  if ( root !== block.merkleRoot || mutated ) {
+    const detail = mutated ? "duplicate transactions" : `transactions hash to ${ root }`;
+    throw new BlockVerificationError( "merkle_root", block.hash, detail );
+  }
+  const target = bitsToTarget( block.bits );
+  if ( target === undefined || target > POW_LIMIT[network] ) {
+    const bits = block.bits.toString( 16 ).padStart( 8, "0" );
+    throw new BlockVerificationError( "proof_of_work", block.hash, `invalid bits ${ bits }` );
+  }
+  if ( BigInt( `0x${ block.hash }` ) > target ) {
+    throw new BlockVerificationError( "proof_of_work", block.hash, "hash above target" );
+  }
+  if ( opts?.expectedPrevHash && block.prevBlock !== opts.expectedPrevHash ) {
+    const detail = `prevBlock ${ block.prevBlock }, expected ${ opts.expectedPrevHash }`;
+    throw new BlockVerificationError( "prev_block", block.hash, detail );
+  }
+}
@@ -7,26 +7,47 @@ import {
   TWO_POW_32,
   VARINT_MARKER
 } from "../constants";
+import { RawParseError } from "./RawParseError";
 
 const HEX_CHARS = "0123456789abcdef";
 
 export class ByteReader {
+  /** Field being read, reported by RawParseError; set by the parsers */
+  field = "";
+  /** Transaction being read, reported by RawParseError; set by the block parser */
+  txIndex?: number;
   private readonly buffer: Buffer;
+  private readonly base: number;
   private offset: number;
 
-  constructor(buffer: Buffer) {
+  /** base: offset of buffer[0] within the block, so errors report block offsets */
+  constructor(buffer: Buffer, base: number = 0) {
     this.buffer = buffer;
+    this.base = base;
     this.offset = 0;
   }
 
+  /** RawParseError at the current position, naming the field and transaction being read. */
+  error(reason: string): RawParseError {
+    const at = this.offset;
+    const excerpt = this.buffer.subarray( Math.max( 0, at - 8 ), at + 8 );
+    return new RawParseError( {
+      reason,
+      offset: this.base + at,
+      field: this.field,
+      txIndex: this.txIndex,
+      excerptHex: excerpt.toString( "hex" ),
+    } );
+  }
+
   rewind(bytes: number): void {
     const next = this.offset - bytes;
-    if ( next < 0 ) throw new Error( "rewind before start" );
+    if ( next < 0 ) throw this.error( "rewind before start" );
     this.offset = next;
   }
 
   sliceAbsolute(start: number, end: number): Buffer {
-    if ( start < 0 || end > this.buffer.length || start > end ) throw new Error( "sliceAbsolute out of range" );
+    if ( start < 0 || end > this.buffer.length || start > end ) throw this.error( "sliceAbsolute out of range" );
     return this.buffer.subarray( start, end );
   }
 
@@ -35,22 +56,22 @@ export class ByteReader {
   }
 
   readSlice(length: number): Buffer {
-    if ( length < 0 ) throw new Error( "readSlice negative length" );
-    if ( this.offset + length > this.buffer.length ) throw new Error( "readSlice out of range" );
+    if ( length < 0 ) throw this.error( "readSlice negative length" );
+    if ( this.offset + length > this.buffer.length ) throw this.error( "readSlice out of range" );
     const slice = this.buffer.subarray( this.offset, this.offset + length );
     this.offset += length;
     return slice;
   }
 
   readUInt8(): number {
-    if ( this.offset + 1 > this.buffer.length ) throw new Error( "readUInt8 out of range" );
+    if ( this.offset + 1 > this.buffer.length ) throw this.error( "readUInt8 out of range" );
     const v = this.buffer.readUInt8( this.offset );
     this.offset += 1;
     return v;
   }
 
   readUInt32LE(): number {
-    if ( this.offset + 4 > this.buffer.length ) throw new Error( "readUInt32LE out of range" );
+    if ( this.offset + 4 > this.buffer.length ) throw this.error( "readUInt32LE out of range" );
     const v = this.buffer.readUInt32LE( this.offset );
     this.offset += 4;
     return v;
@@ -58,7 +79,7 @@ export class ByteReader {
 
   readUInt64LE(): bigint {
     // Use BigInt to avoid precision loss; caller can convert if needed
-    if ( this.offset + 8 > this.buffer.length ) throw new Error( "readUInt64LE out of range" );
+    if ( this.offset + 8 > this.buffer.length ) throw this.error( "readUInt64LE out of range" );
     const lo = BigInt( this.buffer.readUInt32LE( this.offset ) );
     const hi = BigInt( this.buffer.readUInt32LE( this.offset + 4 ) );
     this.offset += 8;
@@ -72,35 +93,41 @@ export class ByteReader {
   readUInt64LEAsNumber(): number {
     if (
       this.offset + 8 > this.buffer.length
-    ) throw new Error( "readUInt64LEAsNumber out of range" );
+    ) throw this.error( "readUInt64LEAsNumber out of range" );
     const lo = this.buffer.readUInt32LE( this.offset );
     const hi = this.buffer.readUInt32LE( this.offset + 4 );
-    this.offset += 8;
     // Ensure we remain within Number.MAX_SAFE_INTEGER
     // hi must be < 2^21 for the sum to be safe (since (hi << 32) < 2^53)
     if ( hi >= NUMBER_UINT64_HIGH_SAFE_LIMIT ) {
       // Fallback to a bigint path for extremely large values (not expected for BTC amounts)
       const big = (BigInt( hi ) << 32n) | BigInt( lo );
       const maxSafe = BigInt( Number.MAX_SAFE_INTEGER );
-      if ( big > maxSafe ) throw new Error( "uint64 exceeds MAX_SAFE_INTEGER" );
+      // checked before advancing so the error points at the value
+      if ( big > maxSafe ) throw this.error( "uint64 exceeds MAX_SAFE_INTEGER" );
+      this.offset += 8;
       return Number( big );
     }
+    this.offset += 8;
     return lo + hi * TWO_POW_32; // 2^32
   }
 
   readVarInt(): number {
+    const start = this.offset;
     const first = this.readUInt8();
     if ( first < VARINT_MARKER.UINT16 ) return first;
     if ( first === VARINT_MARKER.UINT16 ) return this.readUInt16LE();
     if ( first === VARINT_MARKER.UINT32 ) return this.readUInt32LE();
     const v = this.readUInt64LE();
     const maxSafe = BigInt( Number.MAX_SAFE_INTEGER );
-    if ( v > maxSafe ) throw new Error( "varint exceeds MAX_SAFE_INTEGER" );
+    if ( v > maxSafe ) {
+      this.offset = start;
+      throw this.error( "varint exceeds MAX_SAFE_INTEGER" );
+    }
     return Number( v );
   }
 
   private readUInt16LE(): number {
-    if ( this.offset + 2 > this.buffer.length ) throw new Error( "readUInt16LE out of range" );
+    if ( this.offset + 2 > this.buffer.length ) throw this.error( "readUInt16LE out of range" );
     const v = this.buffer.readUInt16LE( this.offset );
     this.offset += 2;
     return v;
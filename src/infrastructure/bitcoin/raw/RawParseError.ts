@@ -0,0 +1,46 @@
+/** Where and why parsing stopped, as plain data (crosses worker threads, ends up in events). */
+export type RawParseErrorDetail = {
+  reason: string;
+  /** Byte offset in the block (or in the transaction when parsed on its own) */
+  offset: number;
+  /** Field being read, e.g. "vin.scriptSig" or "vout.value" */
+  field: string;
+  /** Index of the transaction in the block; absent for the header and transaction count */
+  txIndex?: number;
+  /** Up to 8 bytes before the offset and 8 from it */
+  excerptHex: string;
+};
+
+/** A transaction the tolerant parser left out of a block, and why. */
+export type RawParseWarning = RawParseErrorDetail & {
+  /** 1, or every remaining transaction when the end of the bad one could not be found */
+  skippedTransactions: number;
+};
+
+/**
+ * Truncated or malformed block or transaction data. The only error parseRawBlock,
+ * parseTransaction and scanRawBlock throw.
+ */
+export class RawParseError extends Error {
+  readonly reason: string;
+  readonly offset: number;
+  readonly field: string;
+  readonly txIndex?: number;
+  readonly excerptHex: string;
+
+  constructor(detail: RawParseErrorDetail) {
+    const tx = detail.txIndex === undefined ? "" : `tx ${ detail.txIndex } `;
+    super( `Raw parse error at byte ${ detail.offset } (${ tx }${ detail.field }): ${ detail.reason }` );
+    this.name = "RawParseError";
+    this.reason = detail.reason;
+    this.offset = detail.offset;
+    this.field = detail.field;
+    this.txIndex = detail.txIndex;
+    this.excerptHex = detail.excerptHex;
+  }
+
+  toDetail(): RawParseErrorDetail {
+    const { reason, offset, field, txIndex, excerptHex } = this;
+    return { reason, offset, field, txIndex, excerptHex };
+  }
+}
@@ -0,0 +1,141 @@
+import { Worker } from "worker_threads";
+
+import { PARSE_WORKERS_MIN_TXS_DEFAULT } from "../constants";
+import type { Network } from "./Address";
+import {
+  parseRawBlock,
+  scanRawBlock,
+  type ParseBlockOptions,
+  type ParsedRawBlock,
+  type RawBlockLayout
+} from "./BlockParser";
+import type { ParseChunkRequest, ParseChunkResponse } from "./parseWorker";
+import { RawParseError, type RawParseWarning } from "./RawParseError";
+import type { ParsedTx } from "./TxParser";
+
+type ChunkResult = { txs: ParsedTx[]; warnings: RawParseWarning[] };
+
+export type RawParserPoolOptions = {
+  /** Worker threads parsing transactions */
+  size: number;
+  /** Blocks with fewer transactions are parsed on the calling thread (default: 200) */
+  minTransactions?: number;
+};
+
+type Slot = {
+  worker: Worker;
+  pending: Map<number, { resolve: (res: ChunkResult) => void; reject: (err: Error) => void }>;
+};
+
+/**
+ * Parses raw blocks on worker threads, keeping script decoding and txid hashing off the event
+ * loop. A boundary pass splits the transactions into one contiguous chunk per worker (balanced
+ * by bytes); the chunks are parsed in parallel and joined in block order, so the result is the
+ * same as parseRawBlock's. Workers are started on first use and do not keep the process alive.
+ */
+export class RawParserPool {
+  private readonly size: number;
+  private readonly minTransactions: number;
+  private readonly slots: (Slot | undefined)[];
+  private nextId = 1;
+
+  constructor(opts: RawParserPoolOptions) {
+    this.size = Math.max( 1, Math.floor( opts.size ) );
+    this.minTransactions = opts.minTransactions ?? PARSE_WORKERS_MIN_TXS_DEFAULT;
+    this.slots = new Array( this.size ).fill( undefined );
+  }
+
+  async parse(
+    raw: string | Buffer,
+    network: Network,
+    opts?: ParseBlockOptions
+  ): Promise<ParsedRawBlock> {
+    let layout: RawBlockLayout;
+    try {
+      layout = scanRawBlock( raw );
+    } catch ( err ) {
+      // Tolerant mode salvages what precedes a broken transaction on this thread
+      if ( opts?.tolerant ) return parseRawBlock( raw, network, opts );
+      throw err;
+    }
+    const txCount = layout.txOffsets.length - 1;
+    if ( txCount < this.minTransactions ) return parseRawBlock( layout.buffer, network, opts );
+    const chunks = splitByBytes( layout.txOffsets, Math.min( this.size, txCount ) );
+    const parsed = await Promise.all( chunks.map( (chunk, i) => {
+      const start = layout.txOffsets[chunk.from];
+      const end = layout.txOffsets[chunk.to];
+      // own copy of the range, transferred rather than cloned with the whole block
+      const bytes = new Uint8Array( layout.buffer.subarray( start, end ) );
+      return this.run( i, {
+        id: this.nextId++,
+        bytes,
+        offset: start,
+        firstIndex: chunk.from,
+        count: chunk.to - chunk.from,
+        network,
+        opts,
+      } );
+    } ) );
+    const transactions = parsed.flatMap( (p) => p.txs );
+    const warnings = parsed.flatMap( (p) => p.warnings );
+    if ( warnings.length > 0 ) return { ...layout.header, transactions, warnings };
+    return { ...layout.header, transactions };
+  }
+
+  /** Stop every worker; pending parses fail. */
+  async close(): Promise<void> {
+    const workers = this.slots.filter( (s): s is Slot => s !== undefined ).map( (s) => s.worker );
+    this.slots.fill( undefined );
+    await Promise.all( workers.map( (w) => w.terminate() ) );
+  }
+
+  private run(index: number, req: ParseChunkRequest): Promise<ChunkResult> {
+    const slot = this.slots[index] ?? this.spawn( index );
+    return new Promise( (resolve, reject) => {
+      slot.pending.set( req.id, { resolve, reject } );
+      slot.worker.postMessage( req, [ req.bytes.buffer as ArrayBuffer ] );
+    } );
+  }
+
+  private spawn(index: number): Slot {
+    const worker = new Worker( new URL( "./parseWorker.ts", import.meta.url ) );
+    worker.unref();
+    const slot: Slot = { worker, pending: new Map() };
+    worker.on( "message", (res: ParseChunkResponse) => {
+      const waiter = slot.pending.get( res.id );
+      if ( !waiter ) return;
+      slot.pending.delete( res.id );
+      if ( typeof res.error === "string" ) waiter.reject( new Error( res.error ) );
+      else if ( res.error ) waiter.reject( new RawParseError( res.error ) );
+      else waiter.resolve( { txs: res.txs ?? [], warnings: res.warnings ?? [] } );
+    } );
+    // A crashed worker fails its pending chunks and is replaced on next use
+    const fail = (err: Error) => {
+      if ( this.slots[index] === slot ) this.slots[index] = undefined;
+      for ( const waiter of slot.pending.values() ) waiter.reject( err );
+      slot.pending.clear();
+    };
+    worker.on( "error", fail );
+    worker.on( "exit", (code) => fail( new Error( `Parse worker exited with code ${ code }` ) ) );
+    this.slots[index] = slot;
+    return slot;
+  }
+}
+
+/** Split txOffsets (n + 1 boundaries) into `parts` contiguous [from, to) runs of similar size. */
+function splitByBytes(txOffsets: number[], parts: number): { from: number; to: number }[] {
+  const txCount = txOffsets.length - 1;
+  const first = txOffsets[0];
+  const total = txOffsets[txCount] - first;
+  const chunks: { from: number; to: number }[] = [];
+  let from = 0;
+  for ( let p = 1; p <= parts; p++ ) {
+    const target = first + (total * p) / parts;
+    // at least one transaction per chunk, and enough left for the remaining chunks
+    let to = Math.max( from + 1, p === parts ? txCount : from );
+    while ( to < txCount - (parts - p) && txOffsets[to] < target ) to++;
+    chunks.push( { from, to } );
+    from = to;
+  }
+  return chunks;
+}
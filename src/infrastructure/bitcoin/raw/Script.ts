@@ -1,52 +1,52 @@
-import { OP, PUSH, SCRIPT_LENGTHS, SEGWIT } from "../constants";
+import { OP, PUBKEY, PUSH, SCRIPT_LENGTHS, SEGWIT } from "../constants";
 import {
   base58checkEncode,
   encodeWitnessAddress,
   getAddressVersionsForNetwork,
+  hash160,
   Network
 } from "./Address";
 
+// Names follow Bitcoin Core's scriptPubKey.type so the raw and verbose paths agree
 export type ScriptType =
+  | "pubkey" // P2PK
   | "pubkeyhash" // P2PKH
   | "scripthash" // P2SH
+  | "multisig" // bare multisig
   | "witness_v0_keyhash" // P2WPKH
   | "witness_v0_scripthash" // P2WSH
   | "witness_v1_taproot" // P2TR
+  | "witness_unknown" // witness v1 (non-taproot) to v16
+  | "anchor" // P2A
   | "nulldata" // OP_RETURN
   | "nonstandard";
 
 export type DecodedScript = {
   type: ScriptType;
   address?: string;
+  /** P2PK and bare multisig: public keys (hex) in script order; these have no address */
+  pubkeys?: string[];
+  /** First non-empty data push after OP_RETURN */
   opReturnDataHex?: string;
+  /** Every push after OP_RETURN, in order (see decodeOpReturn) */
+  opReturnPushes?: string[];
 };
 
-export function decodeScriptPubKey(script: Buffer, network: Network): DecodedScript {
+/**
+ * Classify a scriptPubKey and encode its address. With `encodeAddress` false the address is left
+ * out, for callers that match script bytes and only need addresses of the few that match.
+ */
+export function decodeScriptPubKey(
+  script: Buffer,
+  network: Network,
+  encodeAddress: boolean = true
+): DecodedScript {
   const versions = getAddressVersionsForNetwork( network );
-  // OP_RETURN pattern: 0x6a [pushdata]
+  // OP_RETURN pattern: 0x6a [pushdata...]
   if ( script.length >= 1 && script[0] === OP.RETURN ) {
-    // Extract the first data payload that follows OP_RETURN; skip over non-push opcodes
-    let i = 1;
-    let payload: Buffer | undefined = undefined;
-    while ( i < script.length ) {
-      const opcode = script[i];
-      // Any of the push opcodes or small push lengths (<= 0x4b) indicate a pushdata sequence
-      if (
-        opcode <= 0x4b
-        || opcode === OP.PUSHDATA1
-        || opcode === OP.PUSHDATA2
-        || opcode === OP.PUSHDATA4
-      ) {
-        payload = decodePushAt( script, i );
-        break;
-      }
-      // Skip single-byte opcodes (including OP_0..OP_16) to locate the first pushdata
-      i += 1;
-    }
+    const { pushes, dataHex } = decodeOpReturn( script );
     // Only classify as nulldata when there is a non-empty payload present
-    if ( payload && payload.length > 0 ) {
-      return { type: "nulldata", opReturnDataHex: payload.toString( "hex" ) };
-    }
+    if ( dataHex ) return { type: "nulldata", opReturnDataHex: dataHex, opReturnPushes: pushes };
     // If no payload (or zero-length), treat as nonstandard for extraction purposes
     return { type: "nonstandard" };
   }
@@ -60,7 +60,7 @@ export function decodeScriptPubKey(script: Buffer, network: Network): DecodedScr
     script[24] === OP.CHECKSIG
   ) {
     const hash160 = script.subarray( 3, 23 );
-    const address = base58checkEncode( versions.p2pkh, hash160 );
+    const address = encodeAddress ? base58checkEncode( versions.p2pkh, hash160 ) : undefined;
     return { type: "pubkeyhash", address };
   }
   // P2SH: OP_HASH160 0x14 <20> OP_EQUAL
@@ -71,40 +71,166 @@ export function decodeScriptPubKey(script: Buffer, network: Network): DecodedScr
     script[22] === OP.EQUAL
   ) {
     const hash160 = script.subarray( 2, 22 );
-    const address = base58checkEncode( versions.p2sh, hash160 );
+    const address = encodeAddress ? base58checkEncode( versions.p2sh, hash160 ) : undefined;
     return { type: "scripthash", address };
   }
-  // SegWit v0: 0x00 0x14 (keyhash) or 0x00 0x20 (scripthash)
+  // Witness program: version opcode (OP_0, OP_1..OP_16) and one direct push of 2..40 bytes
   if (
-    script.length >= 2
-    && script[0] === OP.OP_0
-    && (
-      script[1] === PUSH.BYTES_20
-      || script[1] === PUSH.BYTES_32
-    )
+    script.length >= SEGWIT.PROGRAM_MIN + 2
+    && script.length <= SEGWIT.PROGRAM_MAX + 2
+    && (script[0] === OP.OP_0 || (script[0] >= OP.OP_1 && script[0] <= OP.OP_16))
+    && script[1] === script.length - 2
   ) {
+    const version = script[0] === OP.OP_0 ? SEGWIT.V0 : script[0] - OP.OP_1 + 1;
     const prog = script.subarray( 2 );
-    if ( script[1] === PUSH.BYTES_20 ) {
-      const address = encodeWitnessAddress( versions.hrp, SEGWIT.V0, prog );
-      return { type: "witness_v0_keyhash", address };
-    } else {
-      const address = encodeWitnessAddress( versions.hrp, SEGWIT.V0, prog );
-      return { type: "witness_v0_scripthash", address };
+    const address = encodeAddress ? encodeWitnessAddress( versions.hrp, version, prog ) : undefined;
+    if ( version === SEGWIT.V0 ) {
+      // v0 programs of any other size are unspendable, not a new type
+      if ( prog.length === PUSH.BYTES_20 ) {
+        return { type: "witness_v0_keyhash", address };
+      }
+      if ( prog.length === PUSH.BYTES_32 ) {
+        return { type: "witness_v0_scripthash", address };
+      }
+      return { type: "nonstandard" };
+    }
+    if ( version === SEGWIT.V1 && script.length === SCRIPT_LENGTHS.TAPROOT ) {
+      return { type: "witness_v1_taproot", address };
     }
+    if (
+      version === SEGWIT.V1
+      && script.length === SCRIPT_LENGTHS.P2A
+      && prog.toString( "hex" ) === SEGWIT.ANCHOR_PROGRAM
+    ) {
+      return { type: "anchor", address };
+    }
+    return { type: "witness_unknown", address };
   }
-  // Taproot (v1): 0x51 0x20 <32-byte>
-  if (
-    script.length === SCRIPT_LENGTHS.TAPROOT
-    && script[0] === OP.OP_1
-    && script[1] === PUSH.BYTES_32
-  ) {
-    const prog = script.subarray( 2 );
-    const address = encodeWitnessAddress( versions.hrp, SEGWIT.V1, prog );
-    return { type: "witness_v1_taproot", address };
+  // P2PK: <33 or 65-byte pubkey> OP_CHECKSIG
+  if ( script.length > 1 && script[script.length - 1] === OP.CHECKSIG ) {
+    const key = script.length - 2 === script[0] ? script.subarray( 1, -1 ) : undefined;
+    if ( key && isPubKey( key, false ) ) {
+      return { type: "pubkey", pubkeys: [ key.toString( "hex" ) ] };
+    }
+  }
+  // Bare multisig: OP_m <pubkey>... OP_n OP_CHECKMULTISIG, 1 <= m <= n <= 16
+  if ( script.length > 3 && script[script.length - 1] === OP.CHECKMULTISIG ) {
+    const pubkeys = decodeMultisig( script );
+    if ( pubkeys ) return { type: "multisig", pubkeys };
   }
   return { type: "nonstandard" };
 }
 
+/**
+ * Pushes following OP_RETURN, as the stack items they leave (hex): data pushes as is, OP_0 as "",
+ * OP_1NEGATE and OP_1..OP_16 as the number pushed ("81", "01".."10"), so protocol markers such as
+ * the Runes OP_13 stay visible. Other opcodes are skipped and a truncated push ends the list.
+ * `dataHex` is the first non-empty data push (PUSHDATA or direct push; not OP_n).
+ */
+export function decodeOpReturn(script: Buffer): { pushes: string[]; dataHex?: string } {
+  const pushes: string[] = [];
+  let dataHex: string | undefined;
+  let i = script[0] === OP.RETURN ? 1 : 0;
+  while ( i < script.length ) {
+    const opcode = script[i];
+    if ( opcode <= OP.PUSHDATA4 ) {
+      const data = decodePushAt( script, i );
+      if ( !data ) break;
+      const hex = data.toString( "hex" );
+      pushes.push( hex );
+      if ( dataHex === undefined && data.length > 0 ) dataHex = hex;
+      i += pushHeaderLength( opcode ) + data.length;
+      continue;
+    }
+    if ( opcode === OP.OP_1NEGATE ) pushes.push( "81" );
+    const n = smallInt( opcode );
+    if ( n !== undefined ) pushes.push( n.toString( 16 ).padStart( 2, "0" ) );
+    i += 1;
+  }
+  return { pushes, dataHex };
+}
+
+/**
+ * Address an input spends from, rebuilt from the public key it reveals: P2PKH (`<sig> <pubkey>`
+ * scriptSig), P2WPKH (empty scriptSig, `[sig, pubkey]` witness) and P2SH-P2WPKH (scriptSig
+ * pushing `0 <hash160(pubkey)>`, same witness). Other spends return undefined.
+ */
+export function deriveInputAddress(
+  scriptSig: Buffer,
+  witnessPubKey: Buffer | undefined,
+  network: Network
+): string | undefined {
+  const versions = getAddressVersionsForNetwork( network );
+  if ( witnessPubKey ) {
+    if ( !isPubKey( witnessPubKey, true ) ) return undefined;
+    const keyHash = hash160( witnessPubKey );
+    if ( scriptSig.length === 0 ) {
+      return encodeWitnessAddress( versions.hrp, SEGWIT.V0, keyHash );
+    }
+    const redeem = scriptSig.length === SCRIPT_LENGTHS.P2WPKH_REDEEM + 1
+      ? decodePushAt( scriptSig, 0 )
+      : undefined;
+    if (
+      redeem?.length === SCRIPT_LENGTHS.P2WPKH_REDEEM
+      && redeem[0] === OP.OP_0
+      && redeem[1] === PUSH.BYTES_20
+      && redeem.subarray( 2 ).equals( keyHash )
+    ) {
+      return base58checkEncode( versions.p2sh, hash160( redeem ) );
+    }
+    return undefined;
+  }
+  // Signatures (<= 73 bytes) and keys are always direct pushes in standard P2PKH spends
+  const sig = scriptSig.length > 0 && scriptSig[0] <= 0x4b
+    ? decodePushAt( scriptSig, 0 )
+    : undefined;
+  if ( !sig || sig[0] !== PUBKEY.DER_SEQUENCE ) return undefined;
+  const keyAt = 1 + sig.length;
+  const pubKey = scriptSig[keyAt] <= 0x4b ? decodePushAt( scriptSig, keyAt ) : undefined;
+  if ( !pubKey || keyAt + 1 + pubKey.length !== scriptSig.length ) return undefined;
+  if ( !isPubKey( pubKey, false ) ) return undefined;
+  return base58checkEncode( versions.p2pkh, hash160( pubKey ) );
+}
+
+function decodeMultisig(script: Buffer): string[] | undefined {
+  const m = smallInt( script[0] );
+  const n = smallInt( script[script.length - 2] );
+  if ( m === undefined || n === undefined || m < 1 || m > n ) return undefined;
+  const pubkeys: string[] = [];
+  let i = 1;
+  while ( i < script.length - 2 ) {
+    const len = script[i];
+    const key = len <= 0x4b ? script.subarray( i + 1, i + 1 + len ) : undefined;
+    if ( !key || key.length !== len || !isPubKey( key, false ) ) return undefined;
+    pubkeys.push( key.toString( "hex" ) );
+    i += 1 + len;
+  }
+  return i === script.length - 2 && pubkeys.length === n ? pubkeys : undefined;
+}
+
+/** OP_1..OP_16 as a number */
+function smallInt(opcode: number): number | undefined {
+  return opcode >= OP.OP_1 && opcode <= OP.OP_16 ? opcode - OP.OP_1 + 1 : undefined;
+}
+
+/** SEC1 public key; segwit v0 only allows the compressed form */
+function isPubKey(key: Buffer, compressedOnly: boolean): boolean {
+  if ( key.length === PUBKEY.COMPRESSED_LENGTH ) {
+    return key[0] === PUBKEY.PREFIX_EVEN || key[0] === PUBKEY.PREFIX_ODD;
+  }
+  return !compressedOnly
+    && key.length === PUBKEY.UNCOMPRESSED_LENGTH
+    && key[0] === PUBKEY.PREFIX_UNCOMPRESSED;
+}
+
+/** Opcode plus length bytes in front of a push's data */
+function pushHeaderLength(opcode: number): number {
+  if ( opcode === OP.PUSHDATA1 ) return 2;
+  if ( opcode === OP.PUSHDATA2 ) return 3;
+  if ( opcode === OP.PUSHDATA4 ) return 5;
+  return 1;
+}
+
 function decodePushAt(script: Buffer, index: number): Buffer | undefined {
   if ( index >= script.length ) return undefined;
   const opcode = script[index];
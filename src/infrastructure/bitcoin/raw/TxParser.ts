@@ -1,35 +1,84 @@
-import { SEGWIT, SIZES } from "../constants";
+import { NULL_TXID_64, PUBKEY, SEGWIT, SIZES, TX } from "../constants";
 import type { Network } from "./Address";
 import { btcFromSats, ByteReader, sha256dMany, toHexLE } from "./ByteReader";
-import { decodeScriptPubKey } from "./Script";
+import { RawParseError } from "./RawParseError";
+import { decodeScriptPubKey, deriveInputAddress } from "./Script";
 
 export type ParsedTx = {
   txid: string;
+  /** BIP141 witness txid; equals txid for transactions without witness data */
+  wtxid: string;
+  version: number;
+  locktime: number;
+  /** BIP141 weight units */
+  weight: number;
+  /** Virtual size in vbytes: ceil(weight / 4) */
+  vsize: number;
+  /** BIP125: some non-coinbase input has nSequence below 0xfffffffe */
+  replaceable: boolean;
   inputs: {
     prevTxId: string;
     prevVout: number;
     sequence: number;
-    // witness isn't retained to minimize memory
+    // witness isn't retained to minimize memory; only the address derived from it (if enabled)
+    address?: string;
   }[];
   outputs: {
     valueBtc: number;
     address?: string;
+    /** With ParseTxOptions.scriptPubKeys: the script, a view into the block bytes */
+    scriptPubKey?: Buffer;
     scriptType?: string;
-    opReturnDataHex?: string
+    pubkeys?: string[];
+    opReturnDataHex?: string;
+    opReturnPushes?: string[];
   }[];
 };
 
-export function parseTransaction(reader: ByteReader, network: Network): ParsedTx {
+export type ParseTxOptions = {
+  /** Rebuild P2PKH, P2WPKH and P2SH-P2WPKH input addresses from the revealed public key */
+  deriveInputAddresses?: boolean;
+  /**
+   * Keep every output's scriptPubKey and leave addresses out: script matching encodes addresses
+   * only for outputs paying a watched script
+   */
+  scriptPubKeys?: boolean;
+};
+
+/** Parse one transaction at the reader's position. Throws RawParseError only. */
+export function parseTransaction(
+  reader: ByteReader,
+  network: Network,
+  opts?: ParseTxOptions
+): ParsedTx {
+  try {
+    return readTransaction( reader, network, opts );
+  } catch ( err ) {
+    if ( err instanceof RawParseError ) throw err;
+    // not a bounds error (e.g. from script decoding): still report where it happened
+    throw reader.error( err instanceof Error ? err.message : String( err ) );
+  }
+}
+
+function readTransaction(
+  reader: ByteReader,
+  network: Network,
+  opts?: ParseTxOptions
+): ParsedTx {
+  const derive = opts?.deriveInputAddresses === true;
+  const keepScripts = opts?.scriptPubKeys === true;
   const start = reader.position;
-  // Read version (4 bytes) first per Bitcoin serialization
-  /* consume a version to align stream; a version itself isn't retained here */
-  reader.readUInt32LE();
+  reader.field = "version";
+  // Read version (4 bytes) first per Bitcoin serialization; signed like Core's int32 nVersion
+  const version = reader.readUInt32LE() | 0;
   // segwit marker/flag
   let hasWitness = false;
+  reader.field = "marker";
   const marker = reader.readUInt8();
   const flag = reader.readUInt8();
   let vinCount: number;
   let vinCountStart;
+  reader.field = "vin.count";
   if ( marker === SEGWIT.MARKER && flag === SEGWIT.FLAG ) {
     hasWitness = true;
     vinCountStart = reader.position;
@@ -42,62 +91,140 @@ export function parseTransaction(reader: ByteReader, network: Network): ParsedTx
   }
 
   const inputs = [] as ParsedTx["inputs"];
+  let replaceable = false;
+  // views into the block buffer, held only until the witness is read
+  const scriptSigs: Buffer[] = [];
+  const witnessPubKeys: (Buffer | undefined)[] = [];
   for ( let i = 0; i < vinCount; i++ ) {
+    reader.field = "vin.prevout";
     const prevHashLE = reader.readSlice( 32 );
     const prevVout = reader.readUInt32LE();
+    reader.field = "vin.scriptSig";
     const scriptLen = reader.readVarInt();
     // consume scriptSig bytes without converting to hex/materializing a string
-    reader.readSlice( scriptLen );
+    const scriptSig = reader.readSlice( scriptLen );
+    if ( derive ) scriptSigs.push( scriptSig );
+    reader.field = "vin.sequence";
     const sequence = reader.readUInt32LE();
+    const prevTxId = toHexLE( prevHashLE );
+    if ( sequence < TX.RBF_SEQUENCE_THRESHOLD && prevTxId !== NULL_TXID_64 ) replaceable = true;
     inputs.push( {
-      prevTxId: toHexLE( prevHashLE ),
+      prevTxId,
       prevVout,
       sequence
     } );
   }
 
+  reader.field = "vout.count";
   const voutCount = reader.readVarInt();
   const outputs = [] as ParsedTx["outputs"];
   for ( let i = 0; i < voutCount; i++ ) {
+    reader.field = "vout.value";
     // Use number path for sats for speed; BTC supply fits in 53 bits safely
     const valueSats = reader.readUInt64LEAsNumber();
+    reader.field = "vout.scriptPubKey";
     const pkScriptLen = reader.readVarInt();
     const pkScript = reader.readSlice( pkScriptLen );
-    const decoded = decodeScriptPubKey( pkScript, network );
+    const decoded = decodeScriptPubKey( pkScript, network, !keepScripts );
     outputs.push( {
       valueBtc: btcFromSats( BigInt( valueSats ) ),
       address: decoded.address,
+      ...(keepScripts ? { scriptPubKey: pkScript } : {}),
       scriptType: decoded.type,
+      pubkeys: decoded.pubkeys,
       opReturnDataHex: decoded.opReturnDataHex,
+      opReturnPushes: decoded.opReturnPushes,
     } );
   }
 
   const posBeforeWitness = reader.position;
   if ( hasWitness ) {
+    reader.field = "witness";
     for ( let i = 0; i < vinCount; i++ ) {
       const nStack = reader.readVarInt();
+      let first: Buffer | undefined;
       for ( let j = 0; j < nStack; j++ ) {
         const itemLen = reader.readVarInt();
         // consume bytes without converting to hex strings to reduce allocations
-        reader.readSlice( itemLen );
+        const item = reader.readSlice( itemLen );
+        if ( j === 0 ) first = item;
+        // P2WPKH witness: [signature, pubkey]
+        if ( derive && nStack === 2 && j === 1 && first?.[0] === PUBKEY.DER_SEQUENCE ) {
+          witnessPubKeys[i] = item;
+        }
       }
     }
   }
+  if ( derive ) {
+    for ( let i = 0; i < vinCount; i++ ) {
+      const address = deriveInputAddress( scriptSigs[i], witnessPubKeys[i], network );
+      if ( address ) inputs[i].address = address;
+    }
+  }
 
   // Read locktime to advance the reader and compute its byte range
   const locktimeStart = reader.position;
+  reader.field = "locktime";
   // Read to consume 4 bytes so the ByteReader ends at the correct position
   // (next transaction), and its bytes are used to compute the txid serialization
-  reader.readUInt32LE();
+  const locktime = reader.readUInt32LE();
+  const end = reader.position;
 
   // Compute txid excluding witness per BIP-0141
   const versionBytes = reader.sliceAbsolute( start, start + SIZES.UINT32 );
   const preWitness = reader.sliceAbsolute( vinCountStart, posBeforeWitness );
   const locktimeBytes = reader.sliceAbsolute( locktimeStart, locktimeStart + SIZES.LOCKTIME );
   const txid = toHexLE( sha256dMany( [ versionBytes, preWitness, locktimeBytes ] ) );
-  // witness data omitted intentionally
+  // wtxid covers the full serialization, witness included
+  const wtxid = hasWitness
+    ? toHexLE( sha256dMany( [ reader.sliceAbsolute( start, end ) ] ) )
+    : txid;
+  const baseSize = versionBytes.length + preWitness.length + locktimeBytes.length;
+  const weight = baseSize * (TX.WITNESS_SCALE_FACTOR - 1) + (end - start);
+  const vsize = Math.ceil( weight / TX.WITNESS_SCALE_FACTOR );
 
-  return { txid, inputs, outputs };
+  return { txid, wtxid, version, locktime, weight, vsize, replaceable, inputs, outputs };
 }
 
 
+
+/**
+ * Advance the reader past one transaction without decoding scripts or hashing: the boundary
+ * pass that lets a block's transactions be parsed in parallel chunks.
+ */
+export function skipTransaction(reader: ByteReader): void {
+  reader.field = "version";
+  reader.readSlice( SIZES.UINT32 );
+  reader.field = "marker";
+  const marker = reader.readUInt8();
+  const flag = reader.readUInt8();
+  const hasWitness = marker === SEGWIT.MARKER && flag === SEGWIT.FLAG;
+  if ( !hasWitness ) reader.rewind( 2 );
+  reader.field = "vin.count";
+  const vinCount = reader.readVarInt();
+  for ( let i = 0; i < vinCount; i++ ) {
+    reader.field = "vin.prevout";
+    reader.readSlice( SIZES.HASH32 + SIZES.UINT32 );
+    reader.field = "vin.scriptSig";
+    reader.readSlice( reader.readVarInt() );
+    reader.field = "vin.sequence";
+    reader.readSlice( SIZES.UINT32 );
+  }
+  reader.field = "vout.count";
+  const voutCount = reader.readVarInt();
+  for ( let i = 0; i < voutCount; i++ ) {
+    reader.field = "vout.value";
+    reader.readSlice( SIZES.UINT64 );
+    reader.field = "vout.scriptPubKey";
+    reader.readSlice( reader.readVarInt() );
+  }
+  if ( hasWitness ) {
+    reader.field = "witness";
+    for ( let i = 0; i < vinCount; i++ ) {
+      const nStack = reader.readVarInt();
+      for ( let j = 0; j < nStack; j++ ) reader.readSlice( reader.readVarInt() );
+    }
+  }
+  reader.field = "locktime";
+  reader.readSlice( SIZES.LOCKTIME );
+}
@@ -1,9 +1,34 @@
 export { ByteReader, sha256d, toHexLE, btcFromSats } from "./ByteReader";
-export { parseTransaction } from "./TxParser";
-export { parseRawBlock } from "./BlockParser";
+export { parseTransaction, skipTransaction, type ParseTxOptions } from "./TxParser";
+export {
+  parseRawBlock,
+  scanRawBlock,
+  type ParseBlockOptions,
+  type ParsedRawBlock,
+  type RawBlockLayout
+} from "./BlockParser";
+export {
+  RawParseError,
+  type RawParseErrorDetail,
+  type RawParseWarning
+} from "./RawParseError";
+export { RawParserPool, type RawParserPoolOptions } from "./RawParserPool";
+export {
+  bitsToTarget,
+  BlockVerificationError,
+  computeMerkleRoot,
+  verifyRawBlock,
+  type BlockCheck,
+  type VerifyBlockOptions
+} from "./BlockVerifier";
 export type { Network } from "./Address";
-export { getAddressVersionsForNetwork } from "./Address";
-export { decodeScriptPubKey, type ScriptType } from "./Script";
+export { addressToScriptPubKey, getAddressVersionsForNetwork } from "./Address";
+export {
+  decodeOpReturn,
+  decodeScriptPubKey,
+  deriveInputAddress,
+  type ScriptType
+} from "./Script";
 
 
 
@@ -0,0 +1,44 @@
+import { parentPort } from "worker_threads";
+
+import type { Network } from "./Address";
+import { parseTransactions, type ParseBlockOptions } from "./BlockParser";
+import { ByteReader } from "./ByteReader";
+import { RawParseError, type RawParseErrorDetail, type RawParseWarning } from "./RawParseError";
+import type { ParsedTx } from "./TxParser";
+
+/** A contiguous run of serialized transactions, copied out of the block. */
+export type ParseChunkRequest = {
+  id: number;
+  bytes: Uint8Array;
+  /** Block offset of bytes[0] and block index of the first transaction, for error reports */
+  offset: number;
+  firstIndex: number;
+  count: number;
+  network: Network;
+  opts?: ParseBlockOptions;
+};
+
+export type ParseChunkResponse = {
+  id: number;
+  txs?: ParsedTx[];
+  warnings?: RawParseWarning[];
+  /** RawParseError as data, or a plain message for anything else */
+  error?: RawParseErrorDetail | string;
+};
+
+parentPort?.on( "message", (req: ParseChunkRequest) => {
+  let res: ParseChunkResponse;
+  try {
+    const { bytes } = req;
+    const buffer = Buffer.from( bytes.buffer, bytes.byteOffset, bytes.byteLength );
+    const reader = new ByteReader( buffer, req.offset );
+    const parsed = parseTransactions( reader, req.count, req.firstIndex, req.network, req.opts );
+    res = { id: req.id, txs: parsed.transactions, warnings: parsed.warnings };
+  } catch ( err ) {
+    const error = err instanceof RawParseError
+      ? err.toDetail()
+      : err instanceof Error ? err.message : String( err );
+    res = { id: req.id, error };
+  }
+  parentPort?.postMessage( res );
+} );
@@ -0,0 +1,182 @@
+import net from "net";
+
+import {
+  ZMQ_RECONNECT_DELAY_MS_DEFAULT,
+  ZMQ_RECONNECT_DELAY_MS_MAX
+} from "@/infrastructure/bitcoin/constants";
+import { logger, type AppLogger } from "@/infrastructure/logger";
+
+import {
+  buildGreeting,
+  decodeCommand,
+  decodeFrames,
+  decodeProperties,
+  encodeCommand,
+  encodeSubscribe,
+  frameLength,
+  GREETING_SIZE,
+  parseGreeting
+} from "./Zmtp";
+
+export type ZmqMessage = {
+  topic: string;
+  body: Buffer;
+  /** Publisher sequence number (Bitcoin Core appends a 4-byte LE counter per topic) */
+  sequence?: number;
+};
+
+export type ZmqSubscriberOptions = {
+  /** Publisher endpoint, e.g. tcp://127.0.0.1:28332 */
+  url: string;
+  topics: string[];
+  onMessage: (message: ZmqMessage) => void;
+  /** Called when the handshake completes (true) or the connection is lost (false) */
+  onStatus?: (connected: boolean) => void;
+  /** First reconnect delay; doubles up to a cap after consecutive failures (default: 1000) */
+  reconnectDelayMs?: number;
+};
+
+/**
+ * Minimal ZMQ SUB socket over plain TCP: ZMTP 3.0 greeting, NULL handshake, topic subscription
+ * and multipart message framing. Reconnects with backoff until close() is called.
+ */
+export class ZmqSubscriber {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly opts: ZmqSubscriberOptions;
+  private readonly log: AppLogger;
+  private socket?: net.Socket;
+  /** Received bytes not decoded yet, joined only once `needed` of them arrived */
+  private chunks: Buffer[] = [];
+  private buffered: number = 0;
+  /** Bytes to wait for before decoding again: the greeting, then the whole next frame */
+  private needed: number = GREETING_SIZE;
+  private greeted: boolean = false;
+  private ready: boolean = false;
+  private parts: Buffer[] = [];
+  private failures: number = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private closed: boolean = false;
+
+  constructor(opts: ZmqSubscriberOptions) {
+    const match = /^tcp:\/\/(\[[^\]]+\]|[^:/]+):(\d+)\/?$/.exec( opts.url.trim() );
+    if ( !match ) throw new Error( `Invalid ZMQ endpoint ${ opts.url }; expected tcp://host:port` );
+    this.host = match[1].replace( /^\[|\]$/g, "" );
+    this.port = Number( match[2] );
+    this.opts = opts;
+    this.log = logger( "zmq_subscriber" );
+  }
+
+  isConnected(): boolean {
+    return this.ready;
+  }
+
+  connect(): void {
+    if ( this.closed || this.socket ) return;
+    this.chunks = [];
+    this.buffered = 0;
+    this.needed = GREETING_SIZE;
+    this.greeted = false;
+    this.parts = [];
+    const socket = net.createConnection( { host: this.host, port: this.port } );
+    this.socket = socket;
+    socket.setNoDelay( true );
+    socket.on( "connect", () => {
+      socket.write( buildGreeting() );
+    } );
+    socket.on( "data", (chunk: Buffer) => {
+      try {
+        this.onData( chunk );
+      } catch ( err ) {
+        const message = err instanceof Error ? err.message : String( err );
+        this.log.warn( { type: "zmq.protocol_error", url: this.opts.url, message } );
+        socket.destroy();
+      }
+    } );
+    socket.on( "error", (err) => {
+      this.log.debug( { type: "zmq.socket_error", url: this.opts.url, message: err.message } );
+    } );
+    socket.on( "close", () => this.onClose( socket ) );
+  }
+
+  close(): void {
+    this.closed = true;
+    if ( this.reconnectTimer ) clearTimeout( this.reconnectTimer );
+    this.socket?.destroy();
+  }
+
+  private onData(chunk: Buffer): void {
+    // A multi-MB rawblock arrives in many chunks: copy it once, when it is complete
+    this.chunks.push( chunk );
+    this.buffered += chunk.length;
+    if ( this.buffered < this.needed ) return;
+    let buffer = this.chunks.length === 1 ? chunk : Buffer.concat( this.chunks, this.buffered );
+    if ( !this.greeted ) {
+      parseGreeting( buffer.subarray( 0, GREETING_SIZE ) );
+      this.greeted = true;
+      buffer = buffer.subarray( GREETING_SIZE );
+      this.socket?.write( encodeCommand( "READY", { "Socket-Type": "SUB" } ) );
+    }
+    const { frames, rest } = decodeFrames( buffer );
+    this.chunks = rest.length > 0 ? [ rest ] : [];
+    this.buffered = rest.length;
+    // Until the header of the next frame is complete, decode again on the next chunk
+    this.needed = frameLength( rest ) ?? rest.length + 1;
+    for ( const frame of frames ) {
+      if ( frame.command ) {
+        this.onCommand( decodeCommand( frame ) );
+        continue;
+      }
+      this.parts.push( frame.body );
+      if ( frame.more ) continue;
+      const parts = this.parts;
+      this.parts = [];
+      if ( this.ready ) this.emit( parts );
+    }
+  }
+
+  private onCommand(cmd: { name: string; data: Buffer }): void {
+    if ( cmd.name === "READY" ) {
+      const props = decodeProperties( cmd.data );
+      const peerType = props["Socket-Type"];
+      if ( peerType !== "PUB" && peerType !== "XPUB" ) {
+        throw new Error( `ZMQ peer socket type ${ peerType } cannot feed a SUB socket` );
+      }
+      for ( const topic of this.opts.topics ) this.socket?.write( encodeSubscribe( topic ) );
+      this.ready = true;
+      this.failures = 0;
+      this.log.info( { type: "zmq.connected", url: this.opts.url, topics: this.opts.topics } );
+      this.opts.onStatus?.( true );
+    } else if ( cmd.name === "ERROR" ) {
+      const size = cmd.data[0] ?? 0;
+      throw new Error( `ZMQ peer error: ${ cmd.data.subarray( 1, 1 + size ).toString() }` );
+    }
+    // Other commands (e.g. 3.1 PING) are not sent to a 3.0 peer; ignore them
+  }
+
+  private emit(parts: Buffer[]): void {
+    if ( parts.length < 2 ) return;
+    const seq = parts[2];
+    this.opts.onMessage( {
+      topic: parts[0].toString(),
+      body: parts[1],
+      sequence: seq && seq.length === 4 ? seq.readUInt32LE( 0 ) : undefined,
+    } );
+  }
+
+  private onClose(socket: net.Socket): void {
+    if ( this.socket !== socket ) return;
+    this.socket = undefined;
+    const wasReady = this.ready;
+    this.ready = false;
+    if ( wasReady ) {
+      this.log.warn( { type: "zmq.disconnected", url: this.opts.url } );
+      this.opts.onStatus?.( false );
+    }
+    if ( this.closed ) return;
+    const base = this.opts.reconnectDelayMs ?? ZMQ_RECONNECT_DELAY_MS_DEFAULT;
+    const delay = Math.min( ZMQ_RECONNECT_DELAY_MS_MAX, base * 2 ** Math.min( this.failures, 10 ) );
+    this.failures += 1;
+    this.reconnectTimer = setTimeout( () => this.connect(), delay );
+  }
+}
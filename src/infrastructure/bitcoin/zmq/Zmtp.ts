@@ -0,0 +1,149 @@
+// ZMTP 3.0 wire format (https://rfc.zeromq.org/spec/23/): greeting, NULL handshake and framing
+
+import { ZMQ_MAX_FRAME_BYTES } from "@/infrastructure/bitcoin/constants";
+
+export const GREETING_SIZE = 64;
+
+const SIGNATURE_FIRST = 0xff;
+const SIGNATURE_LAST = 0x7f;
+const MECHANISM_OFFSET = 12;
+const MECHANISM_SIZE = 20;
+
+const FLAG_MORE = 0x01;
+const FLAG_LONG = 0x02;
+const FLAG_COMMAND = 0x04;
+
+// Subscription messages (ZMTP 3.0 style): first byte 1 = subscribe, 0 = unsubscribe
+const SUBSCRIBE_BYTE = 0x01;
+
+export type ZmtpFrame = {
+  command: boolean;
+  more: boolean;
+  body: Buffer;
+};
+
+export type ZmtpCommand = {
+  name: string;
+  data: Buffer;
+};
+
+/** Greeting announcing version 3.0, the NULL mechanism and the client role. */
+export function buildGreeting(): Buffer {
+  const greeting = Buffer.alloc( GREETING_SIZE );
+  greeting[0] = SIGNATURE_FIRST;
+  greeting[9] = SIGNATURE_LAST;
+  greeting[10] = 3;
+  greeting[11] = 0;
+  greeting.write( "NULL", MECHANISM_OFFSET, "ascii" );
+  // as-server = 0, filler stays zero
+  return greeting;
+}
+
+/** Validate a peer greeting; throws when the peer does not speak ZMTP 3.x with NULL security. */
+export function parseGreeting(greeting: Buffer): { major: number; minor: number } {
+  if ( greeting.length < GREETING_SIZE ) throw new Error( "ZMTP greeting too short" );
+  if ( greeting[0] !== SIGNATURE_FIRST || (greeting[9] & 0x01) !== 0x01 ) {
+    throw new Error( "ZMTP greeting signature mismatch" );
+  }
+  const major = greeting[10];
+  const minor = greeting[11];
+  if ( major < 3 ) throw new Error( `Unsupported ZMTP version ${ major }.${ minor }` );
+  const mechanism = greeting
+    .subarray( MECHANISM_OFFSET, MECHANISM_OFFSET + MECHANISM_SIZE )
+    .toString( "ascii" )
+    .replace( /\0+$/, "" );
+  if ( mechanism !== "NULL" ) throw new Error( `Unsupported ZMTP mechanism ${ mechanism }` );
+  return { major, minor };
+}
+
+export function encodeFrame(body: Buffer, opts?: { more?: boolean; command?: boolean }): Buffer {
+  let flags = 0;
+  if ( opts?.more ) flags |= FLAG_MORE;
+  if ( opts?.command ) flags |= FLAG_COMMAND;
+  if ( body.length <= 0xff ) {
+    return Buffer.concat( [ Buffer.from( [ flags, body.length ] ), body ] );
+  }
+  const head = Buffer.alloc( 9 );
+  head[0] = flags | FLAG_LONG;
+  head.writeBigUInt64BE( BigInt( body.length ), 1 );
+  return Buffer.concat( [ head, body ] );
+}
+
+/** Encode a command frame; properties use the READY metadata layout. */
+export function encodeCommand(name: string, properties?: Record<string, string>): Buffer {
+  const parts: Buffer[] = [ Buffer.from( [ name.length ] ), Buffer.from( name, "ascii" ) ];
+  for ( const [ key, value ] of Object.entries( properties ?? {} ) ) {
+    const size = Buffer.alloc( 4 );
+    size.writeUInt32BE( Buffer.byteLength( value ), 0 );
+    parts.push( Buffer.from( [ key.length ] ), Buffer.from( key, "ascii" ) );
+    parts.push( size, Buffer.from( value ) );
+  }
+  return encodeFrame( Buffer.concat( parts ), { command: true } );
+}
+
+export function encodeSubscribe(topic: string): Buffer {
+  const body = Buffer.concat( [ Buffer.from( [ SUBSCRIBE_BYTE ] ), Buffer.from( topic ) ] );
+  return encodeFrame( body );
+}
+
+export function decodeCommand(frame: ZmtpFrame): ZmtpCommand {
+  const size = frame.body[0] ?? 0;
+  return {
+    name: frame.body.subarray( 1, 1 + size ).toString( "ascii" ),
+    data: frame.body.subarray( 1 + size ),
+  };
+}
+
+/** Metadata properties of a READY command (e.g. Socket-Type). */
+export function decodeProperties(data: Buffer): Record<string, string> {
+  const out: Record<string, string> = {};
+  let offset = 0;
+  while ( offset < data.length ) {
+    const nameSize = data[offset];
+    const name = data.subarray( offset + 1, offset + 1 + nameSize ).toString( "ascii" );
+    offset += 1 + nameSize;
+    if ( offset + 4 > data.length ) throw new Error( "ZMTP property truncated" );
+    const valueSize = data.readUInt32BE( offset );
+    offset += 4;
+    out[name] = data.subarray( offset, offset + valueSize ).toString();
+    offset += valueSize;
+  }
+  return out;
+}
+
+/**
+ * Length (header and body) of the frame starting at offset, once its header is complete.
+ * Throws for a frame above ZMQ_MAX_FRAME_BYTES.
+ */
+export function frameLength(buffer: Buffer, offset: number = 0): number | undefined {
+  if ( offset >= buffer.length ) return undefined;
+  const long = (buffer[offset] & FLAG_LONG) !== 0;
+  const headSize = long ? 9 : 2;
+  if ( offset + headSize > buffer.length ) return undefined;
+  const size = long ? buffer.readBigUInt64BE( offset + 1 ) : BigInt( buffer[offset + 1] );
+  if ( size > BigInt( ZMQ_MAX_FRAME_BYTES ) ) {
+    throw new Error( `ZMTP frame of ${ size } bytes exceeds ${ ZMQ_MAX_FRAME_BYTES }` );
+  }
+  return headSize + Number( size );
+}
+
+/** Split complete frames off the front of buffer; an incomplete tail is returned as rest. */
+export function decodeFrames(buffer: Buffer): { frames: ZmtpFrame[]; rest: Buffer } {
+  const frames: ZmtpFrame[] = [];
+  let offset = 0;
+  while ( offset < buffer.length ) {
+    const flags = buffer[offset];
+    const length = frameLength( buffer, offset );
+    if ( length === undefined || offset + length > buffer.length ) break;
+    const headSize = (flags & FLAG_LONG) !== 0 ? 9 : 2;
+    const size = length - headSize;
+    const start = offset + headSize;
+    frames.push( {
+      command: (flags & FLAG_COMMAND) !== 0,
+      more: (flags & FLAG_MORE) !== 0,
+      body: buffer.subarray( start, start + size ),
+    } );
+    offset = start + size;
+  }
+  return { frames, rest: buffer.subarray( offset ) };
+}
@@ -0,0 +1,2 @@
+export { ZmqSubscriber } from "./ZmqSubscriber";
+export type { ZmqMessage, ZmqSubscriberOptions } from "./ZmqSubscriber";
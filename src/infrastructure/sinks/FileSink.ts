@@ -1,9 +1,8 @@
 import path from "path";
 
 import { getFileStorage } from "@/infrastructure/storage/FileStorageService";
-import type { AddressActivityFoundEvent } from "@/types/events";
 
-import type { FileSinkOptions, NotificationSink, SinkResult } from "./types";
+import type { FileSinkOptions, NotificationSink, SinkEvent, SinkResult } from "./types";
 
 export class FileSink implements NotificationSink {
   public readonly kind = "file" as const;
@@ -16,7 +15,7 @@ export class FileSink implements NotificationSink {
     storage.ensureFile( this.filePath, "" );
   }
 
-  async send(event: AddressActivityFoundEvent): Promise<SinkResult> {
+  async send(event: SinkEvent): Promise<SinkResult> {
     try {
       const storage = getFileStorage();
       const line = `${ JSON.stringify( event ) }\n`;
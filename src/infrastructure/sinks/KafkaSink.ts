@@ -1,7 +1,6 @@
 import { logger } from "@/infrastructure/logger";
-import type { AddressActivityFoundEvent } from "@/types/events";
 
-import type { KafkaSinkOptions, NotificationSink, SinkResult } from "./types";
+import type { KafkaSinkOptions, NotificationSink, SinkEvent, SinkResult } from "./types";
 
 export class KafkaSink implements NotificationSink {
   public readonly kind = "kafka" as const;
@@ -11,7 +10,7 @@ export class KafkaSink implements NotificationSink {
     this.options = options;
   }
 
-  async send(_event: AddressActivityFoundEvent): Promise<SinkResult> {
+  async send(_event: SinkEvent): Promise<SinkResult> {
     logger.warn( {
       type: "sink.unavailable",
       sink: this.kind,
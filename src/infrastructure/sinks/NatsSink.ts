@@ -1,7 +1,6 @@
 import { logger } from "@/infrastructure/logger";
-import type { AddressActivityFoundEvent } from "@/types/events";
 
-import type { NatsSinkOptions, NotificationSink, SinkResult } from "./types";
+import type { NatsSinkOptions, NotificationSink, SinkEvent, SinkResult } from "./types";
 
 export class NatsSink implements NotificationSink {
   public readonly kind = "nats" as const;
@@ -11,7 +10,7 @@ export class NatsSink implements NotificationSink {
     this.options = options;
   }
 
-  async send(_event: AddressActivityFoundEvent): Promise<SinkResult> {
+  async send(_event: SinkEvent): Promise<SinkResult> {
     logger.warn( {
       type: "sink.unavailable",
       sink: this.kind,
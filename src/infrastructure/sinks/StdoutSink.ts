@@ -1,7 +1,37 @@
 import { logger } from "@/infrastructure/logger";
-import type { AddressActivityFoundEvent } from "@/types/events";
 
-import type { NotificationSink, SinkResult, StdoutSinkOptions } from "./types";
+import type { NotificationSink, SinkEvent, SinkResult, StdoutSinkOptions } from "./types";
+
+// Log line type per delivered event
+const LOG_TYPES: Record<SinkEvent["type"], string> = {
+  AddressActivityFound: "transaction.activity",
+  ActivityConfirmed: "transaction.confirmed",
+  AddressActivityRetracted: "transaction.retracted",
+  UnconfirmedActivityFound: "transaction.unconfirmed",
+  UnconfirmedActivityDropped: "transaction.unconfirmed_dropped",
+};
+
+// Event-specific context logged after the common activity fields
+function eventDetails(event: SinkEvent): Record<string, unknown> {
+  switch ( event.type ) {
+    case "ActivityConfirmed":
+      return { block: event.block, confirmations: event.confirmations };
+    case "AddressActivityRetracted":
+      return { block: event.block, replacedBy: event.replacedBy };
+    case "UnconfirmedActivityFound":
+      return { replaceable: event.replaceable };
+    case "UnconfirmedActivityDropped":
+      return {
+        reason: event.reason,
+        ...(event.replacedBy ? { replacedBy: event.replacedBy } : {}),
+      };
+    default:
+      return {
+        block: event.block,
+        ...(event.unconfirmedEventId ? { unconfirmedEventId: event.unconfirmedEventId } : {}),
+      };
+  }
+}
 
 export class StdoutSink implements NotificationSink {
   public readonly kind = "stdout" as const;
@@ -11,15 +41,17 @@ export class StdoutSink implements NotificationSink {
     this.pretty = options?.pretty ?? false;
   }
 
-  async send(event: AddressActivityFoundEvent): Promise<SinkResult> {
+  async send(event: SinkEvent): Promise<SinkResult> {
     try {
       const sign = event.activity.direction === "in" ? 1 : -1;
       const valueUsd = event.activity.valueUsd;
       const includeDiff = event.activity.hasBothSides === true;
       const diffBtc = includeDiff ? (sign * event.activity.valueBtc) : undefined;
       const diffUsd = includeDiff && typeof valueUsd === "number" ? sign * valueUsd : undefined;
+      const logType = LOG_TYPES[event.type];
+      const details = eventDetails( event );
       const payload = {
-        type: "transaction.activity",
+        type: logType,
         address: event.activity.address,
         txid: event.activity.txid,
         valueBtc: event.activity.valueBtc,
@@ -27,20 +59,28 @@ export class StdoutSink implements NotificationSink {
         diffBtc,
         diffUsd,
         direction: event.activity.direction,
-        block: event.block,
+        feeSats: event.activity.feeSats,
+        feeRate: event.activity.feeRate,
+        ...details,
+        // Mempool events have no block, so no source either
+        source: "source" in event ? event.source : undefined,
         timestamp: event.timestamp,
       } as const;
       if ( this.pretty ) {
         // log prettified summary
         logger.info( {
-          type: "transaction.activity",
+          type: logType,
           address: payload.address,
           txid: payload.txid,
           valueBtc: payload.valueBtc,
           valueUsd: payload.valueUsd,
           ...(includeDiff ? { diffBtc: payload.diffBtc, diffUsd: payload.diffUsd } : {}),
           direction: payload.direction,
-          block: payload.block
+          ...(payload.feeSats !== undefined
+            ? { feeSats: payload.feeSats, feeRate: payload.feeRate }
+            : {}),
+          ...details,
+          ...(payload.source ? { source: payload.source } : {}),
         } );
       } else {
         // a structured JSON line
@@ -1,7 +1,6 @@
 import { fetchJson, HTTP_METHOD } from "@/app/helpers/http";
-import type { AddressActivityFoundEvent } from "@/types/events";
 
-import type { NotificationSink, SinkResult, WebhookSinkOptions } from "./types";
+import type { NotificationSink, SinkEvent, SinkResult, WebhookSinkOptions } from "./types";
 
 export class WebhookSink implements NotificationSink {
   public readonly kind = "webhook" as const;
@@ -17,7 +16,7 @@ export class WebhookSink implements NotificationSink {
     this.backoffMs = options.backoffMs ?? ((n) => Math.min( 2000, 250 * n ));
   }
 
-  async send(event: AddressActivityFoundEvent): Promise<SinkResult> {
+  async send(event: SinkEvent): Promise<SinkResult> {
     let attempt = 0;
     const body = JSON.stringify( event );
     while ( true ) {
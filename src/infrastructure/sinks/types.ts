@@ -1,13 +1,30 @@
-import type { AddressActivityFoundEvent } from "@/types/events";
+import type {
+  ActivityConfirmedEvent,
+  AddressActivityFoundEvent,
+  AddressActivityRetractedEvent,
+  UnconfirmedActivityDroppedEvent,
+  UnconfirmedActivityFoundEvent
+} from "@/types/events";
 
 export type SinkKind = "stdout" | "file" | "webhook" | "kafka" | "nats";
 
+/**
+ * Events delivered to sinks: new activity, confirmation milestones of that activity,
+ * retractions of activity from orphaned blocks and unconfirmed (mempool) activity
+ */
+export type SinkEvent =
+  | AddressActivityFoundEvent
+  | ActivityConfirmedEvent
+  | AddressActivityRetractedEvent
+  | UnconfirmedActivityFoundEvent
+  | UnconfirmedActivityDroppedEvent;
+
 export type SinkResult = { ok: true } | { ok: false; error: Error };
 
 export interface NotificationSink {
   readonly kind: SinkKind;
 
-  send(event: AddressActivityFoundEvent): Promise<SinkResult>;
+  send(event: SinkEvent): Promise<SinkResult>;
 }
 
 export type StdoutSinkOptions = {
@@ -14,6 +14,9 @@ export interface FileStorageService {
 
   writeFile(filePath: string, content: string | Buffer, options?: WriteOptions): void;
 
+  /** Write via a temp file + fsync + rename so readers never observe a partial file */
+  writeFileAtomic(filePath: string, content: string | Buffer): void;
+
   open(filePath: string, flags: string): number;
 
   fstat(fd: number): fs.Stats;
@@ -116,6 +119,29 @@ class NodeFsFileStorageService implements FileStorageService {
     fs.writeFileSync( filePath, content as any, options as any );
   }
 
+  writeFileAtomic(filePath: string, content: string | Buffer): void {
+    this.ensureDir( path.dirname( filePath ) );
+    const tmpPath = `${ filePath }.${ process.pid }.tmp`;
+    const fd = fs.openSync( tmpPath, "w" );
+    try {
+      const buf = typeof content === "string" ? Buffer.from( content, "utf-8" ) : content;
+      fs.writeSync( fd, buf, 0, buf.length, 0 );
+      fs.fsyncSync( fd );
+    } finally {
+      fs.closeSync( fd );
+    }
+    try {
+      fs.renameSync( tmpPath, filePath );
+    } catch ( err ) {
+      try {
+        fs.unlinkSync( tmpPath );
+      } catch {
+        // noop
+      }
+      throw err;
+    }
+  }
+
   open(filePath: string, flags: string): number {
     return fs.openSync( filePath, flags );
   }
@@ -0,0 +1,85 @@
+import { parseBackfillBound } from "@/app/helpers/backfill";
+import { createXpubWatcher } from "@/app/helpers/blockchain";
+import { closeAllHttpPools } from "@/app/helpers/http";
+import { createRpcClient } from "@/app/helpers/rpc";
+import { BitcoinService, UtxoIndex, WorkersService } from "@/app/services";
+import { loadConfig } from "@/config";
+import { BitcoinRpcPool } from "@/infrastructure/bitcoin";
+import {
+  BACKFILL_PROGRESS_INTERVAL_MS_DEFAULT,
+  CATCHUP_BATCH_SIZE_DEFAULT,
+} from "@/infrastructure/bitcoin/constants";
+import { logger } from "@/infrastructure/logger";
+
+// Usage: bun run utxo-index:rebuild --from <height|unix|date>
+// Clears the index and replays every block from --from up to the current tip. Stop the scanner
+// first: the index must be fed in height order by a single process.
+async function main() {
+  const argv = process.argv.slice( 2 );
+  const at = argv.findIndex( (a) => a === "--from" || a.startsWith( "--from=" ) );
+  const raw = argv[at]?.startsWith( "--from=" ) ? argv[at].slice( 7 ) : argv[at + 1];
+  if ( at < 0 || !raw ) throw new Error( "Missing required option --from" );
+  const from = parseBackfillBound( raw );
+
+  const cfg = loadConfig();
+  if ( cfg.backend !== "rpc" ) throw new Error( "The UTXO index needs BTC_BACKEND=rpc" );
+  const rpc = createRpcClient( cfg );
+  if ( rpc instanceof BitcoinRpcPool ) rpc.start();
+  const index = new UtxoIndex( { filePath: cfg.utxoIndex.filePath, mode: cfg.utxoIndex.mode } );
+  // Raw path without input resolution: blocks only feed the index
+  const btc = new BitcoinService( rpc, {
+    parseRawBlocks: true,
+    network: cfg.network,
+    restBlocks: cfg.restBlocks,
+    utxoIndex: index,
+  } );
+  const workers = new WorkersService( cfg.worker.id, cfg.worker.members );
+  // xpub addresses up to the ranges the scanner has extended them to (state file)
+  const xpubAddresses = createXpubWatcher( cfg ).addresses();
+  btc.setWatchedAddresses( workers.filterWatched( [ ...cfg.watch, ...xpubAddresses ] ) );
+
+  const fromHeight = from.kind === "height"
+    ? from.height
+    : await btc.findHeightByTime( from.unixSeconds );
+  index.reset();
+  logger.info( {
+    type: "utxo_index.rebuild_start",
+    path: cfg.utxoIndex.filePath,
+    mode: cfg.utxoIndex.mode,
+    fromHeight,
+  } );
+
+  let next = fromHeight;
+  let lastProgressAt = Date.now();
+  // The tip may move while replaying; finish once caught up with it
+  for ( let tip = await btc.getTipHeight(); next <= tip; tip = await btc.getTipHeight() ) {
+    while ( next <= tip ) {
+      const to = Math.min( tip, next + CATCHUP_BATCH_SIZE_DEFAULT - 1 );
+      for ( const ref of await btc.getBlockHashRange( next, to ) ) {
+        await btc.parseBlockByHash( ref.hash );
+        next = ref.height + 1;
+      }
+      if ( Date.now() - lastProgressAt >= BACKFILL_PROGRESS_INTERVAL_MS_DEFAULT ) {
+        lastProgressAt = Date.now();
+        logger.info( { type: "utxo_index.rebuild_progress", height: next - 1, tip } );
+      }
+    }
+  }
+
+  logger.info( {
+    type: "utxo_index.rebuild_done",
+    fromHeight,
+    tipHeight: index.getTip()?.height,
+    outputs: index.size(),
+  } );
+  index.close();
+  if ( rpc instanceof BitcoinRpcPool ) rpc.stop();
+  await closeAllHttpPools();
+  process.exit( 0 );
+}
+
+main().catch( (err) => {
+  const message = err instanceof Error ? err.message : String( err );
+  logger.error( { err, msg: `UTXO index rebuild failed: ${ message }` } );
+  process.exit( 1 );
+} );
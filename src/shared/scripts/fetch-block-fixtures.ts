@@ -19,7 +19,7 @@ async function writeFileAtomic(filePath: string, data: string | Uint8Array): Pro
 
 async function main() {
   const cfg = loadConfig();
-  const rpc = new BitcoinRpcClient( { url: cfg.bitcoinRpcUrl } );
+  const rpc = new BitcoinRpcClient( { url: cfg.bitcoinRpcUrl, ...cfg.rpcAuth } );
 
   const fixturesDir = preferFixturesDir( import.meta.url );
   await ensureDir( fixturesDir );
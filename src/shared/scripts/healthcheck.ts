@@ -1,6 +1,6 @@
-import { BitcoinService, CurrencyService } from "@/app/services";
+import { createBlockchainService } from "@/app/helpers/blockchain";
+import { CurrencyService } from "@/app/services";
 import { loadConfig } from "@/config";
-import { BitcoinRpcClient } from "@/infrastructure/bitcoin";
 import { CoinMarketCapClient } from "@/infrastructure/currency/CoinMarketCapClient";
 import { logger as getLogger } from "@/infrastructure/logger";
 
@@ -9,11 +9,7 @@ const logger = getLogger( { fileName: "healthcheck" } );
 async function main() {
   const cfg = loadConfig();
 
-  const rpc = new BitcoinRpcClient( { url: cfg.bitcoinRpcUrl } );
-  const btc = new BitcoinService( rpc, {
-    pollIntervalMs: cfg.pollIntervalMs,
-    resolveInputAddresses: cfg.resolveInputAddresses,
-  } );
+  const { btc } = createBlockchainService( cfg );
 
   const cmc = new CoinMarketCapClient( {
     apiKey: cfg.coinMarketCapApiKey,
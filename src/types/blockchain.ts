@@ -1,11 +1,81 @@
+import type { HealthResult } from "@/types/healthcheck";
+
 export type WatchedAddress = {
   address: string;
   label?: string;
+  /** Set on addresses derived from a watched extended public key */
+  xpub?: string;
+  /** Set on addresses expanded from a watched ranged output descriptor */
+  descriptor?: string;
+  /** Label of the key or descriptor the address was derived from */
+  xpubLabel?: string;
+  /** BIP32 path of the derived address, e.g. m/84'/0'/0'/0/5 */
+  derivationPath?: string;
+  /**
+   * Hex script of an entry without an address (P2PK, bare multisig, nonstandard), whose `address`
+   * is then `raw(<hex>)`; it only matches in script matching mode
+   */
+  scriptPubKey?: string;
+  /** Which of the entry's activities are published; the rest are counted and logged */
+  rules?: AlertRules;
+};
+
+/**
+ * Per-entry alert rules, checked after USD values are set. Activities failing any rule are
+ * suppressed. Without a BTC/USD rate the USD bounds are not checked.
+ */
+export type AlertRules = {
+  minBtc?: number;
+  maxBtc?: number;
+  minUsd?: number;
+  maxUsd?: number;
+  /** Directions to notify on (default: both) */
+  direction?: "in" | "out" | "both";
+  /** Drop the zero-value activities of an OP_RETURN mentioning the entry's label */
+  ignoreOpReturnLabelMatches?: boolean;
+  /** Minimum seconds between two notifications for the same address */
+  cooldownSec?: number;
+};
+
+/** Watch list entry for an HD wallet account: addresses are derived from its extended key */
+export type WatchedXpub = {
+  /** xpub/ypub/zpub (tpub/upub/vpub on test networks) */
+  xpub: string;
+  label?: string;
+  /** Address type; defaults from the key prefix (xpub: bip44, ypub: bip49, zpub: bip84) */
+  type?: "bip44" | "bip49" | "bip84" | "bip86";
+  /** Unused addresses kept derived per chain past the last used one */
+  gapLimit?: number;
+  /** Path of the key itself, e.g. m/84'/0'/0'; inferred for account-level keys when omitted */
+  path?: string;
+  /** Alert rules of every derived address */
+  rules?: AlertRules;
+};
+
+/** Watch list entry for a ranged output descriptor, e.g. wpkh([fp/84'/0'/0']xpub.../0/*) */
+export type WatchedDescriptor = {
+  desc: string;
+  label?: string;
+  /** First and last index to derive up front (Bitcoin Core's `range`) */
+  range?: [ number, number ];
+  /** First unused index (Bitcoin Core's `next_index`); the gap limit counts from here */
+  nextIndex?: number;
+  gapLimit?: number;
+  /** Alert rules of every derived address */
+  rules?: AlertRules;
 };
 
+/** HD watch list entries: their addresses are derived and extended at runtime */
+export type WatchedKey = WatchedXpub | WatchedDescriptor;
+
 export type ParsedTxOutput = {
   address?: string;
   valueBtc: number;
+  /**
+   * Script bytes, set in script matching mode. Raw-parsed outputs then have no `address` (it is
+   * encoded only for activities)
+   */
+  scriptPubKey?: Uint8Array;
   /*
    * scriptPubKey.type from node
    * (e.g.,
@@ -14,19 +84,68 @@ export type ParsedTxOutput = {
    * witness_v0_keyhash,
    * witness_v0_scripthash,
    * nulldata,
-   * witness_v1_taproot)
+   * witness_v1_taproot,
+   * pubkey,
+   * multisig,
+   * witness_unknown,
+   * anchor)
    */
   scriptType?: string;
-  /** For OP_RETURN (nulldata) outputs: raw hex payload without OP_RETURN opcode */
+  /** P2PK and bare multisig outputs: public keys (hex); these outputs have no address */
+  pubkeys?: string[];
+  /** For OP_RETURN (nulldata) outputs: first non-empty data push (hex) */
   opReturnDataHex?: string;
   /** Best-effort UTF-8 decoding of OP_RETURN data */
   opReturnUtf8?: string;
+  /**
+   * For OP_RETURN (nulldata) outputs: every push in script order, as hex; OP_0 is "" and
+   * OP_1NEGATE/OP_1..OP_16 are the number they push ("81", "01".."10")
+   */
+  opReturnPushes?: string[];
+};
+
+/** One OP_RETURN (nulldata) output of a transaction */
+export type OpReturnOutput = {
+  /** Output index in the transaction */
+  vout: number;
+  dataHex?: string;
+  utf8?: string;
+  pushes: string[];
 };
 
 export type ParsedTransaction = {
   txid: string;
-  inputs: { address?: string; valueBtc?: number }[];
+  /** Spent outputs, when resolved; scriptPubKey as on outputs */
+  inputs: { address?: string; valueBtc?: number; scriptPubKey?: Uint8Array }[];
   outputs: ParsedTxOutput[];
+  /** BIP141 witness txid; equals txid for transactions without witness data */
+  wtxid?: string;
+  version?: number;
+  locktime?: number;
+  /** BIP141 weight units */
+  weight?: number;
+  /** Virtual size in vbytes: ceil(weight / 4) */
+  vsize?: number;
+  /** BIP125: some non-coinbase input has nSequence below 0xfffffffe */
+  replaceable?: boolean;
+  /** Inputs minus outputs; unknown for coinbase and while any input value is unresolved */
+  feeSats?: number;
+  /** feeSats / vsize in sat/vB, rounded to 0.01 */
+  feeRate?: number;
+};
+
+/** A transaction the tolerant raw parser could not read and left out of the block */
+export type BlockParseIssue = {
+  reason: string;
+  /** Byte offset in the serialized block */
+  offset: number;
+  /** Field being read, e.g. "vin.scriptSig" */
+  field: string;
+  txIndex?: number;
+  /** Bytes around the offset */
+  excerptHex: string;
+  /** 1, or every remaining transaction when the end of the bad one could not be found */
+  skippedTransactions: number;
 };
 
 export type ParsedBlock = {
@@ -35,6 +154,23 @@ export type ParsedBlock = {
   height: number;
   time: number;
   transactions: ParsedTransaction[];
+  /** Raw path in tolerant mode: transactions missing from `transactions` */
+  parseWarnings?: BlockParseIssue[];
+};
+
+/** Unconfirmed transaction as seen in the mempool */
+export type MempoolTransaction = {
+  tx: ParsedTransaction;
+  /** Outpoints spent by the transaction ("txid:vout"), used to detect conflicting replacements */
+  spends: string[];
+  /** True when any input signals BIP125 opt-in replace-by-fee */
+  replaceable: boolean;
+};
+
+/** Minimal block identity used when walking the chain by height */
+export type BlockRef = {
+  height: number;
+  hash: string;
 };
 
 export type AddressActivity = {
@@ -47,18 +183,51 @@ export type AddressActivity = {
   valueUsd?: number;
   /** True when address appears in both inputs and outputs of the tx */
   hasBothSides?: boolean;
-  /** If the tx includes OP_RETURN outputs, echo best-effort data */
+  /** Outgoing activity: fee paid by the transaction and its rate in sat/vB, when known */
+  feeSats?: number;
+  feeRate?: number;
+  /** If the tx includes OP_RETURN outputs, echo best-effort data of the first one */
   opReturnHex?: string;
   opReturnUtf8?: string;
+  /** Every OP_RETURN output of the tx, in output order */
+  opReturns?: OpReturnOutput[];
+  /** Address derived from a watched extended public key: its label and the address's path */
+  xpubLabel?: string;
+  derivationPath?: string;
 };
 
+/** Chain backend (Bitcoin Core RPC or Esplora REST) behind the producer, pipeline and watchers */
 export interface BlockchainService {
   connect(): Promise<void>;
 
+  ping(): Promise<HealthResult>;
+
+  /** Current best chain height */
+  getTipHeight(): Promise<number>;
+
+  /** Resolves with the tip height once it exceeds sinceHeight (or the tip at call time) */
+  awaitNewHeight(sinceHeight?: number): Promise<number>;
+
   awaitNewBlock(sinceHeight?: number): Promise<ParsedBlock>;
 
+  /** Block hashes for an inclusive height range */
+  getBlockHashRange(fromHeight: number, toHeight: number): Promise<BlockRef[]>;
+
+  /** Lowest height whose median time past is at or after unixSeconds (tip + 1 when none) */
+  findHeightByTime(unixSeconds: number): Promise<number>;
+
   parseBlockByHash(blockHash: string): Promise<ParsedBlock>;
 
+  parseLatestBlockOnce(): Promise<ParsedBlock>;
+
+  getMempoolTxids(): Promise<string[]>;
+
+  /** Transactions that left the mempool in the meantime are skipped */
+  parseMempoolTransactions(txids: string[]): Promise<MempoolTransaction[]>;
+
+  /** Prebuild watch indexes; passing the same array to checkTransactions reuses them */
+  setWatchedAddresses(watched: WatchedAddress[]): void;
+
   checkTransactions(block: ParsedBlock, watched: WatchedAddress[]): AddressActivity[];
 }
 
@@ -1,10 +1,18 @@
-import type { AddressActivity, ParsedBlock } from "@/types/blockchain";
+import type { AddressActivity, BlockParseIssue, ParsedBlock } from "@/types/blockchain";
+
+/**
+ * Where a block-derived event originates. Absent means "live" (tip following);
+ * "backfill" marks historical re-scans so consumers can route or suppress them.
+ */
+export type EventSource = "live" | "backfill";
 
 export type BlockDetectedEvent = {
   type: "BlockDetected";
   timestamp: string;
   height: number;
   hash: string;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
   /** Deterministic key to enable at-least-once deduplication downstream */
   dedupeKey?: string;
   /** Canonical deterministic event id to prefer for idempotency */
@@ -15,6 +23,22 @@ export type BlockParsedEvent = {
   type: "BlockParsed";
   timestamp: string;
   block: ParsedBlock;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
+  /** Deterministic key to enable at-least-once deduplication downstream */
+  dedupeKey?: string;
+  /** Canonical deterministic event id to prefer for idempotency */
+  eventId?: string;
+};
+
+/** A block was parsed without some of its transactions (tolerant raw parsing) */
+export type BlockParseWarningEvent = {
+  type: "BlockParseWarning";
+  timestamp: string;
+  block: { hash: string; height: number };
+  issue: BlockParseIssue;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
   /** Deterministic key to enable at-least-once deduplication downstream */
   dedupeKey?: string;
   /** Canonical deterministic event id to prefer for idempotency */
@@ -26,6 +50,38 @@ export type AddressActivityFoundEvent = {
   timestamp: string;
   block: { hash: string; height: number; time: number };
   activity: AddressActivity;
+  /** eventId of the UnconfirmedActivityFound reported while the tx was in the mempool */
+  unconfirmedEventId?: string;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
+  /** Deterministic key to enable at-least-once deduplication downstream */
+  dedupeKey?: string;
+  /** Canonical deterministic event id to prefer for idempotency */
+  eventId?: string;
+};
+
+export type UnconfirmedActivityFoundEvent = {
+  type: "UnconfirmedActivityFound";
+  timestamp: string;
+  activity: AddressActivity;
+  /** True when any input signals BIP125 opt-in replace-by-fee */
+  replaceable: boolean;
+  /** Deterministic key to enable at-least-once deduplication downstream */
+  dedupeKey?: string;
+  /** Canonical deterministic event id to prefer for idempotency */
+  eventId?: string;
+};
+
+export type UnconfirmedActivityDroppedEvent = {
+  type: "UnconfirmedActivityDropped";
+  timestamp: string;
+  activity: AddressActivity;
+  /** "replaced": a conflicting tx (RBF) spent the same inputs; "evicted": left without a block */
+  reason: "evicted" | "replaced";
+  /** txid of the replacement when reason is "replaced" */
+  replacedBy?: string;
+  /** eventId of the UnconfirmedActivityFound being withdrawn */
+  unconfirmedEventId?: string;
   /** Deterministic key to enable at-least-once deduplication downstream */
   dedupeKey?: string;
   /** Canonical deterministic event id to prefer for idempotency */
@@ -58,12 +114,70 @@ export type BlockReorgEvent = {
   dedupeKey?: string;
 };
 
+export type AddressActivityRetractedEvent = {
+  type: "AddressActivityRetracted";
+  timestamp: string;
+  /** Orphaned block the activity was originally reported from */
+  block: { hash: string; height: number; time: number };
+  /** The activity exactly as it was reported in AddressActivityFound */
+  activity: AddressActivity;
+  /** Block hash that replaced the orphaned block at this height */
+  replacedBy: string;
+  /** eventId of the AddressActivityFound being retracted */
+  retractsEventId?: string;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
+  /** Deterministic key to enable at-least-once deduplication downstream */
+  dedupeKey?: string;
+  /** Canonical deterministic event id to prefer for idempotency */
+  eventId?: string;
+};
+
+export type ActivityConfirmedEvent = {
+  type: "ActivityConfirmed";
+  timestamp: string;
+  /** Block the activity was found in */
+  block: { hash: string; height: number; time: number };
+  activity: AddressActivity;
+  /** Confirmation depth threshold that was reached (tip in the activity block = 1) */
+  confirmations: number;
+  /** Chain height at which the threshold was observed */
+  tipHeight: number;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
+  /** Deterministic key to enable at-least-once deduplication downstream */
+  dedupeKey?: string;
+  /** Canonical deterministic event id to prefer for idempotency */
+  eventId?: string;
+};
+
+export type BlockProcessedEvent = {
+  type: "BlockProcessed";
+  timestamp: string;
+  /** Height of the block whose activities were all delivered to sinks */
+  height: number;
+  hash: string;
+  /** Number of AddressActivityFound events fanned out for this block */
+  activityCount: number;
+  /** Origin marker; absent for live events */
+  source?: EventSource;
+  /** Deterministic id for idempotency */
+  eventId?: string;
+  dedupeKey?: string;
+};
+
 export type DomainEvent =
   | BlockDetectedEvent
   | BlockParsedEvent
+  | BlockParseWarningEvent
   | AddressActivityFoundEvent
   | NotificationEmittedEvent
-  | BlockReorgEvent;
+  | BlockReorgEvent
+  | AddressActivityRetractedEvent
+  | ActivityConfirmedEvent
+  | UnconfirmedActivityFoundEvent
+  | UnconfirmedActivityDroppedEvent
+  | BlockProcessedEvent;
 
 export type DomainEventType = DomainEvent["type"];
 
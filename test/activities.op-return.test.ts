@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import type { ParsedBlock, WatchedAddress } from "@/types/blockchain";
+
+describe( "OP_RETURN outputs on activities", () => {
+  const block: ParsedBlock = {
+    hash: "blk_op",
+    height: 7,
+    time: Math.floor( Date.now() / 1000 ),
+    transactions: [
+      {
+        txid: "tx_op",
+        inputs: [],
+        outputs: [
+          {
+            valueBtc: 0,
+            scriptType: "nulldata",
+            opReturnDataHex: "6f6d6e69",
+            opReturnUtf8: "omni",
+            opReturnPushes: [ "6f6d6e69", "0001" ],
+          },
+          { address: "addrA", valueBtc: 0.25 },
+          {
+            valueBtc: 0,
+            scriptType: "nulldata",
+            opReturnDataHex: "7061792077616c6c65742062",
+            opReturnUtf8: "pay wallet b",
+            opReturnPushes: [ "0d", "7061792077616c6c65742062" ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const svc = new BitcoinService( {} as any, { parseRawBlocks: false } );
+
+  test( "every activity of the tx carries all OP_RETURN outputs in output order", () => {
+    const watched: WatchedAddress[] = [ { address: "addrA" } ];
+    const acts = svc.checkTransactions( block, watched );
+    expect( acts ).toHaveLength( 1 );
+    expect( acts[0] ).toMatchObject( {
+      address: "addrA",
+      valueBtc: 0.25,
+      opReturnHex: "6f6d6e69",
+      opReturnUtf8: "omni",
+    } );
+    expect( acts[0].opReturns ).toEqual( [
+      { vout: 0, dataHex: "6f6d6e69", utf8: "omni", pushes: [ "6f6d6e69", "0001" ] },
+      {
+        vout: 2,
+        dataHex: "7061792077616c6c65742062",
+        utf8: "pay wallet b",
+        pushes: [ "0d", "7061792077616c6c65742062" ],
+      },
+    ] );
+  } );
+
+  test( "labels are matched in any OP_RETURN output, not only the first", () => {
+    const watched: WatchedAddress[] = [ { address: "addrB", label: "Wallet B" } ];
+    const acts = svc.checkTransactions( block, watched );
+    expect( acts ).toHaveLength( 1 );
+    expect( acts[0] ).toMatchObject( { address: "addrB", direction: "in", valueBtc: 0 } );
+    expect( acts[0].opReturns ).toHaveLength( 2 );
+  } );
+} );
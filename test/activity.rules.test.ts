@@ -0,0 +1,212 @@
+import { describe, expect, it } from "bun:test";
+
+import { parseWatchFile } from "@/app/helpers/bitcoin";
+import { ActivityRules } from "@/app/services/ActivityRules";
+import { EventService } from "@/app/services/EventService";
+import { MempoolWatcher } from "@/app/services/MempoolWatcher";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import type { AddressActivity, ParsedBlock, WatchedAddress } from "@/types/blockchain";
+
+const ADDR = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+const OTHER = "1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH";
+
+function block(hash: string, time: number = 0): ParsedBlock {
+  return { hash, height: 1, time, transactions: [] };
+}
+
+function activity(txid: string, patch: Partial<AddressActivity> = {}): AddressActivity {
+  return { address: ADDR, txid, direction: "in", valueBtc: 1, ...patch };
+}
+
+describe( "Alert rules", () => {
+  it( "suppresses activities outside the value bounds and directions of their entry", () => {
+    const rules = new ActivityRules();
+    const watched: WatchedAddress[] = [
+      { address: ADDR, rules: { minBtc: 0.01, maxUsd: 50_000, direction: "in" } },
+      { address: OTHER },
+    ];
+    const { kept, suppressed } = rules.apply( block( "h1" ), [
+      activity( "ok", { valueUsd: 1000 } ),
+      activity( "dust", { valueBtc: 0.001 } ),
+      activity( "whale", { valueUsd: 60_000 } ),
+      activity( "spend", { direction: "out" } ),
+      // No rate: USD bounds are not checked
+      activity( "norate", { valueBtc: 2 } ),
+      activity( "unruled", { address: OTHER, valueBtc: 0.0001 } ),
+    ], watched );
+
+    expect( kept.map( (a) => a.txid ) ).toEqual( [ "ok", "norate", "unruled" ] );
+    expect( suppressed.map( (s) => [ s.activity.txid, s.reason ] ) ).toEqual( [
+      [ "dust", "below_min_btc" ],
+      [ "whale", "above_max_usd" ],
+      [ "spend", "direction" ],
+    ] );
+    expect( rules.getSuppressedCounts() ).toEqual( {
+      below_min_btc: 1,
+      above_max_usd: 1,
+      direction: 1,
+    } );
+  } );
+
+  it( "drops OP_RETURN label matches and notifies an address once per cooldown", () => {
+    const rules = new ActivityRules();
+    const watched: WatchedAddress[] = [ {
+      address: ADDR,
+      label: "shop",
+      rules: { ignoreOpReturnLabelMatches: true, cooldownSec: 60 },
+    } ];
+    const first = rules.apply( block( "h1" ), [
+      activity( "t1" ),
+      activity( "label", { valueBtc: 0 } ),
+      activity( "t2" ),
+    ], watched );
+    expect( first.kept.map( (a) => a.txid ) ).toEqual( [ "t1" ] );
+    expect( first.suppressed.map( (s) => s.reason ) ).toEqual( [ "op_return_label", "cooldown" ] );
+
+    // A retried block keeps what it published the first time, and so does its reorged tx
+    const kept = (b: ParsedBlock, txid: string) => {
+      return rules.apply( b, [ activity( txid ) ], watched ).kept;
+    };
+    expect( kept( block( "h1" ), "t1" ) ).toHaveLength( 1 );
+    expect( kept( block( "h1b", 30 ), "t1" ) ).toHaveLength( 1 );
+    expect( kept( block( "h2", 30 ), "t3" ) ).toHaveLength( 0 );
+    expect( kept( block( "h3", 61 ), "t4" ) ).toHaveLength( 1 );
+    expect( rules.getSuppressedCounts() ).toEqual( { op_return_label: 1, cooldown: 2 } );
+  } );
+
+  it( "measures cooldowns in block time, and in wall time for the mempool", () => {
+    let now = 0;
+    const rules = new ActivityRules( { now: () => now } );
+    const watched: WatchedAddress[] = [
+      { address: ADDR, rules: { cooldownSec: 3600 } },
+      { address: OTHER, rules: { cooldownSec: 3600 } },
+    ];
+    const kept = (b: ParsedBlock, a: AddressActivity) => rules.apply( b, [ a ], watched ).kept;
+    // A backfill replays blocks hours apart within seconds
+    expect( kept( block( "h1", 0 ), activity( "t1" ) ) ).toHaveLength( 1 );
+    now = 2000;
+    expect( kept( block( "h2", 4 * 3600 ), activity( "t2" ) ) ).toHaveLength( 1 );
+    expect( kept( block( "h3", 4 * 3600 + 60 ), activity( "t3" ) ) ).toHaveLength( 0 );
+
+    // The mempool pseudo-block carries no chain time
+    const mempool = block( "mempool", 0 );
+    expect( kept( mempool, activity( "m1", { address: OTHER } ) ) ).toHaveLength( 1 );
+    now = 3000;
+    expect( kept( mempool, activity( "m2", { address: OTHER } ) ) ).toHaveLength( 0 );
+    now = 3_603_000;
+    expect( kept( mempool, activity( "m3", { address: OTHER } ) ) ).toHaveLength( 1 );
+  } );
+
+  it( "reads and validates rules from the watch file", () => {
+    const file = parseWatchFile( [
+      { address: ADDR, label: "hot", rules: { minUsd: 100, direction: "out" } },
+      { address: OTHER },
+    ], "mainnet" );
+    expect( file?.watch ).toEqual( [
+      { address: ADDR, label: "hot", rules: { minUsd: 100, direction: "out" } },
+      { address: OTHER, label: undefined },
+    ] );
+    const invalid = [
+      { minBtc: -1 },
+      { minBtc: 2, maxBtc: 1 },
+      { direction: "sideways" },
+      { cooldownSec: "60" },
+    ];
+    for ( const rules of invalid ) {
+      expect( () => parseWatchFile( [ { address: ADDR, rules } ], "mainnet" ) ).toThrow( /rule/ );
+    }
+  } );
+
+  it( "publishes only the activities that pass the rules", async () => {
+    const events = new EventService( { maxQueueSize: 10 } );
+    const btc = {
+      checkTransactions() {
+        return [ activity( "big", { valueBtc: 1 } ), activity( "dust", { valueBtc: 0.00001 } ) ];
+      },
+    };
+    const currency = {
+      async getPair() {
+        return { rate: 1000 } as any;
+      },
+    };
+    const cfg = {
+      watch: [ { address: ADDR, rules: { minUsd: 1 } } ],
+      worker: { id: "w1", members: [ "w1" ] },
+    } as any;
+    // Suppressed activities are linked too, so the mempool does not report them dropped
+    const linked: string[] = [];
+    const mempool = {
+      linkConfirmed(a: AddressActivity) {
+        linked.push( a.txid );
+        return `UnconfirmedActivity:${ a.txid }`;
+      },
+    };
+    const published: [ string, number | undefined, string | undefined ][] = [];
+    let processed = -1;
+    events.subscribe( {
+      event: "AddressActivityFound",
+      handler: (ev) => {
+        published.push( [ ev.activity.txid, ev.activity.valueUsd, ev.unconfirmedEventId ] );
+      },
+    } );
+    events.subscribe( {
+      event: "BlockProcessed",
+      handler: (ev) => {
+        processed = ev.activityCount;
+      },
+    } );
+    registerEventPipeline( events, { btc: btc as any, currency: currency as any, mempool }, cfg );
+
+    await events.publish( {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: 1,
+      hash: "H",
+      dedupeKey: "BlockDetected:1:H",
+    } );
+    await new Promise( (r) => setTimeout( r, 50 ) );
+    expect( published ).toEqual( [ [ "big", 1000, "UnconfirmedActivity:big" ] ] );
+    expect( linked ).toEqual( [ "big", "dust" ] );
+    expect( processed ).toBe( 1 );
+  } );
+
+  it( "applies the rules to mempool activity", async () => {
+    const events = new EventService( { maxQueueSize: 10 } );
+    const btc = {
+      async getMempoolTxids() {
+        return [ "big", "dust" ];
+      },
+      async getTipHeight() {
+        return 100;
+      },
+      async parseMempoolTransactions(txids: string[]) {
+        return txids.map( (txid) => ({
+          tx: { txid, inputs: [], outputs: [] },
+          spends: [ `${ txid }:0` ],
+          replaceable: false,
+        }) );
+      },
+      checkTransactions(b: ParsedBlock) {
+        const txid = b.transactions[0].txid;
+        return [ activity( txid, { valueBtc: txid === "dust" ? 0.00001 : 1 } ) ];
+      },
+    };
+    const rules = new ActivityRules();
+    const watched: WatchedAddress[] = [ { address: ADDR, rules: { minBtc: 0.001 } } ];
+    const seen: string[] = [];
+    events.subscribe( {
+      event: "UnconfirmedActivityFound",
+      handler: (ev) => {
+        seen.push( ev.activity.txid );
+      },
+    } );
+    const watcher = new MempoolWatcher( btc as any, events, watched, { rules } );
+
+    await watcher.pollOnce();
+    await new Promise( (r) => setTimeout( r, 10 ) );
+    expect( seen ).toEqual( [ "big" ] );
+    expect( rules.getSuppressedCounts() ).toEqual( { below_min_btc: 1 } );
+    // Not tracked: its confirmation has nothing to link
+    expect( watcher.linkConfirmed( activity( "dust" ) ) ).toBeUndefined();
+  } );
+} );
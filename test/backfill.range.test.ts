@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { parseBackfillArgs } from "@/app/helpers/backfill";
+import { BackfillService } from "@/app/services/BackfillService";
+import { EventService } from "@/app/services/EventService";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import type { BlockRef, ParsedBlock } from "@/types/blockchain";
+
+function tmpFile(): string {
+  const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-backfill-" ) );
+  return path.join( dir, "backfill.json" );
+}
+
+// Chain of 30 blocks; block h has median time 1000 + 10h and one watched output
+function makeFakeBtc(opts?: { delayFor?: (h: number) => number }) {
+  const fetched: number[] = [];
+  return {
+    fetched,
+    async getTipHeight(): Promise<number> {
+      return 29;
+    },
+    async findHeightByTime(ts: number): Promise<number> {
+      let h = 0;
+      while ( h < 30 && 1000 + 10 * h < ts ) h++;
+      return h;
+    },
+    async getBlockHashRange(from: number, to: number): Promise<BlockRef[]> {
+      const out: BlockRef[] = [];
+      for ( let h = from; h <= to; h++ ) out.push( { height: h, hash: `h${ h }` } );
+      return out;
+    },
+    async parseBlockByHash(hash: string): Promise<ParsedBlock> {
+      const height = Number( hash.slice( 1 ) );
+      fetched.push( height );
+      await new Promise( (r) => setTimeout( r, opts?.delayFor?.( height ) ?? 0 ) );
+      return { hash, height, time: 1000 + 10 * height, transactions: [] };
+    },
+    checkTransactions(block: ParsedBlock) {
+      const txid = `t${ block.height }`;
+      return [ { address: "a1", txid, direction: "in", valueBtc: 1 } ] as any[];
+    },
+  };
+}
+
+function setup(btc: ReturnType<typeof makeFakeBtc>) {
+  const events = new EventService( { maxQueueSize: 100 } );
+  const currency = { async getPair() { return { rate: 1 } as any; } };
+  const cfg = {
+    watch: [],
+    worker: { id: "w1", members: [ "w1" ] },
+    sinks: { enabled: [] },
+    maxEventQueueSize: 100,
+  } as any;
+  registerEventPipeline( events, { btc: btc as any, currency: currency as any }, cfg );
+  return events;
+}
+
+describe( "Backfill", () => {
+  it( "parses height, unix time and date bounds", () => {
+    const args = parseBackfillArgs(
+      [ "--from", "800000", "--to=2024-01-01T00:00:00Z", "--fresh" ]
+    );
+    expect( args.from ).toEqual( { kind: "height", height: 800000 } );
+    expect( args.to ).toEqual( { kind: "time", unixSeconds: 1704067200 } );
+    expect( args.fresh ).toBe( true );
+    expect( parseBackfillArgs( [ "--from", "1704067200" ] ).from )
+      .toEqual( { kind: "time", unixSeconds: 1704067200 } );
+    expect( () => parseBackfillArgs( [ "--to", "5" ] ) ).toThrow( "--from" );
+    expect( () => parseBackfillArgs( [ "--from", "1", "--concurrency", "0" ] ) ).toThrow();
+  } );
+
+  it( "resolves time bounds to heights by median time", async () => {
+    const btc = makeFakeBtc();
+    const backfill = new BackfillService( btc as any, setup( btc ) );
+    const range = await backfill.resolveRange(
+      { kind: "time", unixSeconds: 1050 },
+      { kind: "time", unixSeconds: 1105 }
+    );
+    expect( range ).toEqual( { fromHeight: 5, toHeight: 10 } );
+    expect( await backfill.resolveRange( { kind: "height", height: 25 } ) )
+      .toEqual( { fromHeight: 25, toHeight: 29 } );
+  } );
+
+  it( "fetches in parallel but emits backfill-marked events in height order", async () => {
+    // earlier blocks are slower so parallel fetches complete out of order
+    const btc = makeFakeBtc( { delayFor: (h) => (h % 3 === 0 ? 15 : 1) } );
+    const events = setup( btc );
+    const activities: Array<{ height: number; source?: string }> = [];
+    events.subscribe( {
+      event: "AddressActivityFound", handler: (e) => {
+        activities.push( { height: e.block.height, source: e.source } );
+      }
+    } );
+    const checkpointFile = tmpFile();
+    const backfill = new BackfillService( btc as any, events, {
+      concurrency: 3,
+      checkpointFile,
+    } );
+
+    const summary = await backfill.run( { fromHeight: 3, toHeight: 9 } );
+
+    expect( summary ).toMatchObject( { startHeight: 3, blocks: 7, activities: 7, complete: true } );
+    expect( activities.map( (a) => a.height ) ).toEqual( [ 3, 4, 5, 6, 7, 8, 9 ] );
+    expect( activities.every( (a) => a.source === "backfill" ) ).toBe( true );
+    const stored = JSON.parse( fs.readFileSync( checkpointFile, "utf-8" ) );
+    expect( stored.height ).toBe( 9 );
+  } );
+
+  it( "resumes after the last processed height from the range checkpoint", async () => {
+    const checkpointFile = tmpFile();
+    fs.writeFileSync( checkpointFile, JSON.stringify( {
+      version: 1,
+      height: 6,
+      hash: "h6",
+      updatedAt: "",
+      recent: [ { height: 5, hash: "h5" }, { height: 6, hash: "h6" } ],
+    } ) );
+    const btc = makeFakeBtc();
+    const backfill = new BackfillService( btc as any, setup( btc ), { checkpointFile } );
+
+    const summary = await backfill.run( { fromHeight: 3, toHeight: 9 } );
+
+    expect( summary ).toMatchObject( { startHeight: 7, blocks: 3, complete: true } );
+    expect( btc.fetched ).toEqual( [ 7, 8, 9 ] );
+
+    // --fresh ignores stored progress and replays the whole range
+    const again = makeFakeBtc();
+    const fresh = new BackfillService( again as any, setup( again ), {
+      checkpointFile,
+      fresh: true,
+    } );
+    expect( (await fresh.run( { fromHeight: 3, toHeight: 9 } )).blocks ).toBe( 7 );
+  } );
+} );
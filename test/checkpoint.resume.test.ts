@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { EventService } from "@/app/services/EventService";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import { ScanCheckpointService } from "@/app/services/ScanCheckpointService";
+import type { BlockRef } from "@/types/blockchain";
+
+function tmpFile(): string {
+  const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-checkpoint-" ) );
+  return path.join( dir, "checkpoint.json" );
+}
+
+function fakeChain(hashes: Record<number, string>, tip: number) {
+  return {
+    async getTipHeight(): Promise<number> {
+      return tip;
+    },
+    async getBlockHashRange(from: number, to: number): Promise<BlockRef[]> {
+      const out: BlockRef[] = [];
+      for ( let h = from; h <= to; h++ ) out.push( { height: h, hash: hashes[h] } );
+      return out;
+    },
+  };
+}
+
+describe( "Scan checkpoint", () => {
+  it( "persists contiguous commits and reloads them", () => {
+    const filePath = tmpFile();
+    const cp = new ScanCheckpointService( { filePath, historySize: 3 } );
+    expect( cp.commit( { height: 10, hash: "a" } ) ).toBe( true );
+    expect( cp.commit( { height: 11, hash: "b" } ) ).toBe( true );
+    // gaps and replays never move the cursor
+    expect( cp.commit( { height: 13, hash: "d" } ) ).toBe( false );
+    expect( cp.commit( { height: 11, hash: "b" } ) ).toBe( false );
+    expect( cp.commit( { height: 12, hash: "c" } ) ).toBe( true );
+    expect( cp.commit( { height: 13, hash: "d" } ) ).toBe( true );
+
+    const reloaded = new ScanCheckpointService( { filePath, historySize: 3 } ).getCheckpoint();
+    expect( reloaded?.height ).toBe( 13 );
+    expect( reloaded?.hash ).toBe( "d" );
+    expect( reloaded?.recent.map( (r) => r.height ) ).toEqual( [ 11, 12, 13 ] );
+    expect( fs.readdirSync( path.dirname( filePath ) ) ).toEqual( [ "checkpoint.json" ] );
+  } );
+
+  it( "resumes at the stored block when it is still on the best chain", async () => {
+    const cp = new ScanCheckpointService( { filePath: tmpFile() } );
+    cp.commit( { height: 10, hash: "a" } );
+    cp.commit( { height: 11, hash: "b" } );
+    const point = await cp.resolveResumePoint( fakeChain( { 10: "a", 11: "b" }, 15 ) );
+    expect( point ).toEqual( { height: 11, hash: "b", orphaned: [] } );
+  } );
+
+  it( "detects a reorged checkpoint and rewinds to the fork point", async () => {
+    const cp = new ScanCheckpointService( { filePath: tmpFile() } );
+    cp.commit( { height: 10, hash: "a" } );
+    cp.commit( { height: 11, hash: "b" } );
+    cp.commit( { height: 12, hash: "c" } );
+    const point = await cp.resolveResumePoint( fakeChain( { 10: "a", 11: "b2", 12: "c2" }, 14 ) );
+    expect( point?.height ).toBe( 10 );
+    expect( point?.hash ).toBe( "a" );
+    expect( point?.orphaned ).toEqual( [
+      { height: 11, oldHash: "b", newHash: "b2" },
+      { height: 12, oldHash: "c", newHash: "c2" },
+    ] );
+    // the next block on the new branch is accepted
+    expect( cp.commit( { height: 11, hash: "b2" } ) ).toBe( true );
+  } );
+
+  it( "pipeline emits BlockProcessed after all activities are fanned out", async () => {
+    const events = new EventService( { maxQueueSize: 10 } );
+    const btc = {
+      checkTransactions() {
+        return [
+          { address: "a1", txid: "t1", direction: "in", valueBtc: 1 },
+          { address: "a2", txid: "t2", direction: "in", valueBtc: 2 },
+        ] as any[];
+      },
+    };
+    const currency = { async getPair() { return { rate: 1 } as any; } };
+    const sinkFile = path.join( path.dirname( tmpFile() ), "events.jsonl" );
+    const cfg = {
+      watch: [],
+      worker: { id: "w1", members: [ "w1" ] },
+      sinks: { enabled: [ "file" ], file: { path: sinkFile } },
+    } as any;
+    const order: string[] = [];
+    events.subscribe( {
+      event: "NotificationEmitted", handler: () => {
+        order.push( "notification" );
+      }
+    } );
+    events.subscribe( {
+      event: "BlockProcessed", handler: (e) => {
+        order.push( `processed:${ e.height }:${ e.activityCount }` );
+      }
+    } );
+    registerEventPipeline( events, { btc: btc as any, currency: currency as any }, cfg );
+    await events.publish( {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: 7,
+      hash: "H7",
+    } );
+    await new Promise( (r) => setTimeout( r, 50 ) );
+    expect( order ).toEqual( [ "notification", "notification", "processed:7:2" ] );
+    expect( fs.readFileSync( sinkFile, "utf-8" ).trim().split( "\n" ) ).toHaveLength( 2 );
+  } );
+} );
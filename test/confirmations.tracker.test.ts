@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { ConfirmationTracker } from "@/app/services/ConfirmationTracker";
+import { EventService } from "@/app/services/EventService";
+import type { AddressActivityFoundEvent } from "@/types/events";
+
+function tmpFile(): string {
+  const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-confirmations-" ) );
+  return path.join( dir, "confirmations.json" );
+}
+
+function found(height: number, hash: string, txid: string): AddressActivityFoundEvent {
+  return {
+    type: "AddressActivityFound",
+    timestamp: new Date().toISOString(),
+    block: { hash, height, time: 0 },
+    activity: { address: "addr", txid, direction: "in", valueBtc: 1 },
+    eventId: `AddressActivity:${ height }:${ hash }:addr:${ txid }:in`,
+  };
+}
+
+function detected(height: number) {
+  return {
+    type: "BlockDetected" as const,
+    timestamp: new Date().toISOString(),
+    height,
+    hash: `h${ height }`,
+  };
+}
+
+function setup(filePath: string) {
+  const events = new EventService( { maxQueueSize: 100 } );
+  const confirmed: string[] = [];
+  events.subscribe( {
+    event: "ActivityConfirmed", handler: (e) => {
+      confirmed.push( `${ e.activity.txid }@${ e.confirmations }` );
+    }
+  } );
+  const tracker = new ConfirmationTracker( events, { thresholds: [ 1, 3, 6 ], filePath } );
+  return { events, confirmed, tracker };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise( (r) => setTimeout( r, ms ) );
+}
+
+describe( "Confirmation tracker", () => {
+  it( "publishes each threshold once as the chain grows and forgets settled activity", async () => {
+    const { events, confirmed, tracker } = setup( tmpFile() );
+    await events.publish( found( 100, "h100", "t1" ) );
+    await wait( 10 );
+    expect( confirmed ).toEqual( [ "t1@1" ] );
+
+    await events.publish( detected( 101 ) );
+    await events.publish( detected( 102 ) );
+    await wait( 10 );
+    expect( confirmed ).toEqual( [ "t1@1", "t1@3" ] );
+
+    // a jump past the last threshold publishes it once and drops the activity
+    await events.publish( detected( 110 ) );
+    await events.publish( detected( 111 ) );
+    await wait( 10 );
+    expect( confirmed ).toEqual( [ "t1@1", "t1@3", "t1@6" ] );
+    expect( tracker.getPending() ).toEqual( [] );
+  } );
+
+  it( "continues from persisted state after a restart", async () => {
+    const filePath = tmpFile();
+    const first = setup( filePath );
+    await first.events.publish( found( 200, "h200", "t2" ) );
+    await first.events.publish( detected( 201 ) );
+    await wait( 10 );
+    expect( first.confirmed ).toEqual( [ "t2@1" ] );
+
+    const second = setup( filePath );
+    expect( second.tracker.getTipHeight() ).toBe( 201 );
+    expect( second.tracker.getPending().map( (p) => p.reached ) ).toEqual( [ [ 1 ] ] );
+    await second.events.publish( detected( 202 ) );
+    await wait( 10 );
+    expect( second.confirmed ).toEqual( [ "t2@3" ] );
+  } );
+
+  it( "drops activities of reorged blocks", async () => {
+    const { events, confirmed, tracker } = setup( tmpFile() );
+    await events.publish( found( 300, "h300", "t3" ) );
+    await events.publish( found( 299, "h299", "t4" ) );
+    await wait( 10 );
+    await events.publish( {
+      type: "BlockReorg",
+      timestamp: new Date().toISOString(),
+      height: 300,
+      oldHash: "h300",
+      newHash: "x300",
+    } );
+    await wait( 10 );
+    expect( tracker.getPending().map( (p) => p.activity.txid ) ).toEqual( [ "t4" ] );
+
+    await events.publish( detected( 300 ) );
+    await events.publish( detected( 301 ) );
+    await wait( 10 );
+    expect( confirmed.filter( (c) => c.startsWith( "t3" ) ) ).toEqual( [ "t3@1" ] );
+    expect( confirmed ).toContain( "t4@3" );
+  } );
+} );
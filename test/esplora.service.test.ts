@@ -0,0 +1,127 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { EsploraService } from "@/app/services/EsploraService";
+import { EsploraClient, Raw } from "@/infrastructure/bitcoin";
+
+function p2wpkh(fill: number): { spk: string; address: string } {
+  const spk = `0014${ fill.toString( 16 ).padStart( 2, "0" ).repeat( 20 ) }`;
+  const { address } = Raw.decodeScriptPubKey( Buffer.from( spk, "hex" ), "regtest" );
+  return { spk, address: address as string };
+}
+
+const watched = p2wpkh( 0xaa );
+const other = p2wpkh( 0xbb );
+const hash = "ab".repeat( 32 );
+
+function out(to: { spk: string; address: string }, sats: number) {
+  return { scriptpubkey: to.spk, scriptpubkey_address: to.address, value: sats };
+}
+
+// 30 transactions: two /txs pages. #27 spends 1 BTC of the watched address, pays 0.4 back and
+// 0.599977 to another address (2300 sats fee at 561 WU), #28 carries OP_RETURN "hi"
+const txs = Array.from( { length: 30 }, (_, i) => {
+  const txid = i.toString( 16 ).padStart( 64, "0" );
+  if ( i === 0 ) {
+    const coinbase = { txid: "0".repeat( 64 ), vout: 0xffffffff, is_coinbase: true, sequence: 0 };
+    return { txid, vin: [ { ...coinbase, prevout: null } ], vout: [ out( other, 312_500_000 ) ] };
+  }
+  const prevout = i === 27 ? out( watched, 100_000_000 ) : out( other, 10_000 );
+  const vin = [ { txid: "ee".repeat( 32 ), vout: i, is_coinbase: false, sequence: 0xffffffff } ];
+  const vout = [ out( i === 27 ? watched : other, i === 27 ? 40_000_000 : 9_000 ) ];
+  if ( i === 27 ) vout.push( out( other, 59_997_700 ) );
+  if ( i === 28 ) vout.push( { scriptpubkey: "6a026869", scriptpubkey_address: "", value: 0 } );
+  const stats = i === 27 ? { version: 2, locktime: 0, weight: 561, fee: 2300 } : {};
+  return { txid, vin: vin.map( (v) => ({ ...v, prevout }) ), vout, ...stats };
+} );
+
+const hits: string[] = [];
+const server = Bun.serve( {
+  port: 0,
+  fetch(req) {
+    const path = new URL( req.url ).pathname;
+    hits.push( path );
+    if ( path === "/blocks/tip/height" ) return new Response( "120" );
+    const byHeight = /^\/block-height\/(\d+)$/.exec( path );
+    if ( byHeight ) return new Response( `hash-${ byHeight[1] }` );
+    if ( path === `/block/${ hash }` ) {
+      return Response.json( {
+        id: hash,
+        height: 120,
+        timestamp: 1700000000,
+        previousblockhash: "cd".repeat( 32 ),
+        tx_count: txs.length,
+      } );
+    }
+    const page = new RegExp( `^/block/${ hash }/txs/(\\d+)$` ).exec( path );
+    if ( page ) {
+      const start = Number( page[1] );
+      return Response.json( txs.slice( start, start + 25 ) );
+    }
+    return new Response( "not found", { status: 404 } );
+  },
+} );
+
+afterAll( () => server.stop( true ) );
+
+describe( "Esplora backend", () => {
+  const client = new EsploraClient( { baseUrl: `http://127.0.0.1:${ server.port }/` } );
+
+  it( "reads the tip and resolves block hashes by height", async () => {
+    const btc = new EsploraService( client, { network: "regtest" } );
+    expect( await btc.getTipHeight() ).toBe( 120 );
+    expect( await btc.getBlockHashRange( 3, 5 ) ).toEqual( [
+      { height: 3, hash: "hash-3" },
+      { height: 4, hash: "hash-4" },
+      { height: 5, hash: "hash-5" },
+    ] );
+  } );
+
+  it( "builds the ParsedBlock from paged /txs with prevout-resolved inputs", async () => {
+    hits.length = 0;
+    const btc = new EsploraService( client, { network: "regtest", resolveInputAddresses: true } );
+    const block = await btc.parseBlockByHash( hash );
+    expect( hits.filter( (p) => p.includes( "/txs/" ) ) ).toEqual( [
+      `/block/${ hash }/txs/0`,
+      `/block/${ hash }/txs/25`,
+    ] );
+    const prevHash = "cd".repeat( 32 );
+    expect( block ).toMatchObject( { hash, height: 120, time: 1700000000, prevHash } );
+    expect( block.transactions ).toHaveLength( 30 );
+    expect( block.transactions[0].inputs ).toEqual( [ {} ] );
+    const spent = block.transactions[27];
+    expect( spent.inputs ).toEqual( [ { address: watched.address, valueBtc: 1 } ] );
+    expect( spent.outputs[0] ).toMatchObject( {
+      address: watched.address,
+      valueBtc: 0.4,
+      scriptType: "witness_v0_keyhash",
+    } );
+    expect( block.transactions[28].outputs[1] ).toMatchObject( {
+      scriptType: "nulldata",
+      opReturnDataHex: "6869",
+      opReturnUtf8: "hi",
+    } );
+
+    const list = [ { address: watched.address, label: "hot" } ];
+    const activities = btc.checkTransactions( block, list );
+    expect( activities ).toEqual( [ {
+      address: watched.address,
+      label: "hot",
+      txid: txs[27].txid,
+      direction: "out",
+      valueBtc: 0.6,
+      hasBothSides: true,
+      feeSats: 2300,
+      feeRate: 16.31,
+    } ] );
+    expect( spent ).toMatchObject( { version: 2, locktime: 0, weight: 561, vsize: 141 } );
+    expect( spent.replaceable ).toBe( false );
+  } );
+
+  it( "leaves inputs unresolved unless enabled, like the RPC backend", async () => {
+    const btc = new EsploraService( client, { network: "regtest" } );
+    const block = await btc.parseBlockByHash( hash );
+    expect( block.transactions[27].inputs ).toEqual( [] );
+    const activities = btc.checkTransactions( block, [ { address: watched.address } ] );
+    expect( activities.map( (a) => [ a.direction, a.valueBtc ] ) ).toEqual( [ [ "in", 0.4 ] ] );
+  } );
+} );
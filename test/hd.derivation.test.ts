@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+
+import { Hd } from "@/infrastructure/bitcoin";
+
+// BIP84 test vector account m/84'/0'/0'
+const BIP84_ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+// BIP32 test vector 1, chain m/0H
+const BIP32_M_0H =
+  "xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw";
+// BIP49 test vector account m/49'/1'/0'
+const BIP49_UPUB =
+  "upub5EFU65HtV5TeiSHmZZm7FUffBGy8UKeqp7vw43jYbvZPpoVsgU93oac7Wk3u6moKegAEWtGNF8DehrnHtv21XXEMYRUocHqguyjknFHYfgY";
+
+function addressAt(encoded: string, path: number[], type?: Hd.HdScriptType): string {
+  const network = encoded.startsWith( "upub" ) ? "testnet" : "mainnet";
+  let key: Hd.ExtendedPublicKey | undefined = Hd.parseExtendedPublicKey( encoded, network );
+  for ( const index of path ) key = key && Hd.deriveChild( key, index );
+  if ( !key ) throw new Error( "invalid derivation" );
+  return Hd.hdAddress( key.publicKey, type ?? Hd.defaultScriptType( key.prefix ), network );
+}
+
+describe( "BIP32 public derivation", () => {
+  it( "derives the BIP32 vector 1 child m/0H/1", () => {
+    const parent = Hd.parseExtendedPublicKey( BIP32_M_0H, "mainnet" );
+    const child = Hd.deriveChild( parent, 1 );
+    expect( child?.publicKey.toString( "hex" ) ).toBe(
+      "03501e454bf00751f24b1b489aa925215d66af2234e3891c3b21a52bedb3cd711c"
+    );
+    expect( child?.chainCode.toString( "hex" ) ).toBe(
+      "2a7857631386ba23dacac34180dd1983734e444fdbf774041578e9b6adb37c19"
+    );
+    expect( child?.depth ).toBe( 2 );
+    expect( child?.parentFingerprint ).toBe( Hd.fingerprint( parent.publicKey ) );
+  } );
+
+  it( "derives BIP84 receive and change addresses", () => {
+    expect( [ [ 0, 0 ], [ 0, 1 ], [ 1, 0 ] ].map( (p) => addressAt( BIP84_ZPUB, p ) ) ).toEqual( [
+      "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+      "bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g",
+      "bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el",
+    ] );
+  } );
+
+  it( "derives BIP49 nested segwit addresses", () => {
+    expect( addressAt( BIP49_UPUB, [ 0, 0 ] ) ).toBe( "2Mww8dCYPUpKHofjgcXcBCEGmniw9CoaiD2" );
+  } );
+
+  it( "tweaks BIP86 taproot output keys", () => {
+    const internal = Buffer.from(
+      "02cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115",
+      "hex"
+    );
+    expect( Hd.taprootOutputKey( internal ).toString( "hex" ) ).toBe(
+      "a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c"
+    );
+    expect( Hd.hdAddress( internal, "bip86", "mainnet" ) ).toBe(
+      "bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr"
+    );
+  } );
+
+  it( "rejects keys for another network, bad checksums and hardened indexes", () => {
+    expect( () => Hd.parseExtendedPublicKey( BIP84_ZPUB, "testnet" ) ).toThrow( /network/ );
+    const corrupted = `${ BIP84_ZPUB.slice( 0, -1 ) }t`;
+    expect( () => Hd.parseExtendedPublicKey( corrupted ) ).toThrow( /checksum/ );
+    const key = Hd.parseExtendedPublicKey( BIP84_ZPUB );
+    expect( () => Hd.deriveChild( key, 0x80000000 ) ).toThrow( /hardened/ );
+  } );
+} );
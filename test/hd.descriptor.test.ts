@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+
+import { Hd } from "@/infrastructure/bitcoin";
+
+// BIP380 checksum vector
+const PKH_XPUB =
+  "pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)";
+// BIP84 test vector account m/84'/0'/0'
+const ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+const G = "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+
+function spk(text: string, index?: number, branch?: number): string | undefined {
+  const desc = Hd.parseDescriptor( text, "mainnet" );
+  return Hd.descriptorScriptPubKey( desc, index, branch )?.toString( "hex" );
+}
+
+describe( "output descriptors", () => {
+  it( "computes and checks BIP380 checksums", () => {
+    expect( Hd.descriptorChecksum( "raw(deadbeef)" ) ).toBe( "89f8spxm" );
+    expect( Hd.descriptorChecksum( PKH_XPUB ) ).toBe( "ml40v0wf" );
+    expect( Hd.parseDescriptor( "raw(deadbeef)#89f8spxm", "mainnet" ).checksum ).toBe( "89f8spxm" );
+    expect( () => Hd.parseDescriptor( "raw(deadbeef)#89f8spxn", "mainnet" ) ).toThrow( /checksum/ );
+  } );
+
+  it( "expands ranged descriptors with their key origin paths", () => {
+    const desc = Hd.parseDescriptor( `${ PKH_XPUB }#ml40v0wf`, "mainnet" );
+    expect( desc.ranged ).toBe( true );
+    expect( Hd.descriptorAddress( desc, "mainnet", 0 ) ).toBe(
+      "14qCH92HCyDDBFFZdhDt1WMfrMDYnBFYMF"
+    );
+    expect( Hd.descriptorKeyPath( desc, 5 ) ).toBe( "m/44'/0'/0'/1/5" );
+
+    // Multipath: branch 1 is the change chain
+    const multi = Hd.parseDescriptor( `wpkh(${ ZPUB }/<0;1>/*)`, "mainnet" );
+    expect( multi.branches ).toBe( 2 );
+    expect( Hd.descriptorAddress( multi, "mainnet", 0, 1 ) ).toBe(
+      "bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el"
+    );
+  } );
+
+  it( "builds segwit, multisig and taproot scripts", () => {
+    expect( spk( `wpkh(${ G })` ) ).toBe( "0014751e76e8199196d454941c45d1b3a323f1433bd6" );
+    expect( spk(
+      "sh(multi(2,022f01e5e15cca351daff3843fb70f3c2f0a1bdd05e5af888a67784ef3e10a2a01," +
+      "03acd484e2f0c7f65309ad178a9f559abde09796974c57e714c35f110dfc27ccbe))"
+    ) ).toBe( "a914a6a8b030a38762f4c1f5cbe387b61a3c5da5cd2687" );
+    // BIP386 vectors: key path only, and with a single script leaf
+    expect( spk( "tr(d6889cb081036e0faefa3a35157ad71086b123b2b144b649798b494c300a961d)" ) ).toBe(
+      "512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343"
+    );
+    expect( spk(
+      "tr(187791b6f712a8ea41c8ecdd0ee77fab3e85263b37e1ec18a3651926b3a6cf27," +
+      "pk(d85a959b0290bf19bb89ed43c916be835475d013da4b362117393e25a48229b8))"
+    ) ).toBe( "5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3" );
+  } );
+
+  it( "rejects private keys, hardened steps and scripts without an address", () => {
+    const wif = "L4rK1yDtCWekvXuE6oXD9jCYfFNV2cWRpVuPLBcCU2z8TrisoyY1";
+    expect( () => Hd.parseDescriptor( `wpkh(${ wif })`, "mainnet" ) ).toThrow( /Private keys/ );
+    expect( () => Hd.parseDescriptor( `wpkh(${ ZPUB }/0h/*)`, "mainnet" ) ).toThrow( /Hardened/ );
+    expect( () => Hd.parseDescriptor( `wpkh(${ ZPUB }/0/*)`, "testnet" ) ).toThrow( /network/ );
+    const bare = Hd.parseDescriptor( `pk(${ G })`, "mainnet" );
+    expect( () => Hd.descriptorAddress( bare, "mainnet" ) ).toThrow( /no address/ );
+  } );
+} );
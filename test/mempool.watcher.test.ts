@@ -0,0 +1,125 @@
+import { describe, expect, it } from "bun:test";
+
+import { EventService } from "@/app/services/EventService";
+import { MempoolWatcher } from "@/app/services/MempoolWatcher";
+import type { MempoolTransaction, ParsedBlock } from "@/types/blockchain";
+
+// Fake node mempool: txs[txid] lists the outpoints a transaction spends
+function makeFakeMempool() {
+  const state = {
+    tip: 100,
+    mempool: [] as string[],
+    txs: new Map<string, { spends: string[]; replaceable: boolean }>(),
+  };
+  return {
+    state,
+    async getMempoolTxids(): Promise<string[]> {
+      return state.mempool.slice();
+    },
+    async getTipHeight(): Promise<number> {
+      return state.tip;
+    },
+    async parseMempoolTransactions(txids: string[]): Promise<MempoolTransaction[]> {
+      return txids.map( (txid) => {
+        const t = state.txs.get( txid ) as { spends: string[]; replaceable: boolean };
+        const tx = { txid, inputs: [], outputs: [] };
+        return { tx, spends: t.spends, replaceable: t.replaceable };
+      } );
+    },
+    // every transaction pays the watched address
+    checkTransactions(block: ParsedBlock) {
+      return block.transactions.map( (tx) => ({
+        address: "addr",
+        txid: tx.txid,
+        direction: "in",
+        valueBtc: 1,
+      }) ) as any[];
+    },
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise( (r) => setTimeout( r, ms ) );
+}
+
+function setup() {
+  const btc = makeFakeMempool();
+  const events = new EventService( { maxQueueSize: 100 } );
+  const seen: string[] = [];
+  events.subscribe( {
+    event: "UnconfirmedActivityFound", handler: (e) => {
+      seen.push( `+${ e.activity.txid }` );
+    }
+  } );
+  events.subscribe( {
+    event: "UnconfirmedActivityDropped", handler: (e) => {
+      const by = e.replacedBy ? `:${ e.replacedBy }` : "";
+      seen.push( `-${ e.activity.txid }:${ e.reason }${ by }` );
+    }
+  } );
+  const watcher = new MempoolWatcher( btc as any, events, [] );
+  return { btc, events, seen, watcher };
+}
+
+function processed(height: number) {
+  return {
+    type: "BlockProcessed" as const,
+    timestamp: new Date().toISOString(),
+    height,
+    hash: `h${ height }`,
+    activityCount: 0,
+  };
+}
+
+describe( "Mempool watcher", () => {
+  it( "reports new activity once and links it when mined", async () => {
+    const { btc, events, seen, watcher } = setup();
+    btc.state.txs.set( "t1", { spends: [ "p:0" ], replaceable: false } );
+    btc.state.mempool = [ "t1" ];
+    await watcher.pollOnce();
+    await watcher.pollOnce();
+    await wait( 10 );
+    expect( seen ).toEqual( [ "+t1" ] );
+
+    const activity = { address: "addr", txid: "t1", direction: "in" as const, valueBtc: 1 };
+    expect( watcher.linkConfirmed( activity ) ).toBe( "UnconfirmedActivity:t1:addr:in" );
+    // mined: gone from the mempool, but no drop is reported
+    btc.state.mempool = [];
+    btc.state.tip = 101;
+    await watcher.pollOnce();
+    await events.publish( processed( 101 ) );
+    await wait( 10 );
+    expect( seen ).toEqual( [ "+t1" ] );
+  } );
+
+  it( "reports a replacement spending the same outpoint", async () => {
+    const { btc, seen, watcher } = setup();
+    btc.state.txs.set( "t1", { spends: [ "p:0" ], replaceable: true } );
+    btc.state.txs.set( "t2", { spends: [ "p:0", "q:1" ], replaceable: true } );
+    btc.state.mempool = [ "t1" ];
+    await watcher.pollOnce();
+    btc.state.mempool = [ "t2" ];
+    await watcher.pollOnce();
+    await wait( 10 );
+    expect( seen ).toEqual( [ "+t1", "-t1:replaced:t2", "+t2" ] );
+  } );
+
+  it( "reports an eviction once the chain is processed past the point it vanished", async () => {
+    const { btc, events, seen, watcher } = setup();
+    btc.state.txs.set( "t1", { spends: [ "p:0" ], replaceable: false } );
+    btc.state.mempool = [ "t1" ];
+    await watcher.pollOnce();
+    await events.publish( processed( 100 ) );
+    await wait( 10 );
+
+    btc.state.mempool = [];
+    btc.state.tip = 101;
+    await watcher.pollOnce();
+    await wait( 10 );
+    // block 101 may still contain it
+    expect( seen ).toEqual( [ "+t1" ] );
+    await events.publish( processed( 101 ) );
+    await wait( 10 );
+    expect( seen ).toEqual( [ "+t1", "-t1:evicted" ] );
+  } );
+} );
@@ -3,8 +3,8 @@ import fs from "fs";
 import path from "path";
 
 import { BitcoinService } from "@/app/services/BitcoinService";
-import { BitcoinRpcClient } from "@/infrastructure/bitcoin";
-import type { WatchedAddress } from "@/types/blockchain";
+import { BitcoinRpcClient, Raw } from "@/infrastructure/bitcoin";
+import type { ParsedBlock, WatchedAddress } from "@/types/blockchain";
 
 import { emitMetric } from "./_metrics";
 
@@ -22,69 +22,83 @@ function loadAddresses(limit: number): WatchedAddress[] {
   return arr.slice( 0, limit ).map( (x) => ({ address: x.address, label: x.label }) );
 }
 
-function loadLatestParsedBlock(): any {
+function loadLatestRawBlock(): string {
   const fixturesDir = path.join( process.cwd(), "test", "fixtures" );
-  const entries = fs.readdirSync( fixturesDir ).filter( (f) => f.endsWith( "-current.json" ) );
-  if ( entries.length === 0 ) throw new Error( "No verbose JSON fixtures found" );
+  const entries = fs.readdirSync( fixturesDir ).filter( (f) => f.endsWith( "-current.raw" ) );
+  if ( entries.length === 0 ) throw new Error( "No raw block fixtures found" );
   entries.sort( (a, b) => Number( b.split( "-" )[1] ) - Number( a.split( "-" )[1] ) );
-  return JSON.parse( fs.readFileSync( path.join( fixturesDir, entries[0] ), "utf8" ) );
+  const hex = fs.readFileSync( path.join( fixturesDir, entries[0] ), "utf8" ).trim();
+  if ( !hex ) throw new Error( `Raw block fixture ${ entries[0] } is empty` );
+  return hex;
+}
+
+/** Parse the raw block as the raw path does in each mode, then match it */
+function parseAndMatch(hex: string, watched: WatchedAddress[], matchScripts: boolean) {
+  const svc = new BitcoinService( new DummyRpc(), { parseRawBlocks: true, matchScripts } );
+  svc.setWatchedAddresses( watched );
+  const t0 = performance.now();
+  const raw = Raw.parseRawBlock( hex, "mainnet", { scriptPubKeys: matchScripts } );
+  const t1 = performance.now();
+  const block: ParsedBlock = {
+    hash: raw.hash,
+    height: 0,
+    time: raw.time,
+    transactions: raw.transactions,
+  };
+  const activities = svc.checkTransactions( block, watched );
+  const t2 = performance.now();
+  return { block, activities, parseMs: t1 - t0, matchMs: t2 - t1 };
 }
 
 describe( "Transaction matching performance", () => {
-  test( "checkTransactions with 1000 addresses under time budget", async () => {
+  test( "checkTransactions with 1000 addresses: address strings vs scriptPubKey bytes", () => {
     let addresses = loadAddresses( 1000 );
-    // Build a ParsedBlock using verbose fixture via service path (inputs empty)
-    const rpc = new DummyRpc();
-    const svc = new BitcoinService( rpc, { resolveInputAddresses: false, parseRawBlocks: false } );
-
-    const verbose = loadLatestParsedBlock();
-    const block = {
-      hash: verbose.hash,
-      height: verbose.height,
-      time: verbose.time,
-      transactions: await (svc as any)["parseTransactions"]( verbose.tx ),
-    } as const;
+    const hex = loadLatestRawBlock();
 
     // Ensure matches by injecting up to 10 known addresses from the fixture block
-    const pickFixtureAddresses = (maxCount: number) => {
-      const picked = new Set<string>();
-      for ( const tx of (block as any).transactions || [] ) {
-        for ( const out of tx.outputs || [] ) {
-          if ( typeof out.address === "string" && out.address.length > 0 ) {
-            picked.add( out.address as string );
-            if ( picked.size >= maxCount ) return Array.from( picked );
-          }
-        }
-      }
-      return Array.from( picked );
-    };
-
-    const fixtureAddrs = pickFixtureAddresses( 10 );
-    if ( fixtureAddrs.length > 0 ) {
-      const existing = new Set( addresses.map( (a) => a.address ) );
-      const injected = fixtureAddrs
-        .filter( (addr) => !existing.has( addr ) )
-        .map( (addr, i) => ({ address: addr, label: `fixture-${ i + 1 }` }) );
-      if ( injected.length > 0 ) {
-        addresses = [ ...injected, ...addresses ];
+    const parsed = Raw.parseRawBlock( hex, "mainnet" );
+    const picked = new Set<string>();
+    for ( const tx of parsed.transactions ) {
+      for ( const out of tx.outputs ) {
+        if ( out.address && picked.size < 10 ) picked.add( out.address );
       }
     }
+    const existing = new Set( addresses.map( (a) => a.address ) );
+    const injected = [ ...picked ]
+      .filter( (addr) => !existing.has( addr ) )
+      .map( (addr, i) => ({ address: addr, label: `fixture-${ i + 1 }` }) );
+    addresses = [ ...injected, ...addresses ];
 
-    const t0 = performance.now();
-    const activities = svc.checkTransactions( block as any, addresses );
-    const t1 = performance.now();
+    const byAddress = parseAndMatch( hex, addresses, false );
+    const byScript = parseAndMatch( hex, addresses, true );
 
-    expect( Array.isArray( activities ) ).toBe( true );
+    // Same activities either way; script mode leaves addresses off raw outputs
+    const key = (a: { txid: string; address: string; valueBtc: number }) =>
+      `${ a.txid }:${ a.address }:${ a.valueBtc }`;
+    expect( byScript.activities.map( key ) ).toEqual( byAddress.activities.map( key ) );
+    expect( byScript.activities.length ).toBeGreaterThan( 0 );
+    const encoded = byScript.block.transactions
+      .reduce( (n, tx) => n + tx.outputs.filter( (o) => o.address ).length, 0 );
+    expect( encoded ).toBe( 0 );
+
+    for ( const [ mode, run ] of [ [ "address", byAddress ], [ "script", byScript ] ] as const ) {
+      emitMetric( {
+        suite: "matching",
+        name: `check_1000_addresses_${ mode }_ms`,
+        value: Math.round( run.matchMs ),
+        unit: "ms",
+        details: { activities: run.activities.length, parseMs: Math.round( run.parseMs ) },
+      } );
+      // Time budget: aim for < 50ms on a typical machine
+      expect( run.matchMs ).toBeLessThan( 50 );
+    }
     emitMetric( {
       suite: "matching",
-      name: "check_1000_addresses_ms",
-      value: Math.round( t1 - t0 ),
-      unit: "ms",
-      details: { activities: activities.length }
+      name: "parse_and_match_script_vs_address_ratio",
+      value: Math.round(
+        ((byScript.parseMs + byScript.matchMs) / (byAddress.parseMs + byAddress.matchMs)) * 100
+      ) / 100,
+      unit: "ratio",
     } );
-    // Time budget: aim for < 50ms on a typical machine
-    expect( t1 - t0 ).toBeLessThan( 50 );
   } );
 } );
-
-
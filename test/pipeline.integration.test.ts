@@ -64,6 +64,43 @@ describe( "Pipeline integration", () => {
       expect( sawActivity ).toBeGreaterThanOrEqual( 2 );
       expect( sawNotification ).toBeGreaterThanOrEqual( 2 );
     } );
-} );
 
+  it( "publishes a BlockParseWarning for each transaction the parser skipped", async () => {
+    const events = new EventService( { maxQueueSize: 10 } );
+    const issue = {
+      reason: "uint64 exceeds MAX_SAFE_INTEGER",
+      offset: 250,
+      field: "vout.value",
+      txIndex: 3,
+      excerptHex: "ffffffffffffffff",
+      skippedTransactions: 1,
+    };
+    const btc = {
+      ...fakeBtcService,
+      async parseBlockByHash(hash: string) {
+        return { hash, height: 2, time: 0, transactions: [], parseWarnings: [ issue ] };
+      },
+    } as any;
+    const cfg = { watch: [], worker: { id: "w1", members: [ "w1" ] } } as any;
+
+    const warnings: any[] = [];
+    events.subscribe( { event: "BlockParseWarning", handler: (ev) => void warnings.push( ev ) } );
+    registerEventPipeline( events as any, { btc, currency: fakeCurrencyService as any }, cfg );
+
+    await events.publish( {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: 2,
+      hash: "H2",
+      dedupeKey: "BlockDetected:2:H2"
+    } );
 
+    await new Promise( (r) => setTimeout( r, 50 ) );
+    expect( warnings ).toHaveLength( 1 );
+    expect( warnings[0] ).toMatchObject( {
+      block: { hash: "H2", height: 2 },
+      issue,
+      dedupeKey: "BlockParseWarning:2:H2:250",
+    } );
+  } );
+} );
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+
+import { measureTransport } from "./runners/run-transport";
+import { emitMetric } from "./_metrics";
+
+describe( "Raw block transport: JSON-RPC hex vs REST binary", () => {
+  test( "measures fetch + parse time and bytes on the wire per path", async () => {
+    const data = await measureTransport( 20 );
+
+    expect( data.blockBytes ).toBeGreaterThan( 0 );
+    // hex doubles the block before JSON framing; REST sends it as is
+    expect( data.restBytesPerBlock ).toBe( data.blockBytes );
+    expect( data.rpcBytesPerBlock ).toBeGreaterThan( 2 * data.blockBytes );
+
+    const suite = "proc-transport";
+    emitMetric( { suite, name: "rpc_ms_median", value: data.rpcMsMedian, unit: "ms" } );
+    emitMetric( { suite, name: "rest_ms_median", value: data.restMsMedian, unit: "ms" } );
+    emitMetric( { suite, name: "rpc_ms_p95", value: data.rpcMsP95, unit: "ms" } );
+    emitMetric( { suite, name: "rest_ms_p95", value: data.restMsP95, unit: "ms" } );
+    emitMetric( { suite, name: "rpc_bytes", value: data.rpcBytesPerBlock, unit: "bytes" } );
+    emitMetric( { suite, name: "rest_bytes", value: data.restBytesPerBlock, unit: "bytes" } );
+    emitMetric( { suite, name: "rest_speedup", value: data.speedup, unit: "x" } );
+  }, 120000 );
+} );
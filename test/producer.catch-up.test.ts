@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+
+import { BlockProducer } from "@/app/services/BlockProducer";
+import { EventService } from "@/app/services/EventService";
+import type { BlockRef } from "@/types/blockchain";
+
+// Fake service exposing only what the producer needs; hash at height h is "h<h>"
+function makeFakeBtc(hashFor: (h: number) => string = (h) => `h${ h }`) {
+  const batches: Array<[ number, number ]> = [];
+  return {
+    batches,
+    async getTipHeight(): Promise<number> {
+      return 10;
+    },
+    async awaitNewHeight(): Promise<number> {
+      return 15;
+    },
+    async getBlockHashRange(from: number, to: number): Promise<BlockRef[]> {
+      batches.push( [ from, to ] );
+      const out: BlockRef[] = [];
+      for ( let h = from; h <= to; h++ ) out.push( { height: h, hash: hashFor( h ) } );
+      return out;
+    },
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise( (r) => setTimeout( r, ms ) );
+}
+
+describe( "BlockProducer catch-up", () => {
+  it( "publishes BlockDetected for every skipped height in order using batches", async () => {
+    const events = new EventService( { maxQueueSize: 100 } );
+    const seen: number[] = [];
+    events.subscribe( {
+      event: "BlockDetected", handler: (e) => {
+        seen.push( e.height );
+      }
+    } );
+    const btc = makeFakeBtc();
+    const producer = new BlockProducer( btc as any, events, { catchUpBatchSize: 2 } );
+    (producer as any).lastHeight = 10;
+
+    await producer.catchUp( 15 );
+    await wait( 10 );
+
+    expect( seen ).toEqual( [ 11, 12, 13, 14, 15 ] );
+    // later batches re-resolve the previously published height as a continuity anchor
+    expect( btc.batches ).toEqual( [ [ 11, 12 ], [ 12, 14 ], [ 14, 15 ] ] );
+    expect( producer.getLastBlock() ).toEqual( { height: 15, hash: "h15" } );
+  } );
+
+  it( "re-checks the last published hash and emits BlockReorg when it changed", async () => {
+    const events = new EventService( { maxQueueSize: 100 } );
+    const reorgs: any[] = [];
+    events.subscribe( {
+      event: "BlockReorg", handler: (e) => {
+        reorgs.push( e );
+      }
+    } );
+    const btc = makeFakeBtc( (h) => (h === 10 ? "h10b" : `h${ h }`) );
+    const producer = new BlockProducer( btc as any, events, { catchUpBatchSize: 10 } );
+    (producer as any).lastHeight = 10;
+    (producer as any).lastHash = "h10";
+
+    await producer.catchUp( 12 );
+    await wait( 10 );
+
+    // anchor check, fork-point lookup, then the new branch from the replaced height
+    expect( btc.batches ).toEqual( [ [ 10, 12 ], [ 10, 10 ], [ 10, 12 ] ] );
+    expect( reorgs.length ).toBe( 1 );
+    expect( reorgs[0] ).toMatchObject( { height: 10, oldHash: "h10", newHash: "h10b" } );
+    expect( producer.getLastBlock() ).toEqual( { height: 12, hash: "h12" } );
+  } );
+
+  it( "waits for BlockDetected capacity between batches", async () => {
+    const events = new EventService( { maxQueueSize: 2 } );
+    let active = 0;
+    let maxBacklog = 0;
+    events.subscribe( {
+      event: "BlockDetected", handler: async () => {
+        active += 1;
+        maxBacklog = Math.max( maxBacklog, events.getBacklogDepth( "BlockDetected" ) );
+        await wait( 5 );
+        active -= 1;
+      }
+    } );
+    const btc = makeFakeBtc();
+    const producer = new BlockProducer( btc as any, events, { catchUpBatchSize: 1 } );
+    (producer as any).lastHeight = 0;
+
+    await producer.catchUp( 6 );
+    await wait( 50 );
+
+    expect( btc.batches.length ).toBe( 6 );
+    expect( maxBacklog ).toBeLessThanOrEqual( 2 );
+    expect( active ).toBe( 0 );
+  } );
+} );
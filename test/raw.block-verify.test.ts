@@ -0,0 +1,163 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { BitcoinRpcPool, Raw } from "@/infrastructure/bitcoin";
+
+const GENESIS_HASH = "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f";
+const GENESIS = "0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b2"
+  + "7ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c01010000000100000000"
+  + "00000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054"
+  + "696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64"
+  + "206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a6"
+  + "7130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c"
+  + "702b6bf11d5fac00000000";
+// Same header, coinbase text changed ("Times" -> "Timez"): the merkle root no longer matches
+const GENESIS_TAMPERED = GENESIS.replace( "54696d6573", "54696d657a" );
+
+function checkOf(hex: string, opts?: Raw.VerifyBlockOptions): string | undefined {
+  try {
+    Raw.verifyRawBlock( Raw.parseRawBlock( hex, "mainnet" ), "mainnet", opts );
+    return undefined;
+  } catch ( err ) {
+    expect( err ).toBeInstanceOf( Raw.BlockVerificationError );
+    return (err as Raw.BlockVerificationError).check;
+  }
+}
+
+// Regtest block (bits 0x207fffff) on top of prevHash, nonce ground until the hash meets the target
+function regtestBlock(prevHash: string, coinbaseTag: number): { hex: string; hash: string } {
+  const coinbase = `01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff`
+    + `01${ coinbaseTag.toString( 16 ).padStart( 2, "0" ) }ffffffff0100000000000000000000000000`;
+  const reader = new Raw.ByteReader( Buffer.from( coinbase, "hex" ) );
+  const txid = Raw.parseTransaction( reader, "regtest" ).txid;
+  const header = Buffer.alloc( 80 );
+  header.writeUInt32LE( 1, 0 );
+  Buffer.from( prevHash, "hex" ).reverse().copy( header, 4 );
+  Buffer.from( txid, "hex" ).reverse().copy( header, 36 );
+  header.writeUInt32LE( 1700000000, 68 );
+  header.writeUInt32LE( 0x207fffff, 72 );
+  for ( let nonce = 0; ; nonce++ ) {
+    header.writeUInt32LE( nonce, 76 );
+    const hex = `${ header.toString( "hex" ) }01${ coinbase }`;
+    const parsed = Raw.parseRawBlock( hex, "regtest" );
+    if ( BigInt( `0x${ parsed.hash }` ) <= (Raw.bitsToTarget( 0x207fffff ) as bigint) ) {
+      return { hex, hash: parsed.hash };
+    }
+  }
+}
+
+const servers: { stop: (force: boolean) => void }[] = [];
+afterAll( () => {
+  for ( const s of servers ) s.stop( true );
+} );
+
+// JSON-RPC node serving one raw block and its header
+function fakeNode(rawHex: string): { url: string; hits: string[] } {
+  const hits: string[] = [];
+  const answer = (req: { id: number; method: string }) => {
+    hits.push( req.method );
+    const result = req.method === "getblock" ? rawHex : { height: 0, time: 1231006505 };
+    return { id: req.id, result, error: null };
+  };
+  const server = Bun.serve( {
+    port: 0,
+    async fetch(req) {
+      return Response.json( answer( (await req.json()) as any ) );
+    },
+  } );
+  servers.push( server );
+  return { url: `http://127.0.0.1:${ server.port }/`, hits };
+}
+
+describe( "Raw block verification", () => {
+  it( "accepts the genesis block and names the failing check otherwise", () => {
+    expect( Raw.parseRawBlock( GENESIS, "mainnet" ).hash ).toBe( GENESIS_HASH );
+    expect( checkOf( GENESIS, { expectedHash: GENESIS_HASH } ) ).toBeUndefined();
+    expect( checkOf( GENESIS, { expectedHash: "00".repeat( 32 ) } ) ).toBe( "hash" );
+    expect( checkOf( GENESIS_TAMPERED ) ).toBe( "merkle_root" );
+    // a different nonce no longer meets the target
+    expect( checkOf( GENESIS.replace( "1dac2b7c", "1dac2b7d" ) ) ).toBe( "proof_of_work" );
+    // regtest difficulty claimed on mainnet is above the network's limit
+    expect( checkOf( GENESIS.replace( "ffff001d", "ffff7f20" ) ) ).toBe( "proof_of_work" );
+    expect( checkOf( GENESIS, { expectedPrevHash: "11".repeat( 32 ) } ) ).toBe( "prev_block" );
+  } );
+
+  it( "computes merkle roots and flags duplicated siblings", () => {
+    // block 170: coinbase and the first bitcoin payment
+    const txids = [
+      "b1fea52486ce0c62bb442b530a3f0132b826c74e473d1f2c220bfa78111c5082",
+      "f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16",
+    ];
+    expect( Raw.computeMerkleRoot( txids ) ).toEqual( {
+      root: "7dac2c5666815c17a3b36427de37bb9d2e2c5ccec3f8633eb91a4205cb4c10ff",
+      mutated: false,
+    } );
+    const [ a, b ] = txids;
+    const c = "cc".repeat( 32 );
+    // [a, b, c] and [a, b, c, c] share a root; only the explicit duplicate is mutated
+    const odd = Raw.computeMerkleRoot( [ a, b, c ] );
+    const dup = Raw.computeMerkleRoot( [ a, b, c, c ] );
+    expect( dup.root ).toBe( odd.root );
+    expect( [ odd.mutated, dup.mutated ] ).toEqual( [ false, true ] );
+  } );
+
+  it( "expands compact bits to a target", () => {
+    expect( Raw.bitsToTarget( 0x1d00ffff ) ).toBe( 0xffffn << 208n );
+    expect( Raw.bitsToTarget( 0x03123456 ) ).toBe( 0x123456n );
+    expect( Raw.bitsToTarget( 0x01123456 ) ).toBe( 0x12n );
+    // sign bit set, zero mantissa, overflow
+    expect( Raw.bitsToTarget( 0x04923456 ) ).toBeUndefined();
+    expect( Raw.bitsToTarget( 0x1d000000 ) ).toBeUndefined();
+    expect( Raw.bitsToTarget( 0x23123456 ) ).toBeUndefined();
+  } );
+
+  it( "checks the parent against the block verified at the previous height", async () => {
+    const one = regtestBlock( "00".repeat( 32 ), 1 );
+    const two = regtestBlock( one.hash, 2 );
+    const stray = regtestBlock( "22".repeat( 32 ), 3 );
+    const blocks: Record<string, { hex: string; height: number }> = {
+      [one.hash]: { hex: one.hex, height: 1 },
+      [two.hash]: { hex: two.hex, height: 2 },
+      [stray.hash]: { hex: stray.hex, height: 2 },
+    };
+    const rpc = {
+      async getBlockRawChecked(hash: string, check: (hex: string) => unknown) {
+        return check( blocks[hash].hex );
+      },
+      async getBlockHeader(hash: string) {
+        return { height: blocks[hash].height, time: 1700000000 };
+      },
+    };
+    const svc = new BitcoinService( rpc as any, {
+      parseRawBlocks: true,
+      verifyBlocks: true,
+      network: "regtest",
+    } );
+    // nothing known below height 1 yet, so only the block itself is checked
+    expect( (await svc.parseBlockByHash( one.hash )).hash ).toBe( one.hash );
+    const err = await svc.parseBlockByHash( stray.hash ).catch( (e: Error) => e );
+    expect( err ).toBeInstanceOf( Raw.BlockVerificationError );
+    expect( (err as Raw.BlockVerificationError).check ).toBe( "prev_block" );
+    expect( (await svc.parseBlockByHash( two.hash )).prevHash ).toBe( one.hash );
+  } );
+
+  it( "fetches a block that fails verification again from another pool endpoint", async () => {
+    const bad = fakeNode( GENESIS_TAMPERED );
+    const good = fakeNode( GENESIS );
+    const pool = new BitcoinRpcPool( {
+      endpoints: [ { url: bad.url, priority: 0 }, { url: good.url, priority: 1 } ],
+    } );
+    const svc = new BitcoinService( pool, {
+      parseRawBlocks: true,
+      verifyBlocks: true,
+      network: "mainnet",
+    } );
+    const block = await svc.parseBlockByHash( GENESIS_HASH );
+    expect( block.transactions ).toHaveLength( 1 );
+    expect( bad.hits.filter( (m) => m === "getblock" ) ).toHaveLength( 1 );
+    expect( good.hits.filter( (m) => m === "getblock" ) ).toHaveLength( 1 );
+    const status = pool.getStatus();
+    expect( status[0].consecutiveFailures ).toBe( 1 );
+    expect( status[0].lastError ).toContain( "merkle_root" );
+  } );
+} );
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "bun:test";
+import fc from "fast-check";
+
+import { Raw } from "@/infrastructure/bitcoin";
+
+const HEADER = `01000000${ "11".repeat( 32 ) }${ "22".repeat( 32 ) }29ab5f49ffff7f2002000000`;
+const sig = `30${ "44".repeat( 69 ) }01`;
+const pubkey = `02${ "5a".repeat( 32 ) }`;
+
+// A legacy spend, a segwit spend with several outputs, and an OP_RETURN
+const SEED = Buffer.from( [
+  HEADER,
+  "03",
+  `0100000001${ "aa".repeat( 36 ) }6a47${ sig }21${ pubkey }ffffffff`
+    + `01e803000000000000160014${ "ab".repeat( 20 ) }00000000`,
+  `02000000000101${ "bb".repeat( 36 ) }00fdffffff02`
+    + `d007000000000000220020${ "cd".repeat( 32 ) }`
+    + `b80b0000000000001976a914${ "ef".repeat( 20 ) }88ac`
+    + `0247${ sig }21${ pubkey }00000000`,
+  `0100000001${ "cc".repeat( 36 ) }00ffffffff010000000000000000066a04deadbeef00000000`,
+].join( "" ), "hex" );
+
+type Mutation =
+  | { kind: "flip"; at: number; byte: number }
+  | { kind: "truncate"; at: number }
+  | { kind: "insert"; at: number; bytes: Uint8Array };
+
+const mutation: fc.Arbitrary<Mutation> = fc.oneof(
+  fc.record( { kind: fc.constant( "flip" as const ), at: fc.nat(), byte: fc.nat( 255 ) } ),
+  fc.record( { kind: fc.constant( "truncate" as const ), at: fc.nat() } ),
+  fc.record( {
+    kind: fc.constant( "insert" as const ),
+    at: fc.nat(),
+    bytes: fc.uint8Array( { minLength: 1, maxLength: 9 } ),
+  } )
+);
+
+function mutate(raw: Buffer, mutations: Mutation[]): Buffer {
+  let out = raw;
+  for ( const m of mutations ) {
+    const at = out.length === 0 ? 0 : m.at % out.length;
+    if ( m.kind === "flip" ) {
+      out = Buffer.from( out );
+      if ( out.length > 0 ) out[at] = m.byte;
+    } else if ( m.kind === "truncate" ) {
+      out = out.subarray( 0, at );
+    } else {
+      out = Buffer.concat( [ out.subarray( 0, at ), m.bytes, out.subarray( at ) ] );
+    }
+  }
+  return out;
+}
+
+// Every entry point either returns or throws a RawParseError
+function parsesOrRejects(raw: Buffer): void {
+  const attempts: (() => unknown)[] = [
+    () => Raw.parseRawBlock( raw, "mainnet" ),
+    () => Raw.parseRawBlock( raw, "mainnet", { tolerant: true, deriveInputAddresses: true } ),
+    () => Raw.scanRawBlock( raw ),
+    () => Raw.parseTransaction( new Raw.ByteReader( raw.subarray( 81 ) ), "mainnet" ),
+  ];
+  for ( const attempt of attempts ) {
+    try {
+      attempt();
+    } catch ( err ) {
+      if ( !(err instanceof Raw.RawParseError) ) throw err;
+      expect( err.offset ).toBeGreaterThanOrEqual( 0 );
+      expect( err.offset ).toBeLessThanOrEqual( raw.length );
+    }
+  }
+}
+
+describe( "Raw parser fuzzing", () => {
+  it( "parses the seed block", () => {
+    expect( Raw.parseRawBlock( SEED, "mainnet" ).transactions ).toHaveLength( 3 );
+  } );
+
+  it( "throws nothing but RawParseError on random bytes", () => {
+    fc.assert(
+      fc.property( fc.uint8Array( { maxLength: 400 } ), (bytes) => {
+        parsesOrRejects( Buffer.from( bytes ) );
+      } ),
+      { numRuns: 500 }
+    );
+  } );
+
+  it( "throws nothing but RawParseError on mutated blocks", () => {
+    fc.assert(
+      fc.property( fc.array( mutation, { minLength: 1, maxLength: 4 } ), (mutations) => {
+        parsesOrRejects( mutate( SEED, mutations ) );
+      } ),
+      { numRuns: 1000 }
+    );
+  } );
+
+  it( "accounts for every transaction in tolerant mode", () => {
+    fc.assert(
+      fc.property( fc.array( mutation, { minLength: 1, maxLength: 2 } ), (mutations) => {
+        const raw = mutate( SEED, mutations );
+        let parsed: Raw.ParsedRawBlock;
+        try {
+          parsed = Raw.parseRawBlock( raw, "mainnet", { tolerant: true } );
+        } catch ( err ) {
+          // only the header and transaction count are fatal
+          expect( (err as Raw.RawParseError).txIndex ).toBeUndefined();
+          return;
+        }
+        const skipped = (parsed.warnings ?? []).reduce( (n, w) => n + w.skippedTransactions, 0 );
+        const count = new Raw.ByteReader( raw.subarray( 80 ) ).readVarInt();
+        expect( parsed.transactions.length + skipped ).toBe( count );
+      } ),
+      { numRuns: 500 }
+    );
+  } );
+} );
@@ -0,0 +1,114 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { Raw } from "@/infrastructure/bitcoin";
+
+const HEADER = `01000000${ "11".repeat( 32 ) }${ "22".repeat( 32 ) }29ab5f49ffff7f2002000000`;
+
+// One-input, one-output legacy transaction paying `valueLE` (8 bytes, little-endian hex)
+function tx(tag: number, valueLE = "e803000000000000"): string {
+  const prevout = `${ tag.toString( 16 ).padStart( 2, "0" ).repeat( 32 ) }00000000`;
+  return `0100000001${ prevout }00ffffffff01${ valueLE }160014${ "ab".repeat( 20 ) }00000000`;
+}
+
+// Transaction size in bytes, and where its output value starts
+const TX_BYTES = tx( 0 ).length / 2;
+const VALUE_AT = 4 + 1 + 36 + 1 + 4 + 1;
+// First transaction: after the header and the one-byte count
+const FIRST_TX_AT = 81;
+
+function block(txs: string[]): Buffer {
+  return Buffer.from( `${ HEADER }0${ txs.length }${ txs.join( "" ) }`, "hex" );
+}
+
+function parseError(fn: () => unknown): Raw.RawParseError {
+  try {
+    fn();
+  } catch ( err ) {
+    expect( err ).toBeInstanceOf( Raw.RawParseError );
+    return err as Raw.RawParseError;
+  }
+  throw new Error( "expected a RawParseError" );
+}
+
+const pools: Raw.RawParserPool[] = [];
+afterAll( async () => {
+  for ( const p of pools ) await p.close();
+} );
+
+describe( "Raw parse errors", () => {
+  it( "names the transaction, field and block offset of truncated data", () => {
+    const raw = block( [ tx( 1 ), tx( 2 ) ] );
+    // cut inside the second transaction's output script
+    const cut = raw.subarray( 0, FIRST_TX_AT + TX_BYTES + VALUE_AT + 8 + 5 );
+    const err = parseError( () => Raw.parseRawBlock( cut, "regtest" ) );
+    expect( err.txIndex ).toBe( 1 );
+    expect( err.field ).toBe( "vout.scriptPubKey" );
+    expect( err.offset ).toBe( FIRST_TX_AT + TX_BYTES + VALUE_AT + 9 );
+    expect( err.reason ).toBe( "readSlice out of range" );
+    // 8 bytes before the offset, then whatever is left
+    expect( err.excerptHex ).toBe( cut.subarray( err.offset - 8 ).toString( "hex" ) );
+    expect( err.message ).toContain( `byte ${ err.offset } (tx 1 vout.scriptPubKey)` );
+
+    const header = parseError( () => Raw.parseRawBlock( raw.subarray( 0, 40 ), "regtest" ) );
+    expect( [ header.field, header.txIndex, header.offset ] )
+      .toEqual( [ "header", undefined, 36 ] );
+  } );
+
+  it( "points at a value that does not fit a JavaScript number", () => {
+    const raw = block( [ tx( 1 ), tx( 2, "ff".repeat( 8 ) ) ] );
+    const err = parseError( () => Raw.parseRawBlock( raw, "regtest" ) );
+    expect( err.field ).toBe( "vout.value" );
+    expect( err.offset ).toBe( FIRST_TX_AT + TX_BYTES + VALUE_AT );
+    expect( err.excerptHex.slice( 16, 32 ) ).toBe( "ff".repeat( 8 ) );
+  } );
+
+  it( "skips a bad transaction in tolerant mode and keeps the rest", () => {
+    const raw = block( [ tx( 1 ), tx( 2, "ff".repeat( 8 ) ), tx( 3 ) ] );
+    const parsed = Raw.parseRawBlock( raw, "regtest", { tolerant: true } );
+    const strict = Raw.parseRawBlock( block( [ tx( 1 ), tx( 3 ) ] ), "regtest" );
+    expect( parsed.transactions ).toEqual( strict.transactions );
+    expect( parsed.warnings ).toEqual( [ {
+      reason: "uint64 exceeds MAX_SAFE_INTEGER",
+      offset: FIRST_TX_AT + TX_BYTES + VALUE_AT,
+      field: "vout.value",
+      txIndex: 1,
+      excerptHex: expect.any( String ),
+      skippedTransactions: 1,
+    } ] );
+    // nothing to report for a clean block
+    const clean = Raw.parseRawBlock( block( [ tx( 1 ), tx( 3 ) ] ), "regtest", { tolerant: true } );
+    expect( clean ).toEqual( strict );
+    expect( "warnings" in clean ).toBe( false );
+  } );
+
+  it( "drops the rest of the block when a transaction's end cannot be found", () => {
+    const raw = block( [ tx( 1 ), tx( 2 ), tx( 3 ), tx( 4 ) ] );
+    const cut = raw.subarray( 0, FIRST_TX_AT + TX_BYTES + 20 );
+    const parsed = Raw.parseRawBlock( cut, "regtest", { tolerant: true } );
+    expect( parsed.transactions ).toHaveLength( 1 );
+    expect( parsed.warnings ).toHaveLength( 1 );
+    expect( parsed.warnings?.[0] ).toMatchObject( {
+      txIndex: 1,
+      field: "vin.prevout",
+      skippedTransactions: 3,
+    } );
+  } );
+
+  it( "reports block offsets and warnings the same way from parse workers", async () => {
+    const pool = new Raw.RawParserPool( { size: 2, minTransactions: 1 } );
+    pools.push( pool );
+    const txs = [ tx( 1 ), tx( 2 ), tx( 3, "ff".repeat( 8 ) ), tx( 4 ) ];
+    const raw = block( txs );
+    const err = await pool.parse( raw, "regtest" ).catch( (e: Error) => e );
+    expect( err ).toBeInstanceOf( Raw.RawParseError );
+    expect( (err as Raw.RawParseError).toDetail() )
+      .toEqual( parseError( () => Raw.parseRawBlock( raw, "regtest" ) ).toDetail() );
+    const tolerant = { tolerant: true };
+    expect( await pool.parse( raw, "regtest", tolerant ) )
+      .toEqual( Raw.parseRawBlock( raw, "regtest", tolerant ) );
+    // a broken boundary is salvaged on the calling thread
+    const cut = raw.subarray( 0, FIRST_TX_AT + 2 * TX_BYTES + 20 );
+    expect( await pool.parse( cut, "regtest", tolerant ) )
+      .toEqual( Raw.parseRawBlock( cut, "regtest", tolerant ) );
+  } );
+} );
@@ -0,0 +1,121 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { Raw } from "@/infrastructure/bitcoin";
+
+const pubkey = `02${ "5a".repeat( 32 ) }`;
+// DER-looking signature with SIGHASH_ALL, 71 bytes
+const sig = `30${ "44".repeat( 69 ) }01`;
+
+// i-th transaction: alternating legacy P2PKH spends and P2WPKH witness spends, varied outputs
+function tx(i: number): string {
+  const tag = i.toString( 16 ).padStart( 8, "0" );
+  const prevout = `${ tag.repeat( 8 ) }${ tag }`;
+  const outputs = Array.from( { length: 1 + (i % 3) }, (_, o) => {
+    const value = (1000 * (i + 1) + o).toString( 16 ).padStart( 16, "0" );
+    const le = Buffer.from( value, "hex" ).reverse().toString( "hex" );
+    return o === 2
+      ? `${ le }0a6a08${ tag }${ tag }`
+      : `${ le }160014${ tag.repeat( 5 ) }`;
+  } );
+  const vout = `0${ outputs.length }${ outputs.join( "" ) }`;
+  if ( i % 2 === 0 ) {
+    const scriptSig = `47${ sig }21${ pubkey }`;
+    return `0100000001${ prevout }6a${ scriptSig }feffffff${ vout }00000000`;
+  }
+  const witness = `0247${ sig }21${ pubkey }`;
+  return `02000000000101${ prevout }00fdffffff${ vout }${ witness }00000000`;
+}
+
+function block(txCount: number): Buffer {
+  const header = `01000000${ "11".repeat( 32 ) }${ "22".repeat( 32 ) }29ab5f49ffff7f2002000000`;
+  const txs = Array.from( { length: txCount }, (_, i) => tx( i ) ).join( "" );
+  return Buffer.from( `${ header }${ txCount.toString( 16 ).padStart( 2, "0" ) }${ txs }`, "hex" );
+}
+
+const pools: Raw.RawParserPool[] = [];
+function pool(size: number, minTransactions = 1): Raw.RawParserPool {
+  const p = new Raw.RawParserPool( { size, minTransactions } );
+  pools.push( p );
+  return p;
+}
+afterAll( async () => {
+  for ( const p of pools ) await p.close();
+} );
+
+describe( "Parallel raw block parsing", () => {
+  it( "finds transaction boundaries without decoding", () => {
+    const raw = block( 5 );
+    const layout = Raw.scanRawBlock( raw );
+    expect( layout.txOffsets ).toHaveLength( 6 );
+    expect( layout.txOffsets[5] ).toBe( raw.length );
+    const parsed = Raw.parseRawBlock( raw, "regtest" );
+    const { transactions, ...header } = parsed;
+    expect( layout.header ).toEqual( header );
+    expect( transactions ).toHaveLength( 5 );
+  } );
+
+  it( "returns the same block as the single-threaded parser", async () => {
+    const raw = block( 100 );
+    const opts = { deriveInputAddresses: true };
+    const expected = Raw.parseRawBlock( raw, "regtest", opts );
+    expect( expected.transactions[1].inputs[0].address ).toStartWith( "bcrt1q" );
+    for ( const size of [ 1, 3, 4 ] ) {
+      expect( await pool( size ).parse( raw, "regtest", opts ) ).toEqual( expected );
+    }
+    // hex input, as returned by getblock <hash> 0
+    expect( await pool( 2 ).parse( raw.toString( "hex" ), "regtest", opts ) ).toEqual( expected );
+  } );
+
+  it( "keeps more workers than transactions busy with one each", async () => {
+    const raw = block( 3 );
+    const expected = Raw.parseRawBlock( raw, "regtest" );
+    expect( await pool( 8 ).parse( raw, "regtest" ) ).toEqual( expected );
+  } );
+
+  it( "rejects a truncated block before dispatching any chunk", async () => {
+    const raw = block( 10 );
+    const err = await pool( 2 ).parse( raw.subarray( 0, raw.length - 3 ), "regtest" )
+      .catch( (e: Error) => e );
+    expect( err ).toBeInstanceOf( Error );
+  } );
+
+  it( "rejects with the worker's error when a chunk fails to parse", async () => {
+    // first output of the fifth transaction (5000 sats) set to 2^64 - 1
+    const hex = block( 10 ).toString( "hex" ).replace( "8813000000000000", "ff".repeat( 8 ) );
+    const p = pool( 2 );
+    const err = await p.parse( hex, "regtest" ).catch( (e: Error) => e );
+    expect( (err as Error).message ).toContain( "exceeds MAX_SAFE_INTEGER" );
+    // the pool keeps working afterwards
+    const raw = block( 10 );
+    expect( await p.parse( raw, "regtest" ) ).toEqual( Raw.parseRawBlock( raw, "regtest" ) );
+  } );
+
+  it( "feeds BitcoinService blocks pushed over ZMQ through the pool", async () => {
+    const raw = block( 40 );
+    const expected = Raw.parseRawBlock( raw, "regtest" );
+    const calls: string[] = [];
+    const rpc = {
+      async getBlockHeader() {
+        calls.push( "getblockheader" );
+        return { height: 7, time: 1231006505 };
+      },
+      async getBlockRawByHash() {
+        calls.push( "getblock" );
+        return raw.toString( "hex" );
+      },
+    };
+    const svc = new BitcoinService( rpc as any, {
+      parseRawBlocks: true,
+      network: "regtest",
+      parserPool: pool( 2 ),
+    } );
+    expect( svc.acceptRawBlock( raw ) ).toBe( expected.hash );
+    const pushed = await svc.parseBlockByHash( expected.hash );
+    const fetched = await svc.parseBlockByHash( expected.hash );
+    expect( pushed.transactions.map( (t) => t.txid ) )
+      .toEqual( expected.transactions.map( (t) => t.txid ) );
+    expect( fetched ).toEqual( pushed );
+    expect( calls ).toEqual( [ "getblockheader", "getblockheader", "getblock" ] );
+  } );
+} );
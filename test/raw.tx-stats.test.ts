@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { createHash } from "crypto";
+
+import { Raw } from "@/infrastructure/bitcoin";
+
+const sha256d = (buf: Buffer) => {
+  const first = createHash( "sha256" ).update( buf ).digest();
+  return createHash( "sha256" ).update( first ).digest().reverse().toString( "hex" );
+};
+
+// version 2, one P2WPKH input with nSequence 0xfffffffd, one P2WPKH output, locktime 800000
+const input = `${ "ee".repeat( 32 ) }0500000000fdffffff`;
+const output = `e803000000000000160014${ "bb".repeat( 20 ) }`;
+const witness = `0247${ "30".repeat( 71 ) }21${ "02".repeat( 33 ) }`;
+const locktime = "00350c00";
+const body = `01${ input }01${ output }`;
+const segwit = Buffer.from( `020000000001${ body }${ witness }${ locktime }`, "hex" );
+const stripped = Buffer.from( `02000000${ body }${ locktime }`, "hex" );
+
+describe( "Raw transaction size and signalling", () => {
+  test( "weight, vsize, txid and wtxid of a segwit transaction (BIP141)", () => {
+    const tx = Raw.parseTransaction( new Raw.ByteReader( segwit ), "mainnet" );
+    expect( segwit.length ).toBe( 191 );
+    expect( stripped.length ).toBe( 82 );
+    expect( tx ).toMatchObject( {
+      txid: sha256d( stripped ),
+      wtxid: sha256d( segwit ),
+      version: 2,
+      locktime: 800_000,
+      // 82 * 3 + 191
+      weight: 437,
+      vsize: 110,
+      replaceable: true,
+    } );
+  } );
+
+  test( "a legacy transaction has wtxid = txid and weight = 4 * size", () => {
+    const final = stripped.toString( "hex" ).replace( "fdffffff", "ffffffff" );
+    const legacy = Buffer.from( final, "hex" );
+    const tx = Raw.parseTransaction( new Raw.ByteReader( legacy ), "mainnet" );
+    expect( tx.wtxid ).toBe( tx.txid );
+    expect( tx.weight ).toBe( 328 );
+    expect( tx.vsize ).toBe( 82 );
+    expect( tx.replaceable ).toBe( false );
+  } );
+} );
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { BlockProducer } from "@/app/services/BlockProducer";
+import { ChainTracker } from "@/app/services/ChainTracker";
+import { EventService } from "@/app/services/EventService";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import type { BlockRef, ParsedBlock } from "@/types/blockchain";
+
+// Mutable fake chain: hashes[h] is the best-chain block at height h
+function makeFakeChain(hashes: string[]) {
+  const chain = { hashes };
+  return {
+    chain,
+    async getTipHeight(): Promise<number> {
+      return chain.hashes.length - 1;
+    },
+    async getBlockHashRange(from: number, to: number): Promise<BlockRef[]> {
+      const out: BlockRef[] = [];
+      for ( let h = from; h <= to; h++ ) out.push( { height: h, hash: chain.hashes[h] } );
+      return out;
+    },
+    async parseBlockByHash(hash: string): Promise<ParsedBlock> {
+      return { hash, height: Number( hash.slice( 1 ) ), time: 0, transactions: [] };
+    },
+    // every block pays the watched address once
+    checkTransactions(block: ParsedBlock) {
+      const txid = `tx-${ block.hash }`;
+      return [ { address: "addr", txid, direction: "in", valueBtc: 1 } ] as any[];
+    },
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise( (r) => setTimeout( r, ms ) );
+}
+
+describe( "Reorg handling", () => {
+  it( "retracts activities of every orphaned block before the new branch", async () => {
+    const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-reorg-" ) );
+    const sinkFile = path.join( dir, "events.jsonl" );
+    const btc = makeFakeChain( [ "a0", "a1", "a2", "a3" ] );
+    const events = new EventService( { maxQueueSize: 100 } );
+    const currency = { async getPair() { return { rate: 1 } as any; } };
+    const cfg = {
+      watch: [],
+      worker: { id: "w1", members: [ "w1" ] },
+      sinks: { enabled: [ "file" ], file: { path: sinkFile } },
+      maxEventQueueSize: 100,
+    } as any;
+    registerEventPipeline( events, { btc: btc as any, currency: currency as any }, cfg );
+    const reorgs: number[] = [];
+    events.subscribe( {
+      event: "BlockReorg", handler: (e) => {
+        reorgs.push( e.height );
+      }
+    } );
+    const producer = new BlockProducer( btc as any, events );
+    producer.resumeFrom( { height: 0, hash: "a0" } );
+
+    await producer.catchUp( 3 );
+    await wait( 30 );
+    // heights 2 and 3 are replaced and the new branch is one block longer
+    btc.chain.hashes = [ "a0", "a1", "b2", "b3", "b4" ];
+    await producer.catchUp( 4 );
+    await wait( 30 );
+
+    const lines = fs.readFileSync( sinkFile, "utf-8" ).trim().split( "\n" )
+      .map( (l) => JSON.parse( l ) );
+    const seq = lines.map( (e) => {
+      return `${ e.type === "AddressActivityRetracted" ? "-" : "+" }${ e.block.hash }`;
+    } );
+    // sinks run concurrently within a phase, but phases never interleave
+    expect( seq.slice( 0, 3 ).sort() ).toEqual( [ "+a1", "+a2", "+a3" ] );
+    expect( seq.slice( 3, 5 ).sort() ).toEqual( [ "-a2", "-a3" ] );
+    expect( seq.slice( 5 ).sort() ).toEqual( [ "+b2", "+b3", "+b4" ] );
+    expect( reorgs ).toEqual( [ 3, 2 ] );
+    const retraction = lines.find( (e) => {
+      return e.type === "AddressActivityRetracted" && e.block.hash === "a3";
+    } );
+    expect( retraction ).toMatchObject( {
+      replacedBy: "b3",
+      activity: { address: "addr", txid: "tx-a3", direction: "in" },
+      retractsEventId: "AddressActivity:3:a3:addr:tx-a3:in",
+    } );
+    expect( producer.getLastBlock() ).toEqual( { height: 4, hash: "b4" } );
+  } );
+
+  it( "retracts activities published before a restart", async () => {
+    const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-reorg-" ) );
+    const btc = makeFakeChain( [ "a0", "a1", "a2", "a3" ] );
+    const currency = { async getPair() { return { rate: 1 } as any; } };
+    const cfg = {
+      watch: [],
+      worker: { id: "w1", members: [ "w1" ] },
+      sinks: { enabled: [] },
+      maxEventQueueSize: 100,
+      checkpoint: { enabled: true, journalFilePath: path.join( dir, "activity-journal.json" ) },
+    } as any;
+    const first = new EventService( { maxQueueSize: 100 } );
+    registerEventPipeline( first, { btc: btc as any, currency: currency as any }, cfg );
+    const producer = new BlockProducer( btc as any, first );
+    producer.resumeFrom( { height: 0, hash: "a0" } );
+    await producer.catchUp( 3 );
+    await wait( 30 );
+
+    // The next run resumes from the checkpoint and finds heights 2 and 3 orphaned
+    btc.chain.hashes = [ "a0", "a1", "b2", "b3" ];
+    const events = new EventService( { maxQueueSize: 100 } );
+    registerEventPipeline( events, { btc: btc as any, currency: currency as any }, cfg );
+    const retracted: string[] = [];
+    events.subscribe( {
+      event: "AddressActivityRetracted", handler: (e) => {
+        retracted.push( `${ e.retractsEventId }>${ e.replacedBy }` );
+      }
+    } );
+    const resumed = new BlockProducer( btc as any, events );
+    await resumed.publishReorg( 2, "a2", "b2" );
+    await resumed.publishReorg( 3, "a3", "b3" );
+    await wait( 30 );
+    expect( retracted ).toEqual( [
+      "AddressActivity:2:a2:addr:tx-a2:in>b2",
+      "AddressActivity:3:a3:addr:tx-a3:in>b3",
+    ] );
+  } );
+
+  it( "leaves the journal file untouched when backfilling", async () => {
+    const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-reorg-" ) );
+    const journalFile = path.join( dir, "activity-journal.json" );
+    const live = JSON.stringify( { version: 1, blocks: [ { hash: "a9", activities: [] } ] } );
+    fs.writeFileSync( journalFile, live );
+    const btc = makeFakeChain( [ "a0", "a1" ] );
+    const events = new EventService( { maxQueueSize: 100 } );
+    const currency = { async getPair() { return { rate: 1 } as any; } };
+    const cfg = {
+      watch: [],
+      worker: { id: "w1", members: [ "w1" ] },
+      sinks: { enabled: [] },
+      maxEventQueueSize: 100,
+      checkpoint: { enabled: true, journalFilePath: journalFile },
+    } as any;
+    registerEventPipeline( events, { btc: btc as any, currency: currency as any }, cfg );
+    let found = 0;
+    events.subscribe( {
+      event: "AddressActivityFound", handler: () => {
+        found += 1;
+      }
+    } );
+    await events.publish( {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: 1,
+      hash: "a1",
+      source: "backfill",
+    } );
+    await wait( 30 );
+    expect( found ).toBe( 1 );
+    expect( fs.readFileSync( journalFile, "utf-8" ) ).toBe( live );
+  } );
+
+  it( "reports a fork deeper than the remembered window without an ancestor", async () => {
+    const tracker = new ChainTracker( { maxDepth: 2 } );
+    for ( const h of [ 1, 2, 3 ] ) tracker.record( { height: h, hash: `a${ h }` } );
+    expect( tracker.getRecent().map( (r) => r.height ) ).toEqual( [ 2, 3 ] );
+    const fork = await tracker.findForkPoint( makeFakeChain( [ "a0", "b1", "b2", "b3" ] ) );
+    expect( fork.ancestor ).toBeUndefined();
+    expect( fork.orphaned ).toEqual( [
+      { height: 2, oldHash: "a2", newHash: "b2" },
+      { height: 3, oldHash: "a3", newHash: "b3" },
+    ] );
+    // recording a lower height drops the replaced branch above it
+    tracker.record( { height: 2, hash: "b2" } );
+    expect( tracker.getRecent() ).toEqual( [ { height: 2, hash: "b2" } ] );
+  } );
+} );
@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { BitcoinRpcPool } from "@/infrastructure/bitcoin";
+
+type FakeNode = {
+  url: string;
+  state: { height: number; down: boolean; hits: string[] };
+  stop: () => void;
+};
+
+const nodes: FakeNode[] = [];
+
+// Minimal JSON-RPC node: answers getblockcount/getblockhash, or 503 while down
+function fakeNode(height: number): FakeNode {
+  const state = { height, down: false, hits: [] as string[] };
+  const answer = (req: { id: number; method: string; params?: any[] }) => {
+    state.hits.push( req.method );
+    if ( req.method === "getblockcount" ) {
+      return { id: req.id, result: state.height, error: null };
+    }
+    if ( req.method === "getblockhash" ) {
+      const h = Number( req.params?.[0] );
+      if ( h > state.height ) {
+        const error = { code: -8, message: "Block height out of range" };
+        return { id: req.id, result: null, error };
+      }
+      return { id: req.id, result: `hash-${ h }`, error: null };
+    }
+    return { id: req.id, result: `${ req.method }-ok`, error: null };
+  };
+  const server = Bun.serve( {
+    port: 0,
+    async fetch(req) {
+      if ( state.down ) return new Response( "unavailable", { status: 503 } );
+      const body: any = await req.json();
+      const out = Array.isArray( body ) ? body.map( answer ) : answer( body );
+      return Response.json( out );
+    },
+  } );
+  const url = `http://127.0.0.1:${ server.port }/`;
+  const node = { url, state, stop: () => server.stop( true ) };
+  nodes.push( node );
+  return node;
+}
+
+afterAll( () => {
+  for ( const n of nodes ) n.stop();
+} );
+
+describe( "RPC endpoint pool", () => {
+  it( "spreads calls by weight and falls back to the backup tier when needed", async () => {
+    const a = fakeNode( 100 );
+    const b = fakeNode( 100 );
+    const backup = fakeNode( 100 );
+    const rolls = [ 0.1, 0.8, 0.5, 0.9 ];
+    let i = 0;
+    const pool = new BitcoinRpcPool( {
+      endpoints: [
+        { url: a.url, weight: 3 },
+        { url: b.url, weight: 1 },
+        { url: backup.url, priority: 1 },
+      ],
+      failureThreshold: 1,
+      random: () => rolls[i++ % rolls.length],
+    } );
+    for ( let n = 0; n < 4; n++ ) await pool.getBlockHash( n );
+    expect( [ a.state.hits.length, b.state.hits.length, backup.state.hits.length ] )
+      .toEqual( [ 2, 2, 0 ] );
+
+    a.state.down = true;
+    b.state.down = true;
+    expect( await pool.getBlockHash( 7 ) ).toBe( "hash-7" );
+    expect( await pool.getBlockHash( 8 ) ).toBe( "hash-8" );
+    expect( backup.state.hits ).toEqual( [ "getblockhash", "getblockhash" ] );
+    expect( pool.getStatus().map( (s) => s.circuit ) ).toEqual( [ "open", "open", "closed" ] );
+  } );
+
+  it( "retries idempotent calls elsewhere, but never a non-idempotent one", async () => {
+    const down = fakeNode( 100 );
+    const up = fakeNode( 100 );
+    down.state.down = true;
+    const pool = new BitcoinRpcPool( {
+      endpoints: [ { url: down.url }, { url: up.url } ],
+      failureThreshold: 2,
+      random: () => 0,
+    } );
+    expect( await pool.getBlockCount() ).toBe( 100 );
+    const sent = await pool.call( "sendrawtransaction", [ "00" ] ).catch( (e: Error) => e );
+    expect( (sent as Error).message ).toContain( "503" );
+    expect( up.state.hits ).toEqual( [ "getblockcount" ] );
+    // the second transport failure opened the circuit: the next call skips the endpoint
+    expect( pool.getStatus()[0].circuit ).toBe( "open" );
+    expect( await pool.getBlockHash( 1 ) ).toBe( "hash-1" );
+    expect( up.state.hits ).toEqual( [ "getblockcount", "getblockhash" ] );
+  } );
+
+  it( "routes around an endpoint that lags behind the others", async () => {
+    const behind = fakeNode( 95 );
+    const ahead = fakeNode( 100 );
+    const pool = new BitcoinRpcPool( {
+      endpoints: [ { url: behind.url }, { url: ahead.url } ],
+      maxLagBlocks: 2,
+      random: () => 0,
+    } );
+    // unknown height on the lagging node: retried on the other one, not counted as a failure
+    expect( await pool.getBlockHash( 100 ) ).toBe( "hash-100" );
+    expect( pool.getStatus()[0] ).toMatchObject( { circuit: "closed", consecutiveFailures: 0 } );
+
+    await pool.checkHealth();
+    expect( pool.getStatus().map( (s) => s.lagging ) ).toEqual( [ true, false ] );
+    const before = behind.state.hits.length;
+    expect( await pool.getBlockCount() ).toBe( 100 );
+    expect( behind.state.hits.length ).toBe( before );
+
+    behind.state.height = 100;
+    await pool.checkHealth();
+    expect( pool.getStatus()[0].lagging ).toBe( false );
+  } );
+} );
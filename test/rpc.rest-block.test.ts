@@ -0,0 +1,96 @@
+import { afterAll, describe, expect, it } from "bun:test";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { BitcoinRpcClient, BitcoinRpcPool } from "@/infrastructure/bitcoin";
+
+const GENESIS_HASH = "000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f";
+const GENESIS = "0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b2"
+  + "7ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c01010000000100000000"
+  + "00000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054"
+  + "696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64"
+  + "206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a6"
+  + "7130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c"
+  + "702b6bf11d5fac00000000";
+
+type FakeNode = { url: string; state: { rest: number | "ok"; hits: string[] } };
+
+const servers: { stop: (force: boolean) => void }[] = [];
+afterAll( () => {
+  for ( const s of servers ) s.stop( true );
+} );
+
+// Node answering JSON-RPC getblock/getblockheader and GET /rest/block/<hash>.bin (or a status)
+function fakeNode(rest: number | "ok"): FakeNode {
+  const state = { rest, hits: [] as string[] };
+  const server = Bun.serve( {
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL( req.url );
+      if ( req.method === "GET" ) {
+        state.hits.push( pathname );
+        if ( state.rest !== "ok" ) return new Response( "", { status: state.rest } );
+        return new Response( Buffer.from( GENESIS, "hex" ) );
+      }
+      const body = (await req.json()) as { id: number; method: string };
+      state.hits.push( body.method );
+      const result = body.method === "getblock" ? GENESIS : { height: 0, time: 1231006505 };
+      return Response.json( { id: body.id, result, error: null } );
+    },
+  } );
+  servers.push( server );
+  return { url: `http://127.0.0.1:${ server.port }/`, state };
+}
+
+const restPath = `/rest/block/${ GENESIS_HASH }.bin`;
+
+describe( "Raw blocks over REST", () => {
+  it( "reads the block bytes from /rest/block/<hash>.bin instead of getblock", async () => {
+    const node = fakeNode( "ok" );
+    const rpc = new BitcoinRpcClient( { url: node.url, username: "u", password: "p" } );
+    const svc = new BitcoinService( rpc, {
+      parseRawBlocks: true,
+      restBlocks: true,
+      verifyBlocks: true,
+      network: "mainnet",
+    } );
+    const block = await svc.parseBlockByHash( GENESIS_HASH );
+    expect( block.hash ).toBe( GENESIS_HASH );
+    expect( block.transactions[0].outputs[0].valueBtc ).toBe( 50 );
+    expect( node.state.hits.sort() ).toEqual( [ restPath, "getblockheader" ].sort() );
+  } );
+
+  it( "falls back to getblock and leaves REST alone for a while when it fails", async () => {
+    const node = fakeNode( 404 );
+    const rpc = new BitcoinRpcClient( { url: node.url } );
+    const svc = new BitcoinService( rpc, {
+      parseRawBlocks: true,
+      restBlocks: true,
+      network: "mainnet",
+    } );
+    expect( (await svc.parseBlockByHash( GENESIS_HASH )).hash ).toBe( GENESIS_HASH );
+    node.state.rest = "ok";
+    expect( (await svc.parseBlockByHash( GENESIS_HASH )).hash ).toBe( GENESIS_HASH );
+    expect( node.state.hits.filter( (h) => h === restPath ) ).toHaveLength( 1 );
+    expect( node.state.hits.filter( (h) => h === "getblock" ) ).toHaveLength( 2 );
+  } );
+
+  it( "retries REST on another pool endpoint, charging transport errors only", async () => {
+    const down = fakeNode( 503 );
+    const noRest = fakeNode( 404 );
+    const good = fakeNode( "ok" );
+    const pool = new BitcoinRpcPool( {
+      endpoints: [
+        { url: down.url, priority: 0 },
+        { url: noRest.url, priority: 1 },
+        { url: good.url, priority: 2 },
+      ],
+    } );
+    const bytes = await pool.getBlockBytesChecked( GENESIS_HASH, (b) => b );
+    expect( bytes.toString( "hex" ) ).toBe( GENESIS );
+    const [ a, b ] = pool.getStatus();
+    expect( a.consecutiveFailures ).toBe( 1 );
+    // a node without -rest answers 404: not counted against its JSON-RPC service
+    expect( b.consecutiveFailures ).toBe( 0 );
+    expect( noRest.state.hits ).toEqual( [ restPath ] );
+  } );
+} );
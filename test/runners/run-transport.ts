@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+
+import { BitcoinRpcClient, Raw } from "@/infrastructure/bitcoin";
+
+function median(nums: number[]): number {
+  if ( nums.length === 0 ) return 0;
+  const a = nums.slice().sort( (x, y) => x - y );
+  const mid = Math.floor( a.length / 2 );
+  if ( a.length % 2 === 0 ) return (a[mid - 1] + a[mid]) / 2;
+  return a[mid];
+}
+
+function p95(nums: number[]): number {
+  return nums.slice().sort( (a, b) => a - b )[Math.floor( 0.95 * (nums.length - 1) )];
+}
+
+function heapMb(): number {
+  return Math.round( (process.memoryUsage().heapUsed / (1024 * 1024)) * 100 ) / 100;
+}
+
+// Local node serving one block both ways: getblock <hash> 0 (hex in JSON) and /rest/block/*.bin
+function serveBlock(hex: string) {
+  const bytes = Buffer.from( hex, "hex" );
+  const sent = { rpc: 0, rest: 0 };
+  const server = Bun.serve( {
+    port: 0,
+    async fetch(req) {
+      if ( new URL( req.url ).pathname.startsWith( "/rest/block/" ) ) {
+        sent.rest += bytes.length;
+        return new Response( bytes, { headers: { "content-type": "application/octet-stream" } } );
+      }
+      const body = (await req.json()) as { id: number };
+      const json = JSON.stringify( { id: body.id, result: hex, error: null } );
+      sent.rpc += Buffer.byteLength( json );
+      return new Response( json, { headers: { "content-type": "application/json" } } );
+    },
+  } );
+  return { url: `http://127.0.0.1:${ server.port }/`, sent, stop: () => server.stop( true ) };
+}
+
+async function timeFetches(
+  iterations: number,
+  fetchOnce: () => Promise<Raw.ParsedRawBlock>
+): Promise<{ times: number[]; heapDeltaMb: number }> {
+  await fetchOnce();
+  const heapBefore = heapMb();
+  const times: number[] = [];
+  for ( let i = 0; i < iterations; i++ ) {
+    const t0 = performance.now();
+    await fetchOnce();
+    times.push( performance.now() - t0 );
+  }
+  return { times, heapDeltaMb: Math.round( (heapMb() - heapBefore) * 100 ) / 100 };
+}
+
+/**
+ * Fetch + parse of the largest fixture over a local HTTP server: JSON-RPC getblock <hash> 0
+ * (the default raw path) against the REST binary endpoint (BTC_RPC_REST_BLOCKS=true).
+ */
+export async function measureTransport(iterationsInput?: number) {
+  const fixturesDir = path.join( process.cwd(), "test", "fixtures" );
+  const entries = fs.readdirSync( fixturesDir ).filter( (f) => f.endsWith( "-current.raw" ) );
+  if ( entries.length === 0 ) {
+    throw new Error( "No *.raw fixtures found" );
+  }
+  entries.sort( (a, b) => Number( b.split( "-" )[1] ) - Number( a.split( "-" )[1] ) );
+  const hex = fs.readFileSync( path.join( fixturesDir, entries[0] ), "utf8" ).trim();
+  const hash = Raw.parseRawBlock( hex, "mainnet" ).hash;
+
+  const iterations = Number( iterationsInput ?? process.env.TRANSPORT_RUNS ?? 20 );
+  const node = serveBlock( hex );
+  try {
+    const client = new BitcoinRpcClient( { url: node.url, timeoutMs: 60000 } );
+    const parse = (raw: string | Buffer) => Raw.parseRawBlock( raw, "mainnet" );
+    const rpc = await timeFetches(
+      iterations,
+      () => client.getBlockRawByHash( hash ).then( parse )
+    );
+    const rest = await timeFetches(
+      iterations,
+      () => client.getBlockBytesChecked( hash, parse )
+    );
+    const rpcMedian = median( rpc.times );
+    const restMedian = median( rest.times );
+    return {
+      suite: "proc-transport",
+      iterations,
+      blockBytes: hex.length / 2,
+      rpcBytesPerBlock: Math.round( node.sent.rpc / (iterations + 1) ),
+      restBytesPerBlock: Math.round( node.sent.rest / (iterations + 1) ),
+      rpcMsMedian: Math.round( rpcMedian ),
+      rpcMsP95: Math.round( p95( rpc.times ) ),
+      restMsMedian: Math.round( restMedian ),
+      restMsP95: Math.round( p95( rest.times ) ),
+      rpcHeapDeltaMb: rpc.heapDeltaMb,
+      restHeapDeltaMb: rest.heapDeltaMb,
+      speedup: Math.round( (rpcMedian / (restMedian || 1)) * 100 ) / 100,
+    };
+  } finally {
+    await node.stop();
+  }
+}
+
+if ( import.meta.main ) {
+  try {
+    const data = await measureTransport();
+    console.log( JSON.stringify( data ) );
+  } catch ( err ) {
+    console.error( String( (err as any)?.message || err ) );
+    process.exit( 1 );
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
+import { BitcoinService } from "@/app/services/BitcoinService";
 import type { Network } from "@/infrastructure/bitcoin/raw/Address";
 import { decodeScriptPubKey } from "@/infrastructure/bitcoin/raw/Script";
 
@@ -76,6 +77,106 @@ describe( "Script decoding and address formats", () => {
     expect( decoded.type ).toBe( "nulldata" );
     expect( decoded.opReturnDataHex ).toBe( "74657374" );
   } );
+
+  test( "OP_RETURN -> every push in order, OP_n as the number pushed", () => {
+    // OP_RETURN OP_13 OP_0 OP_1NEGATE PUSHDATA1(3) PUSH(2)
+    const decoded = decodeScriptPubKey( hexToBuf( "6a5d004f4c03aabbcc02ddee" ), network );
+    expect( decoded ).toEqual( {
+      type: "nulldata",
+      opReturnDataHex: "aabbcc",
+      opReturnPushes: [ "0d", "", "81", "aabbcc", "ddee" ],
+    } );
+    // a truncated push ends the list
+    expect( decodeScriptPubKey( hexToBuf( "6a02aabb05cc" ), network ).opReturnPushes )
+      .toEqual( [ "aabb" ] );
+    // no non-empty data push: not nulldata, as before
+    expect( decodeScriptPubKey( hexToBuf( "6a5d00" ), network ).type ).toBe( "nonstandard" );
+  } );
+
+  test( "P2PK -> type pubkey with the key and no address", () => {
+    // genesis coinbase output: PUSH65 <uncompressed key> OP_CHECKSIG
+    const key = "04678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4"
+      + "f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5f";
+    const decoded = decodeScriptPubKey( hexToBuf( `41${ key }ac` ), network );
+    expect( decoded ).toEqual( { type: "pubkey", pubkeys: [ key ] } );
+  } );
+
+  test( "bare multisig -> type multisig with keys in script order", () => {
+    const k1 = `02${ "11".repeat( 32 ) }`;
+    const k2 = `04${ "22".repeat( 64 ) }`;
+    const decoded = decodeScriptPubKey( hexToBuf( `5121${ k1 }41${ k2 }52ae` ), network );
+    expect( decoded ).toEqual( { type: "multisig", pubkeys: [ k1, k2 ] } );
+    // m > n and key count not matching n are not multisig
+    expect( decodeScriptPubKey( hexToBuf( `5321${ k1 }41${ k2 }52ae` ), network ).type )
+      .toBe( "nonstandard" );
+    expect( decodeScriptPubKey( hexToBuf( `5121${ k1 }53ae` ), network ).type )
+      .toBe( "nonstandard" );
+  } );
+
+  test( "witness v2-v16 -> type witness_unknown with a bech32m address (BIP350 vectors)", () => {
+    const v2 = decodeScriptPubKey( hexToBuf( "5210751e76e8199196d454941c45d1b3a323" ), network );
+    expect( v2 ).toEqual( {
+      type: "witness_unknown",
+      address: "bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs",
+    } );
+    const v16 = decodeScriptPubKey( hexToBuf( "6002751e" ), network );
+    expect( v16 ).toEqual( { type: "witness_unknown", address: "bc1sw50qgdz25j" } );
+    // v0 programs other than 20/32 bytes are not a future version
+    expect( decodeScriptPubKey( hexToBuf( `0010${ "00".repeat( 16 ) }` ), network ).type )
+      .toBe( "nonstandard" );
+  } );
+
+  test( "P2A -> type anchor", () => {
+    const decoded = decodeScriptPubKey( hexToBuf( "51024e73" ), network );
+    expect( decoded ).toEqual( { type: "anchor", address: "bc1pfeessrawgf" } );
+  } );
+
+  test( "verbose RPC outputs map to the same types as the raw path", async () => {
+    const key = `02${ "11".repeat( 32 ) }`;
+    const rpc = {
+      async getBlockByHashVerbose3() {
+        const vout = [
+          // pre-v22 nodes listed the P2PKH address of P2PK keys
+          { value: 1, scriptPubKey: { type: "pubkey", hex: `21${ key }ac`, addresses: [ "1x" ] } },
+          // pre-v28 nodes do not know P2A
+          { value: 0, scriptPubKey: { type: "witness_unknown", hex: "51024e73" } },
+        ];
+        return { hash: "h", height: 1, time: 1, tx: [ { txid: "t", vin: [], vout } ] };
+      },
+    };
+    const svc = new BitcoinService( rpc as any, { network } );
+    const block = await svc.parseBlockByHash( "h" );
+    expect( block.transactions[0].outputs ).toEqual( [
+      { address: undefined, valueBtc: 1, scriptType: "pubkey", pubkeys: [ key ] },
+      { address: "bc1pfeessrawgf", valueBtc: 0, scriptType: "anchor" },
+    ] );
+  } );
+
+  test( "verbose RPC OP_RETURN outputs list the same pushes as the raw path", async () => {
+    const hex = "6a5d0b00c0a2330380cfe1e10b0a0474657374";
+    const rpc = {
+      async getBlockByHashVerbose3() {
+        // asm renders short pushes as numbers, so only the script hex is reliable
+        const asm = "OP_RETURN 13 00c0a2330380cfe1e10b0a 1953719668";
+        const scriptPubKey = { type: "nulldata", hex, asm };
+        return {
+          hash: "h",
+          height: 1,
+          time: 1,
+          tx: [ { txid: "t", vin: [], vout: [ { value: 0, scriptPubKey } ] } ],
+        };
+      },
+    };
+    const svc = new BitcoinService( rpc as any, { network } );
+    const block = await svc.parseBlockByHash( "h" );
+    const raw = decodeScriptPubKey( hexToBuf( hex ), network );
+    expect( raw.opReturnPushes ).toEqual( [ "0d", "00c0a2330380cfe1e10b0a", "74657374" ] );
+    expect( block.transactions[0].outputs[0] ).toMatchObject( {
+      scriptType: "nulldata",
+      opReturnDataHex: raw.opReturnDataHex,
+      opReturnPushes: raw.opReturnPushes,
+    } );
+  } );
 } );
 
 
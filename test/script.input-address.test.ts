@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+
+import { Raw } from "@/infrastructure/bitcoin";
+import { deriveInputAddress } from "@/infrastructure/bitcoin/raw/Script";
+
+// Public key of private key 1 (the generator point); BIP173 and common wallet test vectors
+const G = Buffer.from(
+  "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798",
+  "hex"
+);
+const G_UNCOMPRESSED = Buffer.from(
+  "0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798"
+  + "483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8",
+  "hex"
+);
+const SIG = Buffer.concat( [ Buffer.from( [ 0x30 ] ), Buffer.alloc( 70, 0x01 ) ] );
+const NESTED = Buffer.from( "160014751e76e8199196d454941c45d1b3a323f1433bd6", "hex" );
+
+function push(data: Buffer): Buffer {
+  return Buffer.concat( [ Buffer.from( [ data.length ] ), data ] );
+}
+
+describe( "Input address derivation", () => {
+  test( "P2WPKH, P2SH-P2WPKH and P2PKH spends reveal their address", () => {
+    expect( deriveInputAddress( Buffer.alloc( 0 ), G, "mainnet" ) )
+      .toBe( "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4" );
+    expect( deriveInputAddress( NESTED, G, "mainnet" ) )
+      .toBe( "3JvL6Ymt8MVWiCNHC7oWU6nLeHNJKLZGLN" );
+    const scriptSig = Buffer.concat( [ push( SIG ), push( G ) ] );
+    expect( deriveInputAddress( scriptSig, undefined, "mainnet" ) )
+      .toBe( "1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH" );
+    const legacy = Buffer.concat( [ push( SIG ), push( G_UNCOMPRESSED ) ] );
+    expect( deriveInputAddress( legacy, undefined, "mainnet" ) )
+      .toBe( "1EHNa6Q4Jz2uvNExL497mE43ikXhwF6kZm" );
+  } );
+
+  test( "other spends stay unresolved", () => {
+    // uncompressed keys are not valid in segwit v0
+    expect( deriveInputAddress( Buffer.alloc( 0 ), G_UNCOMPRESSED, "mainnet" ) ).toBeUndefined();
+    // nested program not matching the witness key
+    const other = Buffer.from( `160014${ "00".repeat( 20 ) }`, "hex" );
+    expect( deriveInputAddress( other, G, "mainnet" ) ).toBeUndefined();
+    // P2PK (signature only) and P2SH multisig (OP_0 <sig> <redeemScript>)
+    expect( deriveInputAddress( push( SIG ), undefined, "mainnet" ) ).toBeUndefined();
+    const redeemScript = Buffer.alloc( 71 );
+    const multisig = Buffer.concat( [ Buffer.from( [ 0 ] ), push( SIG ), push( redeemScript ) ] );
+    expect( deriveInputAddress( multisig, undefined, "mainnet" ) ).toBeUndefined();
+  } );
+
+  test( "parseTransaction fills inputs[].address only when enabled", () => {
+    const outpoint = (n: number) => `${ n.toString( 16 ).padStart( 2, "0" ).repeat( 32 ) }00000000`;
+    const vin = [
+      `${ outpoint( 1 ) }00ffffffff`,
+      `${ outpoint( 2 ) }${ NESTED.length.toString( 16 ) }${ NESTED.toString( "hex" ) }ffffffff`,
+      `${ outpoint( 3 ) }00ffffffff`,
+    ];
+    const witness = [
+      `02${ push( SIG ).toString( "hex" ) }${ push( G ).toString( "hex" ) }`,
+      `02${ push( SIG ).toString( "hex" ) }${ push( G ).toString( "hex" ) }`,
+      // taproot key path: a single Schnorr signature, no key
+      `01${ push( Buffer.alloc( 64, 0x02 ) ).toString( "hex" ) }`,
+    ];
+    const out = `01${ "00".repeat( 8 ) }160014${ "11".repeat( 20 ) }`;
+    const hex = `020000000001${ "03" }${ vin.join( "" ) }${ out }${ witness.join( "" ) }00000000`;
+
+    const parse = (deriveInputAddresses: boolean) => {
+      const reader = new Raw.ByteReader( Buffer.from( hex, "hex" ) );
+      return Raw.parseTransaction( reader, "mainnet", { deriveInputAddresses } );
+    };
+    expect( parse( true ).inputs.map( (i) => i.address ) ).toEqual( [
+      "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4",
+      "3JvL6Ymt8MVWiCNHC7oWU6nLeHNJKLZGLN",
+      undefined,
+    ] );
+    expect( parse( false ).inputs.every( (i) => i.address === undefined ) ).toBe( true );
+    expect( parse( true ).txid ).toBe( parse( false ).txid );
+  } );
+} );
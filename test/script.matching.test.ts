@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildWatchIndexCache,
+  findAddressActivities,
+  normalizeWatchedAddresses
+} from "@/app/helpers/bitcoin";
+import { Raw } from "@/infrastructure/bitcoin";
+import type { ParsedBlock } from "@/types/blockchain";
+
+// Addresses of the generator point's public key, and a BIP86 taproot address
+const P2WPKH = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+const P2WPKH_SCRIPT = "0014751e76e8199196d454941c45d1b3a323f1433bd6";
+const SCRIPTS: [ string, string ][] = [
+  [ "1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH", "76a914751e76e8199196d454941c45d1b3a323f1433bd688ac" ],
+  [ "3JvL6Ymt8MVWiCNHC7oWU6nLeHNJKLZGLN", "a914bcfeb728b584253d5f3f70bcb780e9ef218a68f487" ],
+  [ P2WPKH, P2WPKH_SCRIPT ],
+  [
+    "bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr",
+    "5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c",
+  ],
+];
+// OP_TRUE: a nonstandard output with no address
+const ANYONE_CAN_SPEND = "51";
+
+function txHex(scripts: string[]): string {
+  // 1000 sats each, little-endian
+  const value = "e803000000000000";
+  const outputs = scripts
+    .map( (s) => `${ value }${ (s.length / 2).toString( 16 ).padStart( 2, "0" ) }${ s }` );
+  const vin = `${ "01".repeat( 32 ) }0000000000ffffffff`;
+  return `0100000001${ vin }0${ scripts.length }${ outputs.join( "" ) }00000000`;
+}
+
+describe( "Script matching", () => {
+  test( "addressToScriptPubKey inverts decodeScriptPubKey", () => {
+    for ( const [ address, script ] of SCRIPTS ) {
+      expect( Raw.addressToScriptPubKey( address ).toString( "hex" ) ).toBe( script );
+      expect( Raw.decodeScriptPubKey( Buffer.from( script, "hex" ), "mainnet" ).address )
+        .toBe( address );
+    }
+    expect( () => Raw.addressToScriptPubKey( P2WPKH, "testnet" ) ).toThrow( /network/ );
+  } );
+
+  test( "raw parsing keeps scripts and skips address encoding when asked", () => {
+    const hex = txHex( [ P2WPKH_SCRIPT, ANYONE_CAN_SPEND ] );
+    const parse = (scriptPubKeys: boolean) => {
+      const reader = new Raw.ByteReader( Buffer.from( hex, "hex" ) );
+      return Raw.parseTransaction( reader, "mainnet", { scriptPubKeys } );
+    };
+    expect( parse( false ).outputs[0] ).toEqual( expect.objectContaining( { address: P2WPKH } ) );
+    const outputs = parse( true ).outputs;
+    expect( outputs.map( (o) => o.address ) ).toEqual( [ undefined, undefined ] );
+    expect( outputs.map( (o) => o.scriptType ) ).toEqual( [ "witness_v0_keyhash", "nonstandard" ] );
+    expect( outputs.map( (o) => o.scriptPubKey?.toString( "hex" ) ) ).toEqual( [
+      P2WPKH_SCRIPT,
+      ANYONE_CAN_SPEND,
+    ] );
+  } );
+
+  test( "matches addresses and nonstandard scripts on their bytes", () => {
+    const watched = normalizeWatchedAddresses( [
+      { address: P2WPKH, label: "hot" },
+      { address: `raw(${ ANYONE_CAN_SPEND })`, label: "puzzle" },
+    ], "mainnet" );
+    expect( watched[1] ).toEqual( expect.objectContaining( {
+      address: "raw(51)",
+      scriptPubKey: ANYONE_CAN_SPEND,
+    } ) );
+    const reader = new Raw.ByteReader( Buffer.from( txHex( [ P2WPKH_SCRIPT, "51" ] ), "hex" ) );
+    const tx = Raw.parseTransaction( reader, "mainnet", { scriptPubKeys: true } );
+    const block: ParsedBlock = {
+      hash: "h",
+      height: 1,
+      time: 0,
+      transactions: [ { txid: tx.txid, inputs: [], outputs: tx.outputs } ],
+    };
+
+    const cache = buildWatchIndexCache( watched, { scripts: true } );
+    const byScript = findAddressActivities( block, cache );
+    // Descriptor entries carry their label as the key label
+    expect( byScript.map( (a) => [ a.address, a.label, a.xpubLabel ] ) ).toEqual( [
+      [ P2WPKH, "hot", undefined ],
+      [ "raw(51)", undefined, "puzzle" ],
+    ] );
+    // Address mode: outputs parsed without addresses match nothing
+    expect( findAddressActivities( block, buildWatchIndexCache( watched ) ) ).toEqual( [] );
+  } );
+} );
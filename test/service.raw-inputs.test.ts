@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { Raw } from "@/infrastructure/bitcoin";
+
+function p2wpkh(fill: number): { spk: string; address: string } {
+  const spk = `0014${ fill.toString( 16 ).padStart( 2, "0" ).repeat( 20 ) }`;
+  const { address } = Raw.decodeScriptPubKey( Buffer.from( spk, "hex" ), "regtest" );
+  return { spk, address: address as string };
+}
+
+function sats(n: number): string {
+  const b = Buffer.alloc( 8 );
+  b.writeBigUInt64LE( BigInt( n ) );
+  return b.toString( "hex" );
+}
+
+// Legacy-serialized tx: inputs are [txid (display order), vout], outputs are [spk hex, sats]
+function tx(inputs: [ string, number ][], outputs: [ string, number ][]): string {
+  const ins = inputs.map( ([ txid, vout ]) => {
+    const prev = Buffer.from( txid, "hex" ).reverse().toString( "hex" );
+    const n = Buffer.alloc( 4 );
+    n.writeUInt32LE( vout );
+    return `${ prev }${ n.toString( "hex" ) }00ffffffff`;
+  } );
+  const outs = outputs.map( ([ spk, value ]) => {
+    return `${ sats( value ) }${ (spk.length / 2).toString( 16 ).padStart( 2, "0" ) }${ spk }`;
+  } );
+  const count = (n: number) => n.toString( 16 ).padStart( 2, "0" );
+  return `01000000${ count( ins.length ) }${ ins.join( "" ) }${ count( outs.length ) }${ outs.join( "" ) }00000000`;
+}
+
+function block(txs: string[]): string {
+  const header = Buffer.alloc( 80 );
+  header.writeUInt32LE( 1, 0 );
+  header.writeUInt32LE( 1700000000, 68 );
+  return `${ header.toString( "hex" ) }${ txs.length.toString( 16 ).padStart( 2, "0" ) }${ txs.join( "" ) }`;
+}
+
+const coinbaseIn: [ string, number ] = [ "00".repeat( 32 ), 0xffffffff ];
+const watched = p2wpkh( 0xaa );
+const other = p2wpkh( 0xbb );
+const external = "ee".repeat( 32 );
+
+// Block 1 pays 1 BTC to the watched address; block 2 spends it together with an output of a
+// transaction from outside the cache, plus a spend of its own first transaction
+const block1 = block( [ tx( [ coinbaseIn ], [ [ watched.spk, 100_000_000 ] ] ) ] );
+const b1txid = Raw.parseRawBlock( block1, "regtest" ).transactions[0].txid;
+const b2first = tx( [ [ b1txid, 0 ], [ external, 1 ] ], [ [ other.spk, 130_000_000 ] ] );
+const b2firstId = Raw.parseRawBlock( block( [ b2first ] ), "regtest" ).transactions[0].txid;
+const block2 = block( [
+  tx( [ coinbaseIn ], [ [ other.spk, 312_500_000 ] ] ),
+  b2first,
+  tx( [ [ b2firstId, 0 ] ], [ [ watched.spk, 120_000_000 ] ] ),
+] );
+
+function fakeRpc() {
+  const blocks: Record<string, string> = { one: block1, two: block2 };
+  const batches: string[][] = [];
+  const rpc = {
+    batches,
+    async getBlockRawByHash(hash: string) {
+      return blocks[hash];
+    },
+    async getBlockHeader(hash: string) {
+      return { height: hash === "one" ? 1 : 2, time: 1700000000 };
+    },
+    async getRawTransactionVerboseBatch(txids: string[]) {
+      batches.push( txids );
+      return txids.map( (txid) => txid === external
+        ? { txid, vout: [ {}, { value: 0.3, scriptPubKey: { address: other.address } } ] }
+        : null );
+    },
+  };
+  return rpc;
+}
+
+describe( "Raw path input resolution", () => {
+  it( "resolves from outputs of earlier blocks and batches the misses", async () => {
+    const rpc = fakeRpc();
+    const svc = new BitcoinService( rpc as any, {
+      parseRawBlocks: true,
+      resolveInputAddresses: true,
+      network: "regtest",
+    } );
+    const first = await svc.parseBlockByHash( "one" );
+    expect( first.transactions[0].inputs ).toEqual( [ {} ] );
+
+    const second = await svc.parseBlockByHash( "two" );
+    expect( rpc.batches ).toEqual( [ [ external ] ] );
+    expect( second.transactions[1].inputs ).toEqual( [
+      { address: watched.address, valueBtc: 1 },
+      { address: other.address, valueBtc: 0.3 },
+    ] );
+    // spent within the same block
+    const sameBlock = second.transactions[2].inputs;
+    expect( sameBlock ).toEqual( [ { address: other.address, valueBtc: 1.3 } ] );
+    // fees need every input value: none for the coinbase, 0.1 BTC over 82 vB for the last one
+    expect( second.transactions[0].feeSats ).toBeUndefined();
+    expect( second.transactions[2] ).toMatchObject( {
+      vsize: 82,
+      feeSats: 10_000_000,
+      feeRate: 121951.22,
+    } );
+
+    const activities = svc.checkTransactions( second, [ { address: watched.address } ] );
+    expect( activities.map( (a) => [ a.txid, a.direction, a.valueBtc, a.feeSats ] ) ).toEqual( [
+      [ b2firstId, "out", 1, 0 ],
+      // the fee is echoed on outgoing activity only
+      [ second.transactions[2].txid, "in", 1.2, undefined ],
+    ] );
+  } );
+
+  it( "skips the lookup of spends whose derived address is not watched", async () => {
+    const pubKey = "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+    const spender = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+    // P2WPKH spend of an unknown output: empty scriptSig, [sig, pubkey] witness
+    const witness = `0247${ "30".repeat( 71 ) }21${ pubKey }`;
+    const input = `${ "ee".repeat( 32 ) }0500000000ffffffff`;
+    const output = `${ sats( 1000 ) }16${ other.spk }`;
+    const segwit = `01000000000101${ input }01${ output }${ witness }00000000`;
+    const parse = async (watch: string) => {
+      const rpc = fakeRpc();
+      rpc.getBlockRawByHash = async () => block( [ tx( [ coinbaseIn ], [] ), segwit ] );
+      const svc = new BitcoinService( rpc as any, {
+        parseRawBlocks: true,
+        resolveInputAddresses: true,
+        deriveInputAddresses: true,
+        network: "mainnet",
+      } );
+      svc.setWatchedAddresses( [ { address: watch } ] );
+      const parsed = await svc.parseBlockByHash( "two" );
+      return { batches: rpc.batches, inputs: parsed.transactions[1].inputs };
+    };
+    expect( await parse( watched.address ) ).toEqual( {
+      batches: [],
+      inputs: [ { address: spender } ],
+    } );
+    // a watched spender still needs the spent value
+    expect( (await parse( spender )).batches ).toEqual( [ [ external ] ] );
+  } );
+
+  it( "keeps inputs empty when resolution is disabled", async () => {
+    const rpc = fakeRpc();
+    const svc = new BitcoinService( rpc as any, { parseRawBlocks: true, network: "regtest" } );
+    const parsed = await svc.parseBlockByHash( "two" );
+    expect( parsed.transactions.every( (t) => t.inputs.length === 0 ) ).toBe( true );
+    expect( rpc.batches ).toEqual( [] );
+  } );
+} );
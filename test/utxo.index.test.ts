@@ -0,0 +1,167 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import {
+  outpointFromKey,
+  outpointKey,
+  type IndexedOutput,
+  UtxoIndex
+} from "@/app/services/UtxoIndex";
+import { Raw } from "@/infrastructure/bitcoin";
+import type { ParsedTx } from "@/infrastructure/bitcoin/raw/TxParser";
+
+const dir = fs.mkdtempSync( path.join( os.tmpdir(), "utxo-index-" ) );
+let files = 0;
+const open = (mode: "watched" | "all" = "watched", undoDepth?: number) => {
+  return new UtxoIndex( { filePath: path.join( dir, `${ files++ }.sqlite` ), mode, undoDepth } );
+};
+
+afterAll( () => fs.rmSync( dir, { recursive: true, force: true } ) );
+
+type Tx = Pick<ParsedTx, "txid" | "inputs" | "outputs">;
+
+const coinbase = { prevTxId: "00".repeat( 32 ), prevVout: 0xffffffff, sequence: 0 };
+const spend = (txid: string, vout: number) => ({ prevTxId: txid, prevVout: vout, sequence: 0 });
+const pay = (address: string, valueBtc: number) => {
+  return { address, valueBtc, scriptType: "pubkeyhash" };
+};
+const id = (n: number) => n.toString( 16 ).padStart( 64, "0" );
+const hash = (n: number) => `h${ n }`;
+const watched = (a: string) => a === "W";
+
+// height 1 pays W twice (one output to someone else); height 2 spends one W output
+const b1: Tx[] = [
+  {
+    txid: id( 1 ),
+    inputs: [ coinbase ],
+    outputs: [ pay( "W", 1 ), pay( "X", 2 ), pay( "W", 0.5 ) ],
+  },
+];
+const b2: Tx[] = [
+  { txid: id( 2 ), inputs: [ coinbase ], outputs: [ pay( "X", 3.125 ) ] },
+  {
+    txid: id( 3 ),
+    inputs: [ spend( id( 1 ), 0 ), spend( id( 1 ), 1 ) ],
+    outputs: [ pay( "X", 1 ) ],
+  },
+];
+
+describe( "UTXO index", () => {
+  it( "uses a 33-byte key for small output indexes and round-trips it", () => {
+    expect( outpointKey( id( 7 ), 1 ) ).toHaveLength( 33 );
+    expect( outpointKey( id( 7 ), 300 ) ).toHaveLength( 34 );
+    expect( outpointFromKey( outpointKey( id( 7 ), 300 ) ) ).toBe( `${ id( 7 ) }:300` );
+    const max = outpointKey( id( 7 ), 0xffffffff );
+    expect( outpointFromKey( max ) ).toBe( `${ id( 7 ) }:4294967295` );
+  } );
+
+  it( "keeps watched outputs only and returns the ones a block spends", () => {
+    const index = open();
+    expect( index.applyBlock( { height: 1, hash: hash( 1 ) }, b1, watched ) ).toEqual( new Map() );
+    expect( index.size() ).toBe( 2 );
+    const ref = { height: 2, hash: hash( 2 ), prevHash: hash( 1 ) };
+    const spent = index.applyBlock( ref, b2, watched );
+    expect( spent ).toEqual( new Map( [ [ `${ id( 1 ) }:0`, { address: "W", valueBtc: 1 } ] ] ) );
+    expect( index.size() ).toBe( 1 );
+    // re-parsing an applied block answers from its undo data
+    const again = index.applyBlock( { height: 2, hash: hash( 2 ) }, b2, watched );
+    expect( again ).toEqual( spent as Map<string, IndexedOutput> );
+    expect( index.getTip() ).toEqual( { height: 2, hash: hash( 2 ) } );
+    index.close();
+  } );
+
+  it( "indexes every addressed output in all mode", () => {
+    const index = open( "all" );
+    index.applyBlock( { height: 1, hash: hash( 1 ) }, b1, watched );
+    const spent = index.applyBlock( { height: 2, hash: hash( 2 ) }, b2, watched );
+    expect( spent?.get( `${ id( 1 ) }:1` ) ).toEqual( { address: "X", valueBtc: 2 } );
+    index.close();
+  } );
+
+  it( "disconnects a replaced block from its undo data on a reorg", () => {
+    const index = open();
+    index.applyBlock( { height: 1, hash: hash( 1 ) }, b1, watched );
+    index.applyBlock( { height: 2, hash: hash( 2 ), prevHash: hash( 1 ) }, b2, watched );
+    // the replacement at height 2 spends the other W output instead
+    const b2b: Tx[] = [
+      { txid: id( 4 ), inputs: [ coinbase ], outputs: [ pay( "W", 3.125 ) ] },
+      { txid: id( 5 ), inputs: [ spend( id( 1 ), 2 ) ], outputs: [ pay( "X", 0.5 ) ] },
+    ];
+    const spent = index.applyBlock( { height: 2, hash: "h2b", prevHash: hash( 1 ) }, b2b, watched );
+    expect( [ ...(spent?.keys() ?? []) ] ).toEqual( [ `${ id( 1 ) }:2` ] );
+    expect( index.getTip() ).toEqual( { height: 2, hash: "h2b" } );
+    // 1:0 is unspent again, 1:2 is gone, the new coinbase is indexed
+    const b3: Tx[] = [
+      { txid: id( 6 ), inputs: [ spend( id( 1 ), 0 ), spend( id( 4 ), 0 ) ], outputs: [] },
+    ];
+    const later = index.applyBlock( { height: 3, hash: hash( 3 ), prevHash: "h2b" }, b3, watched );
+    expect( later ).toEqual( new Map( [
+      [ `${ id( 1 ) }:0`, { address: "W", valueBtc: 1 } ],
+      [ `${ id( 4 ) }:0`, { address: "W", valueBtc: 3.125 } ],
+    ] ) );
+    expect( index.size() ).toBe( 0 );
+    index.close();
+  } );
+
+  it( "refuses blocks out of order and below the undo window", () => {
+    const index = open( "watched", 1 );
+    index.applyBlock( { height: 1, hash: hash( 1 ) }, b1, watched );
+    expect( index.applyBlock( { height: 3, hash: hash( 3 ) }, [], watched ) ).toBeUndefined();
+    expect( index.applyBlock( { height: 2, hash: hash( 2 ), prevHash: "other" }, b2, watched ) )
+      .toBeUndefined();
+    index.applyBlock( { height: 2, hash: hash( 2 ), prevHash: hash( 1 ) }, b2, watched );
+    // height 1 fell out of the one-block undo window
+    expect( index.applyBlock( { height: 1, hash: "h1b" }, b1, watched ) ).toBeUndefined();
+    expect( index.getTip() ).toEqual( { height: 2, hash: hash( 2 ) } );
+    index.close();
+  } );
+
+  it( "resolves raw-path inputs from the index without getrawtransaction", async () => {
+    const spk = `0014${ "aa".repeat( 20 ) }`;
+    const decoded = Raw.decodeScriptPubKey( Buffer.from( spk, "hex" ), "regtest" );
+    const address = decoded.address as string;
+    const header = Buffer.alloc( 80 );
+    header.writeUInt32LE( 1, 0 );
+    const value = Buffer.alloc( 8 );
+    value.writeBigUInt64LE( 100_000_000n );
+    const tx = (prev: string, vout: number) => {
+      const n = Buffer.alloc( 4 );
+      n.writeUInt32LE( vout );
+      const prevLE = Buffer.from( prev, "hex" ).reverse().toString( "hex" );
+      const input = `${ prevLE }${ n.toString( "hex" ) }00ffffffff`;
+      return `0100000001${ input }01${ value.toString( "hex" ) }16${ spk }00000000`;
+    };
+    const first = `${ header.toString( "hex" ) }01${ tx( "00".repeat( 32 ), 0xffffffff ) }`;
+    const parsedFirst = Raw.parseRawBlock( first, "regtest" );
+    Buffer.from( parsedFirst.hash, "hex" ).reverse().copy( header, 4 );
+    const second = `${ header.toString( "hex" ) }01${ tx( parsedFirst.transactions[0].txid, 0 ) }`;
+    const rpcCalls: string[] = [];
+    const rpc = {
+      async getBlockRawByHash(h: string) {
+        return h === "one" ? first : second;
+      },
+      async getBlockHeader(h: string) {
+        return { height: h === "one" ? 10 : 11, time: 1700000000 };
+      },
+      async getRawTransactionVerboseBatch(txids: string[]) {
+        rpcCalls.push( ...txids );
+        return [];
+      },
+    };
+    const utxoIndex = open();
+    const opts = { parseRawBlocks: true, resolveInputAddresses: true, network: "regtest" as const };
+    // a restart: the in-memory prevout cache is empty for the second block
+    const before = new BitcoinService( rpc as any, { ...opts, utxoIndex } );
+    before.setWatchedAddresses( [ { address } ] );
+    await before.parseBlockByHash( "one" );
+    const after = new BitcoinService( rpc as any, { ...opts, utxoIndex } );
+    after.setWatchedAddresses( [ { address } ] );
+    const block = await after.parseBlockByHash( "two" );
+    expect( block.transactions[0].inputs ).toEqual( [ { address, valueBtc: 1 } ] );
+    expect( rpcCalls ).toEqual( [] );
+    utxoIndex.close();
+  } );
+} );
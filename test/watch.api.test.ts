@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import type { WatchFile } from "@/app/helpers/bitcoin";
+import { WatchListApi } from "@/app/services/WatchListApi";
+
+const TOKEN = "s3cret-token";
+const P2WPKH = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+const P2PKH = "1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH";
+const ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+
+function tmpFile(content?: unknown): string {
+  const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-watch-api-" ) );
+  const file = path.join( dir, "addresses.json" );
+  if ( content !== undefined ) fs.writeFileSync( file, JSON.stringify( content ) );
+  return file;
+}
+
+let api: WatchListApi | undefined;
+
+afterEach( () => {
+  api?.stop();
+  api = undefined;
+} );
+
+function startApi(filePath: string) {
+  const applied: WatchFile[] = [];
+  api = new WatchListApi( {
+    port: 0,
+    token: TOKEN,
+    filePath,
+    network: "mainnet",
+    onChange: (file) => applied.push( file ),
+  } );
+  api.start();
+  const base = `http://127.0.0.1:${ api.getPort() }`;
+  const call = (method: string, route: string, body?: unknown, token: string = TOKEN) =>
+    fetch( `${ base }${ route }`, {
+      method,
+      headers: { "Authorization": `Bearer ${ token }`, "content-type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify( body ),
+    } );
+  return { applied, call };
+}
+
+describe( "Watch list API", () => {
+  it( "rejects requests without the token", async () => {
+    const { call } = startApi( tmpFile( [] ) );
+    const res = await call( "GET", "/watch", undefined, "wrong" );
+    expect( res.status ).toBe( 401 );
+    expect( res.headers.get( "www-authenticate" ) ).toBe( "Bearer" );
+  } );
+
+  it( "adds, relabels and removes addresses in the watch file", async () => {
+    const filePath = tmpFile( [ { xpub: ZPUB, label: "cold" }, { address: P2PKH, label: "a" } ] );
+    const { applied, call } = startApi( filePath );
+
+    // Stored normalized: bech32 in lower case
+    const added = await call( "POST", "/watch", {
+      address: P2WPKH.toUpperCase(),
+      label: "hot",
+      rules: { minBtc: 0.01 },
+    } );
+    expect( added.status ).toBe( 201 );
+    expect( await added.json() ).toEqual( {
+      address: P2WPKH,
+      label: "hot",
+      rules: { minBtc: 0.01 },
+    } );
+    expect( (await call( "POST", "/watch", { address: P2WPKH } )).status ).toBe( 409 );
+
+    const relabeled = await call( "PATCH", `/watch/${ P2WPKH }`, { label: "shop", rules: null } );
+    expect( await relabeled.json() ).toEqual( { address: P2WPKH, label: "shop" } );
+    expect( (await call( "DELETE", `/watch/${ P2PKH }` )).status ).toBe( 204 );
+    expect( (await call( "DELETE", `/watch/${ P2PKH }` )).status ).toBe( 404 );
+
+    const listed = await (await call( "GET", "/watch" )).json();
+    expect( listed ).toEqual( { addresses: [ { address: P2WPKH, label: "shop" } ] } );
+    // The key entry is kept, and each change was applied from the saved file
+    expect( JSON.parse( fs.readFileSync( filePath, "utf8" ) ) ).toEqual( [
+      { xpub: ZPUB, label: "cold" },
+      { address: P2WPKH, label: "shop" },
+    ] );
+    expect( applied ).toHaveLength( 3 );
+    const last = applied[2];
+    expect( last.watch ).toEqual( [ { address: P2WPKH, label: "shop" } ] );
+    expect( last.keys.map( (k) => ("xpub" in k ? k.xpub : k.desc) ) ).toEqual( [ ZPUB ] );
+  } );
+
+  it( "validates addresses and bodies, leaving the file untouched", async () => {
+    const filePath = tmpFile();
+    const { applied, call } = startApi( filePath );
+    const testnet = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+    const cases: [ unknown, RegExp ][] = [
+      [ { address: "not-an-address" }, /Invalid address/ ],
+      [ { address: testnet }, /network mismatch/ ],
+      [ { address: P2WPKH, label: 5 }, /label/ ],
+      [ { address: P2WPKH, rules: { direction: "up" } }, /direction/ ],
+      [ [ P2WPKH ], /JSON object/ ],
+    ];
+    for ( const [ body, error ] of cases ) {
+      const res = await call( "POST", "/watch", body );
+      expect( res.status ).toBe( 400 );
+      expect( ((await res.json()) as { error: string }).error ).toMatch( error );
+    }
+    const huge = await call( "POST", "/watch", { address: P2WPKH, label: "x".repeat( 70_000 ) } );
+    expect( huge.status ).toBe( 413 );
+    expect( (await call( "PUT", "/watch" )).status ).toBe( 405 );
+    expect( (await call( "GET", "/other" )).status ).toBe( 404 );
+    expect( fs.existsSync( filePath ) ).toBe( false );
+    expect( applied ).toHaveLength( 0 );
+  } );
+} );
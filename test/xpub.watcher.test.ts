@@ -0,0 +1,232 @@
+import { describe, expect, it } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  buildWatchIndexCache,
+  findAddressActivities,
+  parseWatchFile
+} from "@/app/helpers/bitcoin";
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { EventService } from "@/app/services/EventService";
+import { registerEventPipeline } from "@/app/services/Pipeline";
+import { XpubWatcher } from "@/app/services/XpubWatcher";
+import { Hd } from "@/infrastructure/bitcoin";
+import type { AddressActivity, ParsedBlock } from "@/types/blockchain";
+
+// BIP84 test vector account m/84'/0'/0'
+const ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+
+function tmpFile(): string {
+  const dir = fs.mkdtempSync( path.join( os.tmpdir(), "btc-xpub-" ) );
+  return path.join( dir, "xpub-state.json" );
+}
+
+const RECEIVE_0 = "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu";
+const RECEIVE_1 = "bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g";
+const CHANGE_0 = "bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el";
+
+// The same account as a multipath descriptor: branch 0 receives, branch 1 is change
+const BODY = `wpkh([73c5da0a/84'/0'/0']${ ZPUB }/<0;1>/*)`;
+const DESC = `${ BODY }#${ Hd.descriptorChecksum( BODY ) }`;
+
+function activityAt(address: string): AddressActivity {
+  return { address, txid: "t", direction: "in", valueBtc: 1 };
+}
+
+describe( "XpubWatcher", () => {
+  it( "derives gapLimit addresses per chain with their paths", () => {
+    const watcher = new XpubWatcher( [ { xpub: ZPUB, label: "Cold" } ], {
+      network: "mainnet",
+      gapLimit: 2,
+    } );
+    expect( watcher.addresses() ).toEqual( [
+      {
+        address: RECEIVE_0,
+        xpub: ZPUB,
+        xpubLabel: "Cold",
+        derivationPath: "m/84'/0'/0'/0/0",
+      },
+      {
+        address: RECEIVE_1,
+        xpub: ZPUB,
+        xpubLabel: "Cold",
+        derivationPath: "m/84'/0'/0'/0/1",
+      },
+      expect.objectContaining( { derivationPath: "m/84'/0'/0'/1/0" } ),
+      expect.objectContaining( { derivationPath: "m/84'/0'/0'/1/1" } ),
+    ] );
+  } );
+
+  it( "extends the window past a used address and remembers it across restarts", () => {
+    const stateFile = tmpFile();
+    const opts = { network: "mainnet" as const, gapLimit: 2, stateFile };
+    const watcher = new XpubWatcher( [ { xpub: ZPUB } ], opts );
+    const added = watcher.recordActivity( [ activityAt( RECEIVE_1 ) ] );
+    expect( added.map( (w) => w.derivationPath ) ).toEqual( [
+      "m/84'/0'/0'/0/2",
+      "m/84'/0'/0'/0/3",
+    ] );
+    // Activity below the highest used index derives nothing more
+    expect( watcher.recordActivity( [ activityAt( RECEIVE_0 ) ] ) ).toEqual( [] );
+
+    const restarted = new XpubWatcher( [ { xpub: ZPUB } ], opts );
+    expect( restarted.addresses().map( (w) => w.address ) ).toEqual(
+      watcher.addresses().map( (w) => w.address )
+    );
+  } );
+
+  it( "keeps extended ranges when the entries are reloaded", () => {
+    const watcher = new XpubWatcher( [ { xpub: ZPUB } ], { network: "mainnet", gapLimit: 1 } );
+    watcher.recordActivity( [ activityAt( RECEIVE_0 ) ] );
+    watcher.setEntries( [ { xpub: ZPUB, label: "Renamed" } ] );
+    const list = watcher.addresses();
+    expect( list.map( (w) => w.derivationPath ) ).toEqual( [
+      "m/84'/0'/0'/0/0",
+      "m/84'/0'/0'/0/1",
+      "m/84'/0'/0'/1/0",
+    ] );
+    expect( list.every( (w) => w.xpubLabel === "Renamed" ) ).toBe( true );
+    watcher.setEntries( [] );
+    expect( watcher.addresses() ).toEqual( [] );
+  } );
+
+  it( "rescans a block after activity extends the gap, reporting label and path", async () => {
+    // Payments to receive indexes 1 and 3: index 3 is only watched once index 1 is seen
+    const wide = new XpubWatcher( [ { xpub: ZPUB } ], { network: "mainnet", gapLimit: 4 } );
+    const receive3 = wide.addresses()[3].address;
+    const block: ParsedBlock = {
+      hash: "hx",
+      height: 5,
+      time: 0,
+      transactions: [
+        {
+          txid: "tx1",
+          inputs: [],
+          outputs: [ { address: RECEIVE_1, valueBtc: 0.1 } ],
+        },
+        { txid: "tx2", inputs: [], outputs: [ { address: receive3, valueBtc: 0.2 } ] },
+      ],
+    };
+    const svc = new BitcoinService( {} as any, { parseRawBlocks: false } );
+    const btc = {
+      checkTransactions: svc.checkTransactions.bind( svc ),
+      setWatchedAddresses: svc.setWatchedAddresses.bind( svc ),
+      parseBlockByHash: async () => block,
+    } as any;
+    const currency = { getPair: async () => ({ rate: 1000 }) } as any;
+    const cfg = {
+      watch: [],
+      worker: { id: "w1", members: [ "w1" ] },
+      maxEventQueueSize: 10,
+    } as any;
+    const xpubs = new XpubWatcher( [ { xpub: ZPUB, label: "Cold" } ], {
+      network: "mainnet",
+      gapLimit: 2,
+    } );
+
+    const events = new EventService( { maxQueueSize: 10 } );
+    const found: AddressActivity[] = [];
+    events.subscribe( {
+      event: "AddressActivityFound",
+      handler: (ev) => void found.push( ev.activity ),
+    } );
+    const watch = registerEventPipeline( events, { btc, currency, xpubs }, cfg );
+    expect( watch ).toHaveLength( 4 );
+
+    await events.publish( {
+      type: "BlockDetected",
+      timestamp: new Date().toISOString(),
+      height: 5,
+      hash: "hx",
+      dedupeKey: "BlockDetected:5:hx",
+    } );
+    await new Promise( (r) => setTimeout( r, 50 ) );
+
+    expect( found.map( (a) => [ a.txid, a.xpubLabel, a.derivationPath ] ) ).toEqual( [
+      [ "tx1", "Cold", "m/84'/0'/0'/0/1" ],
+      [ "tx2", "Cold", "m/84'/0'/0'/0/3" ],
+    ] );
+    // Derived labels stay out of OP_RETURN label matching
+    expect( found.every( (a) => a.label === undefined ) ).toBe( true );
+    expect( watch ).toHaveLength( 8 );
+  } );
+
+  it( "derives ranged descriptors from their next index and range", () => {
+    const watcher = new XpubWatcher(
+      [ { desc: DESC, label: "Vault", range: [ 0, 2 ], nextIndex: 2 } ],
+      { network: "mainnet", gapLimit: 1 }
+    );
+    const list = watcher.addresses();
+    // Indexes 0..2 from the range; used up to 1, so one more past it is already covered
+    expect( list.map( (w) => w.derivationPath ) ).toEqual( [
+      "m/84'/0'/0'/0/0",
+      "m/84'/0'/0'/0/1",
+      "m/84'/0'/0'/0/2",
+      "m/84'/0'/0'/1/0",
+      "m/84'/0'/0'/1/1",
+      "m/84'/0'/0'/1/2",
+    ] );
+    expect( list[3] ).toEqual( {
+      address: CHANGE_0,
+      descriptor: DESC,
+      xpubLabel: "Vault",
+      derivationPath: "m/84'/0'/0'/1/0",
+    } );
+    const added = watcher.recordActivity( [ activityAt( list[5].address ) ] );
+    expect( added.map( (w) => w.derivationPath ) ).toEqual( [ "m/84'/0'/0'/1/3" ] );
+    const fixed = { desc: `wpkh(${ ZPUB }/0/0)` };
+    expect( () => watcher.setEntries( [ fixed ] ) ).toThrow( /not ranged/ );
+  } );
+} );
+
+describe( "parseWatchFile", () => {
+  it( "imports Bitcoin Core listdescriptors output", () => {
+    const fixed = `addr(${ RECEIVE_0 })`;
+    const file = parseWatchFile( {
+      wallet_name: "vault",
+      descriptors: [
+        { desc: DESC, timestamp: 0, active: true, range: [ 0, 999 ], next_index: 4 },
+        { desc: `${ fixed }#${ Hd.descriptorChecksum( fixed ) }`, timestamp: 0, active: false },
+      ],
+    }, "mainnet" );
+    expect( file?.keys ).toEqual( [
+      { desc: DESC, label: "vault", range: [ 0, 999 ], nextIndex: 4, gapLimit: undefined },
+    ] );
+    expect( file?.watch.map( (w) => [ w.address, w.xpubLabel ] ) ).toEqual( [
+      [ RECEIVE_0, "vault" ],
+    ] );
+  } );
+
+  it( "expands descriptor addresses and rejects bad checksums", () => {
+    const file = parseWatchFile( [
+      { address: RECEIVE_1, label: "Hot" },
+      { address: BODY, label: "Vault", range: 1 },
+      { xpub: ZPUB },
+    ], "mainnet" );
+    expect( file?.watch.map( (w) => w.address ) ).toEqual( [
+      RECEIVE_1,
+      RECEIVE_0,
+      RECEIVE_1,
+      CHANGE_0,
+      expect.any( String ),
+    ] );
+    expect( file?.watch[0] ).toEqual( { address: RECEIVE_1, label: "Hot" } );
+    expect( file?.keys ).toHaveLength( 1 );
+    const block: ParsedBlock = {
+      hash: "h",
+      height: 1,
+      time: 0,
+      transactions: [ { txid: "t", inputs: [], outputs: [ { address: CHANGE_0, valueBtc: 1 } ] } ],
+    };
+    const found = findAddressActivities( block, buildWatchIndexCache( file?.watch ?? [] ) );
+    expect( found.map( (a) => [ a.xpubLabel, a.derivationPath ] ) ).toEqual( [
+      [ "Vault", "m/84'/0'/0'/1/0" ],
+    ] );
+    expect( parseWatchFile( { addresses: [] } ) ).toBeUndefined();
+    const corrupted = `${ DESC.slice( 0, -1 ) }x`;
+    expect( () => parseWatchFile( [ { desc: corrupted } ], "mainnet" ) ).toThrow( /checksum/ );
+  } );
+} );
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "bun:test";
+import net from "net";
+
+import { BitcoinService } from "@/app/services/BitcoinService";
+import { BlockProducer } from "@/app/services/BlockProducer";
+import { EventService } from "@/app/services/EventService";
+import { ZmqBlockSource } from "@/app/services/ZmqBlockSource";
+import { ZMQ_MAX_FRAME_BYTES } from "@/infrastructure/bitcoin/constants";
+import { decodeFrames } from "@/infrastructure/bitcoin/zmq/Zmtp";
+
+function frame(flags: number, body: Buffer): Buffer {
+  return Buffer.concat( [ Buffer.from( [ flags, body.length ] ), body ] );
+}
+
+// Local stand-in for bitcoind's PUB socket, speaking ZMTP 3.0 with NULL security
+async function startPublisher() {
+  const clients = new Set<net.Socket>();
+  const subscriptions: string[] = [];
+  const server = net.createServer( (socket) => {
+    clients.add( socket );
+    socket.on( "close", () => clients.delete( socket ) );
+    socket.on( "error", () => undefined );
+    const greeting = Buffer.alloc( 64 );
+    greeting[0] = 0xff;
+    greeting[9] = 0x7f;
+    greeting[10] = 3;
+    greeting.write( "NULL", 12, "ascii" );
+    greeting[32] = 1;
+    socket.write( greeting );
+    const ready = Buffer.concat( [
+      Buffer.from( [ 5 ] ), Buffer.from( "READY" ),
+      Buffer.from( [ 11 ] ), Buffer.from( "Socket-Type" ),
+      Buffer.from( [ 0, 0, 0, 3 ] ), Buffer.from( "PUB" ),
+    ] );
+    socket.write( frame( 0x04, ready ) );
+    let pending: Buffer = Buffer.alloc( 0 );
+    let greeted = false;
+    socket.on( "data", (chunk: Buffer) => {
+      pending = Buffer.concat( [ pending, chunk ] );
+      if ( !greeted ) {
+        if ( pending.length < 64 ) return;
+        greeted = true;
+        pending = pending.subarray( 64 );
+      }
+      const { frames, rest } = decodeFrames( pending );
+      pending = rest;
+      for ( const f of frames ) {
+        if ( !f.command && f.body[0] === 1 ) subscriptions.push( f.body.subarray( 1 ).toString() );
+      }
+    } );
+  } );
+  await new Promise<void>( (r) => server.listen( 0, "127.0.0.1", () => r() ) );
+  const port = (server.address() as net.AddressInfo).port;
+  return {
+    url: `tcp://127.0.0.1:${ port }`,
+    subscriptions,
+    /** chunkSize: send the message in pieces, as a large rawblock arrives over TCP */
+    async publish(topic: string, body: Buffer, sequence: number, chunkSize?: number) {
+      const seq = Buffer.alloc( 4 );
+      seq.writeUInt32LE( sequence, 0 );
+      // bodies above 255 bytes need the 8-byte size form
+      const long = Buffer.alloc( 9 );
+      long[0] = 0x03;
+      long.writeBigUInt64BE( BigInt( body.length ), 1 );
+      const msg = Buffer.concat( [
+        frame( 0x01, Buffer.from( topic ) ),
+        body.length > 255 ? Buffer.concat( [ long, body ] ) : frame( 0x01, body ),
+        frame( 0x00, seq ),
+      ] );
+      const step = chunkSize ?? msg.length;
+      for ( let offset = 0; offset < msg.length; offset += step ) {
+        for ( const c of clients ) c.write( msg.subarray( offset, offset + step ) );
+        if ( chunkSize ) await new Promise( (r) => setTimeout( r, 1 ) );
+      }
+    },
+    write(bytes: Buffer) {
+      for ( const c of clients ) c.write( bytes );
+    },
+    dropClients() {
+      for ( const c of clients ) c.destroy();
+    },
+    close(): Promise<void> {
+      for ( const c of clients ) c.destroy();
+      return new Promise( (r) => server.close( () => r() ) );
+    },
+  };
+}
+
+// One coinbase paying 50 BTC to an OP_RETURN output; the 200-byte scriptSig makes the
+// payload large enough for the long frame form
+function rawBlock(): Buffer {
+  const header = Buffer.alloc( 80 );
+  header.writeUInt32LE( 1, 0 );
+  header.writeUInt32LE( 1700000000, 68 );
+  const value = Buffer.alloc( 8 );
+  value.writeBigUInt64LE( 5_000_000_000n );
+  const coinbaseIn = `${ "00".repeat( 32 ) }ffffffffc8${ "00".repeat( 200 ) }ffffffff`;
+  const tx = Buffer.concat( [
+    Buffer.from( `0100000001${ coinbaseIn }01`, "hex" ),
+    value,
+    Buffer.from( "046a02686900000000", "hex" ),
+  ] );
+  return Buffer.concat( [ header, Buffer.from( [ 1 ] ), tx ] );
+}
+
+async function until(check: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const started = Date.now();
+  while ( !check() ) {
+    if ( Date.now() - started > timeoutMs ) throw new Error( "condition not met in time" );
+    await new Promise( (r) => setTimeout( r, 5 ) );
+  }
+}
+
+describe( "ZMQ block source", () => {
+  it( "subscribes over ZMTP and wakes the waiter on hashblock", async () => {
+    const pub = await startPublisher();
+    const source = new ZmqBlockSource( { acceptRawBlock: () => "" }, { url: pub.url } );
+    source.start();
+    try {
+      await until( () => source.isConnected() && pub.subscriptions.length > 0 );
+      expect( pub.subscriptions ).toEqual( [ "hashblock" ] );
+      const waiting = source.waitForBlock( 2000 );
+      await pub.publish( "hashblock", Buffer.alloc( 32, 0xab ), 0 );
+      expect( await waiting ).toBe( true );
+      // nothing pending: times out
+      expect( await source.waitForBlock( 20 ) ).toBe( false );
+    } finally {
+      source.stop();
+      await pub.close();
+    }
+  } );
+
+  it( "hands rawblock payloads to the raw parser without refetching the block", async () => {
+    const pub = await startPublisher();
+    let rawFetches = 0;
+    const rpc = {
+      async getBlockRawByHash() {
+        rawFetches += 1;
+        throw new Error( "should use the pushed block" );
+      },
+      async getBlockHeader() {
+        return { height: 7, time: 1700000000 };
+      },
+    };
+    const btc = new BitcoinService( rpc as any, { parseRawBlocks: true, network: "regtest" } );
+    const source = new ZmqBlockSource( btc, { url: pub.url, topic: "rawblock" } );
+    source.start();
+    try {
+      await until( () => pub.subscriptions.length > 0 );
+      const waiting = source.waitForBlock( 2000 );
+      await pub.publish( "rawblock", rawBlock(), 5 );
+      expect( await waiting ).toBe( true );
+      const hash = "4d5f5c2e76ecff8ffd3fba1789d61fb6b48e4e1cf978dc71d6d1668b68ab22e1";
+      const block = await btc.parseBlockByHash( hash );
+      expect( block.height ).toBe( 7 );
+      expect( block.transactions[0].outputs[0].opReturnUtf8 ).toBe( "hi" );
+      expect( rawFetches ).toBe( 0 );
+    } finally {
+      source.stop();
+      await pub.close();
+    }
+  } );
+
+  it( "reassembles a rawblock frame sent in small chunks", async () => {
+    const pub = await startPublisher();
+    const received: Buffer[] = [];
+    const btc = {
+      acceptRawBlock(raw: Buffer) {
+        received.push( raw );
+        return "";
+      },
+    };
+    const source = new ZmqBlockSource( btc, { url: pub.url, topic: "rawblock" } );
+    source.start();
+    try {
+      await until( () => pub.subscriptions.length > 0 );
+      const raw = rawBlock();
+      await pub.publish( "rawblock", raw, 1, 7 );
+      await until( () => received.length > 0 );
+      expect( received ).toEqual( [ raw ] );
+    } finally {
+      source.stop();
+      await pub.close();
+    }
+  } );
+
+  it( "drops the connection when a frame announces more than the limit", async () => {
+    const pub = await startPublisher();
+    const source = new ZmqBlockSource(
+      { acceptRawBlock: () => "" },
+      { url: pub.url, reconnectDelayMs: 60000 }
+    );
+    source.start();
+    try {
+      await until( () => source.isConnected() );
+      const head = Buffer.alloc( 9 );
+      head[0] = 0x03;
+      head.writeBigUInt64BE( BigInt( ZMQ_MAX_FRAME_BYTES + 1 ), 1 );
+      // Only the header: the subscriber must not wait for the body
+      pub.write( head );
+      await until( () => !source.isConnected() );
+      expect( () => decodeFrames( head ) ).toThrow( /exceeds/ );
+    } finally {
+      source.stop();
+      await pub.close();
+    }
+  } );
+
+  it( "lets the producer fall back to polling when the socket drops", async () => {
+    const pub = await startPublisher();
+    const source = new ZmqBlockSource(
+      { acceptRawBlock: () => "" },
+      { url: pub.url, reconnectDelayMs: 60000 }
+    );
+    source.start();
+    const chain = { tip: 10, polls: 0, halted: false };
+    const btc = {
+      async getTipHeight() {
+        return chain.tip;
+      },
+      async awaitNewHeight(): Promise<number> {
+        // park the producer loop once the test is done
+        if ( chain.halted ) return new Promise( () => undefined );
+        chain.polls += 1;
+        await new Promise( (r) => setTimeout( r, 5 ) );
+        chain.tip += 1;
+        return chain.tip;
+      },
+      async getBlockHashRange(from: number, to: number) {
+        const out = [];
+        for ( let h = from; h <= to; h++ ) out.push( { height: h, hash: `b${ h }` } );
+        return out;
+      },
+    };
+    const events = new EventService( { maxQueueSize: 100 } );
+    const detected: number[] = [];
+    events.subscribe( {
+      event: "BlockDetected", handler: (e) => {
+        detected.push( e.height );
+      }
+    } );
+    const producer = new BlockProducer( btc as any, events, { notifier: source } );
+    try {
+      await until( () => source.isConnected() );
+      void producer.run();
+      await new Promise( (r) => setTimeout( r, 20 ) );
+      chain.tip = 11;
+      await pub.publish( "hashblock", Buffer.alloc( 32, 1 ), 0 );
+      await until( () => detected.includes( 11 ) );
+      expect( chain.polls ).toBe( 0 );
+
+      pub.dropClients();
+      await until( () => chain.polls > 0 && detected.includes( 12 ) );
+      expect( source.isConnected() ).toBe( false );
+    } finally {
+      chain.halted = true;
+      source.stop();
+      await events.waitUntilIdle( 5 );
+      await pub.close();
+    }
+  } );
+} );